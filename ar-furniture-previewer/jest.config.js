@@ -17,6 +17,9 @@ module.exports = {
     '^@infrastructure/(.*)$': '<rootDir>/src/infrastructure/$1',
     '^@assets/(.*)$': '<rootDir>/assets/$1',
     '^@tests/(.*)$': '<rootDir>/tests/$1',
+    '^react-native-fs$': '<rootDir>/tests/mocks/react-native-fs.ts',
+    '^@react-native-async-storage/async-storage$':
+      '@react-native-async-storage/async-storage/jest/async-storage-mock',
   },
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
@@ -32,7 +35,7 @@ module.exports = {
       statements: 80,
     },
   },
-  testPathIgnorePatterns: ['/node_modules/', '/android/', '/ios/', '/web/'],
+  testPathIgnorePatterns: ['/node_modules/', '/android/', '/ios/', '/web/', '/tests/e2e/'],
   moduleDirectories: ['node_modules', 'src'],
   clearMocks: true,
   verbose: true,
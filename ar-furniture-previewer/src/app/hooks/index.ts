@@ -0,0 +1,12 @@
+/**
+ * Hook Exports
+ *
+ * Barrel export for app hooks.
+ *
+ * @module app/hooks
+ */
+
+export { useSceneDraftRecovery } from './useSceneDraftRecovery';
+export type { SceneDraftRecovery } from './useSceneDraftRecovery';
+export { useARBridge } from './useARBridge';
+export type { ARBridgeConnection } from './useARBridge';
@@ -0,0 +1,38 @@
+/**
+ * AR Bridge Hook
+ *
+ * Keeps the AR bridge installed for as long as the AR screen is mounted.
+ *
+ * @module app/hooks/useARBridge
+ */
+
+import { useEffect, useMemo, useRef, type RefObject } from 'react';
+import type { WebView } from 'react-native-webview';
+import { arWebViewBridge } from '@infrastructure/webview/ARWebViewBridge';
+import {
+  getBridgeWebViewProps,
+  installARBridge,
+  type BridgeWebViewProps,
+} from '@infrastructure/webview/bridgeSetup';
+
+/**
+ * What the AR WebView needs to talk to the bridge.
+ */
+export interface ARBridgeConnection {
+  /** Ref for the AR WebView */
+  webViewRef: RefObject<WebView | null>;
+  /** Event props to spread onto the AR WebView */
+  webViewProps: BridgeWebViewProps;
+}
+
+/**
+ * Hook to connect the AR WebView to the shared bridge.
+ */
+export function useARBridge(): ARBridgeConnection {
+  const webViewRef = useRef<WebView>(null);
+  const webViewProps = useMemo(() => getBridgeWebViewProps(arWebViewBridge), []);
+
+  useEffect(() => installARBridge(webViewRef, arWebViewBridge), []);
+
+  return { webViewRef, webViewProps };
+}
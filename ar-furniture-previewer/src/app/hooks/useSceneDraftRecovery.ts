@@ -0,0 +1,66 @@
+/**
+ * Scene Draft Recovery Hook
+ *
+ * Offers the layout autosaved by a previous run and starts autosave once
+ * the user has decided what to do with it.
+ *
+ * @module app/hooks/useSceneDraftRecovery
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { SceneDraft } from '@core/types/scene.types';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { clearSceneDraft } from '@infrastructure/storage/asyncStorageHelpers';
+import { installSceneAutosave, loadRecoverableDraft } from '@infrastructure/storage/sceneAutosave';
+
+/**
+ * Draft recovery state and actions.
+ */
+export interface SceneDraftRecovery {
+  /** Unsaved layout from a previous run, until restored or discarded */
+  draft: SceneDraft | null;
+  /** Bring the draft back into the scene being edited */
+  restoreDraft: () => void;
+  /** Throw the draft away */
+  discardDraft: () => void;
+}
+
+/**
+ * Hook to recover the unsaved layout and keep autosave running.
+ */
+export function useSceneDraftRecovery(): SceneDraftRecovery {
+  const [draft, setDraft] = useState<SceneDraft | null>(null);
+  const [checked, setChecked] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadRecoverableDraft().then(found => {
+      if (cancelled) return;
+      setDraft(found);
+      setChecked(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave would replace the draft, so it waits for the user's decision
+  useEffect(() => {
+    if (!checked || draft) return undefined;
+    return installSceneAutosave();
+  }, [checked, draft]);
+
+  const restoreDraft = useCallback(() => {
+    if (draft) useSceneStore.getState().restoreDraft(draft);
+    setDraft(null);
+  }, [draft]);
+
+  const discardDraft = useCallback(() => {
+    setDraft(null);
+    clearSceneDraft().catch((error: unknown) => {
+      console.warn('[useSceneDraftRecovery] Failed to discard draft:', error);
+    });
+  }, []);
+
+  return { draft, restoreDraft, discardDraft };
+}
@@ -7,11 +7,18 @@
  * @module app/navigation/RootNavigator
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { View, Text, StyleSheet } from 'react-native';
 import { THEME } from '@core/constants/theme';
+import { modelStorageService } from '@core/services/ModelStorageService';
+import { sceneStorageService } from '@core/services/SceneStorageService';
+import { storageIntegrityService } from '@core/services/StorageIntegrityService';
+import { useModelStore } from '@core/stores/useModelStore';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { useSettingsStore } from '@core/stores/useSettingsStore';
+import { storageMigrator } from '@infrastructure/storage/migrations';
 
 // Placeholder screens - will be replaced with actual implementations
 import { ARScreen } from '../screens/ARScreen';
@@ -47,6 +54,41 @@ function TabIcon({ name, focused }: { name: string; focused: boolean }): React.R
  * Root navigator component.
  */
 export function RootNavigator(): React.ReactElement {
+  // The library and saved scenes are listed on several tabs, so they load once at launch
+  useEffect(() => {
+    void (async () => {
+      // Stored data is brought up to date before anything reads it
+      const errors = await storageMigrator.migrateAll();
+      for (const error of errors) console.warn('[RootNavigator] Storage migration failed:', error);
+
+      try {
+        await useSettingsStore.persist.rehydrate();
+      } catch (error) {
+        console.warn('[RootNavigator] Failed to load settings:', error);
+      }
+      modelStorageService.initialize().catch((error: unknown) => {
+        console.warn('[RootNavigator] Failed to load models:', error);
+        useModelStore.getState().setError('Models could not be loaded');
+      });
+      sceneStorageService.initialize().catch((error: unknown) => {
+        console.warn('[RootNavigator] Failed to load saved scenes:', error);
+        useSceneStore.getState().setError('Saved scenes could not be loaded');
+      });
+      // Files and indexes can disagree after a crash mid-write
+      storageIntegrityService
+        .checkAfterCrash()
+        .then(result => {
+          for (const { issue, error } of result?.failed ?? []) {
+            console.warn(`[RootNavigator] Could not repair ${issue.type}:`, error);
+          }
+        })
+        .catch((error: unknown) => {
+          console.warn('[RootNavigator] Storage integrity check failed:', error);
+        });
+    })();
+    return storageIntegrityService.trackSession();
+  }, []);
+
   return (
     <NavigationContainer>
       <Tab.Navigator
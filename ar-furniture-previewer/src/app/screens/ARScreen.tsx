@@ -10,14 +10,38 @@
 import React from 'react';
 import { View, Text, StyleSheet, SafeAreaView } from 'react-native';
 import { THEME } from '@core/constants/theme';
+import { Button, Modal, ModalActions } from '../components/common';
+import { useARBridge, useSceneDraftRecovery } from '../hooks';
 
 /**
  * AR screen placeholder component.
  * Will contain WebView with 8th Wall AR experience.
  */
 export function ARScreen(): React.ReactElement {
+  const { draft, restoreDraft, discardDraft } = useSceneDraftRecovery();
+  // The AR WebView takes webViewRef and webViewProps once its page is bundled
+  useARBridge();
+
   return (
     <SafeAreaView style={styles.container}>
+      {/* Back press keeps the work; only an explicit choice discards it */}
+      <Modal
+        visible={draft !== null}
+        onClose={restoreDraft}
+        title="Restore unsaved layout?"
+        showCloseButton={false}
+        closeOnBackdrop={false}
+      >
+        <Text style={styles.draftMessage}>
+          {draft?.currentScene
+            ? `Changes to "${draft.currentScene.name}" were not saved before the app closed.`
+            : `A layout with ${draft?.placedObjects.length ?? 0} items was not saved before the app closed.`}
+        </Text>
+        <ModalActions>
+          <Button title="Discard" variant="ghost" onPress={discardDraft} />
+          <Button title="Restore" onPress={restoreDraft} />
+        </ModalActions>
+      </Modal>
       <View style={styles.content}>
         <View style={styles.placeholder}>
           <Text style={styles.title}>AR View</Text>
@@ -63,6 +87,10 @@ const styles = StyleSheet.create({
     marginBottom: THEME.spacing.md,
     textAlign: 'center',
   },
+  draftMessage: {
+    ...THEME.typography.body,
+    color: THEME.colors.textSecondary,
+  },
   description: {
     ...THEME.typography.caption,
     color: THEME.colors.textSecondary,
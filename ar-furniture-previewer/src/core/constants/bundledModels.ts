@@ -0,0 +1,127 @@
+/**
+ * Bundled Models
+ *
+ * Furniture shipped with the app (FR-050), installed into the library on
+ * first launch. Files live in assets/models and thumbnails in
+ * assets/models/thumbnails. When changing this list, raise the entry's
+ * revision for changed files and the manifest version for any change, so
+ * existing installs pick it up on upgrade.
+ *
+ * @module core/constants/bundledModels
+ */
+
+import type { BundledModelManifest } from '@core/types/model.types';
+
+/**
+ * Bundled model catalogue for this app version.
+ */
+export const BUNDLED_MODEL_MANIFEST: BundledModelManifest = {
+  version: 1,
+  models: [
+    {
+      id: 'bundled-chair',
+      revision: 1,
+      name: 'Dining Chair',
+      category: 'CHAIR',
+      file: 'chair.glb',
+      thumbnail: 'chair.jpg',
+      scale: 1,
+      metadata: {
+        fileSize: 4856,
+        vertexCount: 144,
+        textureResolution: null,
+        hasAnimations: false,
+        boundingBox: {
+          min: [-0.225, 0, -0.225],
+          max: [0.225, 0.9, 0.225],
+          center: [0, 0.45, 0],
+          size: [0.45, 0.9, 0.45],
+        },
+      },
+    },
+    {
+      id: 'bundled-table',
+      revision: 1,
+      name: 'Dining Table',
+      category: 'TABLE',
+      file: 'table.glb',
+      thumbnail: 'table.jpg',
+      scale: 1,
+      metadata: {
+        fileSize: 4164,
+        vertexCount: 120,
+        textureResolution: null,
+        hasAnimations: false,
+        boundingBox: {
+          min: [-0.6, 0, -0.375],
+          max: [0.6, 0.75, 0.375],
+          center: [0, 0.375, 0],
+          size: [1.2, 0.75, 0.75],
+        },
+      },
+    },
+    {
+      id: 'bundled-sofa',
+      revision: 1,
+      name: 'Three-Seat Sofa',
+      category: 'SOFA',
+      file: 'sofa.glb',
+      thumbnail: 'sofa.jpg',
+      scale: 1,
+      metadata: {
+        fileSize: 7464,
+        vertexCount: 216,
+        textureResolution: null,
+        hasAnimations: false,
+        boundingBox: {
+          min: [-1, 0, -0.45],
+          max: [1, 0.84, 0.475],
+          center: [0, 0.42, 0.0125],
+          size: [2, 0.84, 0.925],
+        },
+      },
+    },
+    {
+      id: 'bundled-lamp',
+      revision: 1,
+      name: 'Floor Lamp',
+      category: 'LAMP',
+      file: 'lamp.glb',
+      thumbnail: 'lamp.jpg',
+      scale: 1,
+      metadata: {
+        fileSize: 3620,
+        vertexCount: 72,
+        textureResolution: null,
+        hasAnimations: false,
+        boundingBox: {
+          min: [-0.2, 0, -0.2],
+          max: [0.2, 1.58, 0.2],
+          center: [0, 0.79, 0],
+          size: [0.4, 1.58, 0.4],
+        },
+      },
+    },
+    {
+      id: 'bundled-cabinet',
+      revision: 1,
+      name: 'Cabinet',
+      category: 'CABINET',
+      file: 'cabinet.glb',
+      thumbnail: 'cabinet.jpg',
+      scale: 1,
+      metadata: {
+        fileSize: 4888,
+        vertexCount: 120,
+        textureResolution: null,
+        hasAnimations: false,
+        boundingBox: {
+          min: [-0.41, 0, -0.235],
+          max: [0.41, 1.03, 0.24],
+          center: [0, 0.515, 0.0025],
+          size: [0.82, 1.03, 0.475],
+        },
+      },
+    },
+  ],
+};
@@ -20,8 +20,10 @@ export type { ThemeMode } from './theme';
 
 export {
   MODEL_LIMITS,
+  MODEL_SIZE_RANGES,
   SCENE_LIMITS,
   AR_LIMITS,
+  BRIDGE_LIMITS,
   PERFORMANCE_LIMITS,
   STORAGE_WARNINGS,
   EXPORT,
@@ -34,8 +36,11 @@ export {
   getScenePaths,
   getScanSessionPaths,
   getImportStagingPath,
+  getMigrationBackupKey,
   BUNDLED_ASSETS,
   STORAGE_KEYS,
 } from './paths';
 
 export type { StorageKey } from './paths';
+
+export { BUNDLED_MODEL_MANIFEST } from './bundledModels';
@@ -6,6 +6,8 @@
  * @module core/constants/limits
  */
 
+import type { ModelCategory } from '@core/types/model.types';
+
 /**
  * Model storage limits.
  */
@@ -19,6 +21,9 @@ export const MODEL_LIMITS = {
   /** Maximum thumbnail size in bytes (500KB) */
   MAX_THUMBNAIL_SIZE_BYTES: 500 * 1024,
 
+  /** Texture edge length above which mobile GPUs may fail or downscale */
+  MAX_TEXTURE_DIMENSION: 4096,
+
   /** Thumbnail dimensions (256x256 per FR-016) */
   THUMBNAIL_SIZE: 256,
 
@@ -35,6 +40,19 @@ export const MODEL_LIMITS = {
   MAX_SCAN_PHOTOS: 40,
 } as const;
 
+/**
+ * Plausible real-world size of each furniture category: the longest side
+ * in metres. Used to spot files authored in the wrong unit.
+ */
+export const MODEL_SIZE_RANGES: Record<ModelCategory, { min: number; max: number }> = {
+  CHAIR: { min: 0.4, max: 1.6 },
+  TABLE: { min: 0.4, max: 3.5 },
+  SOFA: { min: 0.8, max: 4.5 },
+  CABINET: { min: 0.3, max: 3.0 },
+  LAMP: { min: 0.15, max: 2.5 },
+  CUSTOM: { min: 0.05, max: 6.0 },
+};
+
 /**
  * Scene storage limits.
  */
@@ -45,6 +63,15 @@ export const SCENE_LIMITS = {
   /** Maximum objects per scene (FR-006) */
   MAX_OBJECTS_PER_SCENE: 10,
 
+  /** Undo steps kept while editing a scene */
+  MAX_HISTORY_STEPS: 50,
+
+  /** Gesture updates closer together than this form one undo step (ms) */
+  HISTORY_COALESCE_MS: 500,
+
+  /** Quiet time after an edit before the draft is autosaved (ms) */
+  AUTOSAVE_DEBOUNCE_MS: 1000,
+
   /** Maximum scene name length */
   MAX_NAME_LENGTH: 100,
 
@@ -79,6 +106,35 @@ export const AR_LIMITS = {
 
   /** Surface detection timeout (SC-002) */
   SURFACE_DETECTION_TIMEOUT_MS: 5000,
+
+  /** Time to wait for AR_READY after INIT_AR (ms) */
+  INIT_TIMEOUT_MS: 15000,
+} as const;
+
+/**
+ * WebView bridge limits.
+ */
+export const BRIDGE_LIMITS = {
+  /** Chunk size for binary transfers, in base64 characters (256KB) */
+  TRANSFER_CHUNK_SIZE: 256 * 1024,
+
+  /** Time to wait for a chunk acknowledgement (ms) */
+  TRANSFER_CHUNK_TIMEOUT_MS: 5000,
+
+  /** Retries per chunk and per commit before a transfer fails */
+  TRANSFER_MAX_RETRIES: 3,
+
+  /** Maximum messages held while the WebView is not ready */
+  OUTBOUND_QUEUE_MAX: 100,
+
+  /** Time between heartbeat pings (ms) */
+  HEARTBEAT_INTERVAL_MS: 5000,
+
+  /** Time to wait for a heartbeat pong (ms) */
+  HEARTBEAT_TIMEOUT_MS: 3000,
+
+  /** Consecutive missed pongs before the WebView is considered lost */
+  HEARTBEAT_MAX_MISSED: 3,
 } as const;
 
 /**
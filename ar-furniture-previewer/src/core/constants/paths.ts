@@ -73,6 +73,11 @@ export const APP_PATHS = {
   get importStaging(): string {
     return `${BASE_PATHS.temp}/import_staging`;
   },
+
+  /** Bridge session recordings directory */
+  get recordings(): string {
+    return `${this.root}/recordings`;
+  },
 } as const;
 
 /**
@@ -156,10 +161,25 @@ export const STORAGE_KEYS = {
   SCENE_INDEX: '@ar_furniture/scene_index',
   /** App settings */
   SETTINGS: '@ar_furniture/settings',
+  /** useSettingsStore state, persisted by zustand as { state, version } */
+  SETTINGS_STORE: 'ar-furniture-settings',
   /** Onboarding completion flag */
   ONBOARDING: '@ar_furniture/onboarding_complete',
   /** Last AR session timestamp */
   LAST_AR_SESSION: '@ar_furniture/last_ar_session',
+  /** Autosaved scene draft */
+  SCENE_DRAFT: '@ar_furniture/scene_draft',
+  /** Bundled model revisions installed on this device */
+  BUNDLED_MODELS: '@ar_furniture/bundled_models',
+  /** Set while the app is in the foreground; still set at launch after a crash */
+  SESSION_ACTIVE: '@ar_furniture/session_active',
 } as const;
 
 export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
+
+/**
+ * Key holding the value of a storage key as it was before its last migration.
+ */
+export function getMigrationBackupKey(key: StorageKey): string {
+  return `${key}_backup`;
+}
@@ -14,3 +14,6 @@ export * from './constants';
 
 // Stores
 export * from './stores';
+
+// Services
+export * from './services';
@@ -0,0 +1,1041 @@
+/**
+ * AR Service
+ *
+ * Promise-based AR API for screens. Wraps the WebView bridge, waits for the
+ * engine's replies and keeps useARStore and useSceneStore in step with each
+ * operation, so feature code never handles raw bridge messages. Engine
+ * events are applied to the stores by storeSync, which must be installed.
+ * Per T048: Implement ARService wrapping WebViewBridge (ar-service.ts).
+ *
+ * @module core/services/ARService
+ */
+
+import type {
+  ARCapabilities,
+  ARErrorCode,
+  ModelErrorCode,
+  ScanErrorCode,
+  TrackingLimitedReason,
+  TrackingState,
+  TransformPayload,
+  Unsubscribe,
+} from '@core/types/webview.types';
+import type { CapturedPhoto, PlacedObject, ScanSession } from '@core/types/scene.types';
+import type {
+  ARError,
+  ARInitConfig,
+  ARPlacedObject,
+  ARSessionInfo,
+  ARSessionState,
+  CapturedScene,
+  CaptureSceneOptions,
+  DetectedSurface,
+  GestureType,
+  PlaceModelParams,
+  RestoreSceneParams,
+  RestoreSceneResult,
+  ScanProgressUpdate,
+  ScanResult,
+} from '@core/types/ar.types';
+import { AR_LIMITS, MODEL_LIMITS, PERFORMANCE_LIMITS, SCENE_LIMITS } from '@core/constants/limits';
+import { useARStore } from '@core/stores/useARStore';
+import { useModelStore } from '@core/stores/useModelStore';
+import { useSceneStore, type SceneCommand } from '@core/stores/useSceneStore';
+import {
+  arWebViewBridge,
+  BridgeError,
+  type ARWebViewBridge,
+} from '@infrastructure/webview/ARWebViewBridge';
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Why an AR service call was refused or failed locally.
+ */
+export type ARServiceErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'OBJECT_NOT_FOUND'
+  | 'SCAN_IN_PROGRESS'
+  | 'NO_ACTIVE_SCAN'
+  | 'SCAN_PHOTO_LIMIT'
+  | 'UNSUPPORTED'
+  | 'REQUEST_FAILED';
+
+/**
+ * Error thrown when a call is not valid in the current session state,
+ * or a request fails without an engine error code.
+ */
+export class ARServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ARServiceErrorCode,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'ARServiceError';
+  }
+}
+
+/**
+ * Error thrown when the AR session fails to start.
+ */
+export class ARSessionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ARErrorCode,
+    public readonly recoverable: boolean,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'ARSessionError';
+  }
+}
+
+/**
+ * Error thrown when a model cannot be placed.
+ */
+export class ModelPlacementError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ModelErrorCode,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'ModelPlacementError';
+  }
+}
+
+/**
+ * Error thrown when a scan step fails.
+ */
+export class ScanError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ScanErrorCode,
+    public readonly recoverable: boolean,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'ScanError';
+  }
+}
+
+/**
+ * Message of an unknown thrown value.
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Wrap a failed request that has no more specific error type.
+ */
+function toServiceError(action: string, error: unknown): Error {
+  if (
+    error instanceof ARServiceError ||
+    error instanceof ModelPlacementError ||
+    error instanceof ScanError
+  ) {
+    return error;
+  }
+  return new ARServiceError(`${action} failed: ${errorMessage(error)}`, 'REQUEST_FAILED', error);
+}
+
+/**
+ * Map a failed LOAD_MODEL to a ModelPlacementError.
+ */
+function toPlacementError(error: unknown): ModelPlacementError {
+  if (error instanceof ModelPlacementError) return error;
+  if (
+    error instanceof BridgeError &&
+    error.code === 'REMOTE_ERROR' &&
+    error.reply?.type === 'MODEL_ERROR'
+  ) {
+    return new ModelPlacementError(
+      error.message,
+      (error.remoteCode as ModelErrorCode | undefined) ?? 'UNKNOWN',
+      error
+    );
+  }
+  return new ModelPlacementError(errorMessage(error), 'PLACEMENT_FAILED', error);
+}
+
+/**
+ * Map a failed scan request to a ScanError.
+ */
+function toScanError(error: unknown): ScanError {
+  if (error instanceof ScanError) return error;
+  if (error instanceof BridgeError) {
+    if (error.code === 'REMOTE_ERROR' && error.reply?.type === 'SCAN_FAILED') {
+      const { recoverable } = error.reply.payload as { recoverable?: boolean };
+      return new ScanError(
+        error.message,
+        (error.remoteCode as ScanErrorCode | undefined) ?? 'UNKNOWN',
+        recoverable ?? false,
+        error
+      );
+    }
+    if (error.code === 'TIMEOUT') {
+      return new ScanError(error.message, 'TIMEOUT', true, error);
+    }
+  }
+  return new ScanError(errorMessage(error), 'UNKNOWN', true, error);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Generate unique ID with a prefix.
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Clamp each scale axis to the allowed range (FR-004), relative to the
+ * model's base scale.
+ */
+function clampScale(scale: [number, number, number], baseScale: number): [number, number, number] {
+  const clamp = (value: number): number =>
+    Math.min(AR_LIMITS.MAX_SCALE * baseScale, Math.max(AR_LIMITS.MIN_SCALE * baseScale, value));
+  return [clamp(scale[0]), clamp(scale[1]), clamp(scale[2])];
+}
+
+/**
+ * Apply FR-004 scale limits to a transform.
+ */
+function withinLimits(transform: TransformPayload, baseScale = 1): TransformPayload {
+  return { ...transform, scale: clampScale(transform.scale, baseScale) };
+}
+
+/**
+ * Unit correction stored on a library model, applied before user scaling.
+ */
+function getBaseScale(modelId: string): number {
+  return useModelStore.getState().getModelById(modelId)?.scale ?? 1;
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+/**
+ * AR service implementation.
+ */
+export class ARService {
+  private state: ARSessionState = 'UNINITIALIZED';
+  private capabilities: ARCapabilities | null = null;
+  private trackingState: TrackingState = 'NOT_AVAILABLE';
+  private trackingLimitedReason: TrackingLimitedReason | undefined = undefined;
+  private error: ARError | undefined = undefined;
+  private initializing: Promise<void> | null = null;
+  private sessionSubscriptions: Unsubscribe[] = [];
+  private sessionListeners: Set<(info: ARSessionInfo) => void> = new Set();
+  private selectionListeners: Set<(objectId: string | null) => void> = new Set();
+  private historyQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly bridge: ARWebViewBridge = arWebViewBridge) {}
+
+  // ==========================================================================
+  // SESSION LIFECYCLE
+  // ==========================================================================
+
+  /**
+   * Start the AR session and wait for the engine to report ready.
+   * Calls made while a start is in progress share its result.
+   *
+   * @throws ARSessionError when the engine fails to start or times out
+   */
+  initialize(config: ARInitConfig): Promise<void> {
+    if (this.initializing) return this.initializing;
+    if (this.state === 'READY' || this.state === 'PAUSED') return Promise.resolve();
+
+    this.installSessionSubscriptions();
+    this.error = undefined;
+    this.setState('INITIALIZING');
+    useARStore.getState().setStatus('INITIALIZING');
+
+    const ready = this.waitForReady(AR_LIMITS.INIT_TIMEOUT_MS);
+    void this.bridge.initAR({
+      apiKey: config.apiKey,
+      enableVPS: config.enableVPS ?? false,
+      debugMode: config.debugMode ?? false,
+    });
+
+    this.initializing = ready
+      .catch((error: unknown) => {
+        const sessionError =
+          error instanceof ARSessionError
+            ? error
+            : new ARSessionError(errorMessage(error), 'UNKNOWN', true, error);
+        this.fail({
+          code: sessionError.code,
+          message: sessionError.message,
+          recoverable: sessionError.recoverable,
+        });
+        throw sessionError;
+      })
+      .finally(() => {
+        this.initializing = null;
+      });
+    return this.initializing;
+  }
+
+  /**
+   * Pause the AR session (app backgrounded).
+   */
+  async pause(): Promise<void> {
+    if (this.state !== 'READY') return;
+    await this.bridge.pauseAR().catch((error: unknown) => {
+      throw toServiceError('Pause', error);
+    });
+    useARStore.getState().pauseSession();
+    this.setState('PAUSED');
+  }
+
+  /**
+   * Resume the AR session (app foregrounded).
+   */
+  async resume(): Promise<void> {
+    if (this.state !== 'PAUSED') return;
+    await this.bridge.resumeAR().catch((error: unknown) => {
+      throw toServiceError('Resume', error);
+    });
+    useARStore.getState().resumeSession();
+    this.setState('READY');
+  }
+
+  /**
+   * Clear all placed objects and restart tracking.
+   */
+  async reset(): Promise<void> {
+    this.assertReady();
+    await this.bridge.resetAR().catch((error: unknown) => {
+      throw toServiceError('Reset', error);
+    });
+
+    const scene = useSceneStore.getState();
+    scene.clearObjects();
+    scene.clearHistory();
+    scene.endScan();
+    useARStore.getState().clearSurface();
+    this.notifySelection(null);
+  }
+
+  /**
+   * End the session and release subscriptions.
+   * The scene store keeps the layout so it can be saved or restored later.
+   */
+  async destroy(): Promise<void> {
+    if (useSceneStore.getState().scanSession) {
+      await this.cancelScan().catch(() => undefined);
+    }
+
+    this.sessionSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.sessionSubscriptions = [];
+    this.capabilities = null;
+    this.trackingState = 'NOT_AVAILABLE';
+    this.trackingLimitedReason = undefined;
+    this.error = undefined;
+    useARStore.getState().reset();
+    this.setState('UNINITIALIZED');
+  }
+
+  /**
+   * Get current session info.
+   */
+  getSessionInfo(): ARSessionInfo {
+    return {
+      state: this.state,
+      capabilities: this.capabilities,
+      trackingState: this.trackingState,
+      ...(this.trackingLimitedReason && { trackingLimitedReason: this.trackingLimitedReason }),
+      ...(this.error && { error: this.error }),
+    };
+  }
+
+  // ==========================================================================
+  // MODEL PLACEMENT
+  // ==========================================================================
+
+  /**
+   * Place a model and wait until the engine reports it placed.
+   *
+   * @throws ModelPlacementError when the engine rejects the model or the
+   *   object limit is reached
+   */
+  async placeModel(params: PlaceModelParams): Promise<ARPlacedObject> {
+    this.assertReady();
+    if (!this.canAddObject()) {
+      throw new ModelPlacementError(
+        `Cannot place more than ${this.maxObjects} objects`,
+        'MAX_OBJECTS_REACHED'
+      );
+    }
+
+    const { modelId, glbData } = params;
+    const baseScale = getBaseScale(modelId);
+    // Without a transform the engine places at the surface; only the scale is set
+    const initialTransform: Partial<TransformPayload> | undefined = params.initialTransform
+      ? withinLimits(params.initialTransform, baseScale)
+      : baseScale !== 1
+        ? { scale: [baseScale, baseScale, baseScale] }
+        : undefined;
+    const arStore = useARStore.getState();
+    arStore.startPlacing(modelId);
+
+    try {
+      const base = initialTransform ? { modelId, initialTransform } : { modelId };
+      const payload =
+        glbData !== undefined
+          ? await this.bridge.prepareModelPayload({ ...base, glbData })
+          : await this.bridge.prepareStoredModelPayload(base);
+      const reply = await this.bridge.sendAndWait(
+        'LOAD_MODEL',
+        payload,
+        'MODEL_PLACED',
+        AR_LIMITS.MODEL_LOAD_TIMEOUT_MS
+      );
+
+      const { objectId, transform } = reply.payload;
+      const scene = useSceneStore.getState();
+      if (!scene.getObjectById(objectId)) {
+        scene.addObject({ id: objectId, modelId, transform, placedAt: Date.now() });
+      }
+      useARStore.getState().confirmPlacement();
+
+      return { objectId, modelId, transform, isSelected: false };
+    } catch (error) {
+      useARStore.getState().cancelPlacement();
+      throw toPlacementError(error);
+    }
+  }
+
+  /**
+   * Remove a placed object.
+   */
+  async removeObject(objectId: string): Promise<void> {
+    this.assertReady();
+    this.assertObjectExists(objectId);
+
+    await this.bridge.removeModel({ objectId }).catch((error: unknown) => {
+      throw toServiceError('Remove object', error);
+    });
+
+    const wasSelected = useSceneStore.getState().selectedObjectId === objectId;
+    useSceneStore.getState().removeObject(objectId);
+    if (wasSelected) this.notifySelection(null);
+  }
+
+  /**
+   * Update part of a placed object's transform. Scale is clamped to FR-004
+   * limits.
+   */
+  async updateTransform(objectId: string, transform: Partial<TransformPayload>): Promise<void> {
+    this.assertReady();
+    const object = this.assertObjectExists(objectId);
+    const next = withinLimits({ ...object.transform, ...transform }, getBaseScale(object.modelId));
+
+    await this.bridge.updateTransform({ objectId, transform: next }).catch((error: unknown) => {
+      throw toServiceError('Update transform', error);
+    });
+
+    useSceneStore.getState().updateObjectTransform(objectId, next);
+  }
+
+  /**
+   * Select an object for manipulation, or clear the selection with null.
+   */
+  async selectObject(objectId: string | null): Promise<void> {
+    if (objectId !== null) this.assertObjectExists(objectId);
+
+    useSceneStore.getState().selectObject(objectId);
+    const arStore = useARStore.getState();
+    if (objectId !== null) {
+      arStore.startAdjusting();
+    } else if (arStore.placementMode === 'ADJUSTING') {
+      arStore.cancelPlacement();
+    }
+
+    this.notifySelection(objectId);
+  }
+
+  /**
+   * Get all currently placed objects.
+   */
+  getPlacedObjects(): ARPlacedObject[] {
+    const { placedObjects, selectedObjectId } = useSceneStore.getState();
+    return placedObjects.map(obj => ({
+      objectId: obj.id,
+      modelId: obj.modelId,
+      transform: obj.transform,
+      isSelected: obj.id === selectedObjectId,
+    }));
+  }
+
+  /**
+   * Get object count in scene.
+   */
+  getObjectCount(): number {
+    return useSceneStore.getState().getObjectCount();
+  }
+
+  /**
+   * Check whether another object fits within AR_LIMITS and the engine's limit.
+   */
+  canAddObject(): boolean {
+    return this.getObjectCount() < this.maxObjects;
+  }
+
+  // ==========================================================================
+  // EDIT HISTORY
+  // ==========================================================================
+
+  /**
+   * Undo the last scene edit in the store and the AR view.
+   *
+   * @returns false when there is nothing to undo
+   * @throws ARServiceError when the engine fails the step; the store keeps
+   *   its previous state
+   */
+  undo(): Promise<boolean> {
+    return this.queueHistoryStep('undo');
+  }
+
+  /**
+   * Redo the last undone scene edit in the store and the AR view.
+   *
+   * @returns false when there is nothing to redo
+   * @throws ARServiceError when the engine fails the step; the store keeps
+   *   its previous state
+   */
+  redo(): Promise<boolean> {
+    return this.queueHistoryStep('redo');
+  }
+
+  // ==========================================================================
+  // SCENE OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Capture the current scene for saving.
+   */
+  async captureScene(options: CaptureSceneOptions = {}): Promise<CapturedScene> {
+    this.assertReady();
+
+    try {
+      const reply = await this.bridge.sendAndWait(
+        'CAPTURE_SCENE',
+        {
+          includeScreenshot: options.includeScreenshot ?? true,
+          createVPSAnchor: options.createVPSAnchor ?? this.bridge.hasFeature('VPS'),
+        },
+        'SCENE_CAPTURED'
+      );
+
+      const { selectedObjectId } = useSceneStore.getState();
+      return {
+        objects: reply.payload.objects.map(obj => ({
+          ...obj,
+          isSelected: obj.objectId === selectedObjectId,
+        })),
+        screenshot: reply.payload.screenshot,
+        vpsAnchorId: reply.payload.vpsAnchorId,
+      };
+    } catch (error) {
+      throw toServiceError('Capture scene', error);
+    }
+  }
+
+  /**
+   * Restore a saved scene. Objects the engine could not restore are
+   * reported rather than thrown; the scene store holds the restored ones.
+   */
+  async restoreScene(params: RestoreSceneParams): Promise<RestoreSceneResult> {
+    this.assertReady();
+    const { sceneConfig, models } = params;
+
+    if (sceneConfig.objects.length > this.maxObjects) {
+      throw new ModelPlacementError(
+        `Scene has ${sceneConfig.objects.length} objects, limit is ${this.maxObjects}`,
+        'MAX_OBJECTS_REACHED'
+      );
+    }
+
+    let failedObjects: string[];
+    try {
+      const payload = models
+        ? await this.bridge.prepareScenePayload(sceneConfig, models)
+        : await this.bridge.prepareStoredScenePayload(sceneConfig);
+      const reply = await this.bridge.sendAndWait(
+        'RESTORE_SCENE',
+        payload,
+        'SCENE_RESTORED',
+        SCENE_LIMITS.RESTORE_TIMEOUT_SECONDS * 1000
+      );
+      failedObjects = reply.payload.failedObjects;
+    } catch (error) {
+      throw toServiceError('Restore scene', error);
+    }
+
+    const failed = new Set(failedObjects);
+    const restored = sceneConfig.objects.filter(obj => !failed.has(obj.objectId));
+    const failedModelIds = [
+      ...new Set(
+        sceneConfig.objects.filter(obj => failed.has(obj.objectId)).map(obj => obj.modelId)
+      ),
+    ];
+
+    // The store mirrors what the engine shows; keep original placement times
+    const scene = useSceneStore.getState();
+    const placedAt = new Map(scene.placedObjects.map(obj => [obj.id, obj.placedAt]));
+    scene.clearObjects();
+    restored.forEach(obj =>
+      scene.addObject({
+        id: obj.objectId,
+        modelId: obj.modelId,
+        transform: obj.transform,
+        placedAt: placedAt.get(obj.objectId) ?? Date.now(),
+      })
+    );
+    scene.markClean();
+    scene.clearHistory();
+    this.notifySelection(null);
+
+    return {
+      restoredObjects: restored.map(obj => ({ ...obj, isSelected: false })),
+      failedModelIds,
+      usedVPSAnchor:
+        sceneConfig.anchorType === 'VPS' &&
+        sceneConfig.vpsAnchorId !== null &&
+        this.bridge.hasFeature('VPS'),
+    };
+  }
+
+  // ==========================================================================
+  // 3D SCANNING
+  // ==========================================================================
+
+  /**
+   * Start a 3D scanning session.
+   */
+  async startScan(): Promise<ScanSession> {
+    this.assertReady();
+    if (this.bridge.negotiatedProtocol && !this.bridge.hasFeature('SCANNING')) {
+      throw new ARServiceError('Scanning is not supported by the AR page', 'UNSUPPORTED');
+    }
+    if (useSceneStore.getState().scanSession) {
+      throw new ARServiceError('A scan is already in progress', 'SCAN_IN_PROGRESS');
+    }
+
+    const sessionId = generateId('scan');
+    const session: ScanSession = {
+      sessionId,
+      status: 'PREPARING',
+      photos: [],
+      coverage: 0,
+      missingAngles: [[0, 360]],
+      startedAt: Date.now(),
+    };
+    useSceneStore.getState().startScan(session);
+
+    try {
+      const reply = await this.bridge.sendAndWait('START_SCAN', { sessionId }, 'SCAN_PROGRESS');
+      useSceneStore.getState().updateScan({
+        status: 'CAPTURING',
+        coverage: reply.payload.coverage,
+        missingAngles: reply.payload.missingAngles,
+      });
+    } catch (error) {
+      useSceneStore.getState().endScan();
+      throw toScanError(error);
+    }
+
+    return this.requireScan();
+  }
+
+  /**
+   * Capture a photo during scanning.
+   */
+  async capturePhoto(): Promise<CapturedPhoto> {
+    this.assertReady();
+    const session = this.requireScan();
+    if (session.photos.length >= MODEL_LIMITS.MAX_SCAN_PHOTOS) {
+      throw new ARServiceError(
+        `A scan holds at most ${MODEL_LIMITS.MAX_SCAN_PHOTOS} photos`,
+        'SCAN_PHOTO_LIMIT'
+      );
+    }
+
+    try {
+      const reply = await this.bridge.sendAndWait(
+        'CAPTURE_SCAN_PHOTO',
+        { photoId: generateId('photo') },
+        'SCAN_PHOTO_CAPTURED'
+      );
+      const photo: CapturedPhoto = {
+        photoId: reply.payload.photoId,
+        angle: reply.payload.angle,
+        quality: reply.payload.quality.quality,
+        timestamp: Date.now(),
+      };
+
+      // Store sync may already have recorded the photo
+      const current = useSceneStore.getState().scanSession;
+      if (
+        current?.sessionId === session.sessionId &&
+        !current.photos.some(p => p.photoId === photo.photoId)
+      ) {
+        useSceneStore.getState().updateScan({ photos: [...current.photos, photo] });
+      }
+      return photo;
+    } catch (error) {
+      throw toScanError(error);
+    }
+  }
+
+  /**
+   * End the scan and wait for the engine to build the model.
+   *
+   * @throws ScanError with INSUFFICIENT_PHOTOS before MIN_SCAN_PHOTOS are taken
+   */
+  async endScan(): Promise<ScanResult> {
+    this.assertReady();
+    const session = this.requireScan();
+    if (session.photos.length < MODEL_LIMITS.MIN_SCAN_PHOTOS) {
+      throw new ScanError(
+        `Need at least ${MODEL_LIMITS.MIN_SCAN_PHOTOS} photos, have ${session.photos.length}`,
+        'INSUFFICIENT_PHOTOS',
+        true
+      );
+    }
+
+    useSceneStore.getState().updateScan({ status: 'PROCESSING' });
+    try {
+      const reply = await this.bridge.sendAndWait(
+        'END_SCAN',
+        { sessionId: session.sessionId },
+        'SCAN_COMPLETE',
+        PERFORMANCE_LIMITS.SCAN_PROCESSING_MAX_MINUTES * 60 * 1000
+      );
+      useSceneStore.getState().endScan();
+
+      const { glbData, boundingBox, vertexCount } = reply.payload;
+      return { glbData, boundingBox, vertexCount };
+    } catch (error) {
+      const scanError = toScanError(error);
+      if (scanError.recoverable) {
+        // The photos are kept so the user can add more and try again
+        useSceneStore.getState().updateScan({ status: 'CAPTURING' });
+      } else {
+        useSceneStore.getState().endScan();
+      }
+      throw scanError;
+    }
+  }
+
+  /**
+   * Cancel the scan in progress.
+   */
+  async cancelScan(): Promise<void> {
+    const session = useSceneStore.getState().scanSession;
+    if (!session) return;
+
+    useSceneStore.getState().endScan();
+    await this.bridge.cancelScan({ sessionId: session.sessionId }).catch(() => undefined);
+  }
+
+  /**
+   * Get current scan session if active.
+   */
+  getActiveScanSession(): ScanSession | null {
+    return useSceneStore.getState().scanSession;
+  }
+
+  // ==========================================================================
+  // EVENT SUBSCRIPTIONS
+  // ==========================================================================
+
+  /**
+   * Subscribe to session state changes.
+   */
+  onSessionStateChange(callback: (info: ARSessionInfo) => void): Unsubscribe {
+    this.sessionListeners.add(callback);
+    return () => {
+      this.sessionListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to tracking state changes.
+   */
+  onTrackingStateChange(
+    callback: (state: TrackingState, reason?: TrackingLimitedReason) => void
+  ): Unsubscribe {
+    return this.bridge.on('TRACKING_STATE', ({ payload }) => {
+      callback(payload.state, payload.reason);
+    });
+  }
+
+  /**
+   * Subscribe to surface detection events.
+   */
+  onSurfaceDetected(callback: (surface: DetectedSurface) => void): Unsubscribe {
+    return this.bridge.on('SURFACE_DETECTED', ({ payload }) => {
+      // The engine only reports surfaces it has committed to
+      callback({
+        type: payload.surfaceType,
+        position: payload.position,
+        normal: payload.normal,
+        confidence: 1,
+      });
+    });
+  }
+
+  /**
+   * Subscribe to object selection changes.
+   */
+  onObjectSelected(callback: (objectId: string | null) => void): Unsubscribe {
+    this.selectionListeners.add(callback);
+    return () => {
+      this.selectionListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to transform updates from gestures.
+   */
+  onTransformUpdated(
+    callback: (objectId: string, transform: TransformPayload, gestureType: GestureType) => void
+  ): Unsubscribe {
+    return this.bridge.on('TRANSFORM_UPDATED', ({ payload }) => {
+      callback(payload.objectId, payload.transform, payload.gestureType);
+    });
+  }
+
+  /**
+   * Subscribe to scan progress updates.
+   */
+  onScanProgress(callback: (progress: ScanProgressUpdate) => void): Unsubscribe {
+    return this.bridge.on('SCAN_PROGRESS', ({ payload }) => {
+      callback({
+        photoCount: payload.photoCount,
+        coverage: payload.coverage,
+        missingAngles: payload.missingAngles,
+        canFinish: payload.photoCount >= MODEL_LIMITS.MIN_SCAN_PHOTOS,
+      });
+    });
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * Run history steps one at a time, so rapid taps apply in order.
+   */
+  private queueHistoryStep(direction: 'undo' | 'redo'): Promise<boolean> {
+    const step = this.historyQueue.then(() => this.applyHistoryStep(direction));
+    this.historyQueue = step.then(
+      () => undefined,
+      () => undefined
+    );
+    return step;
+  }
+
+  private async applyHistoryStep(direction: 'undo' | 'redo'): Promise<boolean> {
+    this.assertReady();
+    const scene = useSceneStore.getState();
+    const command = direction === 'undo' ? scene.undo() : scene.redo();
+    if (!command) return false;
+
+    // Engine replies mirrored by store sync belong to this step
+    scene.setHistoryPaused(true);
+    try {
+      await this.pushCommand(command, direction);
+    } catch (error) {
+      // The engine did not follow; move the store and history back
+      const current = useSceneStore.getState();
+      if (direction === 'undo') current.redo();
+      else current.undo();
+      throw toServiceError(direction === 'undo' ? 'Undo' : 'Redo', error);
+    } finally {
+      useSceneStore.getState().setHistoryPaused(false);
+    }
+    return true;
+  }
+
+  /**
+   * Bring the engine in line with a command just applied to the store.
+   */
+  private async pushCommand(command: SceneCommand, direction: 'undo' | 'redo'): Promise<void> {
+    const undo = direction === 'undo';
+    switch (command.type) {
+      case 'ADD':
+        return undo ? this.unloadObjects([command.object]) : this.reloadObjects([command.object]);
+      case 'REMOVE':
+        return undo ? this.reloadObjects([command.object]) : this.unloadObjects([command.object]);
+      case 'CLEAR':
+        return undo ? this.reloadObjects(command.objects) : this.unloadObjects(command.objects);
+      case 'TRANSFORM':
+        return this.bridge.updateTransform({
+          objectId: command.objectId,
+          transform: undo ? command.before : command.after,
+        });
+    }
+  }
+
+  private async unloadObjects(objects: PlacedObject[]): Promise<void> {
+    await Promise.all(objects.map(obj => this.bridge.removeModel({ objectId: obj.id })));
+  }
+
+  /**
+   * Load objects back into the engine. The engine assigns new object IDs,
+   * which replace the old ones in the store and its history.
+   */
+  private async reloadObjects(objects: PlacedObject[]): Promise<void> {
+    for (const obj of objects) {
+      const payload = await this.bridge.prepareStoredModelPayload({
+        modelId: obj.modelId,
+        initialTransform: obj.transform,
+      });
+      const reply = await this.bridge.sendAndWait(
+        'LOAD_MODEL',
+        payload,
+        'MODEL_PLACED',
+        AR_LIMITS.MODEL_LOAD_TIMEOUT_MS
+      );
+      useSceneStore.getState().replaceObjectId(obj.id, reply.payload.objectId);
+    }
+  }
+
+  /**
+   * Object limit: AR_LIMITS, lowered by the engine's reported maximum.
+   */
+  private get maxObjects(): number {
+    return Math.min(
+      AR_LIMITS.MAX_PLACED_OBJECTS,
+      this.capabilities?.maxObjects ?? AR_LIMITS.MAX_PLACED_OBJECTS
+    );
+  }
+
+  /**
+   * Track engine events that change the session for as long as it exists.
+   * Only the service's own state is kept here; storeSync applies the same
+   * events to the stores.
+   */
+  private installSessionSubscriptions(): void {
+    if (this.sessionSubscriptions.length > 0) return;
+
+    this.sessionSubscriptions = [
+      // Also fires after a crash recovery reload
+      this.bridge.on('AR_READY', ({ payload }) => {
+        this.capabilities = payload.capabilities;
+        this.error = undefined;
+        this.setState('READY');
+      }),
+      this.bridge.on('AR_ERROR', message => {
+        // Errors answering a request are thrown by that request
+        if (message.replyTo !== undefined) return;
+        this.error = message.payload;
+        this.setState('ERROR');
+      }),
+      this.bridge.on('TRACKING_STATE', ({ payload }) => {
+        this.trackingState = payload.state;
+        this.trackingLimitedReason = payload.reason;
+        this.notifySession();
+      }),
+      this.bridge.onConnectionLost(() => {
+        if (this.state !== 'UNINITIALIZED') this.setState('INITIALIZING');
+      }),
+    ];
+  }
+
+  /**
+   * Wait for the engine to answer INIT_AR.
+   */
+  private waitForReady(timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const subscriptions: Unsubscribe[] = [];
+      const settle = (error?: ARSessionError): void => {
+        clearTimeout(timer);
+        subscriptions.forEach(unsubscribe => unsubscribe());
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const timer = setTimeout(() => {
+        settle(new ARSessionError('AR engine did not start in time', 'XRWEB_INIT_FAILED', true));
+      }, timeoutMs);
+
+      subscriptions.push(
+        this.bridge.on('AR_READY', () => settle()),
+        this.bridge.on('AR_ERROR', ({ payload }) => {
+          settle(new ARSessionError(payload.message, payload.code, payload.recoverable));
+        }),
+        this.bridge.onProtocolNegotiated(protocol => {
+          if (protocol) return;
+          settle(
+            new ARSessionError('AR page protocol is not supported', 'PROTOCOL_MISMATCH', false)
+          );
+        })
+      );
+    });
+  }
+
+  /**
+   * Move the session to ERROR.
+   */
+  private fail(error: ARError): void {
+    this.error = error;
+    useARStore.getState().setError(error.code, error.message);
+    this.setState('ERROR');
+  }
+
+  private setState(state: ARSessionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.notifySession();
+  }
+
+  private notifySession(): void {
+    const info = this.getSessionInfo();
+    this.sessionListeners.forEach(listener => listener(info));
+  }
+
+  private notifySelection(objectId: string | null): void {
+    this.selectionListeners.forEach(listener => listener(objectId));
+  }
+
+  private assertReady(): void {
+    if (this.state !== 'READY') {
+      throw new ARServiceError(`AR session is ${this.state.toLowerCase()}`, 'NOT_INITIALIZED');
+    }
+  }
+
+  private assertObjectExists(objectId: string): PlacedObject {
+    const object = useSceneStore.getState().getObjectById(objectId);
+    if (!object) {
+      throw new ARServiceError(`Object ${objectId} is not placed`, 'OBJECT_NOT_FOUND');
+    }
+    return object;
+  }
+
+  private requireScan(): ScanSession {
+    const session = useSceneStore.getState().scanSession;
+    if (!session) {
+      throw new ARServiceError('No scan in progress', 'NO_ACTIVE_SCAN');
+    }
+    return session;
+  }
+}
+
+// Singleton instance
+export const arService = new ARService();
@@ -0,0 +1,194 @@
+/**
+ * Bundled Assets Service
+ *
+ * Installs the furniture listed in BUNDLED_MODEL_MANIFEST into the model
+ * library: files are copied out of the app bundle and registered with
+ * isBundled set. The revisions installed on the device are kept under
+ * STORAGE_KEYS.BUNDLED_MODELS, so after an app upgrade new entries are
+ * added, changed ones replaced and dropped ones retired. Models the user
+ * imported or scanned are never touched.
+ * Per T040: Implement BundledAssetsService (copy bundled GLB files per FR-050).
+ *
+ * @module core/services/BundledAssetsService
+ */
+
+import type { BundledModelEntry, BundledModelManifest, Model } from '@core/types/model.types';
+import { BUNDLED_MODEL_MANIFEST } from '@core/constants/bundledModels';
+import { BUNDLED_ASSETS, getImportStagingPath, getModelPaths } from '@core/constants/paths';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  getBundledModelsState,
+  getModelIndex,
+  saveBundledModelsState,
+  saveModelIndex,
+  type BundledModelsState,
+} from '@infrastructure/storage/asyncStorageHelpers';
+import { thumbnailService } from './ThumbnailService';
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+/**
+ * Bundled assets service implementation.
+ */
+export class BundledAssetsService {
+  constructor(private readonly manifest: BundledModelManifest = BUNDLED_MODEL_MANIFEST) {}
+
+  /**
+   * Get the IDs of all bundled models in this app version.
+   */
+  getBundledModelIds(): string[] {
+    return this.manifest.models.map(entry => entry.id);
+  }
+
+  /**
+   * Check whether this app version's bundled models are all installed.
+   */
+  async areBundledModelsInitialized(): Promise<boolean> {
+    const state = await getBundledModelsState();
+    return state?.manifestVersion === this.manifest.version;
+  }
+
+  /**
+   * Bring the library's bundled models in line with the manifest.
+   * Progress is saved per model; a model that fails to install is logged
+   * and retried on the next launch, without holding back the others.
+   * Writes the model index directly, so callers must serialize this with
+   * other index updates (ModelStorageService runs it during initialize).
+   */
+  async initializeBundledModels(): Promise<void> {
+    const state: BundledModelsState = (await getBundledModelsState()) ?? {
+      manifestVersion: 0,
+      installed: {},
+    };
+    if (state.manifestVersion === this.manifest.version) return;
+
+    const ids = new Set(this.getBundledModelIds());
+    for (const id of Object.keys(state.installed)) {
+      if (ids.has(id)) continue;
+      await this.retireModel(id);
+      delete state.installed[id];
+      await saveBundledModelsState(state);
+    }
+
+    const models = new Map((await getModelIndex()).models.map(model => [model.id, model]));
+    let failures = 0;
+    for (const entry of this.manifest.models) {
+      const existing = models.get(entry.id);
+      if (existing && !existing.isBundled) {
+        console.warn(`[BundledAssetsService] Model ID ${entry.id} is taken by a user model`);
+        continue;
+      }
+      if (existing && state.installed[entry.id] === entry.revision) continue;
+
+      try {
+        await this.installModel(entry);
+        state.installed[entry.id] = entry.revision;
+        await saveBundledModelsState(state);
+      } catch (error) {
+        console.warn(`[BundledAssetsService] Failed to install ${entry.id}:`, error);
+        failures++;
+      }
+    }
+
+    if (failures === 0) {
+      state.manifestVersion = this.manifest.version;
+      await saveBundledModelsState(state);
+    }
+  }
+
+  /**
+   * Copy a bundled model's files again, e.g. after they went missing.
+   * Like initializeBundledModels, callers serialize this with index updates.
+   *
+   * @throws Error if the model is not in the manifest or cannot be copied
+   */
+  async reinstallModel(id: string): Promise<void> {
+    const entry = this.manifest.models.find(candidate => candidate.id === id);
+    if (!entry) throw new Error(`${id} is not a bundled model`);
+    await this.installModel(entry);
+
+    const state = await getBundledModelsState();
+    if (state) {
+      state.installed[id] = entry.revision;
+      await saveBundledModelsState(state);
+    }
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  /**
+   * Copy a bundled model into the library and add or replace its index
+   * entry. A replaced model keeps its creation and last use times.
+   */
+  private async installModel(entry: BundledModelEntry): Promise<void> {
+    const paths = getModelPaths(entry.id);
+    const staging = getImportStagingPath(`${entry.id}.glb`);
+
+    try {
+      await fileSystem.copyFromBundle(BUNDLED_ASSETS.model(entry.file), staging);
+      await fileSystem.deleteFile(paths.glb);
+      await fileSystem.moveFile(staging, paths.glb);
+    } finally {
+      await fileSystem.deleteFile(staging).catch(() => undefined);
+    }
+
+    await fileSystem.deleteFile(paths.thumbnail);
+    try {
+      await fileSystem.copyFromBundle(BUNDLED_ASSETS.thumbnail(entry.thumbnail), paths.thumbnail);
+    } catch (error) {
+      console.warn(`[BundledAssetsService] Missing thumbnail for ${entry.id}, rendering:`, error);
+      await thumbnailService
+        .generateThumbnail(entry.id)
+        .catch((renderError: unknown) =>
+          console.warn('[BundledAssetsService] Failed to render thumbnail:', renderError)
+        );
+    }
+
+    const index = await getModelIndex();
+    const existing = index.models.find(model => model.id === entry.id);
+    const model: Model = {
+      id: entry.id,
+      name: entry.name,
+      glbPath: paths.glb,
+      thumbnailPath: paths.thumbnail,
+      category: entry.category,
+      isBundled: true,
+      metadata: entry.metadata,
+      createdAt: existing?.createdAt ?? Date.now(),
+      lastUsedAt: existing?.lastUsedAt ?? null,
+      scale: entry.scale,
+    };
+    index.models = existing
+      ? index.models.map(current => (current.id === entry.id ? model : current))
+      : [...index.models, model];
+    await saveModelIndex(index);
+  }
+
+  /**
+   * Remove a bundled model no longer in the manifest, with its files.
+   * Saved scenes that place it keep their references.
+   */
+  private async retireModel(id: string): Promise<void> {
+    const index = await getModelIndex();
+    const model = index.models.find(current => current.id === id);
+    if (model && !model.isBundled) return;
+    if (model) {
+      index.models = index.models.filter(current => current.id !== id);
+      await saveModelIndex(index);
+    }
+
+    const paths = getModelPaths(id);
+    for (const path of [paths.glb, paths.thumbnail]) {
+      await fileSystem.deleteFile(path).catch((error: unknown) => {
+        console.warn('[BundledAssetsService] Failed to delete model file:', error);
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const bundledAssetsService = new BundledAssetsService();
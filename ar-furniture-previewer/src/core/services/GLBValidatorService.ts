@@ -0,0 +1,633 @@
+/**
+ * GLB Validator Service
+ *
+ * Structural checks on GLB files before import, reported as a list of
+ * findings the import flow and the model info sheet can show. Unlike
+ * parseGLB, which stops at the first problem, validation carries on where it
+ * safely can so the user sees everything wrong with a file at once.
+ * Per T071: Implement GLBValidatorService (validate GLB per research.md).
+ *
+ * @module core/services/GLBValidatorService
+ */
+
+import type {
+  ModelValidationReport,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationSeverity,
+} from '@core/types/model.types';
+import { MODEL_LIMITS } from '@core/constants/limits';
+import {
+  COMPONENT_SIZES,
+  GLB_CHUNK_BIN,
+  GLB_CHUNK_HEADER_LENGTH,
+  GLB_CHUNK_JSON,
+  GLB_HEADER_LENGTH,
+  GLB_MAGIC,
+  GLBParseError,
+  getImageBytes,
+  parseGLB,
+  readImageSize,
+  readUint32,
+  TYPE_COMPONENTS,
+  type GLTFDocument,
+  type ParsedGLB,
+} from './glbParser';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Most findings kept in a report; the counts include the rest.
+ */
+export const MAX_REPORTED_ISSUES = 50;
+
+/**
+ * Extensions the WebView renderer handles without extra decoders.
+ */
+export const SUPPORTED_EXTENSIONS: readonly string[] = [
+  'KHR_mesh_quantization',
+  'KHR_texture_transform',
+  'KHR_materials_unlit',
+  'KHR_materials_emissive_strength',
+  'KHR_materials_clearcoat',
+  'KHR_materials_transmission',
+  'KHR_materials_ior',
+  'KHR_materials_specular',
+  'KHR_materials_sheen',
+  'KHR_materials_volume',
+  'KHR_lights_punctual',
+];
+
+/**
+ * Compression extensions that need decoders the app does not ship, with
+ * advice for the user.
+ */
+const COMPRESSION_EXTENSIONS: Record<string, string> = {
+  KHR_draco_mesh_compression:
+    'The model uses Draco mesh compression, which is not supported. Export it again without Draco compression.',
+  KHR_texture_basisu:
+    'The model uses KTX2/Basis Universal textures, which are not supported. Export it again with PNG or JPEG textures.',
+  EXT_meshopt_compression:
+    'The model uses meshoptimizer compression, which is not supported. Export it again without meshopt compression.',
+  KHR_meshopt_compression:
+    'The model uses meshoptimizer compression, which is not supported. Export it again without meshopt compression.',
+};
+
+/** Component types allowed for index accessors */
+const INDEX_COMPONENT_TYPES = [5121, 5123, 5125];
+
+const SEVERITY_ORDER: Record<ValidationSeverity, number> = { ERROR: 0, WARNING: 1, INFO: 2 };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Collects findings while a file is checked.
+ */
+class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  add(
+    severity: ValidationSeverity,
+    code: ValidationIssueCode,
+    message: string,
+    pointer: string | null = null
+  ): void {
+    this.issues.push({ severity, code, message, pointer });
+  }
+
+  get hasErrors(): boolean {
+    return this.issues.some(issue => issue.severity === 'ERROR');
+  }
+
+  toReport(): ModelValidationReport {
+    const sorted = [...this.issues].sort(
+      (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+    );
+    return {
+      valid: !this.hasErrors,
+      errorCount: this.issues.filter(issue => issue.severity === 'ERROR').length,
+      warningCount: this.issues.filter(issue => issue.severity === 'WARNING').length,
+      issues: sorted.slice(0, MAX_REPORTED_ISSUES),
+      validatedAt: Date.now(),
+    };
+  }
+}
+
+/**
+ * Check that an optional index points into an array.
+ */
+function checkReference(
+  collector: IssueCollector,
+  index: number | undefined,
+  target: unknown[] | undefined,
+  targetName: string,
+  pointer: string
+): boolean {
+  if (index === undefined) return true;
+  if (Number.isInteger(index) && index >= 0 && index < (target?.length ?? 0)) return true;
+  collector.add(
+    'ERROR',
+    'INVALID_REFERENCE',
+    `Refers to ${targetName} ${index}, which does not exist.`,
+    pointer
+  );
+  return false;
+}
+
+/**
+ * Whether a uri is embedded data rather than a separate file.
+ */
+function isDataUri(uri: string): boolean {
+  return uri.startsWith('data:');
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+/**
+ * Check the header and chunk layout.
+ * Returns false if the file cannot be read any further.
+ */
+function checkContainer(collector: IssueCollector, bytes: Uint8Array): boolean {
+  if (bytes.length < GLB_HEADER_LENGTH || readUint32(bytes, 0) !== GLB_MAGIC) {
+    collector.add(
+      'ERROR',
+      'INVALID_HEADER',
+      'This is not a GLB file. Only binary glTF (.glb) files can be imported.'
+    );
+    return false;
+  }
+
+  const version = readUint32(bytes, 4);
+  if (version !== 2) {
+    collector.add(
+      'ERROR',
+      'UNSUPPORTED_VERSION',
+      `GLB version ${version} is not supported. Only glTF 2.0 files can be imported.`
+    );
+    return false;
+  }
+
+  const declaredLength = readUint32(bytes, 8);
+  if (declaredLength > bytes.length) {
+    collector.add(
+      'ERROR',
+      'LENGTH_MISMATCH',
+      `The file is incomplete: ${bytes.length} of ${declaredLength} bytes are present. It may have been cut off while downloading.`
+    );
+    return false;
+  }
+  if (declaredLength < bytes.length) {
+    collector.add(
+      'WARNING',
+      'LENGTH_MISMATCH',
+      `The file has ${bytes.length - declaredLength} unexpected bytes after its end, which are ignored.`
+    );
+  }
+
+  let offset = GLB_HEADER_LENGTH;
+  let chunkIndex = 0;
+  let binChunks = 0;
+  while (offset + GLB_CHUNK_HEADER_LENGTH <= declaredLength) {
+    const chunkLength = readUint32(bytes, offset);
+    const chunkType = readUint32(bytes, offset + 4);
+    const end = offset + GLB_CHUNK_HEADER_LENGTH + chunkLength;
+
+    if (end > declaredLength) {
+      collector.add(
+        'ERROR',
+        'INVALID_CHUNK',
+        `Chunk ${chunkIndex} extends past the end of the file.`
+      );
+      return false;
+    }
+    if (chunkIndex === 0 && chunkType !== GLB_CHUNK_JSON) {
+      collector.add('ERROR', 'INVALID_CHUNK', 'The file does not start with a JSON chunk.');
+      return false;
+    }
+    if (chunkLength % 4 !== 0) {
+      collector.add(
+        'WARNING',
+        'INVALID_CHUNK',
+        `Chunk ${chunkIndex} is not padded to 4 bytes, which some viewers reject.`
+      );
+    }
+    if (chunkType === GLB_CHUNK_BIN && ++binChunks > 1) {
+      collector.add(
+        'WARNING',
+        'INVALID_CHUNK',
+        `Chunk ${chunkIndex} is an extra binary chunk and is ignored.`
+      );
+    }
+
+    offset = end;
+    chunkIndex++;
+  }
+
+  if (chunkIndex === 0) {
+    collector.add('ERROR', 'INVALID_CHUNK', 'The file has no content.');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check asset version and extensions.
+ */
+function checkAssetAndExtensions(collector: IssueCollector, json: GLTFDocument): void {
+  const major = Number.parseInt(json.asset.version, 10);
+  if (major !== 2) {
+    collector.add(
+      'ERROR',
+      'UNSUPPORTED_VERSION',
+      `glTF version ${json.asset.version} is not supported. Only glTF 2.0 files can be imported.`,
+      '/asset/version'
+    );
+  }
+
+  const required = new Set(json.extensionsRequired ?? []);
+  for (const name of required) {
+    const advice = COMPRESSION_EXTENSIONS[name];
+    if (advice) {
+      collector.add('ERROR', 'UNSUPPORTED_EXTENSION', advice, '/extensionsRequired');
+    } else if (!SUPPORTED_EXTENSIONS.includes(name)) {
+      collector.add(
+        'ERROR',
+        'UNSUPPORTED_EXTENSION',
+        `The model requires the ${name} extension, which is not supported.`,
+        '/extensionsRequired'
+      );
+    }
+  }
+
+  for (const name of json.extensionsUsed ?? []) {
+    if (required.has(name) || SUPPORTED_EXTENSIONS.includes(name)) continue;
+    collector.add(
+      COMPRESSION_EXTENSIONS[name] ? 'WARNING' : 'INFO',
+      'UNSUPPORTED_EXTENSION',
+      `The ${name} extension is not supported; the parts that use it may look different.`,
+      '/extensionsUsed'
+    );
+  }
+}
+
+/**
+ * Check buffers and buffer views against the binary chunk.
+ */
+function checkBuffers(collector: IssueCollector, glb: ParsedGLB): void {
+  const { json, bin } = glb;
+
+  const bufferLengths = (json.buffers ?? []).map((buffer, index) => {
+    const pointer = `/buffers/${index}`;
+    if (buffer.uri !== undefined) {
+      if (!isDataUri(buffer.uri)) {
+        collector.add(
+          'ERROR',
+          'EXTERNAL_URI',
+          `The model needs a separate file (${buffer.uri}). Export it as a single self-contained .glb.`,
+          pointer
+        );
+        return 0;
+      }
+      return buffer.byteLength;
+    }
+
+    if (index !== 0) {
+      collector.add(
+        'ERROR',
+        'INVALID_REFERENCE',
+        'Only the first buffer may use the binary chunk.',
+        pointer
+      );
+      return 0;
+    }
+    if (!bin) {
+      collector.add(
+        'ERROR',
+        'MISSING_BINARY_CHUNK',
+        'The model data is missing: the file has no binary chunk.',
+        pointer
+      );
+      return 0;
+    }
+    if (bin.length < buffer.byteLength) {
+      collector.add(
+        'ERROR',
+        'BUFFER_OUT_OF_BOUNDS',
+        `The binary chunk holds ${bin.length} bytes but ${buffer.byteLength} are declared.`,
+        pointer
+      );
+    }
+    return Math.min(bin.length, buffer.byteLength);
+  });
+
+  (json.bufferViews ?? []).forEach((view, index) => {
+    const pointer = `/bufferViews/${index}`;
+    if (!checkReference(collector, view.buffer, json.buffers, 'buffer', pointer)) return;
+    const bufferLength = bufferLengths[view.buffer] ?? 0;
+    const end = (view.byteOffset ?? 0) + view.byteLength;
+    if (end > bufferLength) {
+      collector.add(
+        'ERROR',
+        'BUFFER_OUT_OF_BOUNDS',
+        `Reads ${end} bytes from a ${bufferLength}-byte buffer.`,
+        pointer
+      );
+    }
+  });
+}
+
+/**
+ * Check accessor types and bounds.
+ */
+function checkAccessors(collector: IssueCollector, json: GLTFDocument): void {
+  (json.accessors ?? []).forEach((accessor, index) => {
+    const pointer = `/accessors/${index}`;
+    const componentSize = COMPONENT_SIZES[accessor.componentType];
+    const components = TYPE_COMPONENTS[accessor.type];
+
+    if (componentSize === undefined) {
+      collector.add(
+        'ERROR',
+        'INVALID_ACCESSOR',
+        `Unknown component type ${accessor.componentType}.`,
+        pointer
+      );
+    }
+    if (components === undefined) {
+      collector.add(
+        'ERROR',
+        'INVALID_ACCESSOR',
+        `Unknown accessor type ${String(accessor.type)}.`,
+        pointer
+      );
+    }
+    if (!Number.isInteger(accessor.count) || accessor.count < 1) {
+      collector.add(
+        'ERROR',
+        'INVALID_ACCESSOR',
+        `Invalid element count ${accessor.count}.`,
+        pointer
+      );
+      return;
+    }
+    if (componentSize === undefined || components === undefined) return;
+
+    for (const key of ['min', 'max'] as const) {
+      const bound = accessor[key];
+      if (bound && bound.length !== components) {
+        collector.add(
+          'ERROR',
+          'INVALID_ACCESSOR',
+          `${key} has ${bound.length} values; ${accessor.type} needs ${components}.`,
+          pointer
+        );
+      }
+    }
+
+    if (!checkReference(collector, accessor.bufferView, json.bufferViews, 'buffer view', pointer)) {
+      return;
+    }
+    const view = accessor.bufferView !== undefined ? json.bufferViews?.[accessor.bufferView] : null;
+    if (!view) return;
+
+    const byteOffset = accessor.byteOffset ?? 0;
+    if (byteOffset % componentSize !== 0) {
+      collector.add(
+        'ERROR',
+        'INVALID_ACCESSOR',
+        `Offset ${byteOffset} is not aligned to its ${componentSize}-byte components.`,
+        pointer
+      );
+    }
+    const elementSize = componentSize * components;
+    const stride = view.byteStride ?? elementSize;
+    const end = byteOffset + stride * (accessor.count - 1) + elementSize;
+    if (end > view.byteLength) {
+      collector.add(
+        'ERROR',
+        'BUFFER_OUT_OF_BOUNDS',
+        `Reads ${end} bytes from a ${view.byteLength}-byte buffer view.`,
+        pointer
+      );
+    }
+  });
+}
+
+/**
+ * Check meshes, nodes and scenes reference valid objects.
+ * Returns the number of primitives with positions.
+ */
+function checkHierarchy(collector: IssueCollector, json: GLTFDocument): number {
+  let drawable = 0;
+
+  (json.meshes ?? []).forEach((mesh, meshIndex) => {
+    mesh.primitives.forEach((primitive, primitiveIndex) => {
+      const pointer = `/meshes/${meshIndex}/primitives/${primitiveIndex}`;
+      for (const [name, accessorIndex] of Object.entries(primitive.attributes)) {
+        checkReference(collector, accessorIndex, json.accessors, 'accessor', pointer);
+        if (name !== 'POSITION') continue;
+
+        const accessor = json.accessors?.[accessorIndex];
+        if (!accessor) continue;
+        drawable++;
+        if (accessor.type !== 'VEC3') {
+          collector.add(
+            'ERROR',
+            'INVALID_ACCESSOR',
+            `Vertex positions must be VEC3, not ${accessor.type}.`,
+            `/accessors/${accessorIndex}`
+          );
+        } else if (!accessor.min || !accessor.max) {
+          collector.add(
+            'WARNING',
+            'INVALID_ACCESSOR',
+            'Vertex positions have no min/max, so the model size cannot be measured.',
+            `/accessors/${accessorIndex}`
+          );
+        }
+      }
+
+      if (checkReference(collector, primitive.indices, json.accessors, 'accessor', pointer)) {
+        const indices =
+          primitive.indices !== undefined ? json.accessors?.[primitive.indices] : undefined;
+        if (
+          indices &&
+          (indices.type !== 'SCALAR' || !INDEX_COMPONENT_TYPES.includes(indices.componentType))
+        ) {
+          collector.add(
+            'ERROR',
+            'INVALID_ACCESSOR',
+            'Indices must be unsigned integer scalars.',
+            `/accessors/${primitive.indices}`
+          );
+        }
+      }
+    });
+  });
+
+  (json.nodes ?? []).forEach((node, index) => {
+    const pointer = `/nodes/${index}`;
+    checkReference(collector, node.mesh, json.meshes, 'mesh', pointer);
+    for (const child of node.children ?? []) {
+      checkReference(collector, child, json.nodes, 'node', pointer);
+    }
+  });
+  checkNodeCycles(collector, json);
+
+  checkReference(collector, json.scene, json.scenes, 'scene', '/scene');
+  (json.scenes ?? []).forEach((scene, index) => {
+    for (const node of scene.nodes ?? []) {
+      checkReference(collector, node, json.nodes, 'node', `/scenes/${index}`);
+    }
+  });
+
+  return drawable;
+}
+
+/**
+ * Report children that are also ancestors of their parent.
+ * Depth-first, with an explicit stack so deep hierarchies cannot overflow.
+ */
+function checkNodeCycles(collector: IssueCollector, json: GLTFDocument): void {
+  const nodes = json.nodes ?? [];
+  // 0 = not visited, 1 = on the current path, 2 = done
+  const state = new Uint8Array(nodes.length);
+
+  for (let root = 0; root < nodes.length; root++) {
+    if (state[root] !== 0) continue;
+    state[root] = 1;
+    const stack = [{ index: root, next: 0 }];
+
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1]!;
+      const children = nodes[top.index]?.children ?? [];
+      if (top.next >= children.length) {
+        state[top.index] = 2;
+        stack.pop();
+        continue;
+      }
+
+      const child = children[top.next++]!;
+      // Out-of-range children are reported as references
+      if (!(child >= 0 && child < nodes.length)) continue;
+      if (state[child] === 1) {
+        collector.add(
+          'ERROR',
+          'INVALID_REFERENCE',
+          child === top.index
+            ? 'Node is its own child.'
+            : `Child node ${child} is also an ancestor of this node, so the hierarchy loops.`,
+          `/nodes/${top.index}/children`
+        );
+      } else if (state[child] === 0) {
+        state[child] = 1;
+        stack.push({ index: child, next: 0 });
+      }
+    }
+  }
+}
+
+/**
+ * Check images are embedded and readable, and textures point at them.
+ */
+function checkImages(collector: IssueCollector, glb: ParsedGLB): void {
+  const { json } = glb;
+
+  (json.images ?? []).forEach((image, index) => {
+    const pointer = `/images/${index}`;
+    if (image.uri !== undefined && !isDataUri(image.uri)) {
+      collector.add(
+        'ERROR',
+        'EXTERNAL_URI',
+        `Texture ${image.uri} is a separate file. Export the model as a single self-contained .glb.`,
+        pointer
+      );
+      return;
+    }
+    if (!checkReference(collector, image.bufferView, json.bufferViews, 'buffer view', pointer)) {
+      return;
+    }
+    // KTX2 images are reported with KHR_texture_basisu
+    if (image.mimeType === 'image/ktx2') return;
+
+    const bytes = getImageBytes(glb, image);
+    const size = bytes ? readImageSize(bytes) : null;
+    if (!size) {
+      collector.add(
+        'WARNING',
+        'INVALID_IMAGE',
+        'A texture is not a readable PNG or JPEG and may not display.',
+        pointer
+      );
+    } else if (
+      size.width > MODEL_LIMITS.MAX_TEXTURE_DIMENSION ||
+      size.height > MODEL_LIMITS.MAX_TEXTURE_DIMENSION
+    ) {
+      collector.add(
+        'WARNING',
+        'LARGE_TEXTURE',
+        `A ${size.width}x${size.height} texture is larger than ${MODEL_LIMITS.MAX_TEXTURE_DIMENSION}px and may be downscaled or fail on some devices.`,
+        pointer
+      );
+    }
+  });
+
+  (json.textures ?? []).forEach((texture, index) => {
+    checkReference(collector, texture.source, json.images, 'image', `/textures/${index}`);
+  });
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+/**
+ * GLB validator service implementation.
+ */
+export class GLBValidatorService {
+  /**
+   * Validate a GLB file. Never throws: unreadable files are reported as issues.
+   */
+  validate(bytes: Uint8Array): ModelValidationReport {
+    const collector = new IssueCollector();
+    if (!checkContainer(collector, bytes)) return collector.toReport();
+
+    try {
+      const glb = parseGLB(bytes);
+      checkAssetAndExtensions(collector, glb.json);
+      checkBuffers(collector, glb);
+      checkAccessors(collector, glb.json);
+      const drawable = checkHierarchy(collector, glb.json);
+      checkImages(collector, glb);
+
+      if (drawable === 0) {
+        collector.add('ERROR', 'NO_GEOMETRY', 'The file contains no 3D geometry to place.');
+      }
+    } catch (error) {
+      // The checks assume a well-formed document; anything they trip over is
+      // reported as unreadable rather than thrown at the import flow
+      if (error instanceof GLBParseError) {
+        collector.add(
+          'ERROR',
+          error.code === 'INVALID_JSON' ? 'INVALID_JSON' : 'INVALID_CHUNK',
+          `The model description could not be read: ${error.message}.`,
+          error.pointer
+        );
+      } else {
+        console.warn('[GLBValidatorService] Validation failed:', error);
+        collector.add('ERROR', 'INVALID_JSON', 'The model description could not be read.');
+      }
+    }
+
+    return collector.toReport();
+  }
+}
+
+// Singleton instance
+export const glbValidatorService = new GLBValidatorService();
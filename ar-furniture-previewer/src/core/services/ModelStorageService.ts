@@ -0,0 +1,592 @@
+/**
+ * Model Storage Service
+ *
+ * Manages the model library on disk: GLB files under APP_PATHS.models and
+ * their entries in the AsyncStorage model index. Incoming files are staged
+ * in APP_PATHS.importStaging and only moved into the library once they pass
+ * validation, so a failed import leaves neither a file nor an index entry.
+ * useModelStore.models is kept in step with the index.
+ * Per T108: Implement model persistence per storage-service.ts.
+ *
+ * @module core/services/ModelStorageService
+ */
+
+import type {
+  ImportModelParams,
+  Model,
+  ModelCategory,
+  ModelDimension,
+  ModelValidationReport,
+  SaveScannedModelParams,
+  StorageStats,
+  UpdateModelParams,
+} from '@core/types/model.types';
+import {
+  APP_PATHS,
+  getImportStagingPath,
+  getModelPaths,
+  STORAGE_KEYS,
+} from '@core/constants/paths';
+import { MODEL_LIMITS } from '@core/constants/limits';
+import { useModelStore } from '@core/stores/useModelStore';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  addModelToIndex,
+  getModelIndex,
+  removeModelFromIndex,
+  updateModelInIndex,
+} from '@infrastructure/storage/asyncStorageHelpers';
+import { storageMigrator } from '@infrastructure/storage/migrations';
+import { decodeBase64, readGLBMetadata } from './glbParser';
+import { bundledAssetsService } from './BundledAssetsService';
+import { glbValidatorService } from './GLBValidatorService';
+import { scaleForDimension, suggestScale } from './modelSizing';
+import { storageStatsService } from './StorageStatsService';
+import { thumbnailService } from './ThumbnailService';
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Why a model storage operation failed.
+ */
+export type ModelStorageErrorCode =
+  | 'QUOTA_EXCEEDED'
+  | 'NOT_FOUND'
+  | 'INVALID_DATA'
+  | 'BUNDLED_MODEL'
+  | 'IO_ERROR';
+
+/**
+ * Error thrown by ModelStorageService.
+ */
+export class ModelStorageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ModelStorageErrorCode,
+    public readonly modelId?: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'ModelStorageError';
+  }
+}
+
+/**
+ * Error thrown when an imported file fails validation.
+ * The report lists every problem found, for display to the user.
+ */
+export class ModelValidationError extends ModelStorageError {
+  constructor(
+    public readonly report: ModelValidationReport,
+    modelId?: string
+  ) {
+    super(report.issues[0]?.message ?? 'The model file is not valid', 'INVALID_DATA', modelId);
+    this.name = 'ModelValidationError';
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * What is learned about a staged file before it is committed.
+ */
+type FileInspection = Pick<Model, 'metadata' | 'validation'>;
+
+const MODEL_CATEGORIES: readonly ModelCategory[] = [
+  'CHAIR',
+  'TABLE',
+  'SOFA',
+  'CABINET',
+  'LAMP',
+  'CUSTOM',
+];
+
+/**
+ * Generate unique ID.
+ */
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Validate a GLB file and read its metadata.
+ * Any problem with the file's content is INVALID_DATA; only reading it is IO.
+ */
+async function inspectFile(path: string, modelId: string): Promise<FileInspection> {
+  const bytes = decodeBase64(await fileSystem.readFile(path, 'base64'));
+  const validation = glbValidatorService.validate(bytes);
+  if (!validation.valid) {
+    throw new ModelValidationError(validation, modelId);
+  }
+  try {
+    return { metadata: readGLBMetadata(bytes), validation };
+  } catch (error) {
+    // Metadata checks some things validation does not, e.g. vertex counts
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ModelStorageError(
+      `Model file could not be read: ${message}`,
+      'INVALID_DATA',
+      modelId,
+      error
+    );
+  }
+}
+
+/**
+ * Check model fields against MODEL_LIMITS.
+ */
+function validateModel(
+  fields: { name?: string; category?: ModelCategory; scale?: number },
+  modelId?: string
+): void {
+  if (fields.scale !== undefined && !(fields.scale > 0 && Number.isFinite(fields.scale))) {
+    throw new ModelStorageError(
+      `Model scale must be a positive number, got ${fields.scale}`,
+      'INVALID_DATA',
+      modelId
+    );
+  }
+  if (fields.name !== undefined) {
+    const length = fields.name.trim().length;
+    if (length === 0 || length > MODEL_LIMITS.MAX_NAME_LENGTH) {
+      throw new ModelStorageError(
+        `Model name must be 1-${MODEL_LIMITS.MAX_NAME_LENGTH} characters`,
+        'INVALID_DATA',
+        modelId
+      );
+    }
+  }
+  if (fields.category !== undefined && !MODEL_CATEGORIES.includes(fields.category)) {
+    throw new ModelStorageError(
+      `Unknown model category: ${String(fields.category)}`,
+      'INVALID_DATA',
+      modelId
+    );
+  }
+}
+
+/**
+ * Check a GLB file is neither empty nor over MODEL_LIMITS.MAX_GLB_SIZE_BYTES.
+ *
+ * @returns The file size in bytes
+ */
+async function checkFileSize(path: string, modelId: string): Promise<number> {
+  const { valid, size } = await fileSystem.validateFileSize(path);
+  if (!valid || size === 0) {
+    throw new ModelStorageError(
+      size === 0
+        ? 'Model file is empty'
+        : `Model file exceeds ${MODEL_LIMITS.MAX_GLB_SIZE_BYTES / (1024 * 1024)}MB`,
+      'INVALID_DATA',
+      modelId
+    );
+  }
+  return size;
+}
+
+/**
+ * Index entry for a user model stored under its ID.
+ */
+function createModel(
+  id: string,
+  name: string,
+  category: ModelCategory,
+  inspection: FileInspection
+): Model {
+  const paths = getModelPaths(id);
+  const model: Model = {
+    id,
+    name: name.trim(),
+    glbPath: paths.glb,
+    thumbnailPath: paths.thumbnail,
+    category,
+    isBundled: false,
+    createdAt: Date.now(),
+    lastUsedAt: null,
+    ...inspection,
+  };
+  // Files that look authored in centimetres and the like keep their own
+  // scale until the user accepts the correction
+  const suggestion = suggestScale(inspection.metadata.boundingBox.size, category);
+  if (suggestion.scale !== 1) model.scaleSuggestion = suggestion;
+  return model;
+}
+
+/**
+ * Wrap a failed operation in ModelStorageError.
+ */
+function toStorageError(action: string, error: unknown, modelId?: string): ModelStorageError {
+  if (error instanceof ModelStorageError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ModelStorageError(`${action} failed: ${message}`, 'IO_ERROR', modelId, error);
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+/**
+ * Model storage service implementation.
+ */
+export class ModelStorageService {
+  private initialized: Promise<void> | null = null;
+  // Index updates are read-modify-write; run them one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Prepare storage and hydrate useModelStore.models.
+   * Safe to call more than once; later calls share the first result.
+   */
+  initialize(): Promise<void> {
+    this.initialized ??= this.exclusive(async () => {
+      await fileSystem.initializeDirectories();
+      await storageMigrator.migrate(STORAGE_KEYS.MODEL_INDEX);
+      await this.clearStaging();
+      // A bundled model that fails to install is retried next launch
+      await bundledAssetsService
+        .initializeBundledModels()
+        .catch((error: unknown) =>
+          console.warn('[ModelStorageService] Failed to install bundled models:', error)
+        );
+      const index = await getModelIndex();
+      useModelStore.getState().setModels(index.models);
+    }).catch((error: unknown) => {
+      this.initialized = null;
+      throw toStorageError('Loading models', error);
+    });
+    return this.initialized;
+  }
+
+  /**
+   * Get all stored models.
+   */
+  async getAllModels(): Promise<Model[]> {
+    await this.initialize();
+    return (await getModelIndex()).models;
+  }
+
+  /**
+   * Get a single model by ID.
+   */
+  async getModel(id: string): Promise<Model | null> {
+    const models = await this.getAllModels();
+    return models.find(model => model.id === id) ?? null;
+  }
+
+  /**
+   * Check whether another model fits within MODEL_LIMITS.MAX_MODELS.
+   */
+  async canAddModel(): Promise<boolean> {
+    const models = await this.getAllModels();
+    return models.length < MODEL_LIMITS.MAX_MODELS;
+  }
+
+  /**
+   * Import a GLB file into the library.
+   * The source file is copied, never moved. A thumbnail is rendered once
+   * the model is saved.
+   *
+   * @throws ModelStorageError QUOTA_EXCEEDED at MODEL_LIMITS.MAX_MODELS
+   * @throws ModelStorageError INVALID_DATA if the file is empty or too large
+   * @throws ModelValidationError if the file fails validation
+   */
+  async importModel(params: ImportModelParams): Promise<Model> {
+    validateModel(params);
+    await this.initialize();
+
+    const model = await this.exclusive(() =>
+      this.addToLibrary(
+        params.name,
+        params.category,
+        staging => fileSystem.copyFile(params.sourcePath, staging),
+        inspectFile
+      )
+    );
+    await this.createThumbnail(model);
+    return model;
+  }
+
+  /**
+   * Save a model produced by a scan.
+   *
+   * @throws ModelStorageError QUOTA_EXCEEDED at MODEL_LIMITS.MAX_MODELS
+   * @throws ModelStorageError INVALID_DATA if the file is empty or too large
+   */
+  async saveScannedModel(params: SaveScannedModelParams): Promise<Model> {
+    const category = params.category ?? 'CUSTOM';
+    validateModel({ name: params.name, category });
+    await this.initialize();
+
+    const model = await this.exclusive(() =>
+      this.addToLibrary(
+        params.name,
+        category,
+        staging => fileSystem.writeFile(staging, params.glbData, 'base64'),
+        (_staging, _id, fileSize) => Promise.resolve({ metadata: { ...params.metadata, fileSize } })
+      )
+    );
+    await this.createThumbnail(model);
+    return model;
+  }
+
+  /**
+   * Add a GLB file already in the models directory back to the library
+   * under its own ID, e.g. one whose index entry was lost in a crash.
+   * Scenes placing the model keep working. The file is validated where it
+   * is, and a thumbnail rendered if there is none.
+   *
+   * @throws ModelStorageError NOT_FOUND if there is no file for the ID
+   * @throws ModelStorageError QUOTA_EXCEEDED at MODEL_LIMITS.MAX_MODELS
+   * @throws ModelStorageError INVALID_DATA if the file is empty, too large or unreadable
+   * @throws ModelValidationError if the file fails validation
+   */
+  async recoverModel(id: string, params: Omit<ImportModelParams, 'sourcePath'>): Promise<Model> {
+    validateModel(params, id);
+    await this.initialize();
+
+    const model = await this.exclusive(async () => {
+      const index = await getModelIndex();
+      // Claimed since the caller found the file
+      const existing = index.models.find(current => current.id === id);
+      if (existing) return existing;
+      if (index.models.length >= MODEL_LIMITS.MAX_MODELS) {
+        throw new ModelStorageError(
+          `Cannot store more than ${MODEL_LIMITS.MAX_MODELS} models`,
+          'QUOTA_EXCEEDED',
+          id
+        );
+      }
+
+      const { glb } = getModelPaths(id);
+      try {
+        if (!(await fileSystem.exists(glb))) {
+          throw new ModelStorageError(`Model ${id} has no file`, 'NOT_FOUND', id);
+        }
+        await checkFileSize(glb, id);
+        const recovered = createModel(id, params.name, params.category, await inspectFile(glb, id));
+        await addModelToIndex(recovered);
+        useModelStore.getState().addModel(recovered);
+        return recovered;
+      } catch (error) {
+        throw toStorageError('Recovering model', error, id);
+      }
+    });
+    if (!(await fileSystem.exists(model.thumbnailPath))) {
+      await this.createThumbnail(model);
+    }
+    return model;
+  }
+
+  /**
+   * Update a model's name, last use or scale. Setting the scale replaces
+   * any pending scale suggestion.
+   */
+  async updateModel(id: string, updates: UpdateModelParams): Promise<Model> {
+    validateModel(updates, id);
+    await this.initialize();
+
+    return this.exclusive(async () => {
+      const existing = (await getModelIndex()).models.find(model => model.id === id);
+      if (!existing) {
+        throw new ModelStorageError(`Model ${id} not found`, 'NOT_FOUND', id);
+      }
+
+      const model: Model = {
+        ...existing,
+        ...updates,
+        name: updates.name?.trim() ?? existing.name,
+      };
+      if (updates.scale !== undefined) delete model.scaleSuggestion;
+      try {
+        await updateModelInIndex(model);
+      } catch (error) {
+        throw toStorageError('Updating model', error, id);
+      }
+      useModelStore.getState().updateModel(model);
+      return model;
+    });
+  }
+
+  /**
+   * Scale a model so one side has a known real length, e.g. width 2.1 m.
+   */
+  async setRealDimension(id: string, dimension: ModelDimension, meters: number): Promise<Model> {
+    const model = await this.getModel(id);
+    if (!model) {
+      throw new ModelStorageError(`Model ${id} not found`, 'NOT_FOUND', id);
+    }
+    const scale = scaleForDimension(model.metadata.boundingBox.size, dimension, meters);
+    if (scale === null) {
+      throw new ModelStorageError(`Cannot size the model by its ${dimension}`, 'INVALID_DATA', id);
+    }
+    return this.updateModel(id, { scale });
+  }
+
+  /**
+   * Apply the unit correction suggested when the model was imported.
+   */
+  async acceptScaleSuggestion(id: string): Promise<Model> {
+    const model = await this.getModel(id);
+    if (!model) {
+      throw new ModelStorageError(`Model ${id} not found`, 'NOT_FOUND', id);
+    }
+    if (!model.scaleSuggestion) {
+      throw new ModelStorageError(`Model ${id} has no scale suggestion`, 'INVALID_DATA', id);
+    }
+    return this.updateModel(id, { scale: model.scaleSuggestion.scale });
+  }
+
+  /**
+   * Delete a model and its files.
+   *
+   * @throws ModelStorageError BUNDLED_MODEL for pre-loaded models
+   */
+  async deleteModel(id: string): Promise<void> {
+    await this.initialize();
+
+    await this.exclusive(async () => {
+      const existing = (await getModelIndex()).models.find(model => model.id === id);
+      if (!existing) {
+        throw new ModelStorageError(`Model ${id} not found`, 'NOT_FOUND', id);
+      }
+      if (existing.isBundled) {
+        throw new ModelStorageError('Bundled models cannot be deleted', 'BUNDLED_MODEL', id);
+      }
+
+      try {
+        await removeModelFromIndex(id);
+      } catch (error) {
+        throw toStorageError('Deleting model', error, id);
+      }
+      useModelStore.getState().removeModel(id);
+
+      // The index no longer references the files; a failure only leaves orphans
+      const paths = getModelPaths(id);
+      for (const path of [paths.glb, paths.thumbnail]) {
+        await fileSystem.deleteFile(path).catch((error: unknown) => {
+          console.warn('[ModelStorageService] Failed to delete model file:', error);
+        });
+      }
+    });
+  }
+
+  /**
+   * Copy a bundled model's files from the app bundle again, replacing
+   * missing or damaged ones.
+   *
+   * @throws ModelStorageError NOT_FOUND if the ID is not a bundled model
+   */
+  async restoreBundledModel(id: string): Promise<Model> {
+    if (!bundledAssetsService.getBundledModelIds().includes(id)) {
+      throw new ModelStorageError(`Model ${id} is not a bundled model`, 'NOT_FOUND', id);
+    }
+    await this.initialize();
+
+    return this.exclusive(async () => {
+      try {
+        await bundledAssetsService.reinstallModel(id);
+      } catch (error) {
+        throw toStorageError('Restoring model', error, id);
+      }
+      const { models } = await getModelIndex();
+      useModelStore.getState().setModels(models);
+      const model = models.find(current => current.id === id);
+      if (!model) throw new ModelStorageError(`Model ${id} not found`, 'NOT_FOUND', id);
+      return model;
+    });
+  }
+
+  /**
+   * Get current storage usage statistics.
+   * See StorageStatsService for the full breakdown.
+   */
+  async getStorageStats(): Promise<StorageStats> {
+    await this.initialize();
+    return storageStatsService.getBreakdown();
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * Run index updates one at a time.
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    // Every write goes through here, so cached usage figures are dropped after it
+    const result = this.queue.then(operation).finally(() => storageStatsService.invalidate());
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Stage a GLB file, validate it and commit it to the library.
+   * Anything written is removed again if a step fails.
+   */
+  private async addToLibrary(
+    name: string,
+    category: ModelCategory,
+    stage: (stagingPath: string) => Promise<void>,
+    inspect: (stagingPath: string, modelId: string, fileSize: number) => Promise<FileInspection>
+  ): Promise<Model> {
+    const index = await getModelIndex();
+    if (index.models.length >= MODEL_LIMITS.MAX_MODELS) {
+      throw new ModelStorageError(
+        `Cannot store more than ${MODEL_LIMITS.MAX_MODELS} models`,
+        'QUOTA_EXCEEDED'
+      );
+    }
+
+    const id = generateId();
+    const staging = getImportStagingPath(`${id}.glb`);
+    const paths = getModelPaths(id);
+    let moved = false;
+
+    try {
+      await stage(staging);
+
+      const size = await checkFileSize(staging, id);
+      const model = createModel(id, name, category, await inspect(staging, id, size));
+
+      await fileSystem.moveFile(staging, paths.glb);
+      moved = true;
+      await addModelToIndex(model);
+
+      useModelStore.getState().addModel(model);
+      return model;
+    } catch (error) {
+      await fileSystem.deleteFile(staging).catch(() => undefined);
+      if (moved) await fileSystem.deleteFile(paths.glb).catch(() => undefined);
+      throw toStorageError('Saving model', error, id);
+    }
+  }
+
+  /**
+   * Render a newly added model's thumbnail. A model without one is still
+   * usable, so failures are logged rather than undoing the import.
+   */
+  private async createThumbnail(model: Model): Promise<void> {
+    try {
+      await thumbnailService.generateThumbnail(model.id, { glbPath: model.glbPath });
+    } catch (error) {
+      console.warn('[ModelStorageService] Failed to create thumbnail:', error);
+    }
+  }
+
+  /**
+   * Remove staged files left by imports cut short by the app being killed.
+   */
+  private async clearStaging(): Promise<void> {
+    const files = await fileSystem.listDirectory(APP_PATHS.importStaging);
+    for (const file of files) {
+      await fileSystem.deleteFile(file.path);
+    }
+  }
+}
+
+// Singleton instance
+export const modelStorageService = new ModelStorageService();
@@ -0,0 +1,426 @@
+/**
+ * Scene Storage Service
+ *
+ * Persists saved scenes: metadata in the AsyncStorage scene index,
+ * screenshots as JPEG files under APP_PATHS.sceneThumbnails. A save either
+ * lands in both places or in neither, and useSceneStore.savedScenes is kept
+ * in step with the index.
+ * Per T109: Implement scene persistence per storage-service.ts.
+ *
+ * @module core/services/SceneStorageService
+ */
+
+import type {
+  PlacedObject,
+  SavedScene,
+  SaveSceneParams,
+  UpdateSceneParams,
+} from '@core/types/scene.types';
+import { APP_PATHS, getScenePaths, STORAGE_KEYS } from '@core/constants/paths';
+import { SCENE_LIMITS } from '@core/constants/limits';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  addSceneToIndex,
+  getSceneIndex,
+  removeSceneFromIndex,
+  updateSceneInIndex,
+} from '@infrastructure/storage/asyncStorageHelpers';
+import { storageMigrator } from '@infrastructure/storage/migrations';
+import { storageStatsService } from './StorageStatsService';
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Why a scene storage operation failed.
+ */
+export type SceneStorageErrorCode = 'QUOTA_EXCEEDED' | 'NOT_FOUND' | 'INVALID_DATA' | 'IO_ERROR';
+
+/**
+ * Error thrown by SceneStorageService.
+ */
+export class SceneStorageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: SceneStorageErrorCode,
+    public readonly sceneId?: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'SceneStorageError';
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Suffix of a thumbnail being written.
+ */
+const PENDING_SUFFIX = '.pending';
+
+/**
+ * Suffix of the previous thumbnail while an update is in flight.
+ */
+const BACKUP_SUFFIX = '.bak';
+
+/**
+ * Backup of a scene's thumbnail, named after the updatedAt of the update
+ * replacing it: the update committed once the index holds that time.
+ */
+function backupPath(thumbnail: string, updatedAt: number): string {
+  return `${thumbnail}.${updatedAt}${BACKUP_SUFFIX}`;
+}
+
+/**
+ * Thumbnail and update time a backup file belongs to, or null if the file
+ * is not a backup.
+ */
+function parseBackupPath(path: string): { thumbnail: string; updatedAt: number } | null {
+  const match = /^(.*)\.(\d+)\.bak$/.exec(path);
+  if (!match?.[1] || !match[2]) return null;
+  return { thumbnail: match[1], updatedAt: Number(match[2]) };
+}
+
+/**
+ * Generate unique ID.
+ */
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Decoded size of base64 data in bytes.
+ */
+function base64Size(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/**
+ * Check scene fields against SCENE_LIMITS.
+ */
+function validateScene(
+  fields: { name?: string; thumbnailBase64?: string | null; objects?: PlacedObject[] },
+  sceneId?: string
+): void {
+  if (fields.name !== undefined) {
+    const length = fields.name.trim().length;
+    if (length === 0 || length > SCENE_LIMITS.MAX_NAME_LENGTH) {
+      throw new SceneStorageError(
+        `Scene name must be 1-${SCENE_LIMITS.MAX_NAME_LENGTH} characters`,
+        'INVALID_DATA',
+        sceneId
+      );
+    }
+  }
+  if (fields.objects && fields.objects.length > SCENE_LIMITS.MAX_OBJECTS_PER_SCENE) {
+    throw new SceneStorageError(
+      `A scene holds at most ${SCENE_LIMITS.MAX_OBJECTS_PER_SCENE} objects`,
+      'INVALID_DATA',
+      sceneId
+    );
+  }
+  if (
+    fields.thumbnailBase64 &&
+    base64Size(fields.thumbnailBase64) > SCENE_LIMITS.MAX_THUMBNAIL_SIZE_BYTES
+  ) {
+    throw new SceneStorageError('Scene thumbnail is too large', 'INVALID_DATA', sceneId);
+  }
+}
+
+/**
+ * Wrap a failed write in SceneStorageError.
+ */
+function toStorageError(action: string, error: unknown, sceneId?: string): SceneStorageError {
+  if (error instanceof SceneStorageError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new SceneStorageError(`${action} failed: ${message}`, 'IO_ERROR', sceneId, error);
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+/**
+ * Scene storage service implementation.
+ */
+export class SceneStorageService {
+  private initialized: Promise<void> | null = null;
+  // Index updates are read-modify-write; run them one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Prepare storage and hydrate useSceneStore.savedScenes.
+   * Safe to call more than once; later calls share the first result.
+   */
+  initialize(): Promise<void> {
+    this.initialized ??= this.exclusive(async () => {
+      await fileSystem.ensureDirectory(APP_PATHS.scenes);
+      await fileSystem.ensureDirectory(APP_PATHS.sceneThumbnails);
+      await storageMigrator.migrate(STORAGE_KEYS.SCENE_INDEX);
+      await this.recoverInterruptedWrites();
+      const index = await getSceneIndex();
+      useSceneStore.getState().setSavedScenes(index.scenes);
+    }).catch((error: unknown) => {
+      this.initialized = null;
+      throw toStorageError('Loading scenes', error);
+    });
+    return this.initialized;
+  }
+
+  /**
+   * Get all saved scenes.
+   */
+  async getAllScenes(): Promise<SavedScene[]> {
+    await this.initialize();
+    return (await getSceneIndex()).scenes;
+  }
+
+  /**
+   * Get a single scene by ID.
+   */
+  async getScene(id: string): Promise<SavedScene | null> {
+    const scenes = await this.getAllScenes();
+    return scenes.find(scene => scene.id === id) ?? null;
+  }
+
+  /**
+   * Check whether another scene fits within SCENE_LIMITS.MAX_SCENES.
+   */
+  async canAddScene(): Promise<boolean> {
+    const scenes = await this.getAllScenes();
+    return scenes.length < SCENE_LIMITS.MAX_SCENES;
+  }
+
+  /**
+   * Save a new scene.
+   *
+   * @throws SceneStorageError QUOTA_EXCEEDED at SCENE_LIMITS.MAX_SCENES
+   */
+  async saveScene(params: SaveSceneParams): Promise<SavedScene> {
+    validateScene(params);
+    await this.initialize();
+
+    return this.exclusive(async () => {
+      const index = await getSceneIndex();
+      if (index.scenes.length >= SCENE_LIMITS.MAX_SCENES) {
+        throw new SceneStorageError(
+          `Cannot save more than ${SCENE_LIMITS.MAX_SCENES} scenes`,
+          'QUOTA_EXCEEDED'
+        );
+      }
+
+      const id = generateId();
+      const now = Date.now();
+      const scene: SavedScene = {
+        id,
+        name: params.name.trim(),
+        thumbnailPath: params.thumbnailBase64 ? getScenePaths(id).thumbnail : null,
+        anchorId: params.anchorId,
+        anchorType: params.anchorType,
+        objects: params.objects,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.writeWithThumbnail(scene, params.thumbnailBase64, () => addSceneToIndex(scene));
+      useSceneStore.getState().markSceneSaved(scene);
+      return scene;
+    });
+  }
+
+  /**
+   * Update an existing scene.
+   */
+  async updateScene(id: string, updates: UpdateSceneParams): Promise<SavedScene> {
+    validateScene(updates, id);
+    await this.initialize();
+
+    return this.exclusive(async () => {
+      const existing = (await getSceneIndex()).scenes.find(scene => scene.id === id);
+      if (!existing) {
+        throw new SceneStorageError(`Scene ${id} not found`, 'NOT_FOUND', id);
+      }
+
+      const { thumbnailBase64, ...fields } = updates;
+      const scene: SavedScene = {
+        ...existing,
+        ...fields,
+        name: fields.name?.trim() ?? existing.name,
+        thumbnailPath:
+          thumbnailBase64 === undefined
+            ? existing.thumbnailPath
+            : thumbnailBase64
+              ? getScenePaths(id).thumbnail
+              : null,
+        // Always later than the stored time, which marks an update committed
+        updatedAt: Math.max(Date.now(), existing.updatedAt + 1),
+      };
+
+      await this.writeWithThumbnail(scene, thumbnailBase64, () => updateSceneInIndex(scene));
+
+      const store = useSceneStore.getState();
+      if (store.currentScene?.id === id) {
+        store.markSceneSaved(scene);
+      } else {
+        store.setSavedScenes(store.savedScenes.map(s => (s.id === id ? scene : s)));
+      }
+      return scene;
+    });
+  }
+
+  /**
+   * Delete a scene and its thumbnail.
+   */
+  async deleteScene(id: string): Promise<void> {
+    await this.initialize();
+
+    await this.exclusive(async () => {
+      const existing = (await getSceneIndex()).scenes.find(scene => scene.id === id);
+      if (!existing) return;
+
+      try {
+        await removeSceneFromIndex(id);
+      } catch (error) {
+        throw toStorageError('Deleting scene', error, id);
+      }
+      useSceneStore.getState().deleteScene(id);
+
+      // The index no longer references the file; a failure only leaves an orphan
+      const { thumbnail } = getScenePaths(id);
+      await fileSystem.deleteFile(thumbnail).catch((error: unknown) => {
+        console.warn('[SceneStorageService] Failed to delete thumbnail:', error);
+      });
+    });
+  }
+
+  /**
+   * Save the layout being edited, as a new scene or over the scene it was
+   * loaded from.
+   */
+  async saveCurrentScene(name: string, thumbnailBase64?: string | null): Promise<SavedScene> {
+    const { currentScene, placedObjects } = useSceneStore.getState();
+    if (currentScene && (await this.getScene(currentScene.id))) {
+      return this.updateScene(currentScene.id, {
+        name,
+        objects: placedObjects,
+        ...(thumbnailBase64 !== undefined && { thumbnailBase64 }),
+      });
+    }
+    return this.saveScene({
+      name,
+      thumbnailBase64: thumbnailBase64 ?? null,
+      anchorId: currentScene?.anchorId ?? null,
+      anchorType: currentScene?.anchorType ?? 'DEVICE_RELATIVE',
+      objects: placedObjects,
+    });
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * Run index updates one at a time.
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    // Every write goes through here, so cached usage figures are dropped after it
+    const result = this.queue.then(operation).finally(() => storageStatsService.invalidate());
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Write a scene's thumbnail and commit its index entry together.
+   * undefined leaves the thumbnail as it is; null removes it.
+   *
+   * The new JPEG is written beside the old one, which is kept as a backup
+   * until the index commit succeeds and put back if it fails. The backup is
+   * named after scene.updatedAt, so recovery can tell from the index whether
+   * the commit happened.
+   */
+  private async writeWithThumbnail(
+    scene: SavedScene,
+    thumbnailBase64: string | null | undefined,
+    commit: () => Promise<void>
+  ): Promise<void> {
+    const sceneId = scene.id;
+    if (thumbnailBase64 === undefined) {
+      try {
+        await commit();
+      } catch (error) {
+        throw toStorageError('Saving scene', error, sceneId);
+      }
+      return;
+    }
+
+    const { thumbnail } = getScenePaths(sceneId);
+    const pending = `${thumbnail}${PENDING_SUFFIX}`;
+    const backup = backupPath(thumbnail, scene.updatedAt);
+    let backedUp = false;
+    let placed = false;
+
+    try {
+      if (thumbnailBase64) {
+        await fileSystem.writeFile(pending, thumbnailBase64, 'base64');
+      }
+      if (await fileSystem.exists(thumbnail)) {
+        await fileSystem.moveFile(thumbnail, backup);
+        backedUp = true;
+      }
+      if (thumbnailBase64) {
+        await fileSystem.moveFile(pending, thumbnail);
+        placed = true;
+      }
+      await commit();
+    } catch (error) {
+      // Until the new file is in place, the current thumbnail is the old one
+      if (placed) {
+        await fileSystem.deleteFile(thumbnail).catch(() => undefined);
+      } else {
+        await fileSystem.deleteFile(pending).catch(() => undefined);
+      }
+      if (backedUp) await fileSystem.moveFile(backup, thumbnail).catch(() => undefined);
+      throw toStorageError('Saving scene', error, sceneId);
+    }
+
+    if (backedUp) {
+      await fileSystem.deleteFile(backup).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Finish or roll back thumbnail writes cut short by the app being killed.
+   * A backup is dropped if the index holds the update it was made for, and
+   * put back over whatever thumbnail is there otherwise.
+   */
+  private async recoverInterruptedWrites(): Promise<void> {
+    const { scenes } = await getSceneIndex();
+    const files = await fileSystem.listDirectory(APP_PATHS.sceneThumbnails);
+    for (const file of files) {
+      if (file.path.endsWith(PENDING_SUFFIX)) {
+        await fileSystem.deleteFile(file.path);
+        continue;
+      }
+      const backup = parseBackupPath(file.path);
+      if (!backup) continue;
+
+      const scene = scenes.find(
+        candidate => getScenePaths(candidate.id).thumbnail === backup.thumbnail
+      );
+      if (scene && scene.updatedAt >= backup.updatedAt) {
+        await fileSystem.deleteFile(file.path);
+      } else {
+        await fileSystem.deleteFile(backup.thumbnail);
+        await fileSystem.moveFile(file.path, backup.thumbnail);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const sceneStorageService = new SceneStorageService();
@@ -0,0 +1,430 @@
+/**
+ * Storage Integrity Service
+ *
+ * Cross-checks the model and scene indexes against the files on disk and
+ * repairs what it finds: orphan GLB files are indexed again, missing
+ * thumbnails re-rendered, bundled models restored from the app bundle and
+ * scene objects whose model is gone dropped or marked missingModel.
+ * A flag under STORAGE_KEYS.SESSION_ACTIVE is set while the app is in the
+ * foreground; finding it still set at launch means the last session ended
+ * in a crash, and the check runs then.
+ *
+ * @module core/services/StorageIntegrityService
+ */
+
+import { AppState } from 'react-native';
+import type {
+  DanglingReferenceRepair,
+  IntegrityIssue,
+  IntegrityReport,
+  IntegrityRepairResult,
+  Model,
+} from '@core/types/model.types';
+import type { PlacedObject, SavedScene } from '@core/types/scene.types';
+import { APP_PATHS, STORAGE_KEYS } from '@core/constants/paths';
+import { fileSystem, type FileInfo } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  readFromStorage,
+  removeFromStorage,
+  writeToStorage,
+} from '@infrastructure/storage/asyncStorageHelpers';
+import { bundledAssetsService } from './BundledAssetsService';
+import { ModelStorageError, modelStorageService } from './ModelStorageService';
+import { sceneStorageService } from './SceneStorageService';
+import { storageStatsService } from './StorageStatsService';
+import { thumbnailService } from './ThumbnailService';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for repairing an integrity report.
+ */
+export interface IntegrityRepairOptions {
+  /** What to do with scene objects whose model is gone (default MARK_MISSING) */
+  danglingReferences?: DanglingReferenceRepair;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Name given to models imported again from orphan files.
+ */
+const RECOVERED_MODEL_NAME = 'Recovered model';
+
+/**
+ * Files written part-way by SceneStorageService; it cleans these up itself.
+ */
+const IN_FLIGHT_SUFFIXES = ['.pending', '.bak'];
+
+/**
+ * Last path segment.
+ */
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * ID of the model a GLB file in the models directory belongs to.
+ */
+function modelIdOf(glbName: string): string {
+  return glbName.slice(0, -'.glb'.length);
+}
+
+/**
+ * Files directly inside a directory, leaving out in-flight writes.
+ */
+async function listFiles(path: string): Promise<FileInfo[]> {
+  const items = await fileSystem.listDirectory(path);
+  return items.filter(
+    item => item.isFile && !IN_FLIGHT_SUFFIXES.some(suffix => item.name.endsWith(suffix))
+  );
+}
+
+/**
+ * A field the issue type always carries.
+ */
+function requireField<T>(value: T | undefined, issue: IntegrityIssue): T {
+  if (value === undefined) {
+    throw new Error(`${issue.type} issue is missing a field it needs for repair`);
+  }
+  return value;
+}
+
+/**
+ * Whether an import failed because of the file itself, so trying again
+ * cannot help.
+ */
+function isUnrecoverable(error: unknown): boolean {
+  return error instanceof ModelStorageError && error.code === 'INVALID_DATA';
+}
+
+/**
+ * Scene object without the missingModel mark.
+ */
+function unmark(object: PlacedObject): PlacedObject {
+  return {
+    id: object.id,
+    modelId: object.modelId,
+    transform: object.transform,
+    placedAt: object.placedAt,
+  };
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+/**
+ * Storage integrity service implementation.
+ */
+export class StorageIntegrityService {
+  /**
+   * Compare the indexes with the files on disk and list every mismatch.
+   * Model issues come before scene issues, the order repairs run in.
+   */
+  async scan(): Promise<IntegrityReport> {
+    const models = await modelStorageService.getAllModels();
+    const scenes = await sceneStorageService.getAllScenes();
+    const bundledIds = new Set(bundledAssetsService.getBundledModelIds());
+    const issues: IntegrityIssue[] = [];
+
+    // Models scenes can still place once repairs have run
+    const available = new Set<string>();
+    for (const model of models) {
+      if (!(await fileSystem.exists(model.glbPath))) {
+        issues.push({
+          type: 'MISSING_MODEL_FILE',
+          message: `Model "${model.name}" has no GLB file`,
+          path: model.glbPath,
+          modelId: model.id,
+        });
+        if (bundledIds.has(model.id)) available.add(model.id);
+        continue;
+      }
+      available.add(model.id);
+      if (!(await fileSystem.exists(model.thumbnailPath))) {
+        issues.push({
+          type: 'MISSING_MODEL_THUMBNAIL',
+          message: `Model "${model.name}" has no thumbnail`,
+          path: model.thumbnailPath,
+          modelId: model.id,
+        });
+      }
+    }
+
+    const orphans = await this.findOrphanModelFiles(models);
+    // Orphan files are indexed again under their own ID, so scenes keep them
+    for (const issue of orphans) {
+      if (issue.type === 'ORPHAN_MODEL_FILE' && issue.modelId) available.add(issue.modelId);
+    }
+    issues.push(...orphans);
+    issues.push(...(await this.findSceneFileIssues(scenes)));
+
+    for (const scene of scenes) {
+      const dangling = scene.objects.filter(
+        object => !object.missingModel && !available.has(object.modelId)
+      );
+      if (dangling.length > 0) {
+        issues.push({
+          type: 'DANGLING_MODEL_REFERENCE',
+          message: `Scene "${scene.name}" places ${dangling.length} object(s) whose model is gone`,
+          sceneId: scene.id,
+          objectIds: dangling.map(object => object.id),
+        });
+      }
+      const stale = scene.objects.filter(
+        object => object.missingModel && available.has(object.modelId)
+      );
+      if (stale.length > 0) {
+        issues.push({
+          type: 'STALE_MISSING_MARK',
+          message: `Scene "${scene.name}" marks ${stale.length} object(s) missing whose model is back`,
+          sceneId: scene.id,
+          objectIds: stale.map(object => object.id),
+        });
+      }
+    }
+
+    return { issues, checkedAt: Date.now() };
+  }
+
+  /**
+   * Repair the issues in a report, one at a time and in report order.
+   * An issue that cannot be repaired is listed in failed; the rest still run.
+   */
+  async repair(
+    report: IntegrityReport,
+    options: IntegrityRepairOptions = {}
+  ): Promise<IntegrityRepairResult> {
+    const danglingReferences = options.danglingReferences ?? 'MARK_MISSING';
+    const result: IntegrityRepairResult = { repaired: [], failed: [] };
+
+    for (const issue of report.issues) {
+      try {
+        await this.repairIssue(issue, danglingReferences);
+        result.repaired.push(issue);
+      } catch (error) {
+        result.failed.push({
+          issue,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    // Orphan files are deleted outside the storage services
+    storageStatsService.invalidate();
+    return result;
+  }
+
+  /**
+   * Record that a session has started, and whether the previous one
+   * crashed: its flag was never cleared by going to the background.
+   */
+  async beginSession(): Promise<boolean> {
+    const crashed = await readFromStorage<boolean>(STORAGE_KEYS.SESSION_ACTIVE, false);
+    await writeToStorage(STORAGE_KEYS.SESSION_ACTIVE, true);
+    return crashed;
+  }
+
+  /**
+   * Keep the session flag in step with the app state: cleared in the
+   * background, where apps are killed normally, and set again on return.
+   * beginSession sets it at launch.
+   *
+   * @returns Function that stops tracking
+   */
+  trackSession(): () => void {
+    const subscription = AppState.addEventListener('change', status => {
+      const update =
+        status === 'active'
+          ? writeToStorage(STORAGE_KEYS.SESSION_ACTIVE, true)
+          : status === 'background'
+            ? removeFromStorage(STORAGE_KEYS.SESSION_ACTIVE)
+            : null;
+      update?.catch((error: unknown) => {
+        console.warn('[StorageIntegrityService] Failed to update session flag:', error);
+      });
+    });
+    return () => subscription.remove();
+  }
+
+  /**
+   * Begin a session and, if the previous one crashed, scan and repair.
+   *
+   * @returns The repairs made, or null if the previous session ended normally
+   */
+  async checkAfterCrash(options?: IntegrityRepairOptions): Promise<IntegrityRepairResult | null> {
+    if (!(await this.beginSession())) return null;
+    const report = await this.scan();
+    return this.repair(report, options);
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  /**
+   * GLB files and model thumbnails no index entry points to.
+   */
+  private async findOrphanModelFiles(models: Model[]): Promise<IntegrityIssue[]> {
+    const issues: IntegrityIssue[] = [];
+    const glbNames = new Set(models.map(model => fileName(model.glbPath)));
+    const thumbnailNames = new Set(models.map(model => fileName(model.thumbnailPath)));
+
+    for (const file of await listFiles(APP_PATHS.models)) {
+      if (!file.name.endsWith('.glb') || glbNames.has(file.name)) continue;
+      issues.push({
+        type: 'ORPHAN_MODEL_FILE',
+        message: `${file.name} is not in the model library`,
+        path: file.path,
+        modelId: modelIdOf(file.name),
+      });
+    }
+    for (const file of await listFiles(APP_PATHS.modelThumbnails)) {
+      if (thumbnailNames.has(file.name)) continue;
+      issues.push({
+        type: 'ORPHAN_MODEL_THUMBNAIL',
+        message: `${file.name} belongs to no model`,
+        path: file.path,
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Scene thumbnails that are missing or belong to no scene.
+   */
+  private async findSceneFileIssues(scenes: SavedScene[]): Promise<IntegrityIssue[]> {
+    const issues: IntegrityIssue[] = [];
+    const thumbnailNames = new Set<string>();
+
+    for (const scene of scenes) {
+      if (!scene.thumbnailPath) continue;
+      thumbnailNames.add(fileName(scene.thumbnailPath));
+      if (!(await fileSystem.exists(scene.thumbnailPath))) {
+        issues.push({
+          type: 'MISSING_SCENE_THUMBNAIL',
+          message: `Scene "${scene.name}" has no thumbnail`,
+          path: scene.thumbnailPath,
+          sceneId: scene.id,
+        });
+      }
+    }
+    for (const file of await listFiles(APP_PATHS.sceneThumbnails)) {
+      if (thumbnailNames.has(file.name)) continue;
+      issues.push({
+        type: 'ORPHAN_SCENE_THUMBNAIL',
+        message: `${file.name} belongs to no scene`,
+        path: file.path,
+      });
+    }
+    return issues;
+  }
+
+  private async repairIssue(
+    issue: IntegrityIssue,
+    danglingReferences: DanglingReferenceRepair
+  ): Promise<void> {
+    switch (issue.type) {
+      case 'MISSING_MODEL_FILE': {
+        const id = requireField(issue.modelId, issue);
+        if (bundledAssetsService.getBundledModelIds().includes(id)) {
+          await modelStorageService.restoreBundledModel(id);
+        } else {
+          await modelStorageService.deleteModel(id);
+        }
+        return;
+      }
+      case 'MISSING_MODEL_THUMBNAIL':
+        await thumbnailService.generateThumbnail(requireField(issue.modelId, issue));
+        return;
+      case 'ORPHAN_MODEL_FILE':
+        await this.recoverOrphanModel(
+          requireField(issue.modelId, issue),
+          requireField(issue.path, issue)
+        );
+        return;
+      case 'ORPHAN_MODEL_THUMBNAIL': {
+        // The file may have been claimed since the scan
+        const path = requireField(issue.path, issue);
+        const models = await modelStorageService.getAllModels();
+        if (!models.some(model => model.thumbnailPath === path)) {
+          await fileSystem.deleteFile(path);
+        }
+        return;
+      }
+      case 'MISSING_SCENE_THUMBNAIL':
+        await sceneStorageService.updateScene(requireField(issue.sceneId, issue), {
+          thumbnailBase64: null,
+        });
+        return;
+      case 'ORPHAN_SCENE_THUMBNAIL': {
+        const path = requireField(issue.path, issue);
+        const scenes = await sceneStorageService.getAllScenes();
+        if (!scenes.some(scene => scene.thumbnailPath === path)) {
+          await fileSystem.deleteFile(path);
+        }
+        return;
+      }
+      case 'DANGLING_MODEL_REFERENCE':
+      case 'STALE_MISSING_MARK':
+        await this.repairReferences(issue, danglingReferences);
+        return;
+    }
+  }
+
+  /**
+   * Index an orphan GLB file again under the ID in its name, which scenes
+   * still place it by; bundled models are reinstalled instead. A file that
+   * fails any check on its content (INVALID_DATA, including
+   * ModelValidationError) cannot be recovered and is removed; other
+   * failures keep the file for the next check.
+   */
+  private async recoverOrphanModel(id: string, path: string): Promise<void> {
+    if (bundledAssetsService.getBundledModelIds().includes(id)) {
+      await modelStorageService.restoreBundledModel(id);
+      return;
+    }
+    try {
+      await modelStorageService.recoverModel(id, {
+        name: RECOVERED_MODEL_NAME,
+        category: 'CUSTOM',
+      });
+    } catch (error) {
+      if (!isUnrecoverable(error)) throw error;
+      console.warn(`[StorageIntegrityService] Removing unreadable ${fileName(path)}:`, error);
+      await fileSystem.deleteFile(path);
+    }
+  }
+
+  /**
+   * Drop, mark or unmark the scene objects named by a reference issue.
+   */
+  private async repairReferences(
+    issue: IntegrityIssue,
+    danglingReferences: DanglingReferenceRepair
+  ): Promise<void> {
+    const scene = await sceneStorageService.getScene(requireField(issue.sceneId, issue));
+    // Deleted since the scan; nothing left to repair
+    if (!scene) return;
+
+    const ids = new Set(requireField(issue.objectIds, issue));
+    let objects: PlacedObject[];
+    if (issue.type === 'STALE_MISSING_MARK') {
+      objects = scene.objects.map(object => (ids.has(object.id) ? unmark(object) : object));
+    } else if (danglingReferences === 'DROP') {
+      objects = scene.objects.filter(object => !ids.has(object.id));
+    } else {
+      objects = scene.objects.map(object =>
+        ids.has(object.id) ? { ...object, missingModel: true } : object
+      );
+    }
+    await sceneStorageService.updateScene(scene.id, { objects });
+  }
+}
+
+// Singleton instance
+export const storageIntegrityService = new StorageIntegrityService();
@@ -0,0 +1,193 @@
+/**
+ * Storage Stats Service
+ *
+ * Breaks down what the app keeps on disk: bytes per model and per scene
+ * thumbnail, scan session temp data and the cache, plus use of the model
+ * and scene quotas and cleanup suggestions. Gathering the figures walks
+ * several directories, so the result is cached until invalidate() is
+ * called; the storage services do so after every write.
+ *
+ * @module core/services/StorageStatsService
+ */
+
+import type {
+  ModelStorageUsage,
+  QuotaUsage,
+  SceneStorageUsage,
+  StorageBreakdown,
+} from '@core/types/model.types';
+import { APP_PATHS, BASE_PATHS, STORAGE_KEYS } from '@core/constants/paths';
+import { MODEL_LIMITS, SCENE_LIMITS, STORAGE_WARNINGS } from '@core/constants/limits';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import { getModelIndex, getSceneIndex } from '@infrastructure/storage/asyncStorageHelpers';
+import { storageMigrator } from '@infrastructure/storage/migrations';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Models listed in each cleanup suggestion.
+ */
+const CLEANUP_SUGGESTION_COUNT = 5;
+
+/**
+ * Last path segment.
+ */
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Sizes of the files directly inside a directory, by name.
+ * A directory that does not exist yet holds nothing.
+ */
+async function fileSizes(path: string): Promise<Map<string, number>> {
+  if (!(await fileSystem.exists(path))) return new Map();
+  const items = await fileSystem.listDirectory(path);
+  return new Map(items.filter(item => item.isFile).map(item => [item.name, item.size]));
+}
+
+/**
+ * Total size of a directory, or 0 if it does not exist yet.
+ */
+async function directorySize(path: string): Promise<number> {
+  if (!(await fileSystem.exists(path))) return 0;
+  return fileSystem.getDirectorySize(path);
+}
+
+/**
+ * Use of a count quota.
+ */
+function quotaUsage(used: number, limit: number, warningThreshold: number): QuotaUsage {
+  const ratio = used / limit;
+  return { used, limit, ratio, warningThreshold, nearingLimit: ratio >= warningThreshold };
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+/**
+ * Storage stats service implementation.
+ */
+export class StorageStatsService {
+  private cached: Promise<StorageBreakdown> | null = null;
+
+  /**
+   * Get the storage breakdown, gathered again only after invalidate().
+   */
+  getBreakdown(): Promise<StorageBreakdown> {
+    if (this.cached) return this.cached;
+
+    const result = this.gather();
+    this.cached = result;
+    result.catch(() => {
+      if (this.cached === result) this.cached = null;
+    });
+    return result;
+  }
+
+  /**
+   * Drop the cached breakdown. Call after writing anything it counts;
+   * a breakdown being gathered meanwhile is not cached.
+   */
+  invalidate(): void {
+    this.cached = null;
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  private async gather(): Promise<StorageBreakdown> {
+    await storageMigrator.migrate(STORAGE_KEYS.MODEL_INDEX);
+    await storageMigrator.migrate(STORAGE_KEYS.SCENE_INDEX);
+    const { models } = await getModelIndex();
+    const { scenes } = await getSceneIndex();
+
+    const [
+      glbSizes,
+      modelThumbnailSizes,
+      sceneThumbnailSizes,
+      modelsSize,
+      scenesSize,
+      scanSessionsSize,
+      cacheSize,
+      availableSpace,
+    ] = await Promise.all([
+      fileSizes(APP_PATHS.models),
+      fileSizes(APP_PATHS.modelThumbnails),
+      fileSizes(APP_PATHS.sceneThumbnails),
+      directorySize(APP_PATHS.models),
+      directorySize(APP_PATHS.scenes),
+      directorySize(APP_PATHS.scanSessions),
+      directorySize(BASE_PATHS.cache),
+      fileSystem.getFreeDiskSpace(),
+    ]);
+
+    const modelUsage = models.map((model): ModelStorageUsage => {
+      const fileSize = glbSizes.get(fileName(model.glbPath)) ?? 0;
+      const thumbnailSize = modelThumbnailSizes.get(fileName(model.thumbnailPath)) ?? 0;
+      return {
+        modelId: model.id,
+        name: model.name,
+        isBundled: model.isBundled,
+        fileSize,
+        thumbnailSize,
+        totalSize: fileSize + thumbnailSize,
+        createdAt: model.createdAt,
+        lastUsedAt: model.lastUsedAt,
+      };
+    });
+    const sceneUsage = scenes.map(
+      (scene): SceneStorageUsage => ({
+        sceneId: scene.id,
+        name: scene.name,
+        thumbnailSize: scene.thumbnailPath
+          ? (sceneThumbnailSizes.get(fileName(scene.thumbnailPath)) ?? 0)
+          : 0,
+      })
+    );
+
+    const modelQuota = quotaUsage(
+      models.length,
+      MODEL_LIMITS.MAX_MODELS,
+      STORAGE_WARNINGS.MODEL_WARNING_THRESHOLD
+    );
+    const sceneQuota = quotaUsage(
+      scenes.length,
+      SCENE_LIMITS.MAX_SCENES,
+      STORAGE_WARNINGS.SCENE_WARNING_THRESHOLD
+    );
+
+    // Bundled models cannot be deleted, so they are never suggested
+    const removable = modelUsage.filter(usage => !usage.isBundled);
+    const lastUse = (usage: ModelStorageUsage): number => usage.lastUsedAt ?? usage.createdAt;
+
+    return {
+      modelCount: models.length,
+      sceneCount: scenes.length,
+      modelsSize,
+      scenesSize,
+      availableSpace,
+      nearingLimit: modelQuota.nearingLimit || sceneQuota.nearingLimit,
+      models: modelUsage,
+      scenes: sceneUsage,
+      scanSessionsSize,
+      cacheSize,
+      modelQuota,
+      sceneQuota,
+      largestModels: [...removable]
+        .sort((a, b) => b.totalSize - a.totalSize)
+        .slice(0, CLEANUP_SUGGESTION_COUNT),
+      leastRecentlyUsedModels: [...removable]
+        .sort((a, b) => lastUse(a) - lastUse(b))
+        .slice(0, CLEANUP_SUGGESTION_COUNT),
+      computedAt: Date.now(),
+    };
+  }
+}
+
+// Singleton instance
+export const storageStatsService = new StorageStatsService();
@@ -0,0 +1,198 @@
+/**
+ * Thumbnail Service
+ *
+ * Renders library thumbnails for GLB models: MODEL_LIMITS.THUMBNAIL_SIZE
+ * square JPEGs from the same three-quarter view, framed on the model's
+ * bounding box, written to getModelPaths(id).thumbnail. A GPU renderer can
+ * be registered by whichever screen owns one; without it, or when it fails,
+ * the CPU software renderer is used, which also works headless.
+ * Per FR-016: 256x256 JPEG thumbnails.
+ *
+ * @module core/services/ThumbnailService
+ */
+
+import { MODEL_LIMITS } from '@core/constants/limits';
+import { getModelPaths } from '@core/constants/paths';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  computeBoundingBox,
+  decodeBase64,
+  encodeBase64,
+  GLBParseError,
+  parseGLB,
+  type ParsedGLB,
+} from './glbParser';
+import { encodeJPEG } from './jpegEncoder';
+import { frameBoundingBox, renderSoftware, type ThumbnailCamera } from './softwareRenderer';
+import { storageStatsService } from './StorageStatsService';
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Why thumbnail generation failed.
+ */
+export type ThumbnailErrorCode = 'INVALID_DATA' | 'RENDER_FAILED' | 'IO_ERROR';
+
+/**
+ * Error thrown by ThumbnailService.
+ */
+export class ThumbnailError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ThumbnailErrorCode,
+    public readonly modelId?: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'ThumbnailError';
+  }
+}
+
+// =============================================================================
+// RENDERERS
+// =============================================================================
+
+/**
+ * Something that can draw a model for a thumbnail.
+ */
+export interface ThumbnailRenderer {
+  /** For logs */
+  readonly name: string;
+  /**
+   * Render the model as seen from camera into size x size RGBA pixels.
+   */
+  render(glb: ParsedGLB, camera: ThumbnailCamera, size: number): Promise<Uint8Array>;
+}
+
+/**
+ * CPU renderer, always available.
+ */
+export const softwareThumbnailRenderer: ThumbnailRenderer = {
+  name: 'software',
+  render: (glb, camera, size) => Promise.resolve(renderSoftware(glb, camera, size)),
+};
+
+/** JPEG quality for thumbnails (1-100) */
+const THUMBNAIL_QUALITY = 85;
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+/**
+ * Thumbnail service implementation.
+ */
+export class ThumbnailService {
+  private acceleratedRenderer: ThumbnailRenderer | null = null;
+
+  /**
+   * Use a GPU renderer when available, or null to go back to software only.
+   */
+  setAcceleratedRenderer(renderer: ThumbnailRenderer | null): void {
+    this.acceleratedRenderer = renderer;
+  }
+
+  /**
+   * Render a GLB file to thumbnail JPEG bytes.
+   *
+   * @throws ThumbnailError INVALID_DATA if the file is not a readable GLB
+   * @throws ThumbnailError RENDER_FAILED if no renderer produced an image
+   */
+  async renderThumbnail(glbBytes: Uint8Array, modelId?: string): Promise<Uint8Array> {
+    let glb: ParsedGLB;
+    try {
+      glb = parseGLB(glbBytes);
+    } catch (error) {
+      if (!(error instanceof GLBParseError)) throw error;
+      throw new ThumbnailError(
+        `Cannot read model: ${error.message}`,
+        'INVALID_DATA',
+        modelId,
+        error
+      );
+    }
+
+    const size = MODEL_LIMITS.THUMBNAIL_SIZE;
+    const camera = frameBoundingBox(computeBoundingBox(glb.json));
+    const pixels = await this.renderPixels(glb, camera, size, modelId);
+    return encodeJPEG(pixels, size, size, THUMBNAIL_QUALITY);
+  }
+
+  /**
+   * Render a model's thumbnail and write it to getModelPaths(id).thumbnail.
+   * Reads the GLB from the library unless glbPath or glbBytes is given.
+   *
+   * @returns The thumbnail path
+   */
+  async generateThumbnail(
+    modelId: string,
+    source: { glbPath?: string; glbBytes?: Uint8Array } = {}
+  ): Promise<string> {
+    const path = getModelPaths(modelId).thumbnail;
+    let glbBytes = source.glbBytes;
+    if (!glbBytes) {
+      try {
+        glbBytes = decodeBase64(
+          await fileSystem.readFile(source.glbPath ?? getModelPaths(modelId).glb, 'base64')
+        );
+      } catch (error) {
+        throw toThumbnailError('Reading model', error, modelId);
+      }
+    }
+
+    const jpeg = await this.renderThumbnail(glbBytes, modelId);
+    try {
+      await fileSystem.writeFile(path, encodeBase64(jpeg), 'base64');
+    } catch (error) {
+      throw toThumbnailError('Writing thumbnail', error, modelId);
+    }
+    storageStatsService.invalidate();
+    return path;
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  /**
+   * Render with the accelerated renderer, falling back to software.
+   */
+  private async renderPixels(
+    glb: ParsedGLB,
+    camera: ThumbnailCamera,
+    size: number,
+    modelId?: string
+  ): Promise<Uint8Array> {
+    const renderers = [this.acceleratedRenderer, softwareThumbnailRenderer].filter(
+      (renderer): renderer is ThumbnailRenderer => renderer !== null
+    );
+
+    let lastError: unknown;
+    for (const renderer of renderers) {
+      try {
+        const pixels = await renderer.render(glb, camera, size);
+        if (pixels.length !== size * size * 4) {
+          throw new Error(`Expected ${size}x${size} RGBA, got ${pixels.length} bytes`);
+        }
+        return pixels;
+      } catch (error) {
+        console.warn(`[ThumbnailService] ${renderer.name} renderer failed:`, error);
+        lastError = error;
+      }
+    }
+    throw new ThumbnailError('Could not render thumbnail', 'RENDER_FAILED', modelId, lastError);
+  }
+}
+
+/**
+ * Wrap a failed file operation in ThumbnailError.
+ */
+function toThumbnailError(action: string, error: unknown, modelId: string): ThumbnailError {
+  const message = error instanceof Error ? error.message : String(error);
+  return new ThumbnailError(`${action} failed: ${message}`, 'IO_ERROR', modelId, error);
+}
+
+// Singleton instance
+export const thumbnailService = new ThumbnailService();
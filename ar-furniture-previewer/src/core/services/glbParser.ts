@@ -0,0 +1,953 @@
+/**
+ * GLB Parser
+ *
+ * Reads GLB (binary glTF 2.0) files and extracts ModelMetadata without a
+ * renderer. Plain TypeScript over Uint8Array, with no Buffer, TextDecoder or
+ * atob, so the same code runs in Node and under Hermes.
+ *
+ * @module core/services/glbParser
+ */
+
+import type { BoundingBox, ModelMetadata } from '@core/types/model.types';
+
+// =============================================================================
+// GLTF TYPES
+// =============================================================================
+
+/**
+ * glTF accessor (the fields read here).
+ */
+export interface GLTFAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  min?: number[];
+  max?: number[];
+  sparse?: unknown;
+}
+
+/**
+ * glTF buffer view.
+ */
+export interface GLTFBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+/**
+ * glTF buffer. The GLB binary chunk is the buffer without a uri.
+ */
+export interface GLTFBuffer {
+  uri?: string;
+  byteLength: number;
+}
+
+/**
+ * glTF mesh primitive.
+ */
+export interface GLTFPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * glTF mesh.
+ */
+export interface GLTFMesh {
+  primitives: GLTFPrimitive[];
+}
+
+/**
+ * glTF node.
+ */
+export interface GLTFNode {
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+/**
+ * glTF image, embedded through a buffer view or referenced by uri.
+ */
+export interface GLTFImage {
+  uri?: string;
+  bufferView?: number;
+  mimeType?: string;
+}
+
+/**
+ * glTF texture.
+ */
+export interface GLTFTexture {
+  source?: number;
+  extensions?: Record<string, { source?: number }>;
+}
+
+/**
+ * glTF material (the fields used for thumbnails).
+ */
+export interface GLTFMaterial {
+  pbrMetallicRoughness?: { baseColorFactor?: number[] };
+  emissiveFactor?: number[];
+  doubleSided?: boolean;
+}
+
+/**
+ * glTF JSON document (the parts used by the parser and validator).
+ */
+export interface GLTFDocument {
+  asset: { version: string; minVersion?: string; generator?: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GLTFNode[];
+  meshes?: GLTFMesh[];
+  accessors?: GLTFAccessor[];
+  bufferViews?: GLTFBufferView[];
+  buffers?: GLTFBuffer[];
+  images?: GLTFImage[];
+  textures?: GLTFTexture[];
+  materials?: GLTFMaterial[];
+  animations?: unknown[];
+  extensionsUsed?: string[];
+  extensionsRequired?: string[];
+}
+
+/**
+ * A GLB file split into its chunks.
+ */
+export interface ParsedGLB {
+  /** Container version from the header */
+  version: number;
+  /** Total length declared in the header */
+  byteLength: number;
+  /** Parsed JSON chunk */
+  json: GLTFDocument;
+  /** Binary chunk, if present */
+  bin: Uint8Array | null;
+}
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Why a file could not be read as GLB.
+ */
+export type GLBParseErrorCode =
+  | 'INVALID_HEADER'
+  | 'UNSUPPORTED_VERSION'
+  | 'INVALID_CHUNK'
+  | 'INVALID_JSON';
+
+/**
+ * Error thrown when a file is not a readable GLB.
+ */
+export class GLBParseError extends Error {
+  constructor(
+    message: string,
+    public readonly code: GLBParseErrorCode,
+    /** JSON pointer to the offending part of the document, if any */
+    public readonly pointer: string | null = null
+  ) {
+    super(message);
+    this.name = 'GLBParseError';
+  }
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** 'glTF' read as a little-endian uint32 */
+export const GLB_MAGIC = 0x46546c67;
+
+/** 'JSON' chunk type */
+export const GLB_CHUNK_JSON = 0x4e4f534a;
+
+/** 'BIN\0' chunk type */
+export const GLB_CHUNK_BIN = 0x004e4942;
+
+/** Header length: magic, version, length */
+export const GLB_HEADER_LENGTH = 12;
+
+/** Chunk header length: length, type */
+export const GLB_CHUNK_HEADER_LENGTH = 8;
+
+/**
+ * Largest value of each normalized integer component type, for dequantizing
+ * accessor bounds (KHR_mesh_quantization).
+ */
+const NORMALIZED_MAX: Record<number, number> = {
+  5120: 127, // BYTE
+  5121: 255, // UNSIGNED_BYTE
+  5122: 32767, // SHORT
+  5123: 65535, // UNSIGNED_SHORT
+};
+
+/** Bytes per component, by accessor componentType */
+export const COMPONENT_SIZES: Record<number, number> = {
+  5120: 1, // BYTE
+  5121: 1, // UNSIGNED_BYTE
+  5122: 2, // SHORT
+  5123: 2, // UNSIGNED_SHORT
+  5125: 4, // UNSIGNED_INT
+  5126: 4, // FLOAT
+};
+
+/** Components per element, by accessor type */
+export const TYPE_COMPONENTS: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// =============================================================================
+// BYTE HELPERS
+// =============================================================================
+
+let base64Lookup: Uint8Array | null = null;
+
+/**
+ * Decode base64 (as returned by react-native-fs) to bytes.
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  if (!base64Lookup) {
+    base64Lookup = new Uint8Array(128).fill(255);
+    for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+      base64Lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+    }
+    // URL-safe variants
+    base64Lookup['-'.charCodeAt(0)] = 62;
+    base64Lookup['_'.charCodeAt(0)] = 63;
+  }
+
+  const bytes = new Uint8Array(Math.floor((base64.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+  for (let i = 0; i < base64.length; i++) {
+    const code = base64.charCodeAt(i);
+    const value = code < 128 ? (base64Lookup[code] ?? 255) : 255;
+    // Padding, whitespace and anything else is skipped
+    if (value === 255) continue;
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, length);
+}
+
+/**
+ * Encode bytes as base64 (for writing with react-native-fs).
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i] ?? 0;
+    const b = bytes[i + 1] ?? 0;
+    const c = bytes[i + 2] ?? 0;
+    const triple = (a << 16) | (b << 8) | c;
+    result += BASE64_ALPHABET.charAt((triple >> 18) & 63);
+    result += BASE64_ALPHABET.charAt((triple >> 12) & 63);
+    result += i + 1 < bytes.length ? BASE64_ALPHABET.charAt((triple >> 6) & 63) : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET.charAt(triple & 63) : '=';
+  }
+  return result;
+}
+
+/**
+ * Decode UTF-8 bytes to a string.
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+  // A BOM is not allowed in the JSON chunk, but some exporters write one
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) i = 3;
+
+  while (i < bytes.length) {
+    const byte = bytes[i++] ?? 0;
+    let codePoint: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte >= 0xc0 && byte < 0xe0) {
+      codePoint = ((byte & 0x1f) << 6) | ((bytes[i++] ?? 0) & 0x3f);
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      codePoint =
+        ((byte & 0x0f) << 12) | (((bytes[i++] ?? 0) & 0x3f) << 6) | ((bytes[i++] ?? 0) & 0x3f);
+    } else if (byte >= 0xf0) {
+      codePoint =
+        ((byte & 0x07) << 18) |
+        (((bytes[i++] ?? 0) & 0x3f) << 12) |
+        (((bytes[i++] ?? 0) & 0x3f) << 6) |
+        ((bytes[i++] ?? 0) & 0x3f);
+    } else {
+      codePoint = 0xfffd;
+    }
+    result += String.fromCodePoint(codePoint);
+  }
+  return result;
+}
+
+/**
+ * Little-endian uint32 at an offset.
+ */
+export function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] ?? 0) |
+      ((bytes[offset + 1] ?? 0) << 8) |
+      ((bytes[offset + 2] ?? 0) << 16) |
+      ((bytes[offset + 3] ?? 0) << 24)) >>>
+    0
+  );
+}
+
+/**
+ * Big-endian uint16 at an offset.
+ */
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] ?? 0) << 8) | (bytes[offset + 1] ?? 0);
+}
+
+/**
+ * Big-endian uint32 at an offset.
+ */
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((readUint16BE(bytes, offset) << 16) | readUint16BE(bytes, offset + 2)) >>> 0;
+}
+
+// =============================================================================
+// CONTAINER
+// =============================================================================
+
+/**
+ * Split a GLB file into its JSON and binary chunks. The JSON is checked
+ * against the glTF schema for every field the app reads, so the returned
+ * document can be trusted to match GLTFDocument.
+ *
+ * @throws GLBParseError if the file is not GLB 2.0, is truncated or its
+ *   JSON is malformed
+ */
+export function parseGLB(bytes: Uint8Array): ParsedGLB {
+  if (bytes.length < GLB_HEADER_LENGTH || readUint32(bytes, 0) !== GLB_MAGIC) {
+    throw new GLBParseError('Not a GLB file', 'INVALID_HEADER');
+  }
+
+  const version = readUint32(bytes, 4);
+  if (version !== 2) {
+    throw new GLBParseError(`GLB version ${version} is not supported`, 'UNSUPPORTED_VERSION');
+  }
+
+  const byteLength = readUint32(bytes, 8);
+  if (byteLength > bytes.length) {
+    throw new GLBParseError(
+      `File is truncated: header declares ${byteLength} bytes, found ${bytes.length}`,
+      'INVALID_CHUNK'
+    );
+  }
+
+  let json: GLTFDocument | null = null;
+  let bin: Uint8Array | null = null;
+  let offset = GLB_HEADER_LENGTH;
+
+  while (offset + GLB_CHUNK_HEADER_LENGTH <= byteLength) {
+    const chunkLength = readUint32(bytes, offset);
+    const chunkType = readUint32(bytes, offset + 4);
+    const start = offset + GLB_CHUNK_HEADER_LENGTH;
+    const end = start + chunkLength;
+    if (end > byteLength) {
+      throw new GLBParseError('Chunk extends past the end of the file', 'INVALID_CHUNK');
+    }
+
+    if (json === null) {
+      if (chunkType !== GLB_CHUNK_JSON) {
+        throw new GLBParseError('First chunk is not JSON', 'INVALID_CHUNK');
+      }
+      json = parseJsonChunk(bytes.subarray(start, end));
+    } else if (chunkType === GLB_CHUNK_BIN && bin === null) {
+      bin = bytes.subarray(start, end);
+    }
+    // Unknown chunk types are skipped, as the spec requires
+
+    offset = end;
+  }
+
+  if (json === null) {
+    throw new GLBParseError('File has no JSON chunk', 'INVALID_CHUNK');
+  }
+
+  return { version, byteLength, json, bin };
+}
+
+/**
+ * Parse the JSON chunk.
+ */
+function parseJsonChunk(bytes: Uint8Array): GLTFDocument {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decodeUtf8(bytes));
+  } catch (error) {
+    throw new GLBParseError(
+      `JSON chunk is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_JSON'
+    );
+  }
+  checkDocument(parsed, '');
+  return parsed as GLTFDocument;
+}
+
+// =============================================================================
+// DOCUMENT SHAPE
+// =============================================================================
+
+/**
+ * Checks a JSON value against the shape the parser relies on.
+ * Required checks reject a missing field; others only check a present one.
+ */
+type ShapeCheck = ((value: unknown, pointer: string) => void) & { required?: true };
+
+function invalidShape(pointer: string, expected: string): never {
+  throw new GLBParseError(`${pointer || 'Document'} must be ${expected}`, 'INVALID_JSON', pointer);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function required(check: ShapeCheck): ShapeCheck {
+  const wrapped: ShapeCheck = (value, pointer) => check(value, pointer);
+  wrapped.required = true;
+  return wrapped;
+}
+
+const isIndex: ShapeCheck = (value, pointer) => {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    invalidShape(pointer, 'a non-negative integer');
+  }
+};
+
+const isNumber: ShapeCheck = (value, pointer) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) invalidShape(pointer, 'a number');
+};
+
+const isString: ShapeCheck = (value, pointer) => {
+  if (typeof value !== 'string') invalidShape(pointer, 'a string');
+};
+
+const isBoolean: ShapeCheck = (value, pointer) => {
+  if (typeof value !== 'boolean') invalidShape(pointer, 'a boolean');
+};
+
+const isAnything: ShapeCheck = () => undefined;
+
+function arrayOf(item: ShapeCheck): ShapeCheck {
+  return (value, pointer) => {
+    if (!Array.isArray(value)) invalidShape(pointer, 'an array');
+    value.forEach((element, index) => item(element, `${pointer}/${index}`));
+  };
+}
+
+function recordOf(item: ShapeCheck): ShapeCheck {
+  return (value, pointer) => {
+    if (!isRecord(value)) invalidShape(pointer, 'an object');
+    for (const [key, element] of Object.entries(value)) item(element, `${pointer}/${key}`);
+  };
+}
+
+function objectOf(fields: Record<string, ShapeCheck>): ShapeCheck {
+  return (value, pointer) => {
+    if (!isRecord(value)) invalidShape(pointer, 'an object');
+    for (const [key, check] of Object.entries(fields)) {
+      const field = value[key];
+      if (field !== undefined) check(field, `${pointer}/${key}`);
+      else if (check.required) invalidShape(`${pointer}/${key}`, 'present');
+    }
+  };
+}
+
+const isNumbers = arrayOf(isNumber);
+
+/**
+ * Shape of the glTF document fields read by the parser, validator and
+ * renderer, following the glTF 2.0 JSON schema.
+ */
+const checkDocument = objectOf({
+  asset: required(objectOf({ version: required(isString), minVersion: isString })),
+  scene: isIndex,
+  scenes: arrayOf(objectOf({ nodes: arrayOf(isIndex) })),
+  nodes: arrayOf(
+    objectOf({
+      mesh: isIndex,
+      children: arrayOf(isIndex),
+      matrix: isNumbers,
+      translation: isNumbers,
+      rotation: isNumbers,
+      scale: isNumbers,
+    })
+  ),
+  meshes: arrayOf(
+    objectOf({
+      primitives: required(
+        arrayOf(
+          objectOf({
+            attributes: required(recordOf(isIndex)),
+            indices: isIndex,
+            material: isIndex,
+            mode: isIndex,
+            extensions: recordOf(isAnything),
+          })
+        )
+      ),
+    })
+  ),
+  accessors: arrayOf(
+    objectOf({
+      bufferView: isIndex,
+      byteOffset: isIndex,
+      componentType: required(isIndex),
+      normalized: isBoolean,
+      count: required(isIndex),
+      type: required(isString),
+      min: isNumbers,
+      max: isNumbers,
+    })
+  ),
+  bufferViews: arrayOf(
+    objectOf({
+      buffer: required(isIndex),
+      byteOffset: isIndex,
+      byteLength: required(isIndex),
+      byteStride: isIndex,
+    })
+  ),
+  buffers: arrayOf(objectOf({ uri: isString, byteLength: required(isIndex) })),
+  images: arrayOf(objectOf({ uri: isString, bufferView: isIndex, mimeType: isString })),
+  textures: arrayOf(
+    objectOf({ source: isIndex, extensions: recordOf(objectOf({ source: isIndex })) })
+  ),
+  materials: arrayOf(
+    objectOf({
+      pbrMetallicRoughness: objectOf({ baseColorFactor: isNumbers }),
+      emissiveFactor: isNumbers,
+      doubleSided: isBoolean,
+    })
+  ),
+  animations: arrayOf(isAnything),
+  extensionsUsed: arrayOf(isString),
+  extensionsRequired: arrayOf(isString),
+});
+
+// =============================================================================
+// IMAGES
+// =============================================================================
+
+/**
+ * Read width and height from PNG or JPEG header bytes.
+ * Returns null for other formats or unreadable headers.
+ */
+export function readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  // PNG: signature, then IHDR with width and height
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    if (bytes.length < 24) return null;
+    return { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20) };
+  }
+
+  // JPEG: walk the markers to the first start-of-frame
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1] ?? 0;
+      // Fill bytes
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc
+      ) {
+        return { height: readUint16BE(bytes, offset + 5), width: readUint16BE(bytes, offset + 7) };
+      }
+      offset += 2 + readUint16BE(bytes, offset + 2);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Bytes of an embedded image: a buffer view into the binary chunk or a
+ * data URI. External files are not read.
+ */
+export function getImageBytes(glb: ParsedGLB, image: GLTFImage): Uint8Array | null {
+  if (image.bufferView !== undefined) {
+    const view = glb.json.bufferViews?.[image.bufferView];
+    if (!view || !glb.bin || view.buffer !== 0) return null;
+    const start = view.byteOffset ?? 0;
+    return glb.bin.subarray(start, start + view.byteLength);
+  }
+  if (image.uri?.startsWith('data:')) {
+    const comma = image.uri.indexOf(',');
+    if (comma === -1) return null;
+    return decodeBase64(image.uri.slice(comma + 1));
+  }
+  return null;
+}
+
+/**
+ * Largest embedded texture as "WxH", by pixel count.
+ */
+function findLargestTexture(glb: ParsedGLB): string | null {
+  let largest: { width: number; height: number } | null = null;
+  for (const image of glb.json.images ?? []) {
+    const bytes = getImageBytes(glb, image);
+    const size = bytes ? readImageSize(bytes) : null;
+    if (size && (!largest || size.width * size.height > largest.width * largest.height)) {
+      largest = size;
+    }
+  }
+  return largest ? `${largest.width}x${largest.height}` : null;
+}
+
+// =============================================================================
+// GEOMETRY
+// =============================================================================
+
+/**
+ * Column-major 4x4 matrix.
+ */
+export type Mat4 = number[];
+
+const IDENTITY: Mat4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+/**
+ * Multiply two column-major 4x4 matrices.
+ */
+export function multiplyMat4(a: Mat4, b: Mat4): Mat4 {
+  const out = new Array<number>(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += (a[k * 4 + row] ?? 0) * (b[col * 4 + k] ?? 0);
+      }
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+/**
+ * Local matrix of a node, from `matrix` or translation/rotation/scale.
+ */
+function getLocalMatrix(node: GLTFNode): Mat4 {
+  if (node.matrix?.length === 16) return node.matrix;
+
+  const [tx = 0, ty = 0, tz = 0] = node.translation ?? [];
+  const [x = 0, y = 0, z = 0, w = 1] = node.rotation ?? [];
+  const [sx = 1, sy = 1, sz = 1] = node.scale ?? [];
+
+  return [
+    (1 - 2 * (y * y + z * z)) * sx,
+    2 * (x * y + z * w) * sx,
+    2 * (x * z - y * w) * sx,
+    0,
+    2 * (x * y - z * w) * sy,
+    (1 - 2 * (x * x + z * z)) * sy,
+    2 * (y * z + x * w) * sy,
+    0,
+    2 * (x * z + y * w) * sz,
+    2 * (y * z - x * w) * sz,
+    (1 - 2 * (x * x + y * y)) * sz,
+    0,
+    tx,
+    ty,
+    tz,
+    1,
+  ];
+}
+
+/**
+ * Accessor min/max as floats, undoing normalized integer quantization.
+ */
+function getAccessorBounds(
+  accessor: GLTFAccessor
+): { min: [number, number, number]; max: [number, number, number] } | null {
+  const { min, max } = accessor;
+  if (!min || !max || min.length < 3 || max.length < 3) return null;
+
+  const scale = accessor.normalized ? NORMALIZED_MAX[accessor.componentType] : undefined;
+  const convert = (value: number): number =>
+    scale === undefined ? value : Math.max(value / scale, -1);
+
+  return {
+    min: [convert(min[0] ?? 0), convert(min[1] ?? 0), convert(min[2] ?? 0)],
+    max: [convert(max[0] ?? 0), convert(max[1] ?? 0), convert(max[2] ?? 0)],
+  };
+}
+
+/**
+ * Read an accessor's elements as floats, flattened (count x components).
+ * Normalized integers are dequantized. Returns null for accessors that are
+ * sparse, unknown or outside the binary chunk.
+ */
+export function readAccessor(glb: ParsedGLB, index: number): Float32Array | null {
+  const accessor = glb.json.accessors?.[index];
+  const componentSize = accessor ? COMPONENT_SIZES[accessor.componentType] : undefined;
+  const components = accessor ? TYPE_COMPONENTS[accessor.type] : undefined;
+  if (!accessor || componentSize === undefined || components === undefined) return null;
+  if (accessor.sparse !== undefined) return null;
+
+  // No buffer view means all zeros
+  if (accessor.bufferView === undefined) return new Float32Array(accessor.count * components);
+
+  const view = glb.json.bufferViews?.[accessor.bufferView];
+  if (!view || view.buffer !== 0 || !glb.bin) return null;
+
+  const elementSize = componentSize * components;
+  const stride = view.byteStride ?? elementSize;
+  const start = (view.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+  const end = start + stride * (accessor.count - 1) + elementSize;
+  // Checked before allocating, so a bogus count cannot exhaust memory
+  if (end > glb.bin.length || end > (view.byteOffset ?? 0) + view.byteLength) return null;
+
+  const out = new Float32Array(accessor.count * components);
+
+  const data = new DataView(glb.bin.buffer, glb.bin.byteOffset, glb.bin.byteLength);
+  const scale = accessor.normalized ? NORMALIZED_MAX[accessor.componentType] : undefined;
+  for (let element = 0; element < accessor.count; element++) {
+    for (let component = 0; component < components; component++) {
+      const offset = start + element * stride + component * componentSize;
+      let value: number;
+      switch (accessor.componentType) {
+        case 5120:
+          value = data.getInt8(offset);
+          break;
+        case 5121:
+          value = data.getUint8(offset);
+          break;
+        case 5122:
+          value = data.getInt16(offset, true);
+          break;
+        case 5123:
+          value = data.getUint16(offset, true);
+          break;
+        case 5125:
+          value = data.getUint32(offset, true);
+          break;
+        default:
+          value = data.getFloat32(offset, true);
+      }
+      out[element * components + component] =
+        scale === undefined ? value : Math.max(value / scale, -1);
+    }
+  }
+  return out;
+}
+
+/**
+ * Root nodes of the default scene, or of every parentless node if the file
+ * has no scenes.
+ */
+function getRootNodes(json: GLTFDocument): number[] {
+  const scene = json.scenes?.[json.scene ?? 0];
+  if (scene) return scene.nodes ?? [];
+
+  const children = new Set((json.nodes ?? []).flatMap(node => node.children ?? []));
+  return (json.nodes ?? []).map((_, index) => index).filter(index => !children.has(index));
+}
+
+/**
+ * Call a visitor with every mesh reachable from the scene roots and its
+ * world matrix.
+ */
+export function forEachMeshInstance(
+  json: GLTFDocument,
+  visitor: (mesh: GLTFMesh, world: Mat4) => void
+): void {
+  const visited = new Set<number>();
+
+  const visit = (nodeIndex: number, parent: Mat4): void => {
+    // Guards against cycles in malformed files
+    if (visited.has(nodeIndex)) return;
+    visited.add(nodeIndex);
+
+    const node = json.nodes?.[nodeIndex];
+    if (!node) return;
+    const world = multiplyMat4(parent, getLocalMatrix(node));
+
+    const mesh = node.mesh !== undefined ? json.meshes?.[node.mesh] : undefined;
+    if (mesh) visitor(mesh, world);
+
+    for (const child of node.children ?? []) visit(child, world);
+  };
+
+  for (const root of getRootNodes(json)) visit(root, IDENTITY);
+}
+
+/**
+ * World-space AABB of every mesh reachable from the scene roots.
+ */
+export function computeBoundingBox(json: GLTFDocument): BoundingBox {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  const expand = (world: Mat4, bounds: NonNullable<ReturnType<typeof getAccessorBounds>>): void => {
+    // Transform all eight corners; a rotated box is not bounded by its min/max alone
+    for (let corner = 0; corner < 8; corner++) {
+      const x = corner & 1 ? bounds.max[0] : bounds.min[0];
+      const y = corner & 2 ? bounds.max[1] : bounds.min[1];
+      const z = corner & 4 ? bounds.max[2] : bounds.min[2];
+      for (let axis = 0; axis < 3; axis++) {
+        const value =
+          (world[axis] ?? 0) * x +
+          (world[4 + axis] ?? 0) * y +
+          (world[8 + axis] ?? 0) * z +
+          (world[12 + axis] ?? 0);
+        min[axis] = Math.min(min[axis] ?? Infinity, value);
+        max[axis] = Math.max(max[axis] ?? -Infinity, value);
+      }
+    }
+  };
+
+  forEachMeshInstance(json, (mesh, world) => {
+    for (const primitive of mesh.primitives) {
+      const position = primitive.attributes.POSITION;
+      const accessor = position !== undefined ? json.accessors?.[position] : undefined;
+      const bounds = accessor ? getAccessorBounds(accessor) : null;
+      if (bounds) expand(world, bounds);
+    }
+  });
+
+  if (min[0] === Infinity) {
+    return { min: [0, 0, 0], max: [0, 0, 0], center: [0, 0, 0], size: [0, 0, 0] };
+  }
+  return {
+    min,
+    max,
+    center: [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2],
+    size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]],
+  };
+}
+
+/**
+ * An accessor's element count, checked against the data behind it so a
+ * declared count cannot claim more elements than the file holds.
+ *
+ * @throws GLBParseError if the accessor is missing or its data does not fit
+ */
+function getBoundedCount(glb: ParsedGLB, index: number, pointer: string): number {
+  const accessor = glb.json.accessors?.[index];
+  if (!accessor) {
+    throw new GLBParseError(
+      `${pointer} refers to accessor ${index}, which does not exist`,
+      'INVALID_JSON',
+      pointer
+    );
+  }
+
+  const accessorPointer = `/accessors/${index}`;
+  const componentSize = COMPONENT_SIZES[accessor.componentType];
+  const components = TYPE_COMPONENTS[accessor.type];
+  const view =
+    accessor.bufferView !== undefined ? glb.json.bufferViews?.[accessor.bufferView] : undefined;
+  if (componentSize === undefined || components === undefined || !view) {
+    throw new GLBParseError(
+      `${accessorPointer} has no readable buffer view`,
+      'INVALID_JSON',
+      accessorPointer
+    );
+  }
+  if (view.buffer === 0 && glb.bin && (view.byteOffset ?? 0) + view.byteLength > glb.bin.length) {
+    throw new GLBParseError(
+      `/bufferViews/${accessor.bufferView} extends past the binary chunk`,
+      'INVALID_CHUNK',
+      `/bufferViews/${accessor.bufferView}`
+    );
+  }
+
+  const elementSize = componentSize * components;
+  const stride = view.byteStride ?? elementSize;
+  const available = view.byteLength - (accessor.byteOffset ?? 0);
+  const capacity = available < elementSize ? 0 : Math.floor((available - elementSize) / stride) + 1;
+  if (accessor.count > capacity) {
+    throw new GLBParseError(
+      `${accessorPointer} declares ${accessor.count} elements, but its buffer view holds ${capacity}`,
+      'INVALID_CHUNK',
+      accessorPointer
+    );
+  }
+  return accessor.count;
+}
+
+/**
+ * Sum of POSITION accessor counts over every mesh primitive.
+ */
+function countVertices(glb: ParsedGLB): number {
+  let count = 0;
+  (glb.json.meshes ?? []).forEach((mesh, meshIndex) => {
+    mesh.primitives.forEach((primitive, primitiveIndex) => {
+      const position = primitive.attributes.POSITION;
+      if (position === undefined) return;
+      count += getBoundedCount(
+        glb,
+        position,
+        `/meshes/${meshIndex}/primitives/${primitiveIndex}/attributes/POSITION`
+      );
+    });
+  });
+  return count;
+}
+
+// =============================================================================
+// METADATA
+// =============================================================================
+
+/**
+ * Extract ModelMetadata from a parsed GLB.
+ *
+ * @throws GLBParseError if vertex positions are missing or do not fit their data
+ */
+export function extractMetadata(glb: ParsedGLB, fileSize: number = glb.byteLength): ModelMetadata {
+  return {
+    fileSize,
+    vertexCount: countVertices(glb),
+    textureResolution: findLargestTexture(glb),
+    hasAnimations: (glb.json.animations?.length ?? 0) > 0,
+    boundingBox: computeBoundingBox(glb.json),
+  };
+}
+
+/**
+ * Parse a GLB file and extract its ModelMetadata.
+ *
+ * @throws GLBParseError if the file is not a readable GLB, or its JSON does
+ *   not have the shape glTF 2.0 requires
+ */
+export function readGLBMetadata(bytes: Uint8Array): ModelMetadata {
+  return extractMetadata(parseGLB(bytes), bytes.length);
+}
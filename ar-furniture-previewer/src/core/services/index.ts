@@ -0,0 +1,61 @@
+/**
+ * Service Exports
+ *
+ * Barrel export for core services.
+ *
+ * @module core/services
+ */
+
+export {
+  ARService,
+  arService,
+  ARServiceError,
+  ARSessionError,
+  ModelPlacementError,
+  ScanError,
+} from './ARService';
+export type { ARServiceErrorCode } from './ARService';
+export {
+  ModelStorageService,
+  modelStorageService,
+  ModelStorageError,
+  ModelValidationError,
+} from './ModelStorageService';
+export type { ModelStorageErrorCode } from './ModelStorageService';
+export { BundledAssetsService, bundledAssetsService } from './BundledAssetsService';
+export { SceneStorageService, sceneStorageService, SceneStorageError } from './SceneStorageService';
+export type { SceneStorageErrorCode } from './SceneStorageService';
+export { StorageIntegrityService, storageIntegrityService } from './StorageIntegrityService';
+export type { IntegrityRepairOptions } from './StorageIntegrityService';
+export { StorageStatsService, storageStatsService } from './StorageStatsService';
+export {
+  parseGLB,
+  extractMetadata,
+  readGLBMetadata,
+  readImageSize,
+  decodeBase64,
+  GLBParseError,
+} from './glbParser';
+export type { GLBParseErrorCode, GLTFDocument, ParsedGLB } from './glbParser';
+export {
+  GLBValidatorService,
+  glbValidatorService,
+  SUPPORTED_EXTENSIONS,
+} from './GLBValidatorService';
+export {
+  suggestScale,
+  scaleForDimension,
+  toMeters,
+  getModelDimensions,
+  LENGTH_UNIT_FACTORS,
+} from './modelSizing';
+export {
+  ThumbnailService,
+  thumbnailService,
+  ThumbnailError,
+  softwareThumbnailRenderer,
+} from './ThumbnailService';
+export type { ThumbnailErrorCode, ThumbnailRenderer } from './ThumbnailService';
+export { frameBoundingBox, renderSoftware, THUMBNAIL_VIEW } from './softwareRenderer';
+export type { ThumbnailCamera, SoftwareRenderOptions } from './softwareRenderer';
+export { encodeJPEG } from './jpegEncoder';
@@ -0,0 +1,328 @@
+/**
+ * JPEG Encoder
+ *
+ * Baseline JPEG encoding of RGBA pixels in plain TypeScript, for thumbnails
+ * rendered without a GPU. 4:4:4 sampling with the standard tables from
+ * ITU-T T.81 Annex K; small images only, so clarity wins over speed.
+ *
+ * @module core/services/jpegEncoder
+ */
+
+// =============================================================================
+// TABLES
+// =============================================================================
+
+/** Natural-order index of each zigzag position */
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20,
+  13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52,
+  45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** Luminance quantization table, natural order (Annex K.1) */
+const LUMINANCE_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113,
+  92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+/** Chrominance quantization table, natural order (Annex K.1) */
+const CHROMINANCE_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+/**
+ * Huffman table specification: code counts per length (1-16) and symbols.
+ */
+interface HuffmanSpec {
+  counts: number[];
+  symbols: number[];
+}
+
+const DC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const DC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const AC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+    0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+const AC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+    0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+    0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+    0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+    0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+    0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+    0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+/** cos((2x + 1)uπ / 16), indexed [u * 8 + x] */
+const DCT_COSINES = Array.from({ length: 64 }, (_, i) =>
+  Math.cos(((2 * (i % 8) + 1) * Math.floor(i / 8) * Math.PI) / 16)
+);
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Code and bit length for each symbol.
+ */
+type HuffmanCodes = Map<number, { code: number; length: number }>;
+
+/**
+ * Build canonical Huffman codes from a table specification.
+ */
+function buildCodes(spec: HuffmanSpec): HuffmanCodes {
+  const codes: HuffmanCodes = new Map();
+  let code = 0;
+  let symbol = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < (spec.counts[length - 1] ?? 0); i++) {
+      codes.set(spec.symbols[symbol++] ?? 0, { code: code++, length });
+    }
+    code <<= 1;
+  }
+  return codes;
+}
+
+/**
+ * Scale a quantization table for a quality from 1 to 100 (IJG formula).
+ */
+function scaleQuantTable(table: number[], quality: number): number[] {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const factor = q < 50 ? 5000 / q : 200 - q * 2;
+  return table.map(value => Math.min(255, Math.max(1, Math.floor((value * factor + 50) / 100))));
+}
+
+/**
+ * Forward 8x8 DCT, in place.
+ */
+function forwardDct(block: Float32Array): void {
+  const temp = new Float32Array(64);
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += (block[y * 8 + x] ?? 0) * (DCT_COSINES[u * 8 + x] ?? 0);
+      temp[y * 8 + u] = sum * (u === 0 ? Math.SQRT1_2 : 1) * 0.5;
+    }
+  }
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) sum += (temp[y * 8 + u] ?? 0) * (DCT_COSINES[v * 8 + y] ?? 0);
+      block[v * 8 + u] = sum * (v === 0 ? Math.SQRT1_2 : 1) * 0.5;
+    }
+  }
+}
+
+/**
+ * JPEG magnitude category and its value bits.
+ */
+function categorize(value: number): { category: number; bits: number } {
+  const magnitude = Math.abs(value);
+  let category = 0;
+  while (magnitude >> category) category++;
+  return { category, bits: value < 0 ? value + (1 << category) - 1 : value };
+}
+
+/**
+ * Writes bits MSB-first into bytes, stuffing a zero after each 0xFF.
+ */
+class BitWriter {
+  readonly bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+      if (++this.count === 8) {
+        this.bytes.push(this.buffer);
+        if (this.buffer === 0xff) this.bytes.push(0);
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  writeCode(codes: HuffmanCodes, symbol: number): void {
+    const entry = codes.get(symbol);
+    if (!entry) throw new Error(`No Huffman code for symbol ${symbol}`);
+    this.write(entry.code, entry.length);
+  }
+
+  /** Pad the last byte with ones */
+  flush(): void {
+    if (this.count > 0) this.write(0xff, 8 - this.count);
+  }
+}
+
+/**
+ * Marker segment: marker, length, body.
+ */
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+/**
+ * DHT body for one table.
+ */
+function huffmanTableBody(tableClass: number, id: number, spec: HuffmanSpec): number[] {
+  return [(tableClass << 4) | id, ...spec.counts, ...spec.symbols];
+}
+
+// =============================================================================
+// ENCODER
+// =============================================================================
+
+const DC_LUMINANCE_CODES = buildCodes(DC_LUMINANCE);
+const AC_LUMINANCE_CODES = buildCodes(AC_LUMINANCE);
+const DC_CHROMINANCE_CODES = buildCodes(DC_CHROMINANCE);
+const AC_CHROMINANCE_CODES = buildCodes(AC_CHROMINANCE);
+
+/**
+ * Encode RGBA pixels (alpha ignored) as a baseline JPEG.
+ *
+ * @param quality 1 (smallest) to 100 (best)
+ */
+export function encodeJPEG(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  quality = 85
+): Uint8Array {
+  const luminanceQuant = scaleQuantTable(LUMINANCE_QUANT, quality);
+  const chrominanceQuant = scaleQuantTable(CHROMINANCE_QUANT, quality);
+
+  const header = [
+    0xff,
+    0xd8,
+    // JFIF 1.1, no density
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...segment(0xdb, [
+      0,
+      ...ZIGZAG.map(index => luminanceQuant[index] ?? 1),
+      1,
+      ...ZIGZAG.map(index => chrominanceQuant[index] ?? 1),
+    ]),
+    // Baseline, 8-bit, three components without subsampling
+    ...segment(0xc0, [
+      8,
+      height >> 8,
+      height & 0xff,
+      width >> 8,
+      width & 0xff,
+      3,
+      1,
+      0x11,
+      0,
+      2,
+      0x11,
+      1,
+      3,
+      0x11,
+      1,
+    ]),
+    ...segment(0xc4, [
+      ...huffmanTableBody(0, 0, DC_LUMINANCE),
+      ...huffmanTableBody(1, 0, AC_LUMINANCE),
+      ...huffmanTableBody(0, 1, DC_CHROMINANCE),
+      ...huffmanTableBody(1, 1, AC_CHROMINANCE),
+    ]),
+    ...segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]),
+  ];
+
+  const writer = new BitWriter();
+  const previousDc = [0, 0, 0];
+  const blocks = [new Float32Array(64), new Float32Array(64), new Float32Array(64)];
+  const components = [
+    { quant: luminanceQuant, dc: DC_LUMINANCE_CODES, ac: AC_LUMINANCE_CODES },
+    { quant: chrominanceQuant, dc: DC_CHROMINANCE_CODES, ac: AC_CHROMINANCE_CODES },
+    { quant: chrominanceQuant, dc: DC_CHROMINANCE_CODES, ac: AC_CHROMINANCE_CODES },
+  ];
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      // Edge blocks repeat the last row and column
+      for (let i = 0; i < 64; i++) {
+        const x = Math.min(blockX + (i % 8), width - 1);
+        const y = Math.min(blockY + Math.floor(i / 8), height - 1);
+        const offset = (y * width + x) * 4;
+        const r = rgba[offset] ?? 0;
+        const g = rgba[offset + 1] ?? 0;
+        const b = rgba[offset + 2] ?? 0;
+        (blocks[0] as Float32Array)[i] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+        (blocks[1] as Float32Array)[i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+        (blocks[2] as Float32Array)[i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+      }
+
+      components.forEach((component, c) => {
+        const block = blocks[c] as Float32Array;
+        forwardDct(block);
+
+        const dc = Math.round((block[0] ?? 0) / (component.quant[0] ?? 1));
+        const diff = categorize(dc - (previousDc[c] ?? 0));
+        previousDc[c] = dc;
+        writer.writeCode(component.dc, diff.category);
+        writer.write(diff.bits, diff.category);
+
+        let run = 0;
+        for (let k = 1; k < 64; k++) {
+          const index = ZIGZAG[k] ?? 0;
+          const value = Math.round((block[index] ?? 0) / (component.quant[index] ?? 1));
+          if (value === 0) {
+            run++;
+            continue;
+          }
+          while (run > 15) {
+            writer.writeCode(component.ac, 0xf0);
+            run -= 16;
+          }
+          const { category, bits } = categorize(value);
+          writer.writeCode(component.ac, (run << 4) | category);
+          writer.write(bits, category);
+          run = 0;
+        }
+        if (run > 0) writer.writeCode(component.ac, 0x00);
+      });
+    }
+  }
+  writer.flush();
+
+  const bytes = new Uint8Array(header.length + writer.bytes.length + 2);
+  bytes.set(header, 0);
+  bytes.set(writer.bytes, header.length);
+  bytes.set([0xff, 0xd9], header.length + writer.bytes.length);
+  return bytes;
+}
@@ -0,0 +1,109 @@
+/**
+ * Model Sizing
+ *
+ * Real-world size checks for imported models. glTF is specified in metres,
+ * but furniture exported from CAD tools often arrives in centimetres,
+ * millimetres or inches. The longest side of the bounding box is compared
+ * with MODEL_SIZE_RANGES for the category to suggest a unit correction, and
+ * a known real dimension can be turned into an exact scale.
+ *
+ * @module core/services/modelSizing
+ */
+
+import type {
+  LengthUnit,
+  Model,
+  ModelCategory,
+  ModelDimension,
+  ScaleSuggestion,
+} from '@core/types/model.types';
+import { MODEL_SIZE_RANGES } from '@core/constants/limits';
+
+/**
+ * Metres per unit.
+ */
+export const LENGTH_UNIT_FACTORS: Record<LengthUnit, number> = {
+  METERS: 1,
+  CENTIMETERS: 0.01,
+  MILLIMETERS: 0.001,
+  INCHES: 0.0254,
+};
+
+/**
+ * Units tried when a model is implausibly large in metres.
+ */
+const CORRECTION_UNITS: readonly LengthUnit[] = ['CENTIMETERS', 'MILLIMETERS', 'INCHES'];
+
+const DIMENSION_AXES: Record<ModelDimension, 0 | 1 | 2> = { width: 0, height: 1, depth: 2 };
+
+/**
+ * Scale a size uniformly.
+ */
+function scaleSize(size: [number, number, number], scale: number): [number, number, number] {
+  return [size[0] * scale, size[1] * scale, size[2] * scale];
+}
+
+/**
+ * Suggest the unit a model was authored in, from its bounding box size
+ * and category.
+ */
+export function suggestScale(
+  size: [number, number, number],
+  category: ModelCategory
+): ScaleSuggestion {
+  const longest = Math.max(...size);
+  const range = MODEL_SIZE_RANGES[category];
+  const fits = (length: number): boolean => length >= range.min && length <= range.max;
+
+  if (!(longest > 0)) {
+    return { unit: null, scale: 1, plausible: false, dimensions: size };
+  }
+  if (fits(longest)) {
+    return { unit: 'METERS', scale: 1, plausible: true, dimensions: size };
+  }
+
+  // Prefer the unit that lands nearest the middle of the range (geometric,
+  // as the candidates differ by orders of magnitude)
+  const typical = Math.sqrt(range.min * range.max);
+  let best: { unit: LengthUnit; distance: number } | null = null;
+  for (const unit of CORRECTION_UNITS) {
+    const length = longest * LENGTH_UNIT_FACTORS[unit];
+    if (!fits(length)) continue;
+    const distance = Math.abs(Math.log(length / typical));
+    if (!best || distance < best.distance) best = { unit, distance };
+  }
+
+  if (!best) {
+    return { unit: null, scale: 1, plausible: false, dimensions: size };
+  }
+  const scale = LENGTH_UNIT_FACTORS[best.unit];
+  return { unit: best.unit, scale, plausible: true, dimensions: scaleSize(size, scale) };
+}
+
+/**
+ * Convert a length to metres.
+ */
+export function toMeters(value: number, unit: LengthUnit): number {
+  return value * LENGTH_UNIT_FACTORS[unit];
+}
+
+/**
+ * Scale that makes one side of the bounding box a given real length,
+ * e.g. width 2.1 m. Returns null if that side has no extent.
+ */
+export function scaleForDimension(
+  size: [number, number, number],
+  dimension: ModelDimension,
+  meters: number
+): number | null {
+  const extent = size[DIMENSION_AXES[dimension]];
+  if (!(extent > 0) || !(meters > 0)) return null;
+  return meters / extent;
+}
+
+/**
+ * Width, height and depth of a model in metres, after its stored scale.
+ */
+export function getModelDimensions(model: Model): [number, number, number] {
+  return scaleSize(model.metadata.boundingBox.size, model.scale ?? 1);
+}
@@ -0,0 +1,426 @@
+/**
+ * Software Renderer
+ *
+ * CPU rasterizer for model thumbnails: flat-shaded triangles with a depth
+ * buffer, coloured by each material's base colour. It needs no GPU or
+ * WebView, so thumbnails can also be rendered headless (tests, CI on Linux).
+ * Textures are not sampled; a thumbnail only has to identify the model.
+ *
+ * @module core/services/softwareRenderer
+ */
+
+import type { BoundingBox } from '@core/types/model.types';
+import {
+  forEachMeshInstance,
+  multiplyMat4,
+  readAccessor,
+  type GLTFDocument,
+  type Mat4,
+  type ParsedGLB,
+} from './glbParser';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Fixed view used for every thumbnail, so the library looks consistent.
+ */
+export const THUMBNAIL_VIEW = {
+  /** Rotation around the vertical axis, from the front towards the right */
+  azimuthDegrees: 35,
+  /** Angle above the horizon */
+  elevationDegrees: 25,
+  fieldOfViewDegrees: 30,
+  /** Fraction of the image left empty around the model on each side */
+  margin: 0.08,
+  /** Neutral light grey, sRGB */
+  background: [236, 236, 236] as Vec3,
+} as const;
+
+/**
+ * Camera and light for a thumbnail render.
+ */
+export interface ThumbnailCamera {
+  /** Column-major world to clip space transform */
+  viewProjection: Mat4;
+  eye: Vec3;
+  target: Vec3;
+  /** Unit vector towards the key light, world space */
+  lightDirection: Vec3;
+}
+
+/**
+ * Options for renderSoftware.
+ */
+export interface SoftwareRenderOptions {
+  /** Background colour, sRGB */
+  background?: Vec3;
+  /** Samples per pixel along each axis, for anti-aliasing */
+  supersample?: number;
+}
+
+// Linear base colour for primitives without a material
+const DEFAULT_COLOR: Vec3 = [0.7, 0.7, 0.7];
+const AMBIENT = 0.35;
+
+// glTF primitive modes
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+// =============================================================================
+// VECTOR MATH
+// =============================================================================
+
+function subtract(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return length > 0 ? [v[0] / length, v[1] / length, v[2] / length] : [0, 0, 0];
+}
+
+/**
+ * Transform a point by a column-major matrix, returning [x, y, z, w].
+ */
+function transformPoint(m: Mat4, x: number, y: number, z: number): number[] {
+  const out = [0, 0, 0, 0];
+  for (let row = 0; row < 4; row++) {
+    out[row] =
+      (m[row] ?? 0) * x + (m[4 + row] ?? 0) * y + (m[8 + row] ?? 0) * z + (m[12 + row] ?? 0);
+  }
+  return out;
+}
+
+function lookAt(eye: Vec3, target: Vec3, up: Vec3): Mat4 {
+  const f = normalize(subtract(target, eye));
+  const s = normalize(cross(f, up));
+  const u = cross(s, f);
+  return [
+    s[0],
+    u[0],
+    -f[0],
+    0,
+    s[1],
+    u[1],
+    -f[1],
+    0,
+    s[2],
+    u[2],
+    -f[2],
+    0,
+    -dot(s, eye),
+    -dot(u, eye),
+    dot(f, eye),
+    1,
+  ];
+}
+
+function perspective(fovY: number, near: number, far: number): Mat4 {
+  const f = 1 / Math.tan(fovY / 2);
+  return [
+    f,
+    0,
+    0,
+    0,
+    0,
+    f,
+    0,
+    0,
+    0,
+    0,
+    (far + near) / (near - far),
+    -1,
+    0,
+    0,
+    (2 * far * near) / (near - far),
+    0,
+  ];
+}
+
+/**
+ * sRGB byte for a linear intensity.
+ */
+function toSrgb(linear: number): number {
+  const c = Math.min(1, Math.max(0, linear));
+  return Math.round(255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055));
+}
+
+// =============================================================================
+// CAMERA
+// =============================================================================
+
+/**
+ * Three-quarter camera that frames a bounding box in a square image.
+ * The box's projected corners are centred and scaled to fill the frame
+ * less THUMBNAIL_VIEW.margin, so flat and tall models both fill it.
+ */
+export function frameBoundingBox(box: BoundingBox): ThumbnailCamera {
+  const azimuth = (THUMBNAIL_VIEW.azimuthDegrees * Math.PI) / 180;
+  const elevation = (THUMBNAIL_VIEW.elevationDegrees * Math.PI) / 180;
+  const fovY = (THUMBNAIL_VIEW.fieldOfViewDegrees * Math.PI) / 180;
+
+  const target = box.center;
+  const radius = Math.hypot(...box.size) / 2 || 1;
+  const toEye: Vec3 = [
+    Math.cos(elevation) * Math.sin(azimuth),
+    Math.sin(elevation),
+    Math.cos(elevation) * Math.cos(azimuth),
+  ];
+  // Far enough for the bounding sphere to fit the field of view
+  const distance = radius / Math.sin(fovY / 2);
+  const eye: Vec3 = [
+    target[0] + toEye[0] * distance,
+    target[1] + toEye[1] * distance,
+    target[2] + toEye[2] * distance,
+  ];
+
+  const projection = multiplyMat4(
+    perspective(fovY, distance - radius * 1.5, distance + radius * 1.5),
+    lookAt(eye, target, [0, 1, 0])
+  );
+
+  // Fit the projected box: NDC scale k about its centre, applied in clip space
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (let corner = 0; corner < 8; corner++) {
+    const [x = 0, y = 0, , w = 1] = transformPoint(
+      projection,
+      corner & 1 ? box.max[0] : box.min[0],
+      corner & 2 ? box.max[1] : box.min[1],
+      corner & 4 ? box.max[2] : box.min[2]
+    );
+    minX = Math.min(minX, x / w);
+    maxX = Math.max(maxX, x / w);
+    minY = Math.min(minY, y / w);
+    maxY = Math.max(maxY, y / w);
+  }
+  const halfExtent = Math.max(maxX - minX, maxY - minY) / 2;
+  const k = halfExtent > 0 ? (1 - THUMBNAIL_VIEW.margin) / halfExtent : 1;
+  const fit: Mat4 = [
+    k,
+    0,
+    0,
+    0,
+    0,
+    k,
+    0,
+    0,
+    0,
+    0,
+    1,
+    0,
+    (-k * (minX + maxX)) / 2,
+    (-k * (minY + maxY)) / 2,
+    0,
+    1,
+  ];
+
+  // Key light from above, slightly left of the camera
+  const right = normalize(cross(toEye, [0, 1, 0]));
+  const lightDirection = normalize([
+    toEye[0] * 0.6 + right[0] * 0.4,
+    toEye[1] * 0.6 + 0.8,
+    toEye[2] * 0.6 + right[2] * 0.4,
+  ]);
+
+  return { viewProjection: multiplyMat4(fit, projection), eye, target, lightDirection };
+}
+
+// =============================================================================
+// RASTERIZER
+// =============================================================================
+
+/**
+ * Linear base colour of a material.
+ */
+function getBaseColor(json: GLTFDocument, materialIndex: number | undefined): Vec3 {
+  const material = materialIndex !== undefined ? json.materials?.[materialIndex] : undefined;
+  const factor = material?.pbrMetallicRoughness?.baseColorFactor;
+  const emissive = material?.emissiveFactor ?? [];
+  if (!factor) return DEFAULT_COLOR;
+  return [
+    (factor[0] ?? 1) + (emissive[0] ?? 0),
+    (factor[1] ?? 1) + (emissive[1] ?? 0),
+    (factor[2] ?? 1) + (emissive[2] ?? 0),
+  ];
+}
+
+/**
+ * Vertex index triples for a primitive's triangles.
+ */
+function getTriangles(
+  mode: number,
+  indices: Float32Array | null,
+  vertexCount: number
+): number[][] | null {
+  const count = indices ? indices.length : vertexCount;
+  const at = (i: number): number => (indices ? (indices[i] ?? 0) : i);
+  const triangles: number[][] = [];
+
+  if (mode === MODE_TRIANGLES) {
+    for (let i = 0; i + 2 < count; i += 3) triangles.push([at(i), at(i + 1), at(i + 2)]);
+  } else if (mode === MODE_TRIANGLE_STRIP) {
+    for (let i = 0; i + 2 < count; i++) triangles.push([at(i), at(i + 1), at(i + 2)]);
+  } else if (mode === MODE_TRIANGLE_FAN) {
+    for (let i = 1; i + 1 < count; i++) triangles.push([at(0), at(i), at(i + 1)]);
+  } else {
+    // Points and lines are not drawn
+    return null;
+  }
+  return triangles;
+}
+
+/**
+ * Render a GLB from a camera into square RGBA pixels.
+ * Triangles are shaded per face (Lambert, two-sided); primitives whose
+ * data cannot be read are skipped rather than failing the whole render.
+ */
+export function renderSoftware(
+  glb: ParsedGLB,
+  camera: ThumbnailCamera,
+  size: number,
+  options: SoftwareRenderOptions = {}
+): Uint8Array {
+  const supersample = Math.max(1, Math.floor(options.supersample ?? 2));
+  const background = options.background ?? THUMBNAIL_VIEW.background;
+  const width = size * supersample;
+  const color = new Uint8Array(width * width * 3);
+  const depth = new Float32Array(width * width).fill(Infinity);
+  for (let i = 0; i < width * width; i++) color.set(background, i * 3);
+
+  forEachMeshInstance(glb.json, (mesh, world) => {
+    for (const primitive of mesh.primitives) {
+      const position = primitive.attributes.POSITION;
+      const positions = position !== undefined ? readAccessor(glb, position) : null;
+      if (!positions) continue;
+      const indices = primitive.indices !== undefined ? readAccessor(glb, primitive.indices) : null;
+      if (primitive.indices !== undefined && !indices) continue;
+
+      const vertexCount = positions.length / 3;
+      const triangles = getTriangles(primitive.mode ?? MODE_TRIANGLES, indices, vertexCount);
+      if (!triangles) continue;
+
+      const baseColor = getBaseColor(glb.json, primitive.material);
+      const worldPositions: Vec3[] = [];
+      const screen: number[][] = [];
+      const mvp = multiplyMat4(camera.viewProjection, world);
+      for (let v = 0; v < vertexCount; v++) {
+        const x = positions[v * 3] ?? 0;
+        const y = positions[v * 3 + 1] ?? 0;
+        const z = positions[v * 3 + 2] ?? 0;
+        const [wx = 0, wy = 0, wz = 0] = transformPoint(world, x, y, z);
+        worldPositions.push([wx, wy, wz]);
+        const [cx = 0, cy = 0, cz = 0, cw = 0] = transformPoint(mvp, x, y, z);
+        screen.push([((cx / cw + 1) / 2) * width, ((1 - cy / cw) / 2) * width, cz / cw, cw]);
+      }
+
+      for (const [a = 0, b = 0, c = 0] of triangles) {
+        const p0 = screen[a];
+        const p1 = screen[b];
+        const p2 = screen[c];
+        const w0 = worldPositions[a];
+        const w1 = worldPositions[b];
+        const w2 = worldPositions[c];
+        if (!p0 || !p1 || !p2 || !w0 || !w1 || !w2) continue;
+        // Behind the camera; cannot happen for a framed model, but guards NaNs
+        if (!((p0[3] ?? 0) > 0 && (p1[3] ?? 0) > 0 && (p2[3] ?? 0) > 0)) continue;
+
+        let normal = normalize(cross(subtract(w1, w0), subtract(w2, w0)));
+        if (dot(normal, subtract(camera.eye, w0)) < 0) {
+          normal = [-normal[0], -normal[1], -normal[2]];
+        }
+        const shade = AMBIENT + (1 - AMBIENT) * Math.max(0, dot(normal, camera.lightDirection));
+        const rgb = [
+          toSrgb(baseColor[0] * shade),
+          toSrgb(baseColor[1] * shade),
+          toSrgb(baseColor[2] * shade),
+        ];
+
+        rasterizeTriangle(p0, p1, p2, width, (pixel, z) => {
+          if (z >= (depth[pixel] ?? Infinity)) return;
+          depth[pixel] = z;
+          color.set(rgb, pixel * 3);
+        });
+      }
+    }
+  });
+
+  return downsample(color, size, supersample);
+}
+
+/**
+ * Call plot for each pixel centre inside a screen-space triangle, with the
+ * interpolated depth. Depth outside [-1, 1] is clipped.
+ */
+function rasterizeTriangle(
+  p0: number[],
+  p1: number[],
+  p2: number[],
+  width: number,
+  plot: (pixel: number, z: number) => void
+): void {
+  const [x0 = 0, y0 = 0, z0 = 0] = p0;
+  const [x1 = 0, y1 = 0, z1 = 0] = p1;
+  const [x2 = 0, y2 = 0, z2 = 0] = p2;
+  const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0);
+  if (!(Math.abs(area) > 1e-9)) return;
+
+  const minX = Math.max(0, Math.floor(Math.min(x0, x1, x2)));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(x0, x1, x2)));
+  const minY = Math.max(0, Math.floor(Math.min(y0, y1, y2)));
+  const maxY = Math.min(width - 1, Math.ceil(Math.max(y0, y1, y2)));
+
+  for (let y = minY; y <= maxY; y++) {
+    const py = y + 0.5;
+    for (let x = minX; x <= maxX; x++) {
+      const px = x + 0.5;
+      // Barycentric weights, positive inside for either winding
+      const b0 = ((x1 - px) * (y2 - py) - (x2 - px) * (y1 - py)) / area;
+      const b1 = ((x2 - px) * (y0 - py) - (x0 - px) * (y2 - py)) / area;
+      const b2 = 1 - b0 - b1;
+      if (b0 < 0 || b1 < 0 || b2 < 0) continue;
+      const z = b0 * z0 + b1 * z1 + b2 * z2;
+      if (z < -1 || z > 1) continue;
+      plot(y * width + x, z);
+    }
+  }
+}
+
+/**
+ * Average supersampled RGB into opaque RGBA.
+ */
+function downsample(color: Uint8Array, size: number, factor: number): Uint8Array {
+  const width = size * factor;
+  const samples = factor * factor;
+  const out = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const sum = [0, 0, 0];
+      for (let sy = 0; sy < factor; sy++) {
+        for (let sx = 0; sx < factor; sx++) {
+          const offset = ((y * factor + sy) * width + x * factor + sx) * 3;
+          sum[0] = (sum[0] ?? 0) + (color[offset] ?? 0);
+          sum[1] = (sum[1] ?? 0) + (color[offset + 1] ?? 0);
+          sum[2] = (sum[2] ?? 0) + (color[offset + 2] ?? 0);
+        }
+      }
+      const offset = (y * size + x) * 4;
+      out[offset] = Math.round((sum[0] ?? 0) / samples);
+      out[offset + 1] = Math.round((sum[1] ?? 0) / samples);
+      out[offset + 2] = Math.round((sum[2] ?? 0) / samples);
+      out[offset + 3] = 255;
+    }
+  }
+  return out;
+}
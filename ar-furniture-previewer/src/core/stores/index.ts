@@ -8,6 +8,22 @@
 
 export { useSettingsStore } from './useSettingsStore';
 export { useModelStore, useSelectedModel, useModelsByCategory } from './useModelStore';
-export { useSceneStore, useSelectedObject, useHasUnsavedChanges } from './useSceneStore';
-export { useARStore, useARReady, useARError, usePlacementMode } from './useARStore';
-export type { ARStatus, PlacementMode } from './useARStore';
+export {
+  useSceneStore,
+  useSelectedObject,
+  useHasUnsavedChanges,
+  useCanUndo,
+  useCanRedo,
+} from './useSceneStore';
+export type { SceneCommand, TransformUpdateOptions } from './useSceneStore';
+export {
+  useARStore,
+  useARReady,
+  useARError,
+  usePlacementMode,
+  useBridgeFeature,
+  useCoachingHint,
+  selectCoachingHint,
+  canTransition,
+} from './useARStore';
+export type { ARStatus, PlacementMode, CoachingHint } from './useARStore';
@@ -8,13 +8,67 @@
  */
 
 import { create } from 'zustand';
-import type { ARCapabilities, ARErrorCode } from '@core/types/webview.types';
+import type {
+  ARCapabilities,
+  ARErrorCode,
+  BridgeFeature,
+  NegotiatedProtocol,
+  TrackingLimitedReason,
+  TrackingState,
+} from '@core/types/webview.types';
 import { AR_LIMITS } from '@core/constants/limits';
 
 /**
  * AR session status.
+ * LIMITED: tracking degraded after start (see trackingReason).
  */
-export type ARStatus = 'IDLE' | 'INITIALIZING' | 'READY' | 'SURFACE_DETECTED' | 'ERROR';
+export type ARStatus =
+  | 'IDLE'
+  | 'INITIALIZING'
+  | 'READY'
+  | 'SURFACE_DETECTED'
+  | 'LIMITED'
+  | 'PAUSED'
+  | 'ERROR'
+  | 'BRIDGE_LOST';
+
+/**
+ * Allowed status transitions. Any status may go to ERROR, BRIDGE_LOST or
+ * IDLE (teardown); reset() bypasses the table.
+ */
+const STATUS_TRANSITIONS: Record<ARStatus, readonly ARStatus[]> = {
+  IDLE: ['INITIALIZING'],
+  INITIALIZING: ['READY'],
+  READY: ['SURFACE_DETECTED', 'LIMITED', 'PAUSED', 'INITIALIZING'],
+  SURFACE_DETECTED: ['READY', 'LIMITED', 'PAUSED', 'INITIALIZING'],
+  LIMITED: ['READY', 'SURFACE_DETECTED', 'PAUSED', 'INITIALIZING'],
+  PAUSED: ['READY', 'SURFACE_DETECTED', 'LIMITED', 'INITIALIZING'],
+  ERROR: ['INITIALIZING', 'READY', 'SURFACE_DETECTED', 'LIMITED'],
+  BRIDGE_LOST: ['INITIALIZING', 'READY'],
+};
+
+/**
+ * Check whether the store may move from one status to another.
+ */
+export function canTransition(from: ARStatus, to: ARStatus): boolean {
+  return (
+    from === to ||
+    to === 'ERROR' ||
+    to === 'BRIDGE_LOST' ||
+    to === 'IDLE' ||
+    STATUS_TRANSITIONS[from].includes(to)
+  );
+}
+
+/**
+ * Coaching hint for the AR overlay.
+ */
+export type CoachingHint =
+  | 'FIND_SURFACE'
+  | 'MOVE_SLOWER'
+  | 'MORE_LIGHT'
+  | 'RETURN_TO_AREA'
+  | 'TRACKING_LOST';
 
 /**
  * Placement mode for AR interactions.
@@ -33,6 +87,11 @@ interface ARState {
 
   // Capabilities
   capabilities: ARCapabilities | null;
+  protocol: NegotiatedProtocol | null;
+
+  // Tracking
+  trackingState: TrackingState;
+  trackingReason: TrackingLimitedReason | null;
 
   // Surface detection
   surfaceDetected: boolean;
@@ -55,13 +114,20 @@ interface ARState {
  */
 interface ARActions {
   // Session lifecycle
-  setStatus: (status: ARStatus) => void;
+  setStatus: (status: ARStatus) => boolean;
   setInitialized: (initialized: boolean) => void;
   setError: (error: ARErrorCode | null, message?: string) => void;
   clearError: () => void;
 
   // Capabilities
   setCapabilities: (capabilities: ARCapabilities) => void;
+  setProtocol: (protocol: NegotiatedProtocol | null) => void;
+  hasFeature: (feature: BridgeFeature) => boolean;
+
+  // Tracking
+  setTrackingState: (state: TrackingState, reason?: TrackingLimitedReason) => void;
+  pauseSession: () => void;
+  resumeSession: () => void;
 
   // Surface detection
   setSurfaceDetected: (detected: boolean, normal?: [number, number, number]) => void;
@@ -79,6 +145,7 @@ interface ARActions {
 
   // WebView state
   setWebViewReady: (ready: boolean) => void;
+  markBridgeLost: () => void;
 
   // Queries
   canPlaceObject: () => boolean;
@@ -96,6 +163,9 @@ const initialState: ARState = {
   error: null,
   errorMessage: null,
   capabilities: null,
+  protocol: null,
+  trackingState: 'NOT_AVAILABLE',
+  trackingReason: null,
   surfaceDetected: false,
   surfaceNormal: null,
   placementMode: 'NONE',
@@ -111,43 +181,78 @@ const initialState: ARState = {
 export const useARStore = create<ARStore>()((set, get) => ({
   ...initialState,
 
-  setStatus: status => set({ status }),
+  setStatus: status => transition(status),
 
-  setInitialized: isInitialized =>
-    set({
-      isInitialized,
-      status: isInitialized ? 'READY' : 'IDLE',
-    }),
+  setInitialized: isInitialized => {
+    transition(isInitialized ? 'READY' : 'IDLE', { isInitialized });
+  },
 
-  setError: (error, errorMessage) =>
-    set({
-      error,
-      errorMessage: errorMessage ?? null,
-      status: error !== null ? 'ERROR' : get().status,
-    }),
+  setError: (error, errorMessage) => {
+    if (error === null) {
+      set({ error, errorMessage: errorMessage ?? null });
+      return;
+    }
+    transition('ERROR', { error, errorMessage: errorMessage ?? null });
+  },
 
-  clearError: () =>
-    set({
+  clearError: () => {
+    transition(get().isInitialized ? activeStatus() : 'IDLE', {
       error: null,
       errorMessage: null,
-      status: get().isInitialized ? 'READY' : 'IDLE',
-    }),
+    });
+  },
 
   setCapabilities: capabilities => set({ capabilities }),
 
-  setSurfaceDetected: (surfaceDetected, surfaceNormal) =>
-    set({
-      surfaceDetected,
-      surfaceNormal: surfaceNormal ?? null,
-      status: surfaceDetected ? 'SURFACE_DETECTED' : 'READY',
-    }),
+  setProtocol: protocol => set({ protocol }),
+
+  hasFeature: feature => get().protocol?.features.includes(feature) ?? false,
+
+  setTrackingState: (trackingState, reason) => {
+    const { status } = get();
+    const trackingReason = trackingState === 'NORMAL' ? null : (reason ?? null);
+
+    // Tracking only changes the status of a running session; while
+    // initializing or paused it is recorded for when the session resumes
+    if (trackingState === 'NORMAL' && status === 'LIMITED') {
+      transition(surfaceStatus(), { trackingState, trackingReason });
+    } else if (
+      trackingState !== 'NORMAL' &&
+      (status === 'READY' || status === 'SURFACE_DETECTED')
+    ) {
+      transition('LIMITED', { trackingState, trackingReason });
+    } else {
+      set({ trackingState, trackingReason });
+    }
+  },
 
-  clearSurface: () =>
-    set({
-      surfaceDetected: false,
-      surfaceNormal: null,
-      status: get().isInitialized ? 'READY' : 'IDLE',
-    }),
+  pauseSession: () => {
+    transition('PAUSED');
+  },
+
+  resumeSession: () => {
+    transition(activeStatus());
+  },
+
+  setSurfaceDetected: (surfaceDetected, surfaceNormal) => {
+    const updates = { surfaceDetected, surfaceNormal: surfaceNormal ?? null };
+    const { status } = get();
+    // A surface found while tracking is limited or paused shows once it recovers
+    if (status === 'LIMITED' || status === 'PAUSED') {
+      set(updates);
+      return;
+    }
+    transition(surfaceDetected ? 'SURFACE_DETECTED' : 'READY', updates);
+  },
+
+  clearSurface: () => {
+    const updates = { surfaceDetected: false, surfaceNormal: null };
+    if (get().status === 'SURFACE_DETECTED') {
+      transition('READY', updates);
+    } else {
+      set(updates);
+    }
+  },
 
   startPlacing: modelId =>
     set({
@@ -183,17 +288,27 @@ export const useARStore = create<ARStore>()((set, get) => ({
     );
   },
 
-  setWebViewReady: webViewReady =>
-    set({
-      webViewReady,
-      status: webViewReady ? 'INITIALIZING' : 'IDLE',
-    }),
+  setWebViewReady: webViewReady => {
+    transition(webViewReady ? 'INITIALIZING' : 'IDLE', { webViewReady });
+  },
+
+  markBridgeLost: () => {
+    transition('BRIDGE_LOST', {
+      isInitialized: false,
+      trackingState: 'NOT_AVAILABLE',
+      trackingReason: null,
+      surfaceDetected: false,
+      surfaceNormal: null,
+      placementMode: 'NONE',
+      modelToPlace: null,
+    });
+  },
 
   canPlaceObject: () => {
     const state = get();
     return (
       state.isInitialized &&
-      state.surfaceDetected &&
+      state.status === 'SURFACE_DETECTED' &&
       state.error === null &&
       state.placementMode === 'NONE'
     );
@@ -207,16 +322,82 @@ export const useARStore = create<ARStore>()((set, get) => ({
   reset: () => set(initialState),
 }));
 
+/**
+ * Apply a status change with other updates, or reject it.
+ * Rejected changes leave the store untouched.
+ */
+function transition(status: ARStatus, updates: Partial<ARState> = {}): boolean {
+  const from = useARStore.getState().status;
+  if (!canTransition(from, status)) {
+    console.warn(`[useARStore] Rejected status transition ${from} -> ${status}`);
+    return false;
+  }
+  useARStore.setState({ ...updates, status });
+  return true;
+}
+
+/**
+ * Status of a running session with normal tracking.
+ */
+function surfaceStatus(): ARStatus {
+  return useARStore.getState().surfaceDetected ? 'SURFACE_DETECTED' : 'READY';
+}
+
+/**
+ * Status of a running session given its last reported tracking state.
+ */
+function activeStatus(): ARStatus {
+  return useARStore.getState().trackingState === 'NORMAL' ? surfaceStatus() : 'LIMITED';
+}
+
 /**
  * Hook to check if AR is ready for placement.
  */
 export function useARReady(): boolean {
   return useARStore(
     state =>
-      state.isInitialized && state.webViewReady && state.surfaceDetected && state.error === null
+      state.isInitialized &&
+      state.webViewReady &&
+      state.status === 'SURFACE_DETECTED' &&
+      state.error === null
   );
 }
 
+/**
+ * Pick the coaching hint for the overlay, or null when none is needed.
+ */
+export function selectCoachingHint(
+  state: Pick<ARState, 'status' | 'trackingState' | 'trackingReason'>
+): CoachingHint | null {
+  switch (state.status) {
+    case 'READY':
+      return 'FIND_SURFACE';
+    case 'LIMITED':
+      break;
+    default:
+      return null;
+  }
+
+  if (state.trackingState === 'NOT_AVAILABLE') return 'TRACKING_LOST';
+  switch (state.trackingReason) {
+    case 'EXCESSIVE_MOTION':
+      return 'MOVE_SLOWER';
+    case 'INSUFFICIENT_FEATURES':
+      return 'MORE_LIGHT';
+    case 'RELOCALIZING':
+      return 'RETURN_TO_AREA';
+    default:
+      return 'FIND_SURFACE';
+  }
+}
+
+/**
+ * Hook to get the coaching hint for the AR overlay.
+ */
+export function useCoachingHint(): CoachingHint | null {
+  return useARStore(selectCoachingHint);
+}
+
 /**
  * Hook to get current AR error with message.
  */
@@ -240,3 +421,11 @@ export function usePlacementMode(): {
     modelId: state.modelToPlace,
   }));
 }
+
+/**
+ * Hook to check if the AR page supports a feature.
+ * Screens use this to hide actions the negotiated protocol cannot perform.
+ */
+export function useBridgeFeature(feature: BridgeFeature): boolean {
+  return useARStore(state => state.protocol?.features.includes(feature) ?? false);
+}
@@ -8,9 +8,42 @@
  */
 
 import { create } from 'zustand';
-import type { SavedScene, PlacedObject, Transform, ScanSession } from '@core/types/scene.types';
+import type {
+  SavedScene,
+  PlacedObject,
+  Transform,
+  ScanSession,
+  SceneDraft,
+} from '@core/types/scene.types';
 import { SCENE_LIMITS } from '@core/constants/limits';
 
+/**
+ * An undoable scene edit, holding what is needed to apply it either way.
+ */
+export type SceneCommand =
+  | { type: 'ADD'; object: PlacedObject }
+  | { type: 'REMOVE'; object: PlacedObject; index: number }
+  | {
+      type: 'TRANSFORM';
+      objectId: string;
+      before: Transform;
+      after: Transform;
+      coalesceKey: string | null;
+      updatedAt: number;
+    }
+  | { type: 'CLEAR'; objects: PlacedObject[] };
+
+/**
+ * Options for a transform change.
+ */
+export interface TransformUpdateOptions {
+  /**
+   * Changes with the same key on the same object, each within
+   * HISTORY_COALESCE_MS of the last, form one undo step.
+   */
+  coalesceKey?: string;
+}
+
 /**
  * Scene store state.
  */
@@ -30,6 +63,11 @@ interface SceneState {
   isLoading: boolean;
   error: string | null;
   isDirty: boolean; // Has unsaved changes
+
+  // Edit history
+  undoStack: SceneCommand[];
+  redoStack: SceneCommand[];
+  historyPaused: boolean;
 }
 
 /**
@@ -39,20 +77,35 @@ interface SceneActions {
   // Scene management
   newScene: () => void;
   loadScene: (scene: SavedScene) => void;
+  restoreDraft: (draft: SceneDraft) => void;
   saveScene: (name: string) => SavedScene;
+  markSceneSaved: (scene: SavedScene) => void;
   deleteScene: (sceneId: string) => void;
   setSavedScenes: (scenes: SavedScene[]) => void;
 
   // Object management
   addObject: (object: PlacedObject) => void;
   updateObject: (objectId: string, updates: Partial<PlacedObject>) => void;
-  updateObjectTransform: (objectId: string, transform: Transform) => void;
+  updateObjectTransform: (
+    objectId: string,
+    transform: Transform,
+    options?: TransformUpdateOptions
+  ) => void;
   removeObject: (objectId: string) => void;
   clearObjects: () => void;
 
   // Selection
   selectObject: (objectId: string | null) => void;
 
+  // Edit history
+  undo: () => SceneCommand | null;
+  redo: () => SceneCommand | null;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  clearHistory: () => void;
+  setHistoryPaused: (paused: boolean) => void;
+  replaceObjectId: (oldId: string, newId: string) => void;
+
   // Scan session
   startScan: (session: ScanSession) => void;
   updateScan: (updates: Partial<ScanSession>) => void;
@@ -87,6 +140,9 @@ const initialState: SceneState = {
   isLoading: false,
   error: null,
   isDirty: false,
+  undoStack: [],
+  redoStack: [],
+  historyPaused: false,
 };
 
 /**
@@ -96,6 +152,63 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/**
+ * History updates for a new edit. Paused history records nothing.
+ */
+function record(
+  state: SceneState,
+  command: SceneCommand
+): Partial<Pick<SceneState, 'undoStack' | 'redoStack'>> {
+  if (state.historyPaused) return {};
+  return {
+    undoStack: [...state.undoStack, command].slice(-SCENE_LIMITS.MAX_HISTORY_STEPS),
+    redoStack: [],
+  };
+}
+
+/**
+ * Objects after applying a command in either direction.
+ */
+function applyCommand(
+  objects: PlacedObject[],
+  command: SceneCommand,
+  direction: 'undo' | 'redo'
+): PlacedObject[] {
+  const undo = direction === 'undo';
+  switch (command.type) {
+    case 'ADD':
+      return undo
+        ? objects.filter(obj => obj.id !== command.object.id)
+        : [...objects, command.object];
+    case 'REMOVE':
+      if (!undo) return objects.filter(obj => obj.id !== command.object.id);
+      return [...objects.slice(0, command.index), command.object, ...objects.slice(command.index)];
+    case 'TRANSFORM': {
+      const transform = undo ? command.before : command.after;
+      return objects.map(obj => (obj.id === command.objectId ? { ...obj, transform } : obj));
+    }
+    case 'CLEAR':
+      return undo ? command.objects : [];
+  }
+}
+
+/**
+ * Command with an object ID replaced.
+ */
+function renameInCommand(command: SceneCommand, oldId: string, newId: string): SceneCommand {
+  const rename = (obj: PlacedObject): PlacedObject =>
+    obj.id === oldId ? { ...obj, id: newId } : obj;
+  switch (command.type) {
+    case 'ADD':
+    case 'REMOVE':
+      return { ...command, object: rename(command.object) };
+    case 'TRANSFORM':
+      return command.objectId === oldId ? { ...command, objectId: newId } : command;
+    case 'CLEAR':
+      return { ...command, objects: command.objects.map(rename) };
+  }
+}
+
 /**
  * Scene store.
  */
@@ -108,6 +221,8 @@ export const useSceneStore = create<SceneStore>()((set, get) => ({
       placedObjects: [],
       selectedObjectId: null,
       isDirty: false,
+      undoStack: [],
+      redoStack: [],
     }),
 
   loadScene: scene =>
@@ -116,6 +231,19 @@ export const useSceneStore = create<SceneStore>()((set, get) => ({
       placedObjects: scene.objects,
       selectedObjectId: null,
       isDirty: false,
+      undoStack: [],
+      redoStack: [],
+    }),
+
+  restoreDraft: draft =>
+    set({
+      // Saved scenes are left alone until the user saves the layout
+      currentScene: draft.currentScene,
+      placedObjects: draft.placedObjects,
+      selectedObjectId: null,
+      isDirty: true,
+      undoStack: [],
+      redoStack: [],
     }),
 
   saveScene: name => {
@@ -125,7 +253,7 @@ export const useSceneStore = create<SceneStore>()((set, get) => ({
     const scene: SavedScene = {
       id: state.currentScene?.id ?? generateId(),
       name,
-      thumbnailBase64: state.currentScene?.thumbnailBase64 ?? '',
+      thumbnailPath: state.currentScene?.thumbnailPath ?? null,
       anchorId: state.currentScene?.anchorId ?? null,
       objects: state.placedObjects,
       createdAt: state.currentScene?.createdAt ?? now,
@@ -144,6 +272,15 @@ export const useSceneStore = create<SceneStore>()((set, get) => ({
     return scene;
   },
 
+  markSceneSaved: scene =>
+    set(state => ({
+      currentScene: scene,
+      savedScenes: state.savedScenes.some(s => s.id === scene.id)
+        ? state.savedScenes.map(s => (s.id === scene.id ? scene : s))
+        : [...state.savedScenes, scene],
+      isDirty: false,
+    })),
+
   deleteScene: sceneId =>
     set(state => ({
       savedScenes: state.savedScenes.filter(s => s.id !== sceneId),
@@ -156,6 +293,7 @@ export const useSceneStore = create<SceneStore>()((set, get) => ({
     set(state => ({
       placedObjects: [...state.placedObjects, object],
       isDirty: true,
+      ...record(state, { type: 'ADD', object }),
     })),
 
   updateObject: (objectId, updates) =>
@@ -166,30 +304,139 @@ export const useSceneStore = create<SceneStore>()((set, get) => ({
       isDirty: true,
     })),
 
-  updateObjectTransform: (objectId, transform) =>
-    set(state => ({
-      placedObjects: state.placedObjects.map(obj =>
+  updateObjectTransform: (objectId, transform, { coalesceKey = null } = {}) =>
+    set(state => {
+      const object = state.placedObjects.find(obj => obj.id === objectId);
+      if (!object) return {};
+
+      const placedObjects = state.placedObjects.map(obj =>
         obj.id === objectId ? { ...obj, transform } : obj
-      ),
-      isDirty: true,
-    })),
+      );
+      const now = Date.now();
+      const last = state.undoStack[state.undoStack.length - 1];
+
+      // Continuous gestures extend the step they started
+      if (
+        !state.historyPaused &&
+        coalesceKey !== null &&
+        last?.type === 'TRANSFORM' &&
+        last.objectId === objectId &&
+        last.coalesceKey === coalesceKey &&
+        now - last.updatedAt <= SCENE_LIMITS.HISTORY_COALESCE_MS
+      ) {
+        return {
+          placedObjects,
+          isDirty: true,
+          undoStack: [
+            ...state.undoStack.slice(0, -1),
+            { ...last, after: transform, updatedAt: now },
+          ],
+          redoStack: [],
+        };
+      }
+
+      return {
+        placedObjects,
+        isDirty: true,
+        ...record(state, {
+          type: 'TRANSFORM',
+          objectId,
+          before: object.transform,
+          after: transform,
+          coalesceKey,
+          updatedAt: now,
+        }),
+      };
+    }),
 
   removeObject: objectId =>
-    set(state => ({
-      placedObjects: state.placedObjects.filter(obj => obj.id !== objectId),
-      selectedObjectId: state.selectedObjectId === objectId ? null : state.selectedObjectId,
-      isDirty: true,
-    })),
+    set(state => {
+      const index = state.placedObjects.findIndex(obj => obj.id === objectId);
+      const object = state.placedObjects[index];
+      if (!object) return {};
+      return {
+        placedObjects: state.placedObjects.filter(obj => obj.id !== objectId),
+        selectedObjectId: state.selectedObjectId === objectId ? null : state.selectedObjectId,
+        isDirty: true,
+        ...record(state, { type: 'REMOVE', object, index }),
+      };
+    }),
 
   clearObjects: () =>
-    set({
+    set(state => ({
       placedObjects: [],
       selectedObjectId: null,
       isDirty: true,
-    }),
+      ...(state.placedObjects.length > 0 &&
+        record(state, { type: 'CLEAR', objects: state.placedObjects })),
+    })),
 
   selectObject: objectId => set({ selectedObjectId: objectId }),
 
+  undo: () => {
+    const { undoStack } = get();
+    const command = undoStack[undoStack.length - 1];
+    if (!command) return null;
+
+    set(state => {
+      const placedObjects = applyCommand(state.placedObjects, command, 'undo');
+      return {
+        placedObjects,
+        selectedObjectId: placedObjects.some(obj => obj.id === state.selectedObjectId)
+          ? state.selectedObjectId
+          : null,
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, command],
+        isDirty: true,
+      };
+    });
+    return command;
+  },
+
+  redo: () => {
+    const { redoStack } = get();
+    const command = redoStack[redoStack.length - 1];
+    if (!command) return null;
+
+    set(state => {
+      const placedObjects = applyCommand(state.placedObjects, command, 'redo');
+      return {
+        placedObjects,
+        selectedObjectId: placedObjects.some(obj => obj.id === state.selectedObjectId)
+          ? state.selectedObjectId
+          : null,
+        undoStack: [...state.undoStack, command],
+        redoStack: state.redoStack.slice(0, -1),
+        isDirty: true,
+      };
+    });
+    return command;
+  },
+
+  canUndo: () => get().undoStack.length > 0,
+
+  canRedo: () => get().redoStack.length > 0,
+
+  clearHistory: () => set({ undoStack: [], redoStack: [] }),
+
+  setHistoryPaused: historyPaused => set({ historyPaused }),
+
+  replaceObjectId: (oldId, newId) =>
+    set(state => {
+      if (!state.placedObjects.some(obj => obj.id === oldId)) return {};
+      const rename = (command: SceneCommand): SceneCommand =>
+        renameInCommand(command, oldId, newId);
+      return {
+        // Store sync may already hold the engine's copy under the new ID
+        placedObjects: state.placedObjects
+          .filter(obj => obj.id !== newId)
+          .map(obj => (obj.id === oldId ? { ...obj, id: newId } : obj)),
+        selectedObjectId: state.selectedObjectId === oldId ? newId : state.selectedObjectId,
+        undoStack: state.undoStack.map(rename),
+        redoStack: state.redoStack.map(rename),
+      };
+    }),
+
   startScan: session => set({ scanSession: session }),
 
   updateScan: updates =>
@@ -232,6 +479,20 @@ export function useSelectedObject(): PlacedObject | undefined {
   return selectedObjectId !== null ? getObjectById(selectedObjectId) : undefined;
 }
 
+/**
+ * Hook to check if there is an edit to undo.
+ */
+export function useCanUndo(): boolean {
+  return useSceneStore(state => state.undoStack.length > 0);
+}
+
+/**
+ * Hook to check if there is an undone edit to redo.
+ */
+export function useCanRedo(): boolean {
+  return useSceneStore(state => state.redoStack.length > 0);
+}
+
 /**
  * Hook to check if scene has unsaved changes.
  */
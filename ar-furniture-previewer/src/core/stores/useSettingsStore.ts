@@ -11,6 +11,8 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { ThemeMode } from '@core/constants/theme';
+import { STORAGE_KEYS } from '@core/constants/paths';
+import { SETTINGS_STORE_VERSION } from '@infrastructure/storage/asyncStorageHelpers';
 
 /**
  * Settings state.
@@ -68,6 +70,8 @@ const initialState: SettingsState = {
 
 /**
  * Settings store with persistence.
+ * Hydration waits for useSettingsStore.persist.rehydrate(), called once the
+ * storage migrations have brought the persisted state up to date.
  */
 export const useSettingsStore = create<SettingsStore>()(
   persist(
@@ -89,8 +93,10 @@ export const useSettingsStore = create<SettingsStore>()(
       reset: () => set(initialState),
     }),
     {
-      name: 'ar-furniture-settings',
+      name: STORAGE_KEYS.SETTINGS_STORE,
+      version: SETTINGS_STORE_VERSION,
       storage: createJSONStorage(() => AsyncStorage),
+      skipHydration: true,
       onRehydrateStorage: () => state => {
         state?.setHydrated();
       },
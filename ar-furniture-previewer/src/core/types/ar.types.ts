@@ -0,0 +1,171 @@
+/**
+ * AR Service Types
+ *
+ * Types for the promise-based AR service used by screens.
+ * Based on contracts/ar-service.ts specification.
+ *
+ * @module core/types/ar.types
+ */
+
+import type { ScanProgress } from './scene.types';
+import type {
+  ARCapabilities,
+  ARErrorCode,
+  BoundingBoxPayload,
+  ScenePayload,
+  TrackingLimitedReason,
+  TrackingState,
+  TransformPayload,
+  TransformUpdatedPayload,
+} from './webview.types';
+
+// =============================================================================
+// SESSION
+// =============================================================================
+
+/**
+ * AR session lifecycle state.
+ */
+export type ARSessionState = 'UNINITIALIZED' | 'INITIALIZING' | 'READY' | 'PAUSED' | 'ERROR';
+
+/**
+ * Error reported by the AR engine.
+ */
+export interface ARError {
+  code: ARErrorCode;
+  message: string;
+  recoverable: boolean;
+}
+
+/**
+ * Snapshot of the AR session.
+ */
+export interface ARSessionInfo {
+  state: ARSessionState;
+  capabilities: ARCapabilities | null;
+  trackingState: TrackingState;
+  trackingLimitedReason?: TrackingLimitedReason;
+  error?: ARError;
+}
+
+/**
+ * Session start options.
+ */
+export interface ARInitConfig {
+  /** 8th Wall API key */
+  apiKey: string;
+  /** Enable VPS if available */
+  enableVPS?: boolean;
+  /** Show debug overlay */
+  debugMode?: boolean;
+}
+
+// =============================================================================
+// OBJECTS
+// =============================================================================
+
+/**
+ * How the user changed an object's transform.
+ */
+export type GestureType = TransformUpdatedPayload['gestureType'];
+
+/**
+ * An object placed in the AR view.
+ */
+export interface ARPlacedObject {
+  objectId: string;
+  modelId: string;
+  transform: TransformPayload;
+  isSelected: boolean;
+}
+
+/**
+ * A surface detected by the AR engine.
+ */
+export interface DetectedSurface {
+  type: 'horizontal' | 'vertical';
+  position: [number, number, number];
+  normal: [number, number, number];
+  /** Confidence score 0-1 */
+  confidence: number;
+}
+
+/**
+ * Model placement request.
+ */
+export interface PlaceModelParams {
+  /** Model ID from library */
+  modelId: string;
+  /** GLB data as base64 (the stored library file is used when omitted) */
+  glbData?: string;
+  /** Initial transform (placed at the detected surface when omitted) */
+  initialTransform?: TransformPayload;
+}
+
+// =============================================================================
+// SCENES
+// =============================================================================
+
+/**
+ * Scene capture options.
+ */
+export interface CaptureSceneOptions {
+  /** Include screenshot in capture (default true) */
+  includeScreenshot?: boolean;
+  /** Attempt to create VPS anchor (default: when VPS is available) */
+  createVPSAnchor?: boolean;
+}
+
+/**
+ * Result of capturing the current scene.
+ */
+export interface CapturedScene {
+  objects: ARPlacedObject[];
+  /** Screenshot as base64 JPEG (if requested) */
+  screenshot: string | null;
+  /** VPS anchor ID (if created) */
+  vpsAnchorId: string | null;
+}
+
+/**
+ * Scene restore request.
+ */
+export interface RestoreSceneParams {
+  sceneConfig: ScenePayload;
+  /** Models to load (modelId → base64 GLB); stored library files when omitted */
+  models?: Record<string, string>;
+}
+
+/**
+ * Result of restoring a scene.
+ */
+export interface RestoreSceneResult {
+  restoredObjects: ARPlacedObject[];
+  /** Model IDs that failed to restore */
+  failedModelIds: string[];
+  /** Whether VPS anchor was used */
+  usedVPSAnchor: boolean;
+}
+
+// =============================================================================
+// SCANNING
+// =============================================================================
+
+/**
+ * Scan progress update.
+ */
+export interface ScanProgressUpdate extends ScanProgress {
+  /** Enough photos have been captured to end the scan */
+  canFinish: boolean;
+}
+
+/**
+ * Result of a completed scan.
+ */
+export interface ScanResult {
+  /** Generated GLB as base64 */
+  glbData: string;
+  boundingBox: BoundingBoxPayload;
+  /** Estimated vertex count */
+  vertexCount: number;
+}
@@ -16,6 +16,28 @@ export type {
   ModelSortField,
   SortDirection,
   ModelFilter,
+  LengthUnit,
+  ModelDimension,
+  ScaleSuggestion,
+  ImportModelParams,
+  SaveScannedModelParams,
+  UpdateModelParams,
+  StorageStats,
+  ModelStorageUsage,
+  SceneStorageUsage,
+  QuotaUsage,
+  StorageBreakdown,
+  IntegrityIssueType,
+  IntegrityIssue,
+  IntegrityReport,
+  DanglingReferenceRepair,
+  IntegrityRepairResult,
+  ValidationSeverity,
+  ValidationIssueCode,
+  ValidationIssue,
+  ModelValidationReport,
+  BundledModelEntry,
+  BundledModelManifest,
 } from './model.types';
 
 // Scene types
@@ -26,6 +48,9 @@ export type {
   SavedScene,
   SceneIndex,
   ActiveScene,
+  SceneDraft,
+  SaveSceneParams,
+  UpdateSceneParams,
   SceneExport,
   ScanStatus,
   PhotoQuality,
@@ -34,6 +59,24 @@ export type {
   ScanProgress,
 } from './scene.types';
 
+// AR service types
+export type {
+  ARSessionState,
+  ARError,
+  ARSessionInfo,
+  ARInitConfig,
+  GestureType,
+  ARPlacedObject,
+  DetectedSurface,
+  PlaceModelParams,
+  CaptureSceneOptions,
+  CapturedScene,
+  RestoreSceneParams,
+  RestoreSceneResult,
+  ScanProgressUpdate,
+  ScanResult,
+} from './ar.types';
+
 // WebView bridge types
 export type {
   WebViewMessage,
@@ -43,11 +86,14 @@ export type {
   BoundingBoxPayload,
   PhotoQualityPayload,
   ARCapabilities,
+  ModelTransport,
   ARErrorCode,
   ModelErrorCode,
   ScanErrorCode,
   TrackingState,
   TrackingLimitedReason,
+  BridgeFeature,
+  NegotiatedProtocol,
   RNToWebViewMessageType,
   WebViewToRNMessageType,
   InitARPayload,
@@ -60,6 +106,11 @@ export type {
   CaptureScanPhotoPayload,
   EndScanPayload,
   CancelScanPayload,
+  TransferBeginPayload,
+  TransferChunkPayload,
+  TransferCommitPayload,
+  TransferAbortPayload,
+  PingPayload,
   ARReadyPayload,
   ARErrorPayload,
   SurfaceDetectedPayload,
@@ -73,6 +124,20 @@ export type {
   ScanCompletePayload,
   ScanFailedPayload,
   TrackingStatePayload,
+  TransferReadyPayload,
+  TransferAckPayload,
+  TransferCommittedPayload,
+  TransferErrorCode,
+  TransferErrorPayload,
+  PongPayload,
   WebViewMessageHandler,
   Unsubscribe,
+  WebViewBridgeClient,
+  EmptyPayload,
+  RNToWebViewMessageMap,
+  WebViewToRNMessageMap,
+  MessageMap,
+  TypedWebViewMessage,
+  RNToWebViewMessage,
+  WebViewToRNMessage,
 } from './webview.types';
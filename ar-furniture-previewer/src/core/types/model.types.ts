@@ -65,6 +65,67 @@ export interface Model {
   createdAt: number;
   /** Last AR placement timestamp or null */
   lastUsedAt: number | null;
+  /** Validation findings from import (absent for bundled and older models) */
+  validation?: ModelValidationReport;
+  /** Uniform scale from file units to metres (absent means 1) */
+  scale?: number;
+  /** Unit correction found on import, kept until accepted or the scale is set */
+  scaleSuggestion?: ScaleSuggestion;
+}
+
+/**
+ * Length unit a model file may have been authored in.
+ */
+export type LengthUnit = 'METERS' | 'CENTIMETERS' | 'MILLIMETERS' | 'INCHES';
+
+/**
+ * Named bounding box axis: width (x), height (y), depth (z).
+ */
+export type ModelDimension = 'width' | 'height' | 'depth';
+
+/**
+ * Outcome of checking a model's size against its category.
+ */
+export interface ScaleSuggestion {
+  /** Unit the file appears to use, or null if no unit gives a plausible size */
+  unit: LengthUnit | null;
+  /** Uniform scale to apply (1 when unit is METERS or null) */
+  scale: number;
+  /** Whether the scaled size is plausible for the category */
+  plausible: boolean;
+  /** Width, height and depth in metres after scaling */
+  dimensions: [number, number, number];
+}
+
+/**
+ * A model shipped with the app, as listed in the bundled model manifest.
+ */
+export interface BundledModelEntry {
+  /** Stable identifier, kept across app versions */
+  id: string;
+  /** Raised whenever the file or its details change, to replace installed copies */
+  revision: number;
+  /** Display name */
+  name: string;
+  /** Furniture category */
+  category: ModelCategory;
+  /** GLB filename in the bundled models directory */
+  file: string;
+  /** JPEG filename in the bundled thumbnails directory */
+  thumbnail: string;
+  /** Technical metadata of the file */
+  metadata: ModelMetadata;
+  /** Uniform scale from file units to metres */
+  scale: number;
+}
+
+/**
+ * Catalogue of bundled models for this app version.
+ */
+export interface BundledModelManifest {
+  /** Raised whenever any entry is added, changed or removed */
+  version: number;
+  models: BundledModelEntry[];
 }
 
 /**
@@ -101,3 +162,225 @@ export interface ModelFilter {
   /** Include bundled models */
   includeBundled?: boolean;
 }
+
+/**
+ * Parameters for importing a GLB file into the library.
+ */
+export interface ImportModelParams {
+  /** Path to source GLB file */
+  sourcePath: string;
+  /** Display name for model */
+  name: string;
+  /** Category assignment */
+  category: ModelCategory;
+}
+
+/**
+ * Parameters for saving a model produced by a scan.
+ */
+export interface SaveScannedModelParams {
+  /** Base64-encoded GLB data */
+  glbData: string;
+  /** Display name */
+  name: string;
+  /** Pre-computed metadata */
+  metadata: ModelMetadata;
+  /** Category assignment (defaults to CUSTOM) */
+  category?: ModelCategory;
+}
+
+/**
+ * Model fields that can be changed after import.
+ */
+export type UpdateModelParams = Partial<Pick<Model, 'name' | 'lastUsedAt' | 'scale'>>;
+
+/**
+ * Storage usage statistics.
+ */
+export interface StorageStats {
+  /** Number of models stored */
+  modelCount: number;
+  /** Number of scenes stored */
+  sceneCount: number;
+  /** Total bytes used by models */
+  modelsSize: number;
+  /** Total bytes used by scenes */
+  scenesSize: number;
+  /** Available storage bytes (approximate, -1 if unknown) */
+  availableSpace: number;
+  /** Whether nearing the model or scene quota */
+  nearingLimit: boolean;
+}
+
+/**
+ * Disk usage of one model.
+ */
+export interface ModelStorageUsage {
+  modelId: string;
+  name: string;
+  isBundled: boolean;
+  /** GLB file bytes */
+  fileSize: number;
+  /** Thumbnail bytes */
+  thumbnailSize: number;
+  /** fileSize plus thumbnailSize */
+  totalSize: number;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+/**
+ * Disk usage of one saved scene.
+ */
+export interface SceneStorageUsage {
+  sceneId: string;
+  name: string;
+  /** Thumbnail bytes (0 without one) */
+  thumbnailSize: number;
+}
+
+/**
+ * Use of a count quota such as MODEL_LIMITS.MAX_MODELS.
+ */
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  /** used / limit */
+  ratio: number;
+  /** Fraction of the quota at which to warn (STORAGE_WARNINGS) */
+  warningThreshold: number;
+  /** Whether ratio has reached warningThreshold */
+  nearingLimit: boolean;
+}
+
+/**
+ * Storage usage broken down for the storage screen.
+ */
+export interface StorageBreakdown extends StorageStats {
+  /** Per model, in library order */
+  models: ModelStorageUsage[];
+  /** Per saved scene, in index order */
+  scenes: SceneStorageUsage[];
+  /** Bytes of scan session photos and results awaiting processing */
+  scanSessionsSize: number;
+  /** Bytes in the app cache directory */
+  cacheSize: number;
+  modelQuota: QuotaUsage;
+  sceneQuota: QuotaUsage;
+  /** User models taking the most space, largest first */
+  largestModels: ModelStorageUsage[];
+  /** User models unused the longest, oldest first; never-used ones go by createdAt */
+  leastRecentlyUsedModels: ModelStorageUsage[];
+  /** When the figures were gathered (Unix ms) */
+  computedAt: number;
+}
+
+/**
+ * Kind of inconsistency between the indexes and the files on disk.
+ */
+export type IntegrityIssueType =
+  /** Model index entry whose GLB file is gone */
+  | 'MISSING_MODEL_FILE'
+  /** Model whose thumbnail is gone */
+  | 'MISSING_MODEL_THUMBNAIL'
+  /** GLB file in the models directory with no index entry */
+  | 'ORPHAN_MODEL_FILE'
+  /** Model thumbnail with no index entry */
+  | 'ORPHAN_MODEL_THUMBNAIL'
+  /** Scene whose thumbnail is gone */
+  | 'MISSING_SCENE_THUMBNAIL'
+  /** Scene thumbnail with no index entry */
+  | 'ORPHAN_SCENE_THUMBNAIL'
+  /** Scene objects placing a model no longer in the library */
+  | 'DANGLING_MODEL_REFERENCE'
+  /** Scene objects marked as missing whose model is back */
+  | 'STALE_MISSING_MARK';
+
+/**
+ * One inconsistency found by the storage integrity check.
+ */
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  /** Human-readable description */
+  message: string;
+  /** File concerned, for missing and orphan files */
+  path?: string;
+  modelId?: string;
+  sceneId?: string;
+  /** Scene objects concerned, for reference issues */
+  objectIds?: string[];
+}
+
+/**
+ * Result of a storage integrity check.
+ */
+export interface IntegrityReport {
+  issues: IntegrityIssue[];
+  /** When the check ran (Unix ms) */
+  checkedAt: number;
+}
+
+/**
+ * What to do with scene objects whose model is gone: remove them, or keep
+ * them marked with PlacedObject.missingModel.
+ */
+export type DanglingReferenceRepair = 'DROP' | 'MARK_MISSING';
+
+/**
+ * Outcome of repairing the issues in an integrity report.
+ */
+export interface IntegrityRepairResult {
+  repaired: IntegrityIssue[];
+  failed: { issue: IntegrityIssue; error: string }[];
+}
+
+/**
+ * How serious a validation finding is.
+ * ERROR blocks import; WARNING and INFO are shown on the model.
+ */
+export type ValidationSeverity = 'ERROR' | 'WARNING' | 'INFO';
+
+/**
+ * Kind of problem found in a GLB file.
+ */
+export type ValidationIssueCode =
+  | 'INVALID_HEADER'
+  | 'UNSUPPORTED_VERSION'
+  | 'LENGTH_MISMATCH'
+  | 'INVALID_CHUNK'
+  | 'INVALID_JSON'
+  | 'MISSING_BINARY_CHUNK'
+  | 'BUFFER_OUT_OF_BOUNDS'
+  | 'INVALID_REFERENCE'
+  | 'INVALID_ACCESSOR'
+  | 'UNSUPPORTED_EXTENSION'
+  | 'EXTERNAL_URI'
+  | 'INVALID_IMAGE'
+  | 'LARGE_TEXTURE'
+  | 'NO_GEOMETRY';
+
+/**
+ * A single validation finding.
+ */
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: ValidationIssueCode;
+  /** User-facing explanation */
+  message: string;
+  /** JSON pointer to the offending glTF object (e.g. "/accessors/3"), if any */
+  pointer: string | null;
+}
+
+/**
+ * Result of structurally validating a GLB file.
+ */
+export interface ModelValidationReport {
+  /** False if any ERROR was found */
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  /** Findings, most severe first (capped; counts are not) */
+  issues: ValidationIssue[];
+  /** Validation timestamp (Unix ms) */
+  validatedAt: number;
+}
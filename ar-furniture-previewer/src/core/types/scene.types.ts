@@ -39,6 +39,8 @@ export interface PlacedObject {
   transform: Transform;
   /** When placed (Unix timestamp) */
   placedAt: number;
+  /** Set by the storage integrity check when the model is no longer in the library */
+  missingModel?: boolean;
 }
 
 /**
@@ -49,8 +51,8 @@ export interface SavedScene {
   id: string;
   /** Display name (1-100 chars) */
   name: string;
-  /** Scene screenshot as base64 JPEG (< 500KB) */
-  thumbnailBase64: string;
+  /** Path to the scene screenshot JPEG (< 500KB), or null if none */
+  thumbnailPath: string | null;
   /** Lightship VPS anchor ID or null */
   anchorId: string | null;
   /** Anchor strategy used */
@@ -87,6 +89,52 @@ export interface ActiveScene {
   isDirty: boolean;
 }
 
+/**
+ * Parameters for saving a new scene.
+ */
+export interface SaveSceneParams {
+  /** Display name (1-100 chars) */
+  name: string;
+  /** Screenshot as base64 JPEG, or null for none */
+  thumbnailBase64: string | null;
+  /** Lightship VPS anchor ID or null */
+  anchorId: string | null;
+  /** Anchor strategy used */
+  anchorType: AnchorType;
+  /** Placed objects; IDs are kept so a restored scene matches the saved one */
+  objects: PlacedObject[];
+}
+
+/**
+ * Changes to a saved scene.
+ */
+export interface UpdateSceneParams {
+  name?: string;
+  /** New screenshot as base64 JPEG, or null to remove it */
+  thumbnailBase64?: string | null;
+  anchorId?: string | null;
+  anchorType?: AnchorType;
+  objects?: PlacedObject[];
+}
+
+/**
+ * Autosaved copy of the scene being edited.
+ * Kept until the layout is saved, so it can be recovered after the app is
+ * killed.
+ */
+export interface SceneDraft {
+  /** Draft format version */
+  version: number;
+  /** When the draft was written (Unix ms) */
+  savedAt: number;
+  /** Saved scene the layout started from, or null for a new layout */
+  currentScene: SavedScene | null;
+  /** Objects placed at the time of the draft */
+  placedObjects: PlacedObject[];
+  /** Layout differed from its saved scene */
+  isDirty: boolean;
+}
+
 /**
  * Scene export format (for sharing).
  * Per FR-032: JSON format.
@@ -23,6 +23,8 @@ export interface WebViewMessage<T extends string = string, P = unknown> {
   messageId: string;
   /** Unix timestamp when message was created */
   timestamp: number;
+  /** For responses: messageId of the request this message answers */
+  replyTo?: string;
 }
 
 // =============================================================================
@@ -60,12 +62,20 @@ export interface PhotoQualityPayload {
   score: number; // 0-1 confidence
 }
 
+/**
+ * How GLB data reaches the WebView.
+ * INLINE: base64 in the message; CHUNKED: TRANSFER_* messages; FILE_URL: file:// URI.
+ */
+export type ModelTransport = 'INLINE' | 'CHUNKED' | 'FILE_URL';
+
 export interface ARCapabilities {
   surfaceDetection: boolean;
   lightEstimation: boolean;
   vps: boolean;
   scanning: boolean;
   maxObjects: number;
+  /** Model transports the page accepts (INLINE only when absent) */
+  modelTransports?: ModelTransport[];
 }
 
 // =============================================================================
@@ -78,6 +88,7 @@ export type ARErrorCode =
   | 'XRWEB_INIT_FAILED'
   | 'VPS_UNAVAILABLE'
   | 'NETWORK_ERROR'
+  | 'PROTOCOL_MISMATCH'
   | 'UNKNOWN';
 
 export type ModelErrorCode =
@@ -109,43 +120,50 @@ export type TrackingLimitedReason =
   | 'INSUFFICIENT_FEATURES'
   | 'RELOCALIZING';
 
+// =============================================================================
+// PROTOCOL
+// =============================================================================
+
+/**
+ * Bridge features that depend on what the AR page supports.
+ */
+export type BridgeFeature =
+  | 'CORRELATED_REPLIES'
+  | 'CHUNKED_TRANSFER'
+  | 'FILE_URL_MODELS'
+  | 'HEARTBEAT'
+  | 'SCANNING'
+  | 'VPS';
+
+/**
+ * Result of the INIT_AR / AR_READY handshake.
+ */
+export interface NegotiatedProtocol {
+  /** Protocol version both sides speak */
+  version: number;
+  /** RN → WebView message types the page handles */
+  messageTypes: RNToWebViewMessageType[];
+  /** Features usable in this session */
+  features: BridgeFeature[];
+}
+
 // =============================================================================
 // REACT NATIVE → WEBVIEW MESSAGE TYPES
 // =============================================================================
 
-export type RNToWebViewMessageType =
-  | 'INIT_AR'
-  | 'LOAD_MODEL'
-  | 'REMOVE_MODEL'
-  | 'UPDATE_TRANSFORM'
-  | 'CAPTURE_SCENE'
-  | 'RESTORE_SCENE'
-  | 'START_SCAN'
-  | 'CAPTURE_SCAN_PHOTO'
-  | 'END_SCAN'
-  | 'CANCEL_SCAN'
-  | 'RESET_AR'
-  | 'PAUSE_AR'
-  | 'RESUME_AR';
+/**
+ * RN → WebView message types, derived from RNToWebViewMessageMap.
+ */
+export type RNToWebViewMessageType = keyof RNToWebViewMessageMap;
 
 // =============================================================================
 // WEBVIEW → REACT NATIVE MESSAGE TYPES
 // =============================================================================
 
-export type WebViewToRNMessageType =
-  | 'AR_READY'
-  | 'AR_ERROR'
-  | 'SURFACE_DETECTED'
-  | 'MODEL_PLACED'
-  | 'MODEL_ERROR'
-  | 'TRANSFORM_UPDATED'
-  | 'SCENE_CAPTURED'
-  | 'SCENE_RESTORED'
-  | 'SCAN_PHOTO_CAPTURED'
-  | 'SCAN_PROGRESS'
-  | 'SCAN_COMPLETE'
-  | 'SCAN_FAILED'
-  | 'TRACKING_STATE';
+/**
+ * WebView → RN message types, derived from WebViewToRNMessageMap.
+ */
+export type WebViewToRNMessageType = keyof WebViewToRNMessageMap;
 
 // =============================================================================
 // MESSAGE PAYLOADS (RN → WebView)
@@ -155,12 +173,22 @@ export interface InitARPayload {
   apiKey: string;
   enableVPS: boolean;
   debugMode: boolean;
+  /** Protocol versions the app speaks (filled in by the bridge) */
+  protocolVersions?: number[];
+  /** WebView → RN message types the app handles (filled in by the bridge) */
+  messageTypes?: WebViewToRNMessageType[];
 }
 
 export interface LoadModelPayload {
   modelId: string;
-  glbData: string;
-  initialTransform?: TransformPayload;
+  /** Inline base64 GLB (omitted when glbTransferId is set) */
+  glbData?: string;
+  /** Committed chunked transfer holding the GLB */
+  glbTransferId?: string;
+  /** file:// URI of the GLB on device */
+  glbUri?: string;
+  /** Fields left out take the engine defaults (position at the surface hit) */
+  initialTransform?: Partial<TransformPayload>;
 }
 
 export interface RemoveModelPayload {
@@ -179,7 +207,12 @@ export interface CaptureScenePayload {
 
 export interface RestoreScenePayload {
   scene: ScenePayload;
+  /** Inline base64 GLBs (modelId → data) */
   models: Record<string, string>;
+  /** Committed chunked transfers (modelId → transferId) */
+  modelTransferIds?: Record<string, string>;
+  /** file:// URIs of GLBs on device (modelId → uri) */
+  modelUris?: Record<string, string>;
 }
 
 export interface StartScanPayload {
@@ -198,6 +231,42 @@ export interface CancelScanPayload {
   sessionId: string;
 }
 
+export interface TransferBeginPayload {
+  transferId: string;
+  /** Length of the full base64 string */
+  totalLength: number;
+  chunkCount: number;
+  /** CRC32 of the full base64 string */
+  checksum: number;
+}
+
+export interface TransferChunkPayload {
+  transferId: string;
+  index: number;
+  data: string;
+  /** CRC32 of this chunk's data */
+  checksum: number;
+}
+
+export interface TransferCommitPayload {
+  transferId: string;
+  checksum: number;
+}
+
+export interface TransferAbortPayload {
+  transferId: string;
+  reason: string;
+}
+
+export interface PingPayload {
+  sequence: number;
+}
+
+/**
+ * Payload of messages that carry no data (RESET_AR, PAUSE_AR, RESUME_AR).
+ */
+export type EmptyPayload = Record<string, never>;
+
 // =============================================================================
 // MESSAGE PAYLOADS (WebView → RN)
 // =============================================================================
@@ -206,6 +275,10 @@ export interface ARReadyPayload {
   sdkVersion: string;
   vpsAvailable: boolean;
   capabilities: ARCapabilities;
+  /** Protocol version chosen by the page (1 when absent) */
+  protocolVersion?: number;
+  /** RN → WebView message types the page handles (v1 set when absent) */
+  messageTypes?: string[];
 }
 
 export interface ARErrorPayload {
@@ -282,6 +355,118 @@ export interface TrackingStatePayload {
   reason?: TrackingLimitedReason;
 }
 
+export interface TransferReadyPayload {
+  transferId: string;
+  /** Chunks already held from an earlier attempt (resume) */
+  receivedChunks: number[];
+}
+
+export interface TransferAckPayload {
+  transferId: string;
+  index: number;
+  status: 'OK' | 'CHECKSUM_MISMATCH';
+}
+
+export interface TransferCommittedPayload {
+  transferId: string;
+  /** Chunks still missing; empty when the transfer is complete */
+  missingChunks: number[];
+}
+
+export type TransferErrorCode =
+  | 'CHECKSUM_MISMATCH'
+  | 'UNKNOWN_TRANSFER'
+  | 'OUT_OF_MEMORY'
+  | 'UNKNOWN';
+
+export interface TransferErrorPayload {
+  transferId: string;
+  code: TransferErrorCode;
+  message: string;
+}
+
+export interface PongPayload {
+  sequence: number;
+}
+
+// =============================================================================
+// MESSAGE MAP
+// =============================================================================
+
+/**
+ * Payload of every RN → WebView message, by type.
+ * Adding a message is one entry here; its type joins RNToWebViewMessageType.
+ */
+export interface RNToWebViewMessageMap {
+  INIT_AR: InitARPayload;
+  LOAD_MODEL: LoadModelPayload;
+  REMOVE_MODEL: RemoveModelPayload;
+  UPDATE_TRANSFORM: UpdateTransformPayload;
+  CAPTURE_SCENE: CaptureScenePayload;
+  RESTORE_SCENE: RestoreScenePayload;
+  START_SCAN: StartScanPayload;
+  CAPTURE_SCAN_PHOTO: CaptureScanPhotoPayload;
+  END_SCAN: EndScanPayload;
+  CANCEL_SCAN: CancelScanPayload;
+  RESET_AR: EmptyPayload;
+  PAUSE_AR: EmptyPayload;
+  RESUME_AR: EmptyPayload;
+  TRANSFER_BEGIN: TransferBeginPayload;
+  TRANSFER_CHUNK: TransferChunkPayload;
+  TRANSFER_COMMIT: TransferCommitPayload;
+  TRANSFER_ABORT: TransferAbortPayload;
+  PING: PingPayload;
+}
+
+/**
+ * Payload of every WebView → RN message, by type.
+ * Adding a message is one entry here; its type joins WebViewToRNMessageType.
+ */
+export interface WebViewToRNMessageMap {
+  AR_READY: ARReadyPayload;
+  AR_ERROR: ARErrorPayload;
+  SURFACE_DETECTED: SurfaceDetectedPayload;
+  MODEL_PLACED: ModelPlacedPayload;
+  MODEL_ERROR: ModelErrorPayload;
+  TRANSFORM_UPDATED: TransformUpdatedPayload;
+  SCENE_CAPTURED: SceneCapturedPayload;
+  SCENE_RESTORED: SceneRestoredPayload;
+  SCAN_PHOTO_CAPTURED: ScanPhotoCapturedPayload;
+  SCAN_PROGRESS: ScanProgressPayload;
+  SCAN_COMPLETE: ScanCompletePayload;
+  SCAN_FAILED: ScanFailedPayload;
+  TRACKING_STATE: TrackingStatePayload;
+  TRANSFER_READY: TransferReadyPayload;
+  TRANSFER_ACK: TransferAckPayload;
+  TRANSFER_COMMITTED: TransferCommittedPayload;
+  TRANSFER_ERROR: TransferErrorPayload;
+  PONG: PongPayload;
+}
+
+/**
+ * Payload of every bridge message, by type, in both directions.
+ */
+export interface MessageMap extends RNToWebViewMessageMap, WebViewToRNMessageMap {}
+
+/**
+ * A message whose payload is inferred from its type.
+ */
+export type TypedWebViewMessage<K extends keyof MessageMap> = WebViewMessage<K, MessageMap[K]>;
+
+/**
+ * Any RN → WebView message; narrows on `type`.
+ */
+export type RNToWebViewMessage = {
+  [K in RNToWebViewMessageType]: TypedWebViewMessage<K>;
+}[RNToWebViewMessageType];
+
+/**
+ * Any WebView → RN message; narrows on `type`.
+ */
+export type WebViewToRNMessage = {
+  [K in WebViewToRNMessageType]: TypedWebViewMessage<K>;
+}[WebViewToRNMessageType];
+
 // =============================================================================
 // BRIDGE INTERFACE
 // =============================================================================
@@ -295,3 +480,15 @@ export type WebViewMessageHandler = (message: WebViewMessage) => void;
  * Unsubscribe function returned by message subscriptions.
  */
 export type Unsubscribe = () => void;
+
+/**
+ * Page side of the bridge: what the AR web page (or a stand-in for it)
+ * implements to talk to React Native.
+ */
+export interface WebViewBridgeClient {
+  /** Send message to React Native */
+  send(message: WebViewToRNMessage): void;
+
+  /** Register handler for RN messages */
+  onMessage(handler: (message: RNToWebViewMessage) => void): Unsubscribe;
+}
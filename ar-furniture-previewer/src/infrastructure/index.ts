@@ -32,6 +32,7 @@ export {
   DEFAULT_SETTINGS,
   DEFAULT_MODEL_INDEX,
   DEFAULT_SCENE_INDEX,
+  SCENE_INDEX_VERSION,
   StorageError,
   STORAGE_KEYS,
 } from './storage/asyncStorageHelpers';
@@ -51,6 +52,6 @@ export {
 export type { AppPermission, PermissionStatus, PermissionResult } from './permissions';
 
 // WebView
-export { ARWebViewBridge, arWebViewBridge } from './webview/ARWebViewBridge';
+export { ARWebViewBridge, arWebViewBridge, BridgeError } from './webview/ARWebViewBridge';
 export { messageHandlers } from './webview/messageHandlers';
 export type { TypedMessageHandler } from './webview/messageHandlers';
@@ -8,9 +8,9 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { STORAGE_KEYS, type StorageKey } from '@core/constants/paths';
+import { getMigrationBackupKey, STORAGE_KEYS, type StorageKey } from '@core/constants/paths';
 import type { ModelIndex, Model } from '@core/types/model.types';
-import type { SceneIndex, SavedScene } from '@core/types/scene.types';
+import type { SceneIndex, SavedScene, SceneDraft } from '@core/types/scene.types';
 
 /**
  * App settings stored in AsyncStorage.
@@ -23,31 +23,64 @@ export interface AppSettings {
   analyticsEnabled: boolean;
 }
 
+/**
+ * App settings schema version.
+ */
+export const SETTINGS_VERSION = 1;
+
+/**
+ * Version of the useSettingsStore state persisted under
+ * STORAGE_KEYS.SETTINGS_STORE. Older versions are upgraded by the storage
+ * migrations before the store hydrates.
+ */
+export const SETTINGS_STORE_VERSION = 0;
+
 /**
  * Default app settings.
  */
 export const DEFAULT_SETTINGS: AppSettings = {
-  version: 1,
+  version: SETTINGS_VERSION,
   theme: 'system',
   onboardingComplete: false,
   lastARSession: null,
   analyticsEnabled: true,
 };
 
+/**
+ * Bundled models installed on this device.
+ */
+export interface BundledModelsState {
+  /** Manifest version fully installed, or 0 before the first launch completes */
+  manifestVersion: number;
+  /** Installed revision by bundled model ID */
+  installed: Record<string, number>;
+}
+
+/**
+ * Model index schema version.
+ */
+export const MODEL_INDEX_VERSION = 1;
+
 /**
  * Default model index.
  */
 export const DEFAULT_MODEL_INDEX: ModelIndex = {
-  version: 1,
+  version: MODEL_INDEX_VERSION,
   models: [],
   lastUpdated: Date.now(),
 };
 
+/**
+ * Scene index schema version.
+ * v2: thumbnails stored as JPEG files (thumbnailPath) instead of inline base64.
+ */
+export const SCENE_INDEX_VERSION = 2;
+
 /**
  * Default scene index.
  */
 export const DEFAULT_SCENE_INDEX: SceneIndex = {
-  version: 1,
+  version: SCENE_INDEX_VERSION,
   scenes: [],
   lastUpdated: Date.now(),
 };
@@ -93,6 +126,27 @@ export async function readFromStorage<T>(key: StorageKey, defaultValue: T): Prom
   }
 }
 
+/**
+ * Read a versioned value, refusing one in another schema version.
+ * Stored data is brought up to date by the migrations in ./migrations
+ * before it is read; anything else must not be treated as current.
+ */
+async function readVersioned<T extends { version: number }>(
+  key: StorageKey,
+  defaultValue: T,
+  version: number
+): Promise<T> {
+  const value = await readFromStorage<T>(key, defaultValue);
+  if (value.version !== version) {
+    throw new StorageError(
+      `Stored data for ${key} is version ${String(value.version)}, expected ${version}`,
+      'VALIDATION_ERROR',
+      key
+    );
+  }
+  return value;
+}
+
 /**
  * Generic write to AsyncStorage with JSON serialization.
  */
@@ -132,7 +186,12 @@ export async function removeFromStorage(key: StorageKey): Promise<void> {
  * Get model index from storage.
  */
 export async function getModelIndex(): Promise<ModelIndex> {
-  return readFromStorage<ModelIndex>(STORAGE_KEYS.MODEL_INDEX, DEFAULT_MODEL_INDEX);
+  // A fresh default, as callers mutate the returned index
+  return readVersioned<ModelIndex>(
+    STORAGE_KEYS.MODEL_INDEX,
+    { ...DEFAULT_MODEL_INDEX, models: [] },
+    MODEL_INDEX_VERSION
+  );
 }
 
 /**
@@ -150,7 +209,11 @@ export async function saveModelIndex(index: ModelIndex): Promise<void> {
  * Get scene index from storage.
  */
 export async function getSceneIndex(): Promise<SceneIndex> {
-  return readFromStorage<SceneIndex>(STORAGE_KEYS.SCENE_INDEX, DEFAULT_SCENE_INDEX);
+  return readVersioned<SceneIndex>(
+    STORAGE_KEYS.SCENE_INDEX,
+    { ...DEFAULT_SCENE_INDEX, scenes: [] },
+    SCENE_INDEX_VERSION
+  );
 }
 
 /**
@@ -164,11 +227,32 @@ export async function saveSceneIndex(index: SceneIndex): Promise<void> {
   await writeToStorage(STORAGE_KEYS.SCENE_INDEX, updated);
 }
 
+/**
+ * Get the autosaved scene draft, or null if there is none.
+ */
+export async function getSceneDraft(): Promise<SceneDraft | null> {
+  return readFromStorage<SceneDraft | null>(STORAGE_KEYS.SCENE_DRAFT, null);
+}
+
+/**
+ * Save the scene draft to storage.
+ */
+export async function saveSceneDraft(draft: SceneDraft): Promise<void> {
+  await writeToStorage(STORAGE_KEYS.SCENE_DRAFT, draft);
+}
+
+/**
+ * Remove the scene draft from storage.
+ */
+export async function clearSceneDraft(): Promise<void> {
+  await removeFromStorage(STORAGE_KEYS.SCENE_DRAFT);
+}
+
 /**
  * Get app settings from storage.
  */
 export async function getSettings(): Promise<AppSettings> {
-  return readFromStorage<AppSettings>(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS);
+  return readVersioned<AppSettings>(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS, SETTINGS_VERSION);
 }
 
 /**
@@ -178,6 +262,20 @@ export async function saveSettings(settings: AppSettings): Promise<void> {
   await writeToStorage(STORAGE_KEYS.SETTINGS, settings);
 }
 
+/**
+ * Get the bundled models install state, or null before the first install.
+ */
+export async function getBundledModelsState(): Promise<BundledModelsState | null> {
+  return readFromStorage<BundledModelsState | null>(STORAGE_KEYS.BUNDLED_MODELS, null);
+}
+
+/**
+ * Save the bundled models install state.
+ */
+export async function saveBundledModelsState(state: BundledModelsState): Promise<void> {
+  await writeToStorage(STORAGE_KEYS.BUNDLED_MODELS, state);
+}
+
 /**
  * Check if onboarding is complete.
  */
@@ -199,7 +297,7 @@ export async function markOnboardingComplete(): Promise<void> {
  */
 export async function clearAllData(): Promise<void> {
   const keys = Object.values(STORAGE_KEYS);
-  await AsyncStorage.multiRemove(keys);
+  await AsyncStorage.multiRemove([...keys, ...keys.map(getMigrationBackupKey)]);
 }
 
 // =============================================================================
@@ -16,8 +16,13 @@ export {
   saveModelIndex,
   getSceneIndex,
   saveSceneIndex,
+  getSceneDraft,
+  saveSceneDraft,
+  clearSceneDraft,
   getSettings,
   saveSettings,
+  getBundledModelsState,
+  saveBundledModelsState,
   // Helpers
   isOnboardingComplete,
   markOnboardingComplete,
@@ -34,8 +39,15 @@ export {
   DEFAULT_SETTINGS,
   DEFAULT_MODEL_INDEX,
   DEFAULT_SCENE_INDEX,
+  MODEL_INDEX_VERSION,
+  SCENE_INDEX_VERSION,
+  SETTINGS_VERSION,
+  SETTINGS_STORE_VERSION,
   StorageError,
   STORAGE_KEYS,
 } from './asyncStorageHelpers';
 
-export type { AppSettings } from './asyncStorageHelpers';
+export type { AppSettings, BundledModelsState } from './asyncStorageHelpers';
+export { installSceneAutosave, loadRecoverableDraft, SCENE_DRAFT_VERSION } from './sceneAutosave';
+export { StorageMigrator, storageMigrator, MigrationError, STORAGE_MIGRATIONS } from './migrations';
+export type { StorageMigration, MigrationBackup, MigrationErrorCode } from './migrations';
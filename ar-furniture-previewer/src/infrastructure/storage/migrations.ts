@@ -0,0 +1,277 @@
+/**
+ * Storage Migrations
+ *
+ * Brings versioned AsyncStorage values up to the schema this app version
+ * reads. Each key has an ordered list of migrations, one per version hop.
+ * Before anything changes, the stored value is copied to its backup key;
+ * the migrated value then replaces the original in a single write, so a
+ * migration that fails (or an app killed mid-way) leaves the old data in
+ * place to be retried on the next launch.
+ *
+ * @module infrastructure/storage/migrations
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SavedScene } from '@core/types/scene.types';
+import {
+  APP_PATHS,
+  getMigrationBackupKey,
+  getScenePaths,
+  STORAGE_KEYS,
+  type StorageKey,
+} from '@core/constants/paths';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  MODEL_INDEX_VERSION,
+  SCENE_INDEX_VERSION,
+  SETTINGS_STORE_VERSION,
+  SETTINGS_VERSION,
+} from './asyncStorageHelpers';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One version hop for a stored value.
+ */
+export interface StorageMigration {
+  /** Version this migration upgrades from */
+  fromVersion: number;
+  /** Version this migration upgrades to */
+  toVersion: number;
+  /** Migration function; returns the value with version set to toVersion */
+  migrate(data: unknown): Promise<unknown>;
+}
+
+/**
+ * Migrations and current schema version for a storage key.
+ */
+interface MigrationPlan {
+  version: number;
+  migrations: StorageMigration[];
+}
+
+/**
+ * Backup written before a key is migrated.
+ */
+export interface MigrationBackup {
+  fromVersion: number;
+  toVersion: number;
+  createdAt: number;
+  /** The stored JSON, unchanged */
+  data: string;
+}
+
+/**
+ * Why a migration did not complete.
+ */
+export type MigrationErrorCode = 'INVALID_DATA' | 'UNSUPPORTED_VERSION' | 'MIGRATION_FAILED';
+
+/**
+ * Error thrown when a stored value cannot be brought up to date.
+ * The stored value is left as it was.
+ */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MigrationErrorCode,
+    public readonly key: StorageKey,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'MigrationError';
+  }
+}
+
+// =============================================================================
+// MIGRATIONS
+// =============================================================================
+
+/**
+ * Scene index entry written before index v2, with the screenshot inline.
+ */
+type LegacySavedScene = Omit<SavedScene, 'thumbnailPath'> & {
+  thumbnailBase64?: string;
+  thumbnailPath?: string | null;
+};
+
+/**
+ * Scene index v1 to v2: inline base64 thumbnails move to JPEG files.
+ * Writing a file again on retry is harmless, as the content is the same.
+ * Migrations run at launch before the storage services create their
+ * directories, so the thumbnail directory is created here.
+ */
+const sceneIndexV1ToV2: StorageMigration = {
+  fromVersion: 1,
+  toVersion: 2,
+  async migrate(data) {
+    const index = data as { scenes?: LegacySavedScene[] };
+    await fileSystem.ensureDirectory(APP_PATHS.sceneThumbnails);
+    const scenes: SavedScene[] = [];
+    for (const legacy of index.scenes ?? []) {
+      const { thumbnailBase64, ...scene } = legacy;
+      let thumbnailPath = scene.thumbnailPath ?? null;
+      if (thumbnailBase64) {
+        thumbnailPath = getScenePaths(scene.id).thumbnail;
+        await fileSystem.writeFile(thumbnailPath, thumbnailBase64, 'base64');
+      }
+      scenes.push({ ...scene, thumbnailPath });
+    }
+    return { ...index, version: 2, scenes };
+  },
+};
+
+/**
+ * Migrations for every versioned key, in version order.
+ */
+export const STORAGE_MIGRATIONS: Partial<Record<StorageKey, MigrationPlan>> = {
+  [STORAGE_KEYS.MODEL_INDEX]: { version: MODEL_INDEX_VERSION, migrations: [] },
+  [STORAGE_KEYS.SCENE_INDEX]: { version: SCENE_INDEX_VERSION, migrations: [sceneIndexV1ToV2] },
+  [STORAGE_KEYS.SETTINGS]: { version: SETTINGS_VERSION, migrations: [] },
+  // Migrations receive the zustand persist shape, { state, version }
+  [STORAGE_KEYS.SETTINGS_STORE]: { version: SETTINGS_STORE_VERSION, migrations: [] },
+};
+
+// =============================================================================
+// MIGRATOR
+// =============================================================================
+
+/**
+ * Runs migrations, at most once per key per app session.
+ */
+export class StorageMigrator {
+  private readonly running = new Map<StorageKey, Promise<void>>();
+
+  constructor(
+    private readonly plans: Partial<Record<StorageKey, MigrationPlan>> = STORAGE_MIGRATIONS
+  ) {}
+
+  /**
+   * Bring a key up to date. Call before reading it; later calls share the
+   * first result, and a failure is retried on the next call.
+   *
+   * @throws MigrationError if the stored value cannot be migrated
+   */
+  migrate(key: StorageKey): Promise<void> {
+    let result = this.running.get(key);
+    if (!result) {
+      result = this.run(key).catch((error: unknown) => {
+        this.running.delete(key);
+        if (error instanceof MigrationError) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new MigrationError(
+          `Migrating ${key} failed: ${message}`,
+          'MIGRATION_FAILED',
+          key,
+          error
+        );
+      });
+      this.running.set(key, result);
+    }
+    return result;
+  }
+
+  /**
+   * Bring every versioned key up to date. One key failing does not stop
+   * the others.
+   *
+   * @returns The errors of keys that could not be migrated
+   */
+  async migrateAll(): Promise<MigrationError[]> {
+    const keys = Object.keys(this.plans) as StorageKey[];
+    const results = await Promise.allSettled(keys.map(key => this.migrate(key)));
+    return results.flatMap(result =>
+      result.status === 'rejected' ? [result.reason as MigrationError] : []
+    );
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  private async run(key: StorageKey): Promise<void> {
+    const plan = this.plans[key];
+    if (!plan) return;
+
+    const raw = await AsyncStorage.getItem(key);
+    // Nothing stored yet; defaults are already current
+    if (raw === null) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch (error) {
+      throw new MigrationError(
+        `Stored data for ${key} is not valid JSON`,
+        'INVALID_DATA',
+        key,
+        error
+      );
+    }
+    const fromVersion = getVersion(data);
+    if (fromVersion === null) {
+      throw new MigrationError(`Stored data for ${key} has no version`, 'INVALID_DATA', key);
+    }
+    if (fromVersion === plan.version) return;
+    if (fromVersion > plan.version) {
+      throw new MigrationError(
+        `Stored data for ${key} is version ${fromVersion}, newer than this app supports (${plan.version})`,
+        'UNSUPPORTED_VERSION',
+        key
+      );
+    }
+
+    const backup: MigrationBackup = {
+      fromVersion,
+      toVersion: plan.version,
+      createdAt: Date.now(),
+      data: raw,
+    };
+    await AsyncStorage.setItem(getMigrationBackupKey(key), JSON.stringify(backup));
+
+    let version = fromVersion;
+    while (version < plan.version) {
+      const migration = plan.migrations.find(candidate => candidate.fromVersion === version);
+      if (!migration || migration.toVersion <= version) {
+        throw new MigrationError(
+          `No migration for ${key} from version ${version}`,
+          'MIGRATION_FAILED',
+          key
+        );
+      }
+      try {
+        data = await migration.migrate(data);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new MigrationError(
+          `Migrating ${key} from version ${version} failed: ${message}`,
+          'MIGRATION_FAILED',
+          key,
+          error
+        );
+      }
+      if (getVersion(data) !== migration.toVersion) {
+        throw new MigrationError(
+          `Migration of ${key} from version ${version} did not produce version ${migration.toVersion}`,
+          'MIGRATION_FAILED',
+          key
+        );
+      }
+      version = migration.toVersion;
+    }
+
+    await AsyncStorage.setItem(key, JSON.stringify(data));
+  }
+}
+
+/**
+ * Schema version of a stored value, or null if it has none.
+ */
+function getVersion(data: unknown): number | null {
+  if (typeof data !== 'object' || data === null || !('version' in data)) return null;
+  return Number.isInteger(data.version) ? (data.version as number) : null;
+}
+
+// Singleton instance
+export const storageMigrator = new StorageMigrator();
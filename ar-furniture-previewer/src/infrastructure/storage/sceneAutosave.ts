@@ -0,0 +1,94 @@
+/**
+ * Scene Autosave
+ *
+ * Keeps a draft of the scene being edited in AsyncStorage, so a layout
+ * placed since the last save survives the app being killed. The draft is
+ * written shortly after each edit and immediately when the app leaves the
+ * foreground, and removed once the layout is saved.
+ *
+ * @module infrastructure/storage/sceneAutosave
+ */
+
+import { AppState } from 'react-native';
+import type { SceneDraft } from '@core/types/scene.types';
+import type { Unsubscribe } from '@core/types/webview.types';
+import { SCENE_LIMITS } from '@core/constants/limits';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { clearSceneDraft, getSceneDraft, saveSceneDraft } from './asyncStorageHelpers';
+
+/**
+ * Draft format version.
+ */
+export const SCENE_DRAFT_VERSION = 1;
+
+/**
+ * Get the draft left by a previous run, if it holds unsaved work.
+ */
+export async function loadRecoverableDraft(): Promise<SceneDraft | null> {
+  try {
+    const draft = await getSceneDraft();
+    if (!draft || draft.version !== SCENE_DRAFT_VERSION || !draft.isDirty) return null;
+    if (draft.placedObjects.length === 0 && draft.currentScene === null) return null;
+    return draft;
+  } catch (error) {
+    // An unreadable draft cannot be offered; the next autosave replaces it
+    console.warn('[sceneAutosave] Failed to read draft:', error);
+    return null;
+  }
+}
+
+/**
+ * Install scene autosave.
+ * Returns a function that removes it, writing any pending draft first.
+ */
+export function installSceneAutosave(): Unsubscribe {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Writes run in order so a late save never replaces a newer clear
+  let writes: Promise<void> = Promise.resolve();
+
+  const flush = (): void => {
+    if (timer === null) return;
+    clearTimeout(timer);
+    timer = null;
+
+    const { placedObjects, currentScene, isDirty } = useSceneStore.getState();
+    writes = writes
+      .then(() =>
+        isDirty
+          ? saveSceneDraft({
+              version: SCENE_DRAFT_VERSION,
+              savedAt: Date.now(),
+              currentScene,
+              placedObjects,
+              isDirty,
+            })
+          : clearSceneDraft()
+      )
+      .catch((error: unknown) => {
+        console.warn('[sceneAutosave] Failed to write draft:', error);
+      });
+  };
+
+  const unsubscribeStore = useSceneStore.subscribe((state, prev) => {
+    if (
+      state.placedObjects === prev.placedObjects &&
+      state.currentScene === prev.currentScene &&
+      state.isDirty === prev.isDirty
+    ) {
+      return;
+    }
+    if (timer !== null) clearTimeout(timer);
+    timer = setTimeout(flush, SCENE_LIMITS.AUTOSAVE_DEBOUNCE_MS);
+  });
+
+  // Apps are usually killed from the background
+  const appStateSubscription = AppState.addEventListener('change', status => {
+    if (status !== 'active') flush();
+  });
+
+  return () => {
+    unsubscribeStore();
+    appStateSubscription.remove();
+    flush();
+  };
+}
@@ -25,7 +25,33 @@ import type {
   CaptureScanPhotoPayload,
   EndScanPayload,
   CancelScanPayload,
+  ARErrorCode,
+  ModelErrorCode,
+  ScanErrorCode,
+  TransferErrorCode,
+  ModelTransport,
+  ARReadyPayload,
+  ScenePayload,
+  BridgeFeature,
+  NegotiatedProtocol,
+  RNToWebViewMessageMap,
+  TypedWebViewMessage,
+  WebViewToRNMessage,
 } from '@core/types/webview.types';
+import { BRIDGE_LIMITS } from '@core/constants/limits';
+import { getModelPaths } from '@core/constants/paths';
+import { fileSystem } from '../filesystem/FileSystemAdapter';
+import { validateWebViewMessage } from './messageValidators';
+import { OUTBOUND_POLICIES, type DeliveryGate, type QueuedMessage } from './outboundQueue';
+import { negotiateProtocol, getInboundMessageTypes, SUPPORTED_PROTOCOL_VERSIONS } from './protocol';
+import {
+  generateTransferId,
+  splitIntoChunks,
+  crc32,
+  type TransferChunk,
+  type TransferProgress,
+  type TransferProgressListener,
+} from './chunkedTransfer';
 
 let messageCounter = 0;
 
@@ -39,10 +65,10 @@ function generateMessageId(): string {
 /**
  * Create a typed message.
  */
-function createMessage<T extends RNToWebViewMessageType, P>(
-  type: T,
-  payload: P
-): WebViewMessage<T, P> {
+function createMessage<K extends RNToWebViewMessageType>(
+  type: K,
+  payload: RNToWebViewMessageMap[K]
+): WebViewMessage<K, RNToWebViewMessageMap[K]> {
   return {
     type,
     payload,
@@ -51,31 +77,258 @@ function createMessage<T extends RNToWebViewMessageType, P>(
   };
 }
 
+/**
+ * Reply types that signal a failed request.
+ */
+type ErrorReplyType = 'AR_ERROR' | 'MODEL_ERROR' | 'SCAN_FAILED' | 'TRANSFER_ERROR';
+
+const ERROR_REPLY_TYPES: ReadonlySet<WebViewToRNMessageType> = new Set<ErrorReplyType>([
+  'AR_ERROR',
+  'MODEL_ERROR',
+  'SCAN_FAILED',
+  'TRANSFER_ERROR',
+]);
+
+/**
+ * Narrow a validated message to the MessageMap entry of its type.
+ */
+function isMessageOfType<K extends WebViewToRNMessageType>(
+  message: WebViewMessage<WebViewToRNMessageType>,
+  type: K
+): message is TypedWebViewMessage<K> {
+  return message.type === type;
+}
+
+/**
+ * Narrow a validated message to an error reply.
+ */
+function isErrorReply(
+  message: WebViewMessage<WebViewToRNMessageType>
+): message is TypedWebViewMessage<ErrorReplyType> {
+  return ERROR_REPLY_TYPES.has(message.type);
+}
+
+/**
+ * Error replies each request type can produce, for matching them on pages
+ * that do not send replyTo.
+ */
+const REQUEST_ERROR_REPLIES: Partial<
+  Record<RNToWebViewMessageType, readonly WebViewToRNMessageType[]>
+> = {
+  INIT_AR: ['AR_ERROR'],
+  LOAD_MODEL: ['MODEL_ERROR'],
+  UPDATE_TRANSFORM: ['MODEL_ERROR'],
+  CAPTURE_SCENE: ['AR_ERROR'],
+  RESTORE_SCENE: ['AR_ERROR'],
+  START_SCAN: ['SCAN_FAILED'],
+  CAPTURE_SCAN_PHOTO: ['SCAN_FAILED'],
+  END_SCAN: ['SCAN_FAILED'],
+  TRANSFER_BEGIN: ['TRANSFER_ERROR'],
+  TRANSFER_CHUNK: ['TRANSFER_ERROR'],
+  TRANSFER_COMMIT: ['TRANSFER_ERROR'],
+};
+
+/**
+ * Error thrown by bridge requests.
+ */
+export class BridgeError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'NOT_ATTACHED'
+      | 'TIMEOUT'
+      | 'DETACHED'
+      | 'REMOTE_ERROR'
+      | 'TRANSFER_FAILED'
+      | 'DROPPED'
+      | 'QUEUE_FULL'
+      | 'CONNECTION_LOST'
+      | 'UNSUPPORTED',
+    public readonly requestType?: RNToWebViewMessageType,
+    public readonly remoteCode?: ARErrorCode | ModelErrorCode | ScanErrorCode | TransferErrorCode,
+    public readonly reply?: WebViewMessage
+  ) {
+    super(message);
+    this.name = 'BridgeError';
+  }
+}
+
+/**
+ * Handlers registered per inbound message type, typed from MessageMap.
+ */
+type MessageHandlers<T extends WebViewToRNMessageType = WebViewToRNMessageType> = {
+  [K in T]?: Set<(message: TypedWebViewMessage<K>) => void>;
+};
+
 /**
  * Pending promise for request/response pattern.
  */
 interface PendingRequest {
-  resolve: (message: WebViewMessage) => void;
+  requestType: RNToWebViewMessageType;
+  responseType: WebViewToRNMessageType;
+  resolve: (message: WebViewToRNMessage) => void;
   reject: (error: Error) => void;
   timeout: ReturnType<typeof setTimeout>;
-  unsubscribe: () => void;
+}
+
+/**
+ * Report for an inbound message that failed validation and was dropped.
+ */
+export interface InvalidMessageReport {
+  /** Why validation failed */
+  reason: string;
+  /** Message type if it could be read */
+  type: string | null;
+  /** Raw message data as received */
+  raw: string;
+  /** Unix timestamp when the message was received */
+  receivedAt: number;
+}
+
+/**
+ * Bridge diagnostics counters.
+ */
+export interface BridgeDiagnostics {
+  /** Total number of dropped inbound messages */
+  invalidMessageCount: number;
+  /** Dropped inbound messages per type ('UNKNOWN' when unreadable) */
+  invalidByType: Record<string, number>;
+  /** Most recent dropped message */
+  lastInvalid: InvalidMessageReport | null;
+}
+
+/**
+ * Listener for dropped inbound messages.
+ */
+export type InvalidMessageListener = (report: InvalidMessageReport) => void;
+
+/**
+ * Heartbeat timing.
+ */
+export interface HeartbeatConfig {
+  /** Time between pings (ms) */
+  intervalMs: number;
+  /** Time to wait for each pong (ms) */
+  timeoutMs: number;
+  /** Consecutive missed pongs before the connection is lost */
+  maxMissed: number;
+}
+
+/**
+ * Why the WebView connection was lost.
+ */
+export type ConnectionLostReason = 'HEARTBEAT_TIMEOUT' | 'PROCESS_GONE';
+
+/**
+ * Listener for lost WebView connections.
+ */
+export type ConnectionLostListener = (reason: ConnectionLostReason) => void;
+
+/**
+ * Listener for the WebView starting to load its page.
+ */
+export type PageLoadListener = () => void;
+
+/**
+ * Raw bridge traffic: inbound data as received, outbound messages as injected.
+ */
+export type TrafficEvent =
+  | { direction: 'IN'; raw: string }
+  | { direction: 'OUT'; message: WebViewMessage<RNToWebViewMessageType> };
+
+/**
+ * Listener for raw bridge traffic.
+ */
+export type TrafficListener = (event: TrafficEvent) => void;
+
+/**
+ * Listener for protocol handshake results (null when the page is incompatible).
+ */
+export type ProtocolListener = (protocol: NegotiatedProtocol | null) => void;
+
+/**
+ * Build a BridgeError from an error reply (AR_ERROR, MODEL_ERROR, SCAN_FAILED).
+ */
+function createRemoteError(
+  requestType: RNToWebViewMessageType,
+  reply: TypedWebViewMessage<ErrorReplyType>
+): BridgeError {
+  return new BridgeError(
+    reply.payload.message || `${requestType} failed with ${reply.type}`,
+    'REMOTE_ERROR',
+    requestType,
+    reply.payload.code,
+    reply
+  );
+}
+
+/**
+ * Build the error for a message type the negotiated protocol lacks.
+ */
+function createUnsupportedError(type: RNToWebViewMessageType): BridgeError {
+  return new BridgeError(`${type} is not supported by the AR page`, 'UNSUPPORTED', type);
+}
+
+/**
+ * Convert an absolute path to a file:// URI.
+ */
+function toFileUri(path: string): string {
+  return path.startsWith('file://') ? path : `file://${path}`;
+}
+
+/**
+ * Build the script that dispatches a message inside the WebView.
+ */
+function createInjectionScript(message: WebViewMessage): string {
+  return `
+      (function() {
+        window.dispatchEvent(new CustomEvent('rn-message', { 
+          detail: ${JSON.stringify(message)} 
+        }));
+      })();
+      true;
+    `;
 }
 
 /**
  * AR WebView Bridge implementation.
  */
 export class ARWebViewBridge {
-  private webViewRef: RefObject<WebView> | null = null;
-  private handlers: Map<WebViewToRNMessageType, Set<WebViewMessageHandler>> = new Map();
+  private webViewRef: RefObject<WebView | null> | null = null;
+  private handlers: MessageHandlers = {};
   private globalHandlers: Set<WebViewMessageHandler> = new Set();
   private pendingRequests: Map<string, PendingRequest> = new Map();
+  private outboundQueue: QueuedMessage[] = [];
   private isReady = false;
+  private invalidMessageListeners: Set<InvalidMessageListener> = new Set();
+  private transferListeners: Set<TransferProgressListener> = new Set();
+  private protocol: NegotiatedProtocol | null = null;
+  private protocolListeners: Set<ProtocolListener> = new Set();
+  private trafficListeners: Set<TrafficListener> = new Set();
+  private connectionLostListeners: Set<ConnectionLostListener> = new Set();
+  private pageLoadListeners: Set<PageLoadListener> = new Set();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatSequence = 0;
+  private missedHeartbeats = 0;
+  private pingInFlight = false;
+  private reloading = false;
+  private lastInitPayload: InitARPayload | null = null;
+  private diagnostics: BridgeDiagnostics = {
+    invalidMessageCount: 0,
+    invalidByType: {},
+    lastInvalid: null,
+  };
 
   /**
-   * Attach to a WebView ref.
+   * Attach to a WebView ref. Its page loads from here on, so page load
+   * listeners are notified.
+   * Queued messages are flushed once `ref.current` is set; the WebView's
+   * onLoadEnd calls `handleLoadEnd()` if the ref was empty when attaching.
    */
-  attach(ref: RefObject<WebView>): void {
+  attach(ref: RefObject<WebView | null>): void {
     this.webViewRef = ref;
+    this.pageLoadListeners.forEach(listener => listener());
+    this.flush();
   }
 
   /**
@@ -84,20 +337,29 @@ export class ARWebViewBridge {
   detach(): void {
     this.webViewRef = null;
     this.isReady = false;
-    // Cancel pending requests and unsubscribe handlers to prevent memory leaks
+    this.reloading = false;
+    this.protocol = null;
+    this.stopHeartbeat();
+    // Cancel pending requests so callers are not left waiting
     this.pendingRequests.forEach((pending, id) => {
       clearTimeout(pending.timeout);
-      pending.unsubscribe();
-      pending.reject(new Error('Bridge detached'));
+      pending.reject(new BridgeError('Bridge detached', 'DETACHED', pending.requestType));
       this.pendingRequests.delete(id);
     });
+    // Queued messages were meant for this WebView instance
+    const queued = this.outboundQueue;
+    this.outboundQueue = [];
+    queued.forEach(entry =>
+      entry.reject(new BridgeError('Bridge detached', 'DETACHED', entry.message.type))
+    );
   }
 
   /**
-   * Mark bridge as ready (called when AR_READY received).
+   * Mark bridge as ready (also set automatically when AR_READY is received).
    */
   setReady(ready: boolean): void {
     this.isReady = ready;
+    if (ready) this.flush();
   }
 
   /**
@@ -108,116 +370,347 @@ export class ARWebViewBridge {
   }
 
   /**
-   * Send a message to the WebView.
+   * Number of messages waiting in the outbound queue.
    */
-  send<T extends RNToWebViewMessageType, P>(type: T, payload: P): void {
-    const webView = this.webViewRef?.current;
-    if (!webView) {
-      console.warn('[ARWebViewBridge] WebView not attached');
-      return;
-    }
-
-    const message = createMessage(type, payload);
-    const script = `
-      (function() {
-        window.dispatchEvent(new CustomEvent('rn-message', { 
-          detail: ${JSON.stringify(message)} 
-        }));
-      })();
-      true;
-    `;
+  get queuedCount(): number {
+    return this.outboundQueue.length;
+  }
 
-    webView.injectJavaScript(script);
+  /**
+   * Send a message to the WebView.
+   *
+   * Messages that cannot be delivered yet are queued per OUTBOUND_POLICIES and
+   * delivered in send order. The returned promise resolves once the message
+   * is injected into the WebView and rejects with a BridgeError if it is
+   * dropped. Callers may ignore it.
+   */
+  send<K extends RNToWebViewMessageType>(
+    type: K,
+    payload: RNToWebViewMessageMap[K]
+  ): Promise<void> {
+    const delivery = this.enqueue(createMessage(type, payload));
+    // Fire-and-forget callers must not surface as unhandled rejections
+    delivery.catch(() => undefined);
+    return delivery;
   }
 
   /**
-   * Send a message and wait for a response.
+   * Send a message and wait for the reply whose `replyTo` matches it.
+   *
+   * Resolves with the first `responseType` reply to this request. Rejects with
+   * a BridgeError when an error reply (AR_ERROR, MODEL_ERROR, SCAN_FAILED) is
+   * correlated to this request, on timeout, when the message is dropped from
+   * the outbound queue, or when the bridge detaches. The timeout includes any
+   * time spent queued.
    */
-  sendAndWait<R extends WebViewMessage>(
-    type: RNToWebViewMessageType,
-    payload: unknown,
-    responseType: WebViewToRNMessageType,
+  sendAndWait<K extends RNToWebViewMessageType, R extends WebViewToRNMessageType>(
+    type: K,
+    payload: RNToWebViewMessageMap[K],
+    responseType: R,
     timeout = 10000
-  ): Promise<R> {
+  ): Promise<TypedWebViewMessage<R>> {
     return new Promise((resolve, reject) => {
-      if (!this.webViewRef?.current) {
-        reject(new Error('WebView not attached'));
-        return;
-      }
-
       const message = createMessage(type, payload);
 
-      // Register one-time handler for response first to get unsubscribe function
-      const unsubscribe = this.on(responseType, (response: WebViewMessage) => {
-        // Match by message ID or just accept first response of this type
-        const pending = this.pendingRequests.get(message.messageId);
-        if (pending) {
-          clearTimeout(pending.timeout);
-          this.pendingRequests.delete(message.messageId);
-          pending.resolve(response);
-          pending.unsubscribe();
-        }
-      });
-
-      // Set up timeout with unsubscribe to prevent memory leak
       const timeoutId = setTimeout(() => {
-        const pending = this.pendingRequests.get(message.messageId);
-        if (pending) {
-          pending.unsubscribe();
-          this.pendingRequests.delete(message.messageId);
-        }
-        reject(new Error(`Request timeout for ${type}`));
+        this.pendingRequests.delete(message.messageId);
+        reject(new BridgeError(`Request timeout for ${type}`, 'TIMEOUT', type));
       }, timeout);
 
-      // Store pending request with unsubscribe function
       this.pendingRequests.set(message.messageId, {
-        resolve: msg => resolve(msg as R),
+        requestType: type,
+        responseType,
+        resolve: msg => {
+          if (isMessageOfType(msg, responseType)) resolve(msg);
+        },
         reject,
         timeout: timeoutId,
-        unsubscribe,
       });
 
-      // Send the message
-      const script = `
-        (function() {
-          window.dispatchEvent(new CustomEvent('rn-message', { 
-            detail: ${JSON.stringify(message)} 
-          }));
-        })();
-        true;
-      `;
-
-      this.webViewRef.current?.injectJavaScript(script);
+      this.enqueue(message).catch((error: Error) => {
+        const pending = this.pendingRequests.get(message.messageId);
+        if (!pending) return;
+        clearTimeout(pending.timeout);
+        this.pendingRequests.delete(message.messageId);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Deliver queued messages, in order, until one is blocked by its gate.
+   * Messages queued before the handshake that the page turned out not to
+   * support are rejected instead of delivered.
+   */
+  flush(): void {
+    while (this.outboundQueue.length > 0) {
+      const head = this.outboundQueue[0];
+      if (!head) return;
+
+      if (!this.isSupported(head.message.type)) {
+        this.outboundQueue.shift();
+        head.reject(createUnsupportedError(head.message.type));
+        continue;
+      }
+      if (!this.canDeliver(head.gate)) return;
+
+      this.outboundQueue.shift();
+      this.inject(head.message);
+      head.resolve();
+    }
+  }
+
+  /**
+   * Deliver a message now or queue it according to its type's policy.
+   */
+  private enqueue(message: WebViewMessage<RNToWebViewMessageType>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const { gate, behavior } = OUTBOUND_POLICIES[message.type];
+
+      if (!this.isSupported(message.type)) {
+        reject(createUnsupportedError(message.type));
+        return;
+      }
+
+      // Deliver immediately only if nothing is queued ahead of this message
+      if (this.outboundQueue.length === 0 && this.canDeliver(gate)) {
+        this.inject(message);
+        resolve();
+        return;
+      }
+
+      if (behavior === 'DROP' && !this.canDeliver(gate)) {
+        console.warn(`[ARWebViewBridge] Dropped ${message.type}: WebView not ready`);
+        reject(
+          new BridgeError(`${message.type} dropped: WebView not ready`, 'DROPPED', message.type)
+        );
+        return;
+      }
+
+      if (behavior === 'LATEST') {
+        const superseded = this.outboundQueue.filter(entry => entry.message.type === message.type);
+        this.outboundQueue = this.outboundQueue.filter(
+          entry => entry.message.type !== message.type
+        );
+        superseded.forEach(entry =>
+          entry.reject(
+            new BridgeError(
+              `${message.type} superseded by a newer message`,
+              'DROPPED',
+              message.type
+            )
+          )
+        );
+      }
+
+      if (this.outboundQueue.length >= BRIDGE_LIMITS.OUTBOUND_QUEUE_MAX) {
+        reject(
+          new BridgeError(
+            `Outbound queue full, ${message.type} rejected`,
+            'QUEUE_FULL',
+            message.type
+          )
+        );
+        return;
+      }
+
+      this.outboundQueue.push({ message, gate, resolve, reject });
     });
   }
 
+  /**
+   * Whether the page handles a message type. Before the handshake every
+   * type is assumed supported.
+   */
+  private isSupported(type: RNToWebViewMessageType): boolean {
+    return !this.protocol || this.protocol.messageTypes.includes(type);
+  }
+
+  /**
+   * Whether a message behind the given gate can be delivered now.
+   */
+  private canDeliver(gate: DeliveryGate): boolean {
+    if (!this.webViewRef?.current || this.reloading) return false;
+    return gate === 'ATTACHED' || this.isReady;
+  }
+
+  /**
+   * Inject a message into the attached WebView.
+   */
+  private inject(message: WebViewMessage<RNToWebViewMessageType>): void {
+    const webView = this.webViewRef?.current;
+    if (!webView) return;
+
+    webView.injectJavaScript(createInjectionScript(message));
+    this.trafficListeners.forEach(listener => listener({ direction: 'OUT', message }));
+  }
+
+  /**
+   * Register listener for raw traffic in both directions, including inbound
+   * data that later fails validation. Used for recording sessions.
+   */
+  onTraffic(listener: TrafficListener): Unsubscribe {
+    this.trafficListeners.add(listener);
+    return () => {
+      this.trafficListeners.delete(listener);
+    };
+  }
+
   /**
    * Handle incoming message from WebView.
+   * Messages that fail validation are dropped and reported to diagnostics.
    */
   handleMessage(event: WebViewMessageEvent): void {
+    const raw = event.nativeEvent.data;
+    this.trafficListeners.forEach(listener => listener({ direction: 'IN', raw }));
+
+    let parsed: unknown;
     try {
-      const message = JSON.parse(event.nativeEvent.data) as WebViewMessage<WebViewToRNMessageType>;
+      parsed = JSON.parse(raw);
+    } catch {
+      this.reportInvalidMessage({
+        reason: 'Invalid JSON',
+        type: null,
+        raw,
+        receivedAt: Date.now(),
+      });
+      return;
+    }
 
-      // Notify global handlers
-      this.globalHandlers.forEach(handler => handler(message));
+    const result = validateWebViewMessage(parsed);
+    if (!result.valid) {
+      this.reportInvalidMessage({
+        reason: result.reason,
+        type: result.type,
+        raw,
+        receivedAt: Date.now(),
+      });
+      return;
+    }
 
-      // Notify type-specific handlers
-      const typeHandlers = this.handlers.get(message.type);
-      typeHandlers?.forEach(handler => handler(message));
-    } catch (error) {
-      console.warn('[ARWebViewBridge] Failed to parse message:', error);
+    const { message } = result;
+
+    // An incompatible page never becomes ready, so its AR_READY is not dispatched
+    if (message.type === 'AR_READY' && !this.completeHandshake(message.payload)) {
+      return;
     }
+
+    this.settlePendingRequest(message);
+
+    // Notify global handlers
+    this.globalHandlers.forEach(handler => handler(message));
+
+    // Notify type-specific handlers
+    this.dispatch(message);
   }
 
   /**
-   * Register handler for a specific message type.
+   * Call the handlers registered for a message's type.
+   */
+  private dispatch<K extends WebViewToRNMessageType>(message: TypedWebViewMessage<K>): void {
+    this.handlers[message.type]?.forEach(handler => handler(message));
+  }
+
+  /**
+   * Register listener for inbound messages dropped by validation.
+   */
+  onInvalidMessage(listener: InvalidMessageListener): Unsubscribe {
+    this.invalidMessageListeners.add(listener);
+    return () => {
+      this.invalidMessageListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get a snapshot of bridge diagnostics.
+   */
+  getDiagnostics(): BridgeDiagnostics {
+    return {
+      ...this.diagnostics,
+      invalidByType: { ...this.diagnostics.invalidByType },
+    };
+  }
+
+  /**
+   * Reset bridge diagnostics counters.
+   */
+  resetDiagnostics(): void {
+    this.diagnostics = { invalidMessageCount: 0, invalidByType: {}, lastInvalid: null };
+  }
+
+  /**
+   * Count a dropped message and notify diagnostics listeners.
+   */
+  private reportInvalidMessage(report: InvalidMessageReport): void {
+    const typeKey = report.type ?? 'UNKNOWN';
+    this.diagnostics = {
+      invalidMessageCount: this.diagnostics.invalidMessageCount + 1,
+      invalidByType: {
+        ...this.diagnostics.invalidByType,
+        [typeKey]: (this.diagnostics.invalidByType[typeKey] ?? 0) + 1,
+      },
+      lastInvalid: report,
+    };
+
+    console.warn('[ARWebViewBridge] Dropped invalid message:', report.reason);
+    this.invalidMessageListeners.forEach(listener => listener(report));
+  }
+
+  /**
+   * Resolve or reject the pending request a reply is correlated to.
+   * Messages without a matching `replyTo` are events and settle nothing,
+   * except on v1 pages (see findUncorrelatedRequest).
    */
-  on(type: WebViewToRNMessageType, handler: WebViewMessageHandler): Unsubscribe {
-    let typeHandlers = this.handlers.get(type);
-    if (!typeHandlers) {
-      typeHandlers = new Set();
-      this.handlers.set(type, typeHandlers);
+  private settlePendingRequest(message: WebViewToRNMessage): void {
+    const requestId = message.replyTo ?? this.findUncorrelatedRequest(message);
+    if (requestId === undefined) return;
+
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+
+    if (message.type === pending.responseType) {
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(requestId);
+      pending.resolve(message);
+    } else if (isErrorReply(message)) {
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(requestId);
+      pending.reject(createRemoteError(pending.requestType, message));
+    }
+  }
+
+  /**
+   * Downgrade for pages without replyTo support (protocol v1): match a reply
+   * to the oldest pending request expecting its type, or an error reply to
+   * the oldest pending request that can fail with it.
+   */
+  private findUncorrelatedRequest(
+    message: WebViewMessage<WebViewToRNMessageType>
+  ): string | undefined {
+    if (!this.protocol || this.hasFeature('CORRELATED_REPLIES')) return undefined;
+
+    for (const [id, pending] of this.pendingRequests) {
+      if (
+        pending.responseType === message.type ||
+        REQUEST_ERROR_REPLIES[pending.requestType]?.includes(message.type)
+      ) {
+        return id;
+      }
     }
+    return undefined;
+  }
+
+  /**
+   * Register handler for a specific message type.
+   * The message payload is typed from MessageMap.
+   */
+  on<K extends WebViewToRNMessageType>(
+    type: K,
+    handler: (message: TypedWebViewMessage<K>) => void
+  ): Unsubscribe {
+    const handlers: MessageHandlers<K> = this.handlers;
+    const typeHandlers = handlers[type] ?? new Set();
+    handlers[type] = typeHandlers;
     typeHandlers.add(handler);
 
     return () => {
@@ -239,71 +732,489 @@ export class ARWebViewBridge {
    * Remove all handlers for a type.
    */
   off(type: WebViewToRNMessageType): void {
-    this.handlers.delete(type);
+    delete this.handlers[type];
   }
 
   /**
    * Remove all handlers.
    */
   removeAllHandlers(): void {
-    this.handlers.clear();
+    this.handlers = {};
     this.globalHandlers.clear();
   }
 
+  // ==========================================================================
+  // PROTOCOL
+  // ==========================================================================
+
+  /**
+   * Protocol negotiated with the current page, or null before AR_READY.
+   */
+  get negotiatedProtocol(): NegotiatedProtocol | null {
+    return this.protocol;
+  }
+
+  /**
+   * Whether the current page supports a feature.
+   */
+  hasFeature(feature: BridgeFeature): boolean {
+    return this.protocol?.features.includes(feature) ?? false;
+  }
+
+  /**
+   * Register listener for protocol handshake results.
+   */
+  onProtocolNegotiated(listener: ProtocolListener): Unsubscribe {
+    this.protocolListeners.add(listener);
+    return () => {
+      this.protocolListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Negotiate the protocol from AR_READY. Marks the bridge ready on success;
+   * on failure rejects queued messages and leaves the bridge not ready.
+   */
+  private completeHandshake(payload: ARReadyPayload): boolean {
+    this.protocol = negotiateProtocol(payload);
+    this.protocolListeners.forEach(listener => listener(this.protocol));
+
+    if (!this.protocol) {
+      console.warn(
+        `[ARWebViewBridge] Page protocol v${payload.protocolVersion ?? 1} is not supported`
+      );
+      this.isReady = false;
+      const queued = this.outboundQueue;
+      this.outboundQueue = [];
+      queued.forEach(entry =>
+        entry.reject(
+          new BridgeError('AR page protocol not supported', 'UNSUPPORTED', entry.message.type)
+        )
+      );
+      return false;
+    }
+
+    this.setReady(true);
+    return true;
+  }
+
+  // ==========================================================================
+  // HEARTBEAT & RECOVERY
+  // ==========================================================================
+
+  /**
+   * Start pinging the page. After `maxMissed` consecutive missed pongs the
+   * connection is treated as lost and the WebView is reloaded.
+   */
+  startHeartbeat(config: Partial<HeartbeatConfig> = {}): void {
+    const { intervalMs, timeoutMs, maxMissed }: HeartbeatConfig = {
+      intervalMs: BRIDGE_LIMITS.HEARTBEAT_INTERVAL_MS,
+      timeoutMs: BRIDGE_LIMITS.HEARTBEAT_TIMEOUT_MS,
+      maxMissed: BRIDGE_LIMITS.HEARTBEAT_MAX_MISSED,
+      ...config,
+    };
+
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      // Only a ready page answers pings, and one ping at a time is enough
+      if (!this.ready || !this.hasFeature('HEARTBEAT') || this.pingInFlight) return;
+
+      this.pingInFlight = true;
+      this.sendAndWait('PING', { sequence: ++this.heartbeatSequence }, 'PONG', timeoutMs)
+        .then(() => {
+          this.missedHeartbeats = 0;
+        })
+        .catch((error: unknown) => {
+          if (!(error instanceof BridgeError) || error.code !== 'TIMEOUT') return;
+          this.missedHeartbeats++;
+          if (this.missedHeartbeats >= maxMissed) {
+            this.handleConnectionLost('HEARTBEAT_TIMEOUT');
+          }
+        })
+        .finally(() => {
+          this.pingInFlight = false;
+        });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the heartbeat.
+   */
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.missedHeartbeats = 0;
+  }
+
+  /**
+   * Treat the WebView as dead: reject in-flight requests, notify listeners
+   * and reload the page. Call from the WebView's onRenderProcessGone /
+   * onContentProcessDidTerminate with 'PROCESS_GONE'.
+   */
+  handleConnectionLost(reason: ConnectionLostReason): void {
+    if (this.reloading) return;
+
+    console.warn(`[ARWebViewBridge] Connection lost (${reason}), reloading WebView`);
+    this.isReady = false;
+    this.missedHeartbeats = 0;
+    this.pendingRequests.forEach((pending, id) => {
+      clearTimeout(pending.timeout);
+      pending.reject(
+        new BridgeError('WebView connection lost', 'CONNECTION_LOST', pending.requestType)
+      );
+      this.pendingRequests.delete(id);
+    });
+
+    this.connectionLostListeners.forEach(listener => listener(reason));
+
+    const webView = this.webViewRef?.current;
+    if (webView) {
+      this.reloading = true;
+      webView.reload();
+    }
+  }
+
+  /**
+   * Call from the WebView's onLoadStart, before the page can send anything.
+   */
+  handleLoadStart(): void {
+    this.pageLoadListeners.forEach(listener => listener());
+  }
+
+  /**
+   * Call from the WebView's onLoadEnd. After a recovery reload this re-runs
+   * INIT_AR with the last config, ahead of anything already queued.
+   */
+  handleLoadEnd(): void {
+    if (this.reloading) {
+      this.reloading = false;
+      if (this.lastInitPayload) {
+        this.inject(createMessage('INIT_AR', this.lastInitPayload));
+      }
+    }
+    this.flush();
+  }
+
+  /**
+   * Register listener for lost WebView connections.
+   */
+  onConnectionLost(listener: ConnectionLostListener): Unsubscribe {
+    this.connectionLostListeners.add(listener);
+    return () => {
+      this.connectionLostListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register listener for page loads: on attach and on each WebView load start.
+   */
+  onPageLoad(listener: PageLoadListener): Unsubscribe {
+    this.pageLoadListeners.add(listener);
+    return () => {
+      this.pageLoadListeners.delete(listener);
+    };
+  }
+
+  // ==========================================================================
+  // MODEL TRANSPORT
+  // ==========================================================================
+
+  /**
+   * Best model transport negotiated with the page. INLINE is the fallback.
+   */
+  get modelTransport(): ModelTransport {
+    if (this.hasFeature('FILE_URL_MODELS')) return 'FILE_URL';
+    if (this.hasFeature('CHUNKED_TRANSFER')) return 'CHUNKED';
+    return 'INLINE';
+  }
+
+  /**
+   * Build a LOAD_MODEL payload for base64 GLB data, using the best transport
+   * the page supports. Chunked data is transferred before this resolves.
+   */
+  async prepareModelPayload(
+    payload: LoadModelPayload & { glbData: string }
+  ): Promise<LoadModelPayload> {
+    if (this.modelTransport === 'INLINE') return payload;
+
+    const { glbData, ...rest } = payload;
+    return { ...rest, glbTransferId: await this.transferBinary(glbData) };
+  }
+
+  /**
+   * Build a LOAD_MODEL payload for a model stored in the library,
+   * using the best transport the page supports.
+   */
+  async prepareStoredModelPayload(
+    payload: Pick<LoadModelPayload, 'modelId' | 'initialTransform'>
+  ): Promise<LoadModelPayload> {
+    const path = getModelPaths(payload.modelId).glb;
+
+    if (this.modelTransport === 'FILE_URL') {
+      return { ...payload, glbUri: toFileUri(path) };
+    }
+    return this.prepareModelPayload({
+      ...payload,
+      glbData: await fileSystem.readFile(path, 'base64'),
+    });
+  }
+
+  /**
+   * Build a RESTORE_SCENE payload for base64 GLB data (modelId → data),
+   * using the best transport the page supports.
+   */
+  async prepareScenePayload(
+    scene: ScenePayload,
+    models: Record<string, string>
+  ): Promise<RestoreScenePayload> {
+    if (this.modelTransport === 'INLINE') return { scene, models };
+
+    const modelTransferIds: Record<string, string> = {};
+    for (const [modelId, glbData] of Object.entries(models)) {
+      modelTransferIds[modelId] = await this.transferBinary(glbData);
+    }
+    return { scene, models: {}, modelTransferIds };
+  }
+
+  /**
+   * Build a RESTORE_SCENE payload for a scene whose models are all stored
+   * in the library, using the best transport the page supports.
+   */
+  async prepareStoredScenePayload(scene: ScenePayload): Promise<RestoreScenePayload> {
+    const modelIds = [...new Set(scene.objects.map(obj => obj.modelId))];
+
+    if (this.modelTransport === 'FILE_URL') {
+      const modelUris: Record<string, string> = {};
+      modelIds.forEach(modelId => {
+        modelUris[modelId] = toFileUri(getModelPaths(modelId).glb);
+      });
+      return { scene, models: {}, modelUris };
+    }
+
+    const models: Record<string, string> = {};
+    for (const modelId of modelIds) {
+      models[modelId] = await fileSystem.readFile(getModelPaths(modelId).glb, 'base64');
+    }
+    return this.prepareScenePayload(scene, models);
+  }
+
+  /**
+   * Load a model from the library by its stored GLB path,
+   * using the best transport the page supports.
+   */
+  async loadStoredModel(
+    payload: Pick<LoadModelPayload, 'modelId' | 'initialTransform'>
+  ): Promise<void> {
+    await this.loadModel(await this.prepareStoredModelPayload(payload));
+  }
+
+  /**
+   * Restore a scene whose models are all stored in the library,
+   * using the best transport the page supports.
+   */
+  async restoreStoredScene(scene: ScenePayload): Promise<void> {
+    await this.restoreScene(await this.prepareStoredScenePayload(scene));
+  }
+
+  // ==========================================================================
+  // CHUNKED TRANSFER
+  // ==========================================================================
+
+  /**
+   * Send base64 data to the WebView in acknowledged, checksummed chunks.
+   *
+   * Chunks the WebView already holds (reported in TRANSFER_READY) are skipped,
+   * so a transfer can be resumed by passing the same transferId again. Chunks
+   * that time out or fail their checksum are resent, and chunks reported
+   * missing at commit are resent before committing again.
+   *
+   * @returns The committed transfer ID, to reference from LOAD_MODEL or RESTORE_SCENE
+   */
+  async transferBinary(data: string, transferId: string = generateTransferId()): Promise<string> {
+    const chunks = splitIntoChunks(data, BRIDGE_LIMITS.TRANSFER_CHUNK_SIZE);
+    const checksum = crc32(data);
+    const acked = new Set<number>();
+
+    const emitProgress = (status: TransferProgress['status']): void => {
+      let bytesSent = 0;
+      acked.forEach(index => {
+        bytesSent += chunks[index]?.data.length ?? 0;
+      });
+      const progress: TransferProgress = {
+        transferId,
+        status,
+        sentChunks: acked.size,
+        totalChunks: chunks.length,
+        bytesSent,
+        totalBytes: data.length,
+      };
+      this.transferListeners.forEach(listener => listener(progress));
+    };
+
+    try {
+      const ready = await this.sendAndWait(
+        'TRANSFER_BEGIN',
+        {
+          transferId,
+          totalLength: data.length,
+          chunkCount: chunks.length,
+          checksum,
+        },
+        'TRANSFER_READY',
+        BRIDGE_LIMITS.TRANSFER_CHUNK_TIMEOUT_MS
+      );
+      ready.payload.receivedChunks.forEach(index => acked.add(index));
+      emitProgress('IN_PROGRESS');
+
+      let pending = chunks.filter(chunk => !acked.has(chunk.index));
+      for (let round = 0; ; round++) {
+        for (const chunk of pending) {
+          await this.sendChunk(transferId, chunk);
+          acked.add(chunk.index);
+          emitProgress('IN_PROGRESS');
+        }
+
+        const committed = await this.sendAndWait(
+          'TRANSFER_COMMIT',
+          { transferId, checksum },
+          'TRANSFER_COMMITTED',
+          BRIDGE_LIMITS.TRANSFER_CHUNK_TIMEOUT_MS
+        );
+
+        const missing = committed.payload.missingChunks;
+        if (missing.length === 0) break;
+        if (round >= BRIDGE_LIMITS.TRANSFER_MAX_RETRIES) {
+          throw new BridgeError(
+            `Transfer ${transferId} still missing ${missing.length} chunks`,
+            'TRANSFER_FAILED',
+            'TRANSFER_COMMIT'
+          );
+        }
+
+        missing.forEach(index => acked.delete(index));
+        pending = chunks.filter(chunk => missing.includes(chunk.index));
+      }
+
+      emitProgress('COMMITTED');
+      return transferId;
+    } catch (error) {
+      emitProgress('FAILED');
+      if (this.ready) {
+        void this.send('TRANSFER_ABORT', {
+          transferId,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Register listener for chunked transfer progress.
+   */
+  onTransferProgress(listener: TransferProgressListener): Unsubscribe {
+    this.transferListeners.add(listener);
+    return () => {
+      this.transferListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send one chunk, retrying on timeout or checksum mismatch.
+   */
+  private async sendChunk(transferId: string, chunk: TransferChunk): Promise<void> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= BRIDGE_LIMITS.TRANSFER_MAX_RETRIES; attempt++) {
+      try {
+        const ack = await this.sendAndWait(
+          'TRANSFER_CHUNK',
+          {
+            transferId,
+            index: chunk.index,
+            data: chunk.data,
+            checksum: chunk.checksum,
+          },
+          'TRANSFER_ACK',
+          BRIDGE_LIMITS.TRANSFER_CHUNK_TIMEOUT_MS
+        );
+        if (ack.payload.status === 'OK') return;
+        lastError = new BridgeError(
+          `Chunk ${chunk.index} of ${transferId} failed checksum`,
+          'TRANSFER_FAILED',
+          'TRANSFER_CHUNK'
+        );
+      } catch (error) {
+        // Only a dropped chunk is worth resending; anything else is fatal
+        if (!(error instanceof BridgeError) || error.code !== 'TIMEOUT') throw error;
+        lastError = error;
+      }
+    }
+
+    throw lastError ?? new BridgeError('Chunk transfer failed', 'TRANSFER_FAILED');
+  }
+
   // ==========================================================================
   // TYPED SEND METHODS
   // ==========================================================================
 
-  initAR(payload: InitARPayload): void {
-    this.send('INIT_AR', payload);
+  initAR(payload: InitARPayload): Promise<void> {
+    this.lastInitPayload = {
+      ...payload,
+      protocolVersions: [...SUPPORTED_PROTOCOL_VERSIONS],
+      messageTypes: getInboundMessageTypes(),
+    };
+    return this.send('INIT_AR', this.lastInitPayload);
   }
 
-  loadModel(payload: LoadModelPayload): void {
-    this.send('LOAD_MODEL', payload);
+  loadModel(payload: LoadModelPayload): Promise<void> {
+    return this.send('LOAD_MODEL', payload);
   }
 
-  removeModel(payload: RemoveModelPayload): void {
-    this.send('REMOVE_MODEL', payload);
+  removeModel(payload: RemoveModelPayload): Promise<void> {
+    return this.send('REMOVE_MODEL', payload);
   }
 
-  updateTransform(payload: UpdateTransformPayload): void {
-    this.send('UPDATE_TRANSFORM', payload);
+  updateTransform(payload: UpdateTransformPayload): Promise<void> {
+    return this.send('UPDATE_TRANSFORM', payload);
   }
 
-  captureScene(payload: CaptureScenePayload): void {
-    this.send('CAPTURE_SCENE', payload);
+  captureScene(payload: CaptureScenePayload): Promise<void> {
+    return this.send('CAPTURE_SCENE', payload);
   }
 
-  restoreScene(payload: RestoreScenePayload): void {
-    this.send('RESTORE_SCENE', payload);
+  restoreScene(payload: RestoreScenePayload): Promise<void> {
+    return this.send('RESTORE_SCENE', payload);
   }
 
-  startScan(payload: StartScanPayload): void {
-    this.send('START_SCAN', payload);
+  startScan(payload: StartScanPayload): Promise<void> {
+    return this.send('START_SCAN', payload);
   }
 
-  captureScanPhoto(payload: CaptureScanPhotoPayload): void {
-    this.send('CAPTURE_SCAN_PHOTO', payload);
+  captureScanPhoto(payload: CaptureScanPhotoPayload): Promise<void> {
+    return this.send('CAPTURE_SCAN_PHOTO', payload);
   }
 
-  endScan(payload: EndScanPayload): void {
-    this.send('END_SCAN', payload);
+  endScan(payload: EndScanPayload): Promise<void> {
+    return this.send('END_SCAN', payload);
   }
 
-  cancelScan(payload: CancelScanPayload): void {
-    this.send('CANCEL_SCAN', payload);
+  cancelScan(payload: CancelScanPayload): Promise<void> {
+    return this.send('CANCEL_SCAN', payload);
   }
 
-  resetAR(): void {
-    this.send('RESET_AR', {});
+  resetAR(): Promise<void> {
+    return this.send('RESET_AR', {});
   }
 
-  pauseAR(): void {
-    this.send('PAUSE_AR', {});
+  pauseAR(): Promise<void> {
+    return this.send('PAUSE_AR', {});
   }
 
-  resumeAR(): void {
-    this.send('RESUME_AR', {});
+  resumeAR(): Promise<void> {
+    return this.send('RESUME_AR', {});
   }
 }
 
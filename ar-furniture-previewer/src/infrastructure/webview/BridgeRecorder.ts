@@ -0,0 +1,261 @@
+/**
+ * Bridge Recorder
+ *
+ * Records every message crossing the WebView bridge in a session and replays
+ * recordings against a bridge without a device. Replay drives the bridge
+ * through a fake WebView, so whichever store sync modules are installed see
+ * the same inbound traffic as in the field.
+ *
+ * @module infrastructure/webview/BridgeRecorder
+ */
+
+import type { WebViewMessageEvent } from 'react-native-webview';
+import type {
+  RNToWebViewMessageMap,
+  RNToWebViewMessageType,
+  Unsubscribe,
+  WebViewMessage,
+} from '@core/types/webview.types';
+import { APP_PATHS } from '@core/constants/paths';
+import { fileSystem } from '../filesystem/FileSystemAdapter';
+import { arWebViewBridge, type ARWebViewBridge } from './ARWebViewBridge';
+import { createFakeWebViewRef } from './fakeWebView';
+
+/**
+ * Recording file format version.
+ */
+export const RECORDING_FORMAT_VERSION = 1;
+
+/**
+ * One recorded bridge event.
+ */
+export type RecordedEntry =
+  | {
+      direction: 'IN';
+      /** Milliseconds since recording started */
+      at: number;
+      /** Data as received, even if it failed validation */
+      raw: string;
+    }
+  | {
+      direction: 'OUT';
+      at: number;
+      message: WebViewMessage<RNToWebViewMessageType>;
+    };
+
+/**
+ * A recorded bridge session.
+ */
+export interface BridgeRecording {
+  version: number;
+  /** Unix timestamp when recording started */
+  startedAt: number;
+  entries: RecordedEntry[];
+}
+
+/**
+ * Replay options.
+ */
+export interface ReplayOptions {
+  /**
+   * Re-send recorded outbound messages through the bridge (default true).
+   * Set to false when the test drives the app code that sends them, to
+   * check that it sends the same sequence.
+   */
+  resendOutbound?: boolean;
+}
+
+/**
+ * Outcome of replaying a recording.
+ */
+export interface ReplayResult {
+  /** Inbound messages fed to the bridge */
+  inboundDelivered: number;
+  /** Outbound message types in the recording */
+  expectedOutbound: RNToWebViewMessageType[];
+  /** Outbound message types the bridge sent during replay */
+  actualOutbound: RNToWebViewMessageType[];
+  /** Human-readable differences between the two */
+  mismatches: string[];
+}
+
+/**
+ * Let pending promise chains run so outbound sends triggered by the previous
+ * entry are observed before the next one is fed.
+ */
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Records bridge traffic for one session.
+ */
+export class BridgeRecorder {
+  private entries: RecordedEntry[] = [];
+  private startedAt = 0;
+  private unsubscribe: Unsubscribe | null = null;
+
+  constructor(private readonly bridge: ARWebViewBridge = arWebViewBridge) {}
+
+  /**
+   * Whether a recording is in progress.
+   */
+  get isRecording(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Start recording, discarding any previous entries.
+   */
+  start(): void {
+    this.stop();
+    this.entries = [];
+    this.startedAt = Date.now();
+    this.unsubscribe = this.bridge.onTraffic(event => {
+      const at = Date.now() - this.startedAt;
+      this.entries.push(
+        event.direction === 'IN'
+          ? { direction: 'IN', at, raw: event.raw }
+          : { direction: 'OUT', at, message: event.message }
+      );
+    });
+  }
+
+  /**
+   * Stop recording. Entries are kept until the next start().
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Get the current recording.
+   */
+  getRecording(): BridgeRecording {
+    return {
+      version: RECORDING_FORMAT_VERSION,
+      startedAt: this.startedAt,
+      entries: [...this.entries],
+    };
+  }
+
+  /**
+   * Write the current recording as JSON under APP_PATHS.recordings.
+   *
+   * @returns Path of the written file
+   */
+  async save(fileName = `session_${this.startedAt}.json`): Promise<string> {
+    await fileSystem.ensureDirectory(APP_PATHS.recordings);
+    const path = `${APP_PATHS.recordings}/${fileName}`;
+    await fileSystem.writeFile(path, JSON.stringify(this.getRecording()));
+    return path;
+  }
+}
+
+/**
+ * Read a recording written by BridgeRecorder.save().
+ */
+export async function loadRecording(path: string): Promise<BridgeRecording> {
+  const recording = JSON.parse(await fileSystem.readFile(path)) as BridgeRecording;
+  if (recording.version !== RECORDING_FORMAT_VERSION) {
+    throw new Error(`Unsupported recording version ${recording.version}`);
+  }
+  return recording;
+}
+
+/**
+ * Replay a recording against a bridge.
+ *
+ * The bridge is attached to a fake WebView for the duration of the replay.
+ * Entries are fed in recorded order; recorded timing is not reproduced.
+ * Recorded message IDs are mapped to the IDs the bridge generates during
+ * replay, matching outbound messages of the same type in order, so `replyTo`
+ * on recorded replies still settles the live requests.
+ */
+export async function replayRecording(
+  recording: BridgeRecording,
+  bridge: ARWebViewBridge = arWebViewBridge,
+  { resendOutbound = true }: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const expectedOutbound: RNToWebViewMessageType[] = [];
+  const actualOutbound: WebViewMessage<RNToWebViewMessageType>[] = [];
+  const recordedOutbound: WebViewMessage<RNToWebViewMessageType>[] = [];
+  const idMap = new Map<string, string>();
+  let inboundDelivered = 0;
+
+  const unsubscribe = bridge.onTraffic(event => {
+    if (event.direction === 'OUT') actualOutbound.push(event.message);
+  });
+
+  /**
+   * Pair recorded outbound messages with live ones of the same type.
+   */
+  const mapIds = (): void => {
+    const used = new Set(idMap.values());
+    recordedOutbound.forEach(recorded => {
+      if (idMap.has(recorded.messageId)) return;
+      const live = actualOutbound.find(m => m.type === recorded.type && !used.has(m.messageId));
+      if (live) {
+        idMap.set(recorded.messageId, live.messageId);
+        used.add(live.messageId);
+      }
+    });
+  };
+
+  bridge.attach(createFakeWebViewRef());
+  try {
+    for (const entry of recording.entries) {
+      await settle();
+
+      if (entry.direction === 'OUT') {
+        expectedOutbound.push(entry.message.type);
+        recordedOutbound.push(entry.message);
+        if (resendOutbound) {
+          // Recorded payloads were typed when they were first sent
+          void bridge.send(
+            entry.message.type,
+            entry.message.payload as RNToWebViewMessageMap[RNToWebViewMessageType]
+          );
+        }
+        continue;
+      }
+
+      mapIds();
+      let data = entry.raw;
+      try {
+        const parsed = JSON.parse(entry.raw) as { replyTo?: unknown };
+        if (typeof parsed.replyTo === 'string' && idMap.has(parsed.replyTo)) {
+          data = JSON.stringify({ ...parsed, replyTo: idMap.get(parsed.replyTo) });
+        }
+      } catch {
+        // Malformed data is replayed as-is
+      }
+
+      bridge.handleMessage({ nativeEvent: { data } } as WebViewMessageEvent);
+      inboundDelivered++;
+    }
+    await settle();
+  } finally {
+    unsubscribe();
+    bridge.detach();
+  }
+
+  const actualTypes = actualOutbound.map(m => m.type);
+  const mismatches: string[] = [];
+  const length = Math.max(expectedOutbound.length, actualTypes.length);
+  for (let i = 0; i < length; i++) {
+    if (expectedOutbound[i] !== actualTypes[i]) {
+      mismatches.push(
+        `Outbound #${i}: expected ${expectedOutbound[i] ?? 'nothing'}, got ${actualTypes[i] ?? 'nothing'}`
+      );
+    }
+  }
+
+  return {
+    inboundDelivered,
+    expectedOutbound,
+    actualOutbound: actualTypes,
+    mismatches,
+  };
+}
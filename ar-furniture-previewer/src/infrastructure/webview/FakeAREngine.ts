@@ -0,0 +1,865 @@
+/**
+ * Fake AR Engine
+ *
+ * In-process stand-in for the 8th Wall page. Implements the page side of the
+ * bridge contract and answers RN messages with plausible payloads, with
+ * configurable latency and failure injection. Drives integration tests and
+ * the simulated AR mode on emulators without a camera.
+ *
+ * @module infrastructure/webview/FakeAREngine
+ */
+
+import type { WebViewMessageEvent } from 'react-native-webview';
+import type {
+  ARCapabilities,
+  ARErrorCode,
+  ModelErrorCode,
+  ScanErrorCode,
+  TransferErrorCode,
+  RNToWebViewMessageType,
+  WebViewToRNMessageType,
+  WebViewMessage,
+  WebViewBridgeClient,
+  RNToWebViewMessage,
+  WebViewToRNMessage,
+  WebViewToRNMessageMap,
+  TypedWebViewMessage,
+  Unsubscribe,
+  LoadModelPayload,
+  PlacedObjectPayload,
+  ScanProgressPayload,
+  TransformPayload,
+  TrackingState,
+  TrackingLimitedReason,
+  TransformUpdatedPayload,
+} from '@core/types/webview.types';
+import { AR_LIMITS, MODEL_LIMITS } from '@core/constants/limits';
+import { arWebViewBridge, type ARWebViewBridge } from './ARWebViewBridge';
+import { crc32 } from './chunkedTransfer';
+import { createFakeWebViewRef } from './fakeWebView';
+import { getOutboundMessageTypes } from './protocol';
+
+/**
+ * SDK version reported in AR_READY.
+ */
+const FAKE_SDK_VERSION = 'fake-ar-engine/1.0.0';
+
+/**
+ * Message types only pages speaking protocol v2 or later handle.
+ */
+const V2_ONLY_TYPES: ReadonlySet<RNToWebViewMessageType> = new Set([
+  'TRANSFER_BEGIN',
+  'TRANSFER_CHUNK',
+  'TRANSFER_COMMIT',
+  'TRANSFER_ABORT',
+  'PING',
+]);
+
+/**
+ * 1x1 grey JPEG used for screenshots and scan photos.
+ */
+const PLACEHOLDER_JPEG =
+  '/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=';
+
+/**
+ * Minimal valid GLB (header and JSON chunk, no meshes) returned by scans.
+ */
+const PLACEHOLDER_GLB =
+  'Z2xURgIAAABwAAAAXAAAAEpTT057ImFzc2V0Ijp7InZlcnNpb24iOiIyLjAiLCJnZW5lcmF0b3IiOiJmYWtlLWFyLWVuZ2luZSJ9LCJzY2VuZXMiOlt7Im5vZGVzIjpbXX1dLCJzY2VuZSI6MH0gIA==';
+
+/**
+ * Where placed models land when LOAD_MODEL has no initial transform.
+ */
+const DEFAULT_TRANSFORM: TransformPayload = {
+  position: [0, 0, -1.5],
+  rotation: [1, 0, 0, 0],
+  scale: [1, 1, 1],
+};
+
+/**
+ * Failure injection rule for one message type.
+ */
+export interface FailureRule {
+  /** Probability (0-1) that a matching message fails (default 1) */
+  rate?: number;
+  /**
+   * ERROR: answer with the type's error reply.
+   * DROP: never answer, as if the message was lost.
+   */
+  mode?: 'ERROR' | 'DROP';
+  /** Remote error code carried by the error reply */
+  code?: ARErrorCode | ModelErrorCode | ScanErrorCode | TransferErrorCode;
+  /** Error message carried by the error reply */
+  message?: string;
+  /** Number of failures before the rule is used up (unlimited when absent) */
+  times?: number;
+}
+
+/**
+ * Failure rules by message type.
+ */
+export type FailureRules = Partial<Record<RNToWebViewMessageType, FailureRule>>;
+
+/**
+ * Fake engine configuration.
+ */
+export interface FakeAREngineConfig {
+  /** Reply delay in ms, fixed or a [min, max] range (default 20) */
+  latencyMs?: number | [number, number];
+  /** Delay between AR_READY and the first SURFACE_DETECTED (default 300) */
+  surfaceDelayMs?: number;
+  /** Overrides for the reported capabilities */
+  capabilities?: Partial<ARCapabilities>;
+  /** Whether VPS is reported available (default false) */
+  vpsAvailable?: boolean;
+  /** Protocol versions the fake page speaks, newest first (default [2, 1]) */
+  protocolVersions?: number[];
+  /** Failure injection rules */
+  failures?: FailureRules;
+  /** Seed for latency ranges and failure rates, for reproducible runs */
+  seed?: number;
+}
+
+/**
+ * A transfer being received.
+ */
+interface IncomingTransfer {
+  totalLength: number;
+  chunkCount: number;
+  chunks: Map<number, string>;
+}
+
+/**
+ * An active scan session.
+ */
+interface FakeScanSession {
+  sessionId: string;
+  photoCount: number;
+}
+
+/**
+ * Seeded PRNG (mulberry32) so latency and failures replay identically.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+let engineMessageCounter = 0;
+
+/**
+ * Fake 8th Wall page.
+ *
+ * Use connect() to attach it to a bridge through a fake WebView: messages
+ * the bridge injects reach the engine, and engine replies are fed to
+ * bridge.handleMessage with `replyTo` set.
+ */
+export class FakeAREngine implements WebViewBridgeClient {
+  private readonly config: Required<Omit<FakeAREngineConfig, 'capabilities' | 'failures' | 'seed'>>;
+  private readonly capabilities: ARCapabilities;
+  private readonly random: () => number;
+  private failures: FailureRules;
+
+  private bridge: ARWebViewBridge | null = null;
+  private unsubscribeTraffic: Unsubscribe | null = null;
+  private readonly handlers = new Set<(message: RNToWebViewMessage) => void>();
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+  private readonly outbox: {
+    message: WebViewToRNMessage;
+    deliverAt: number;
+  }[] = [];
+  private outboxScheduled = false;
+
+  private protocolVersion = 1;
+  private initialized = false;
+  private paused = false;
+  private crashed = false;
+  private objectCounter = 0;
+  private anchorCounter = 0;
+  private readonly objects = new Map<string, PlacedObjectPayload>();
+  private readonly transfers = new Map<string, IncomingTransfer>();
+  private readonly committedTransfers = new Map<string, string>();
+  private scan: FakeScanSession | null = null;
+
+  constructor(config: FakeAREngineConfig = {}) {
+    this.config = {
+      latencyMs: config.latencyMs ?? 20,
+      surfaceDelayMs: config.surfaceDelayMs ?? 300,
+      vpsAvailable: config.vpsAvailable ?? false,
+      protocolVersions: config.protocolVersions ?? [2, 1],
+    };
+    this.capabilities = {
+      surfaceDetection: true,
+      lightEstimation: true,
+      vps: this.config.vpsAvailable,
+      scanning: true,
+      maxObjects: AR_LIMITS.MAX_PLACED_OBJECTS,
+      ...config.capabilities,
+    };
+    this.failures = { ...config.failures };
+    this.random = config.seed === undefined ? Math.random : createRandom(config.seed);
+
+    this.onMessage(message => this.handle(message));
+  }
+
+  // ==========================================================================
+  // BRIDGE CLIENT CONTRACT
+  // ==========================================================================
+
+  /**
+   * Send a message to React Native immediately.
+   */
+  send(message: WebViewToRNMessage): void {
+    this.bridge?.handleMessage({
+      nativeEvent: { data: JSON.stringify(message) },
+    } as WebViewMessageEvent);
+  }
+
+  /**
+   * Register handler for RN messages.
+   */
+  onMessage(handler: (message: RNToWebViewMessage) => void): Unsubscribe {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  // ==========================================================================
+  // CONNECTION
+  // ==========================================================================
+
+  /**
+   * Attach the engine to a bridge through a fake WebView.
+   * Returns a function that disconnects it.
+   */
+  connect(bridge: ARWebViewBridge = arWebViewBridge): Unsubscribe {
+    this.disconnect();
+    this.bridge = bridge;
+    this.unsubscribeTraffic = bridge.onTraffic(event => {
+      if (event.direction === 'OUT') this.receive(event.message);
+    });
+    bridge.attach(createFakeWebViewRef(() => this.reload()));
+    return () => this.disconnect();
+  }
+
+  /**
+   * Detach from the bridge and cancel pending replies.
+   */
+  disconnect(): void {
+    this.cancelTimers();
+    this.unsubscribeTraffic?.();
+    this.unsubscribeTraffic = null;
+    const bridge = this.bridge;
+    this.bridge = null;
+    bridge?.detach();
+  }
+
+  /**
+   * Deliver an RN message to the engine, as the page's message listener would.
+   */
+  receive(message: WebViewMessage<RNToWebViewMessageType>): void {
+    if (this.crashed) return;
+    // The bridge only sends payloads typed by RNToWebViewMessageMap
+    const typed = message as RNToWebViewMessage;
+    this.handlers.forEach(handler => handler(typed));
+  }
+
+  // ==========================================================================
+  // TEST CONTROLS
+  // ==========================================================================
+
+  /**
+   * Set or replace the failure rule for a message type.
+   */
+  injectFailure(type: RNToWebViewMessageType, rule: FailureRule = {}): void {
+    this.failures[type] = rule;
+  }
+
+  /**
+   * Remove all failure rules.
+   */
+  clearFailures(): void {
+    this.failures = {};
+  }
+
+  /**
+   * Simulate a hung page: stop answering until the bridge reloads it.
+   */
+  crash(): void {
+    this.crashed = true;
+    this.cancelTimers();
+  }
+
+  /**
+   * Simulate a user gesture moving a placed object.
+   */
+  simulateGesture(
+    objectId: string,
+    transform: TransformPayload,
+    gestureType: TransformUpdatedPayload['gestureType'] = 'drag'
+  ): void {
+    const object = this.objects.get(objectId);
+    if (!object) return;
+    object.transform = transform;
+    this.emit('TRANSFORM_UPDATED', { objectId, transform, gestureType });
+  }
+
+  /**
+   * Simulate a tracking state change.
+   */
+  simulateTracking(state: TrackingState, reason?: TrackingLimitedReason): void {
+    this.emit('TRACKING_STATE', reason ? { state, reason } : { state });
+  }
+
+  /**
+   * Objects currently placed in the fake scene.
+   */
+  getPlacedObjects(): PlacedObjectPayload[] {
+    return Array.from(this.objects.values());
+  }
+
+  // ==========================================================================
+  // MESSAGE HANDLING
+  // ==========================================================================
+
+  /**
+   * Route an RN message to its simulation.
+   */
+  private handle(message: RNToWebViewMessage): void {
+    if (this.protocolVersion < 2 && V2_ONLY_TYPES.has(message.type)) return;
+    if (this.injectedFailure(message)) return;
+
+    switch (message.type) {
+      case 'INIT_AR':
+        this.handleInit(message);
+        break;
+      case 'LOAD_MODEL':
+        this.handleLoadModel(message);
+        break;
+      case 'REMOVE_MODEL':
+        this.objects.delete(message.payload.objectId);
+        break;
+      case 'UPDATE_TRANSFORM':
+        this.handleUpdateTransform(message);
+        break;
+      case 'CAPTURE_SCENE':
+        this.handleCaptureScene(message);
+        break;
+      case 'RESTORE_SCENE':
+        this.handleRestoreScene(message);
+        break;
+      case 'START_SCAN':
+        this.handleStartScan(message);
+        break;
+      case 'CAPTURE_SCAN_PHOTO':
+        this.handleCaptureScanPhoto(message);
+        break;
+      case 'END_SCAN':
+        this.handleEndScan(message);
+        break;
+      case 'CANCEL_SCAN':
+        this.scan = null;
+        break;
+      case 'RESET_AR':
+        this.objects.clear();
+        this.scan = null;
+        this.emit('TRACKING_STATE', { state: 'LIMITED', reason: 'INITIALIZING' });
+        this.startTracking();
+        break;
+      case 'PAUSE_AR':
+        this.paused = true;
+        this.emit('TRACKING_STATE', { state: 'NOT_AVAILABLE' });
+        break;
+      case 'RESUME_AR':
+        if (this.paused) {
+          this.paused = false;
+          this.emit('TRACKING_STATE', { state: 'LIMITED', reason: 'RELOCALIZING' });
+          this.emit('TRACKING_STATE', { state: 'NORMAL' });
+        }
+        break;
+      case 'TRANSFER_BEGIN':
+        this.handleTransferBegin(message);
+        break;
+      case 'TRANSFER_CHUNK':
+        this.handleTransferChunk(message);
+        break;
+      case 'TRANSFER_COMMIT':
+        this.handleTransferCommit(message);
+        break;
+      case 'TRANSFER_ABORT':
+        this.transfers.delete(message.payload.transferId);
+        break;
+      case 'PING':
+        this.reply(message, 'PONG', { sequence: message.payload.sequence });
+        break;
+    }
+  }
+
+  private handleInit(message: TypedWebViewMessage<'INIT_AR'>): void {
+    const offered = message.payload.protocolVersions ?? [1];
+    const ownVersions = this.config.protocolVersions;
+    // A page with no common version still answers; the app rejects the handshake
+    this.protocolVersion = ownVersions.find(v => offered.includes(v)) ?? ownVersions[0] ?? 1;
+    this.initialized = true;
+    this.paused = false;
+
+    const v2 = this.protocolVersion >= 2;
+    const messageTypes = getOutboundMessageTypes().filter(type => v2 || !V2_ONLY_TYPES.has(type));
+
+    this.reply(message, 'AR_READY', {
+      sdkVersion: FAKE_SDK_VERSION,
+      vpsAvailable: this.config.vpsAvailable && message.payload.enableVPS,
+      capabilities: v2
+        ? { ...this.capabilities, modelTransports: ['INLINE', 'CHUNKED', 'FILE_URL'] }
+        : this.capabilities,
+      ...(v2 && { protocolVersion: this.protocolVersion, messageTypes }),
+    });
+    this.emit('TRACKING_STATE', { state: 'LIMITED', reason: 'INITIALIZING' });
+    this.startTracking();
+  }
+
+  private handleLoadModel(message: TypedWebViewMessage<'LOAD_MODEL'>): void {
+    const { modelId, initialTransform } = message.payload;
+
+    if (this.objects.size >= this.capabilities.maxObjects) {
+      this.reply(message, 'MODEL_ERROR', {
+        modelId,
+        code: 'MAX_OBJECTS_REACHED',
+        message: `Scene already holds ${this.capabilities.maxObjects} objects`,
+      });
+      return;
+    }
+
+    const error = this.checkModelSource(message.payload);
+    if (error) {
+      this.reply(message, 'MODEL_ERROR', { modelId, code: 'INVALID_GLB', message: error });
+      return;
+    }
+
+    const object: PlacedObjectPayload = {
+      objectId: this.nextObjectId(),
+      modelId,
+      transform: { ...DEFAULT_TRANSFORM, ...initialTransform },
+    };
+    this.objects.set(object.objectId, object);
+    this.reply(message, 'MODEL_PLACED', object);
+  }
+
+  private handleUpdateTransform(message: TypedWebViewMessage<'UPDATE_TRANSFORM'>): void {
+    const { objectId, transform } = message.payload;
+    const object = this.objects.get(objectId);
+    if (!object) {
+      this.reply(message, 'MODEL_ERROR', {
+        modelId: '',
+        code: 'PLACEMENT_FAILED',
+        message: `Unknown object ${objectId}`,
+      });
+      return;
+    }
+    object.transform = transform;
+  }
+
+  private handleCaptureScene(message: TypedWebViewMessage<'CAPTURE_SCENE'>): void {
+    const { includeScreenshot, createVPSAnchor } = message.payload;
+    this.reply(message, 'SCENE_CAPTURED', {
+      objects: this.getPlacedObjects(),
+      screenshot: includeScreenshot ? PLACEHOLDER_JPEG : null,
+      vpsAnchorId:
+        createVPSAnchor && this.config.vpsAvailable ? `fake_anchor_${++this.anchorCounter}` : null,
+    });
+  }
+
+  private handleRestoreScene(message: TypedWebViewMessage<'RESTORE_SCENE'>): void {
+    const { scene, models, modelTransferIds = {}, modelUris = {} } = message.payload;
+    const failedObjects: string[] = [];
+
+    this.objects.clear();
+    scene.objects.forEach(object => {
+      const available =
+        Boolean(models[object.modelId]) ||
+        this.committedTransfers.has(modelTransferIds[object.modelId] ?? '') ||
+        (modelUris[object.modelId] ?? '').startsWith('file://');
+
+      if (!available || this.objects.size >= this.capabilities.maxObjects) {
+        failedObjects.push(object.objectId);
+        return;
+      }
+      this.objects.set(object.objectId, { ...object });
+    });
+
+    this.reply(message, 'SCENE_RESTORED', { objectCount: this.objects.size, failedObjects });
+  }
+
+  private handleStartScan(message: TypedWebViewMessage<'START_SCAN'>): void {
+    const { sessionId } = message.payload;
+    if (!this.capabilities.scanning) {
+      this.reply(message, 'SCAN_FAILED', {
+        sessionId,
+        code: 'UNKNOWN',
+        message: 'Scanning is not supported on this device',
+        recoverable: false,
+      });
+      return;
+    }
+
+    this.scan = { sessionId, photoCount: 0 };
+    this.reply(message, 'SCAN_PROGRESS', this.scanProgress(this.scan));
+  }
+
+  private handleCaptureScanPhoto(message: TypedWebViewMessage<'CAPTURE_SCAN_PHOTO'>): void {
+    const scan = this.scan;
+    if (!scan) {
+      this.reply(message, 'SCAN_FAILED', {
+        sessionId: '',
+        code: 'UNKNOWN',
+        message: 'No scan in progress',
+        recoverable: true,
+      });
+      return;
+    }
+
+    const angle = (scan.photoCount * 360) / MODEL_LIMITS.RECOMMENDED_SCAN_PHOTOS;
+    scan.photoCount++;
+    this.reply(message, 'SCAN_PHOTO_CAPTURED', {
+      photoId: message.payload.photoId,
+      imageData: PLACEHOLDER_JPEG,
+      angle: angle % 360,
+      quality: { quality: 'GOOD', score: 0.9 },
+    });
+    this.emit('SCAN_PROGRESS', this.scanProgress(scan));
+  }
+
+  private handleEndScan(message: TypedWebViewMessage<'END_SCAN'>): void {
+    const { sessionId } = message.payload;
+    const scan = this.scan;
+    this.scan = null;
+
+    if (!scan || scan.sessionId !== sessionId) {
+      this.reply(message, 'SCAN_FAILED', {
+        sessionId,
+        code: 'UNKNOWN',
+        message: `Unknown scan session ${sessionId}`,
+        recoverable: false,
+      });
+      return;
+    }
+
+    if (scan.photoCount < MODEL_LIMITS.MIN_SCAN_PHOTOS) {
+      this.reply(message, 'SCAN_FAILED', {
+        sessionId,
+        code: 'INSUFFICIENT_PHOTOS',
+        message: `Need at least ${MODEL_LIMITS.MIN_SCAN_PHOTOS} photos, got ${scan.photoCount}`,
+        recoverable: true,
+      });
+      return;
+    }
+
+    this.reply(message, 'SCAN_COMPLETE', {
+      sessionId,
+      glbData: PLACEHOLDER_GLB,
+      boundingBox: {
+        min: [-0.25, 0, -0.25],
+        max: [0.25, 0.5, 0.25],
+        center: [0, 0.25, 0],
+        size: [0.5, 0.5, 0.5],
+      },
+      vertexCount: 0,
+    });
+  }
+
+  private handleTransferBegin(message: TypedWebViewMessage<'TRANSFER_BEGIN'>): void {
+    const { transferId, totalLength, chunkCount } = message.payload;
+    const existing = this.transfers.get(transferId);
+
+    if (!existing || existing.totalLength !== totalLength || existing.chunkCount !== chunkCount) {
+      this.transfers.set(transferId, { totalLength, chunkCount, chunks: new Map() });
+    }
+
+    const receivedChunks = Array.from(this.transfers.get(transferId)?.chunks.keys() ?? []);
+    this.reply(message, 'TRANSFER_READY', { transferId, receivedChunks });
+  }
+
+  private handleTransferChunk(message: TypedWebViewMessage<'TRANSFER_CHUNK'>): void {
+    const { transferId, index, data, checksum } = message.payload;
+    const transfer = this.transfers.get(transferId);
+    if (!transfer) {
+      this.replyUnknownTransfer(message, transferId);
+      return;
+    }
+
+    if (crc32(data) !== checksum) {
+      this.reply(message, 'TRANSFER_ACK', { transferId, index, status: 'CHECKSUM_MISMATCH' });
+      return;
+    }
+
+    transfer.chunks.set(index, data);
+    this.reply(message, 'TRANSFER_ACK', { transferId, index, status: 'OK' });
+  }
+
+  private handleTransferCommit(message: TypedWebViewMessage<'TRANSFER_COMMIT'>): void {
+    const { transferId, checksum } = message.payload;
+    const transfer = this.transfers.get(transferId);
+    if (!transfer) {
+      this.replyUnknownTransfer(message, transferId);
+      return;
+    }
+
+    const missingChunks: number[] = [];
+    const parts: string[] = [];
+    for (let index = 0; index < transfer.chunkCount; index++) {
+      const chunk = transfer.chunks.get(index);
+      if (chunk === undefined) {
+        missingChunks.push(index);
+      } else {
+        parts.push(chunk);
+      }
+    }
+
+    if (missingChunks.length > 0) {
+      this.reply(message, 'TRANSFER_COMMITTED', { transferId, missingChunks });
+      return;
+    }
+
+    this.transfers.delete(transferId);
+    const data = parts.join('');
+    if (data.length !== transfer.totalLength || crc32(data) !== checksum) {
+      this.reply(message, 'TRANSFER_ERROR', {
+        transferId,
+        code: 'CHECKSUM_MISMATCH',
+        message: 'Assembled data does not match the transfer checksum',
+      });
+      return;
+    }
+
+    this.committedTransfers.set(transferId, data);
+    this.reply(message, 'TRANSFER_COMMITTED', { transferId, missingChunks });
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  /**
+   * Apply the failure rule for a message, if any.
+   * Returns true when the message was failed and must not be handled.
+   */
+  private injectedFailure(message: RNToWebViewMessage): boolean {
+    const rule = this.failures[message.type];
+    if (!rule) return false;
+    if (rule.times !== undefined && rule.times <= 0) return false;
+    if (this.random() >= (rule.rate ?? 1)) return false;
+
+    if (rule.times !== undefined) rule.times--;
+    if (rule.mode === 'DROP') return true;
+
+    const errorMessage = rule.message ?? `Injected ${message.type} failure`;
+    const payload = message.payload as Partial<{
+      modelId: string;
+      sessionId: string;
+      transferId: string;
+    }>;
+
+    switch (message.type) {
+      case 'LOAD_MODEL':
+      case 'UPDATE_TRANSFORM':
+        this.reply(message, 'MODEL_ERROR', {
+          modelId: payload.modelId ?? '',
+          code: (rule.code as ModelErrorCode | undefined) ?? 'PLACEMENT_FAILED',
+          message: errorMessage,
+        });
+        break;
+      case 'START_SCAN':
+      case 'CAPTURE_SCAN_PHOTO':
+      case 'END_SCAN':
+        this.reply(message, 'SCAN_FAILED', {
+          sessionId: payload.sessionId ?? this.scan?.sessionId ?? '',
+          code: (rule.code as ScanErrorCode | undefined) ?? 'PROCESSING_FAILED',
+          message: errorMessage,
+          recoverable: true,
+        });
+        break;
+      case 'TRANSFER_BEGIN':
+      case 'TRANSFER_CHUNK':
+      case 'TRANSFER_COMMIT':
+        this.reply(message, 'TRANSFER_ERROR', {
+          transferId: payload.transferId ?? '',
+          code: (rule.code as TransferErrorCode | undefined) ?? 'UNKNOWN',
+          message: errorMessage,
+        });
+        break;
+      case 'INIT_AR':
+      case 'CAPTURE_SCENE':
+      case 'RESTORE_SCENE':
+        this.reply(message, 'AR_ERROR', {
+          code:
+            (rule.code as ARErrorCode | undefined) ??
+            (message.type === 'INIT_AR' ? 'XRWEB_INIT_FAILED' : 'UNKNOWN'),
+          message: errorMessage,
+          recoverable: true,
+        });
+        break;
+      default:
+        // Messages without an error reply fail silently
+        break;
+    }
+    return true;
+  }
+
+  /**
+   * Validate where a LOAD_MODEL gets its GLB from.
+   * Returns an error message, or null when the source is usable.
+   */
+  private checkModelSource(payload: LoadModelPayload): string | null {
+    if (payload.glbTransferId !== undefined) {
+      return this.committedTransfers.has(payload.glbTransferId)
+        ? null
+        : `Transfer ${payload.glbTransferId} was not committed`;
+    }
+    if (payload.glbUri !== undefined) {
+      return payload.glbUri.startsWith('file://')
+        ? null
+        : `Unsupported model URI ${payload.glbUri}`;
+    }
+    return payload.glbData ? null : 'No GLB data provided';
+  }
+
+  private replyUnknownTransfer(message: RNToWebViewMessage, transferId: string): void {
+    this.reply(message, 'TRANSFER_ERROR', {
+      transferId,
+      code: 'UNKNOWN_TRANSFER',
+      message: `Unknown transfer ${transferId}`,
+    });
+  }
+
+  private scanProgress(scan: FakeScanSession): ScanProgressPayload {
+    // Coverage is a percentage, as in ScanSession
+    const coverage = Math.min(100, (scan.photoCount / MODEL_LIMITS.RECOMMENDED_SCAN_PHOTOS) * 100);
+    const covered = Math.round(coverage * 3.6);
+    return {
+      sessionId: scan.sessionId,
+      photoCount: scan.photoCount,
+      coverage,
+      missingAngles: covered < 360 ? [[covered, 360]] : [],
+    };
+  }
+
+  /**
+   * Report normal tracking and, after surfaceDelayMs, a detected floor.
+   */
+  private startTracking(): void {
+    this.emit('TRACKING_STATE', { state: 'NORMAL' });
+    if (!this.capabilities.surfaceDetection) return;
+
+    this.schedule(() => {
+      if (!this.initialized) return;
+      this.emit('SURFACE_DETECTED', {
+        surfaceType: 'horizontal',
+        position: [0, 0, -1.5],
+        normal: [0, 1, 0],
+      });
+    }, this.config.surfaceDelayMs);
+  }
+
+  /**
+   * Handle a reload from the bridge: start over as a fresh page.
+   */
+  private reload(): void {
+    this.cancelTimers();
+    this.crashed = false;
+    this.initialized = false;
+    this.paused = false;
+    this.protocolVersion = 1;
+    this.objects.clear();
+    this.transfers.clear();
+    this.committedTransfers.clear();
+    this.scan = null;
+
+    this.schedule(() => this.bridge?.handleLoadEnd(), this.nextLatency());
+  }
+
+  private nextObjectId(): string {
+    return `fake_obj_${Date.now()}_${++this.objectCounter}`;
+  }
+
+  private nextLatency(): number {
+    const { latencyMs } = this.config;
+    if (typeof latencyMs === 'number') return latencyMs;
+    const [min, max] = latencyMs;
+    return min + this.random() * (max - min);
+  }
+
+  private reply<K extends WebViewToRNMessageType>(
+    request: RNToWebViewMessage,
+    type: K,
+    payload: WebViewToRNMessageMap[K]
+  ): void {
+    this.emit(type, payload, request.messageId);
+  }
+
+  /**
+   * Send a message to RN after the configured latency. Messages keep their
+   * emit order even when the latency is a random range.
+   */
+  private emit<K extends WebViewToRNMessageType>(
+    type: K,
+    payload: WebViewToRNMessageMap[K],
+    replyTo?: string
+  ): void {
+    // payload matches type through WebViewToRNMessageMap
+    const message = {
+      type,
+      payload,
+      messageId: `fake_${Date.now()}_${++engineMessageCounter}`,
+      timestamp: Date.now(),
+      ...(replyTo !== undefined && { replyTo }),
+    } as WebViewToRNMessage;
+
+    const last = this.outbox[this.outbox.length - 1];
+    const deliverAt = Math.max(Date.now() + this.nextLatency(), last?.deliverAt ?? 0);
+    this.outbox.push({ message, deliverAt });
+    this.scheduleOutbox();
+  }
+
+  /**
+   * Deliver due outbox messages in order, then wait for the next one.
+   */
+  private drainOutbox(): void {
+    this.outboxScheduled = false;
+    let next = this.outbox[0];
+    while (next && next.deliverAt <= Date.now()) {
+      this.outbox.shift();
+      this.send(next.message);
+      next = this.outbox[0];
+    }
+    this.scheduleOutbox();
+  }
+
+  private scheduleOutbox(): void {
+    const next = this.outbox[0];
+    if (!next || this.outboxScheduled) return;
+    this.outboxScheduled = true;
+    this.schedule(() => this.drainOutbox(), Math.max(0, next.deliverAt - Date.now()));
+  }
+
+  private schedule(callback: () => void, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  private cancelTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.outbox.length = 0;
+    this.outboxScheduled = false;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Bridge Recovery
+ *
+ * Keeps the AR session alive across WebView crashes. When the bridge reports
+ * a lost connection the AR store moves to BRIDGE_LOST; once the reloaded page
+ * sends AR_READY the placed objects are restored from the scene store.
+ *
+ * @module infrastructure/webview/bridgeRecovery
+ */
+
+import type { ScenePayload, Unsubscribe } from '@core/types/webview.types';
+import { useARStore } from '@core/stores/useARStore';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { arWebViewBridge, type ARWebViewBridge } from './ARWebViewBridge';
+
+/**
+ * Build a restore payload from the scene store's current layout.
+ */
+function buildCurrentScenePayload(): ScenePayload {
+  const { currentScene, placedObjects } = useSceneStore.getState();
+  return {
+    sceneId: currentScene?.id ?? 'unsaved',
+    vpsAnchorId: currentScene?.anchorId ?? null,
+    anchorType: currentScene?.anchorType ?? 'DEVICE_RELATIVE',
+    objects: placedObjects.map(obj => ({
+      objectId: obj.id,
+      modelId: obj.modelId,
+      transform: obj.transform,
+    })),
+  };
+}
+
+/**
+ * Install crash recovery on a bridge.
+ * Returns a function that removes it.
+ */
+export function installBridgeRecovery(bridge: ARWebViewBridge = arWebViewBridge): Unsubscribe {
+  let recovering = false;
+
+  const unsubscribeLost = bridge.onConnectionLost(() => {
+    // The bridge reloads the page and re-sends INIT_AR on load end
+    recovering = true;
+    useARStore.getState().markBridgeLost();
+  });
+
+  const unsubscribeReady = bridge.on('AR_READY', () => {
+    if (!recovering) return;
+    recovering = false;
+
+    useARStore.getState().setInitialized(true);
+
+    const scene = buildCurrentScenePayload();
+    if (scene.objects.length === 0) return;
+
+    bridge.restoreStoredScene(scene).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn('[bridgeRecovery] Failed to restore layout:', message);
+      useSceneStore.getState().setError(`Failed to restore layout: ${message}`);
+    });
+  });
+
+  return () => {
+    unsubscribeLost();
+    unsubscribeReady();
+  };
+}
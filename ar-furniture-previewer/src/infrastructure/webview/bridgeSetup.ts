@@ -0,0 +1,80 @@
+/**
+ * Bridge Setup
+ *
+ * Connects a bridge to the app: attaches it to the AR WebView, installs
+ * protocol sync, store sync and crash recovery, and starts the heartbeat.
+ * The WebView forwards its events through the handlers from
+ * getBridgeWebViewProps.
+ *
+ * @module infrastructure/webview/bridgeSetup
+ */
+
+import type { RefObject } from 'react';
+import type { WebView, WebViewProps } from 'react-native-webview';
+import type { Unsubscribe } from '@core/types/webview.types';
+import { arWebViewBridge, type ARWebViewBridge, type HeartbeatConfig } from './ARWebViewBridge';
+import { installBridgeRecovery } from './bridgeRecovery';
+import { installProtocolSync } from './protocolSync';
+import { installStoreSync } from './storeSync';
+
+/**
+ * WebView event props that feed the bridge.
+ */
+export type BridgeWebViewProps = Required<
+  Pick<
+    WebViewProps,
+    | 'onMessage'
+    | 'onLoadStart'
+    | 'onLoadEnd'
+    | 'onRenderProcessGone'
+    | 'onContentProcessDidTerminate'
+  >
+>;
+
+/**
+ * Bridge setup options.
+ */
+export interface BridgeSetupOptions {
+  /** Heartbeat overrides; defaults come from BRIDGE_LIMITS */
+  heartbeat?: Partial<HeartbeatConfig>;
+}
+
+/**
+ * WebView event handlers for a bridge.
+ */
+export function getBridgeWebViewProps(
+  bridge: ARWebViewBridge = arWebViewBridge
+): BridgeWebViewProps {
+  return {
+    onMessage: event => bridge.handleMessage(event),
+    onLoadStart: () => bridge.handleLoadStart(),
+    onLoadEnd: () => bridge.handleLoadEnd(),
+    onRenderProcessGone: () => bridge.handleConnectionLost('PROCESS_GONE'),
+    onContentProcessDidTerminate: () => bridge.handleConnectionLost('PROCESS_GONE'),
+  };
+}
+
+/**
+ * Attach a bridge to the AR WebView and install everything that keeps the
+ * stores and the session in step with it.
+ * Returns a function that removes it all and detaches the bridge.
+ */
+export function installARBridge(
+  ref: RefObject<WebView | null>,
+  bridge: ARWebViewBridge = arWebViewBridge,
+  options: BridgeSetupOptions = {}
+): Unsubscribe {
+  const uninstallers = [
+    installProtocolSync(bridge),
+    installStoreSync(bridge),
+    installBridgeRecovery(bridge),
+  ];
+  bridge.attach(ref);
+  bridge.startHeartbeat(options.heartbeat);
+
+  return () => {
+    bridge.stopHeartbeat();
+    uninstallers.forEach(uninstall => uninstall());
+    bridge.detach();
+  };
+}
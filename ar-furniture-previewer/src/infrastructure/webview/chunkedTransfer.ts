@@ -0,0 +1,90 @@
+/**
+ * Chunked Transfer Helpers
+ *
+ * Splitting and checksums for binary transfers over the WebView bridge.
+ * Large GLB payloads are sent as TRANSFER_BEGIN / TRANSFER_CHUNK /
+ * TRANSFER_COMMIT messages instead of one oversized injectJavaScript call.
+ *
+ * @module infrastructure/webview/chunkedTransfer
+ */
+
+/**
+ * Progress of a chunked transfer, for loading UIs.
+ */
+export interface TransferProgress {
+  transferId: string;
+  status: 'IN_PROGRESS' | 'COMMITTED' | 'FAILED';
+  /** Chunks acknowledged by the WebView */
+  sentChunks: number;
+  totalChunks: number;
+  /** Base64 characters acknowledged by the WebView */
+  bytesSent: number;
+  totalBytes: number;
+}
+
+/**
+ * Listener for transfer progress events.
+ */
+export type TransferProgressListener = (progress: TransferProgress) => void;
+
+/**
+ * A single chunk ready to send.
+ */
+export interface TransferChunk {
+  index: number;
+  data: string;
+  checksum: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Lazily build the CRC32 lookup table.
+ */
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+/**
+ * CRC32 over the character codes of a base64 string.
+ * Base64 is ASCII, so this matches a byte-wise CRC32 on the WebView side.
+ */
+export function crc32(data: string): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = (table[(crc ^ data.charCodeAt(i)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Split a base64 string into checksummed chunks.
+ */
+export function splitIntoChunks(data: string, chunkSize: number): TransferChunk[] {
+  const chunks: TransferChunk[] = [];
+  for (let offset = 0, index = 0; offset < data.length; offset += chunkSize, index++) {
+    const chunk = data.slice(offset, offset + chunkSize);
+    chunks.push({ index, data: chunk, checksum: crc32(chunk) });
+  }
+  return chunks;
+}
+
+let transferCounter = 0;
+
+/**
+ * Generate unique transfer ID.
+ */
+export function generateTransferId(): string {
+  return `xfer_${Date.now()}_${++transferCounter}`;
+}
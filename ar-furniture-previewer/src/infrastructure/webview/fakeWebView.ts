@@ -0,0 +1,25 @@
+/**
+ * Fake WebView
+ *
+ * Stand-in WebView ref for driving the bridge without a native view, used by
+ * recording replay and the fake AR engine. Injected scripts are discarded;
+ * observe outbound messages through ARWebViewBridge.onTraffic instead.
+ *
+ * @module infrastructure/webview/fakeWebView
+ */
+
+import type { RefObject } from 'react';
+import type { WebView } from 'react-native-webview';
+
+/**
+ * Create a WebView ref backed by no native view.
+ *
+ * @param onReload - Called when the bridge reloads the page
+ */
+export function createFakeWebViewRef(onReload: () => void = () => undefined): RefObject<WebView> {
+  const fakeWebView = {
+    injectJavaScript: (): void => undefined,
+    reload: onReload,
+  } as unknown as WebView;
+  return { current: fakeWebView };
+}
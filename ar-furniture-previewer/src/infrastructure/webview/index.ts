@@ -6,6 +6,51 @@
  * @module infrastructure/webview
  */
 
-export { ARWebViewBridge, arWebViewBridge } from './ARWebViewBridge';
-export { messageHandlers } from './messageHandlers';
+export { ARWebViewBridge, arWebViewBridge, BridgeError } from './ARWebViewBridge';
+export { messageHandlers, MessageHandlerRegistry } from './messageHandlers';
 export type { TypedMessageHandler } from './messageHandlers';
+export type {
+  BridgeDiagnostics,
+  InvalidMessageReport,
+  InvalidMessageListener,
+} from './ARWebViewBridge';
+export {
+  payloadValidators,
+  validateWebViewMessage,
+  isWebViewToRNMessageType,
+} from './messageValidators';
+export type { PayloadValidator, MessageValidationResult } from './messageValidators';
+export { crc32, splitIntoChunks, generateTransferId } from './chunkedTransfer';
+export type { TransferProgress, TransferProgressListener, TransferChunk } from './chunkedTransfer';
+export { OUTBOUND_POLICIES } from './outboundQueue';
+export type { DeliveryGate, QueueBehavior, OutboundPolicy } from './outboundQueue';
+export type {
+  HeartbeatConfig,
+  ConnectionLostReason,
+  ConnectionLostListener,
+  PageLoadListener,
+} from './ARWebViewBridge';
+export { installBridgeRecovery } from './bridgeRecovery';
+export type { ProtocolListener } from './ARWebViewBridge';
+export {
+  BRIDGE_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  negotiateProtocol,
+  getInboundMessageTypes,
+  getOutboundMessageTypes,
+} from './protocol';
+export { installProtocolSync } from './protocolSync';
+export { installStoreSync } from './storeSync';
+export { installARBridge, getBridgeWebViewProps } from './bridgeSetup';
+export type { BridgeWebViewProps, BridgeSetupOptions } from './bridgeSetup';
+export type { TrafficEvent, TrafficListener } from './ARWebViewBridge';
+export {
+  BridgeRecorder,
+  loadRecording,
+  replayRecording,
+  RECORDING_FORMAT_VERSION,
+} from './BridgeRecorder';
+export type { BridgeRecording, RecordedEntry, ReplayOptions, ReplayResult } from './BridgeRecorder';
+export { createFakeWebViewRef } from './fakeWebView';
+export { FakeAREngine } from './FakeAREngine';
+export type { FakeAREngineConfig, FailureRule, FailureRules } from './FakeAREngine';
@@ -0,0 +1,397 @@
+/**
+ * WebView Message Validators
+ *
+ * Runtime validation for messages received from the 8th Wall WebView.
+ * One validator per WebViewToRNMessageType, mirroring webview.types.ts.
+ *
+ * @module infrastructure/webview/messageValidators
+ */
+
+import type {
+  WebViewToRNMessage,
+  WebViewToRNMessageType,
+  WebViewToRNMessageMap,
+  TransformPayload,
+  PlacedObjectPayload,
+  BoundingBoxPayload,
+  PhotoQualityPayload,
+  ARCapabilities,
+  ARReadyPayload,
+  ARErrorPayload,
+  SurfaceDetectedPayload,
+  ModelPlacedPayload,
+  ModelErrorPayload,
+  TransformUpdatedPayload,
+  SceneCapturedPayload,
+  SceneRestoredPayload,
+  ScanPhotoCapturedPayload,
+  ScanProgressPayload,
+  ScanCompletePayload,
+  ScanFailedPayload,
+  TrackingStatePayload,
+  TransferReadyPayload,
+  TransferAckPayload,
+  TransferCommittedPayload,
+  TransferErrorPayload,
+  PongPayload,
+  ARErrorCode,
+  ModelErrorCode,
+  ScanErrorCode,
+  TransferErrorCode,
+  ModelTransport,
+  TrackingState,
+  TrackingLimitedReason,
+} from '@core/types/webview.types';
+
+/**
+ * Type guard for a single payload type.
+ */
+export type PayloadValidator<P> = (value: unknown) => value is P;
+
+/**
+ * Result of validating a raw WebView message.
+ */
+export type MessageValidationResult =
+  | { valid: true; message: WebViewToRNMessage }
+  | { valid: false; reason: string; type: string | null };
+
+// =============================================================================
+// PRIMITIVES
+// =============================================================================
+
+/**
+ * Guard for an optional property, made with isOptional().
+ */
+type OptionalValidator<T> = PayloadValidator<T | undefined> & { readonly optional: true };
+
+/**
+ * One guard per property of T; optional properties take an isOptional()
+ * guard. A missing, extra or mistyped guard fails to compile.
+ */
+type Shape<T> = {
+  [K in keyof T]-?: Partial<Pick<T, K>> extends Pick<T, K>
+    ? OptionalValidator<T[K]>
+    : PayloadValidator<T[K]>;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isNullOr<T>(guard: PayloadValidator<T>): PayloadValidator<T | null> {
+  return (value): value is T | null => value === null || guard(value);
+}
+
+function isOptional<T>(guard: PayloadValidator<T>): OptionalValidator<T> {
+  const optional = (value: unknown): value is T | undefined => value === undefined || guard(value);
+  return Object.assign(optional, { optional: true as const });
+}
+
+/**
+ * Guard for a string union. Members are the keys of a record typed over the
+ * union, so adding or removing a member without updating it fails to compile.
+ */
+function isMemberOf<T extends string>(members: Record<T, true>): PayloadValidator<T> {
+  return (value): value is T =>
+    isString(value) && Object.prototype.hasOwnProperty.call(members, value);
+}
+
+function isArrayOf<T>(guard: PayloadValidator<T>): PayloadValidator<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(guard);
+}
+
+function isTuple<T extends unknown[]>(
+  ...guards: { [K in keyof T]: PayloadValidator<T[K]> }
+): PayloadValidator<T> {
+  return (value): value is T =>
+    Array.isArray(value) &&
+    value.length === guards.length &&
+    guards.every((guard: PayloadValidator<unknown>, index: number) => guard(value[index]));
+}
+
+function isShape<T>(shape: Shape<T>): PayloadValidator<T> {
+  const guards: [string, PayloadValidator<unknown>][] = Object.entries(shape);
+  return (value): value is T =>
+    isRecord(value) && guards.every(([key, guard]) => guard(value[key]));
+}
+
+const isVector3 = isTuple(isNumber, isNumber, isNumber);
+const isQuaternion = isTuple(isNumber, isNumber, isNumber, isNumber);
+const isAngleRange = isTuple(isNumber, isNumber);
+
+// =============================================================================
+// SHARED PAYLOADS
+// =============================================================================
+
+const isTransform = isShape<TransformPayload>({
+  position: isVector3,
+  rotation: isQuaternion,
+  scale: isVector3,
+});
+
+const isPlacedObject = isShape<PlacedObjectPayload>({
+  objectId: isString,
+  modelId: isString,
+  transform: isTransform,
+});
+
+const isBoundingBox = isShape<BoundingBoxPayload>({
+  min: isVector3,
+  max: isVector3,
+  center: isVector3,
+  size: isVector3,
+});
+
+const isPhotoQuality = isShape<PhotoQualityPayload>({
+  quality: isMemberOf<PhotoQualityPayload['quality']>({
+    GOOD: true,
+    BLUR: true,
+    DARK: true,
+    OVEREXPOSED: true,
+  }),
+  score: isNumber,
+});
+
+const isModelTransport = isMemberOf<ModelTransport>({
+  INLINE: true,
+  CHUNKED: true,
+  FILE_URL: true,
+});
+
+const isCapabilities = isShape<ARCapabilities>({
+  surfaceDetection: isBoolean,
+  lightEstimation: isBoolean,
+  vps: isBoolean,
+  scanning: isBoolean,
+  maxObjects: isNumber,
+  modelTransports: isOptional(isArrayOf(isModelTransport)),
+});
+
+const isARErrorCode = isMemberOf<ARErrorCode>({
+  CAMERA_PERMISSION_DENIED: true,
+  WEBGL_NOT_SUPPORTED: true,
+  XRWEB_INIT_FAILED: true,
+  VPS_UNAVAILABLE: true,
+  NETWORK_ERROR: true,
+  PROTOCOL_MISMATCH: true,
+  UNKNOWN: true,
+});
+
+const isModelErrorCode = isMemberOf<ModelErrorCode>({
+  INVALID_GLB: true,
+  MODEL_TOO_LARGE: true,
+  TEXTURE_ERROR: true,
+  PLACEMENT_FAILED: true,
+  MAX_OBJECTS_REACHED: true,
+  UNKNOWN: true,
+});
+
+const isTransferErrorCode = isMemberOf<TransferErrorCode>({
+  CHECKSUM_MISMATCH: true,
+  UNKNOWN_TRANSFER: true,
+  OUT_OF_MEMORY: true,
+  UNKNOWN: true,
+});
+
+const isScanErrorCode = isMemberOf<ScanErrorCode>({
+  INSUFFICIENT_PHOTOS: true,
+  POOR_COVERAGE: true,
+  PROCESSING_FAILED: true,
+  INSUFFICIENT_LIGHTING: true,
+  OBJECT_TOO_LARGE: true,
+  TIMEOUT: true,
+  UNKNOWN: true,
+});
+
+// =============================================================================
+// MESSAGE PAYLOADS (WebView → RN)
+// =============================================================================
+
+/**
+ * Payload validators keyed by message type.
+ * Typed as a full record over WebViewToRNMessageMap and built from shapes
+ * typed over each payload, so adding a message or a payload field without
+ * a matching guard fails to compile.
+ */
+export const payloadValidators: {
+  [K in WebViewToRNMessageType]: PayloadValidator<WebViewToRNMessageMap[K]>;
+} = {
+  AR_READY: isShape<ARReadyPayload>({
+    sdkVersion: isString,
+    vpsAvailable: isBoolean,
+    capabilities: isCapabilities,
+    protocolVersion: isOptional(isNumber),
+    messageTypes: isOptional(isArrayOf(isString)),
+  }),
+
+  AR_ERROR: isShape<ARErrorPayload>({
+    code: isARErrorCode,
+    message: isString,
+    recoverable: isBoolean,
+  }),
+
+  SURFACE_DETECTED: isShape<SurfaceDetectedPayload>({
+    surfaceType: isMemberOf<SurfaceDetectedPayload['surfaceType']>({
+      horizontal: true,
+      vertical: true,
+    }),
+    position: isVector3,
+    normal: isVector3,
+  }),
+
+  MODEL_PLACED: isShape<ModelPlacedPayload>({
+    modelId: isString,
+    objectId: isString,
+    transform: isTransform,
+  }),
+
+  MODEL_ERROR: isShape<ModelErrorPayload>({
+    modelId: isString,
+    code: isModelErrorCode,
+    message: isString,
+  }),
+
+  TRANSFORM_UPDATED: isShape<TransformUpdatedPayload>({
+    objectId: isString,
+    transform: isTransform,
+    gestureType: isMemberOf<TransformUpdatedPayload['gestureType']>({
+      drag: true,
+      rotate: true,
+      scale: true,
+    }),
+  }),
+
+  SCENE_CAPTURED: isShape<SceneCapturedPayload>({
+    objects: isArrayOf(isPlacedObject),
+    screenshot: isNullOr(isString),
+    vpsAnchorId: isNullOr(isString),
+  }),
+
+  SCENE_RESTORED: isShape<SceneRestoredPayload>({
+    objectCount: isNumber,
+    failedObjects: isArrayOf(isString),
+  }),
+
+  SCAN_PHOTO_CAPTURED: isShape<ScanPhotoCapturedPayload>({
+    photoId: isString,
+    imageData: isString,
+    angle: isNumber,
+    quality: isPhotoQuality,
+  }),
+
+  SCAN_PROGRESS: isShape<ScanProgressPayload>({
+    sessionId: isString,
+    photoCount: isNumber,
+    coverage: isNumber,
+    missingAngles: isArrayOf(isAngleRange),
+  }),
+
+  SCAN_COMPLETE: isShape<ScanCompletePayload>({
+    sessionId: isString,
+    glbData: isString,
+    boundingBox: isBoundingBox,
+    vertexCount: isNumber,
+  }),
+
+  SCAN_FAILED: isShape<ScanFailedPayload>({
+    sessionId: isString,
+    code: isScanErrorCode,
+    message: isString,
+    recoverable: isBoolean,
+  }),
+
+  TRACKING_STATE: isShape<TrackingStatePayload>({
+    state: isMemberOf<TrackingState>({
+      NOT_AVAILABLE: true,
+      LIMITED: true,
+      NORMAL: true,
+    }),
+    reason: isOptional(
+      isMemberOf<TrackingLimitedReason>({
+        INITIALIZING: true,
+        EXCESSIVE_MOTION: true,
+        INSUFFICIENT_FEATURES: true,
+        RELOCALIZING: true,
+      })
+    ),
+  }),
+
+  TRANSFER_READY: isShape<TransferReadyPayload>({
+    transferId: isString,
+    receivedChunks: isArrayOf(isNumber),
+  }),
+
+  TRANSFER_ACK: isShape<TransferAckPayload>({
+    transferId: isString,
+    index: isNumber,
+    status: isMemberOf<TransferAckPayload['status']>({
+      OK: true,
+      CHECKSUM_MISMATCH: true,
+    }),
+  }),
+
+  TRANSFER_COMMITTED: isShape<TransferCommittedPayload>({
+    transferId: isString,
+    missingChunks: isArrayOf(isNumber),
+  }),
+
+  PONG: isShape<PongPayload>({
+    sequence: isNumber,
+  }),
+
+  TRANSFER_ERROR: isShape<TransferErrorPayload>({
+    transferId: isString,
+    code: isTransferErrorCode,
+    message: isString,
+  }),
+};
+
+/**
+ * Check whether a string is a known WebView → RN message type.
+ */
+export function isWebViewToRNMessageType(type: string): type is WebViewToRNMessageType {
+  return Object.prototype.hasOwnProperty.call(payloadValidators, type);
+}
+
+/**
+ * Validate the envelope and payload of a parsed WebView message.
+ */
+export function validateWebViewMessage(value: unknown): MessageValidationResult {
+  if (!isRecord(value)) {
+    return { valid: false, reason: 'Message is not an object', type: null };
+  }
+
+  const type = isString(value.type) ? value.type : null;
+  if (type === null) {
+    return { valid: false, reason: 'Missing message type', type };
+  }
+  if (!isWebViewToRNMessageType(type)) {
+    return { valid: false, reason: `Unknown message type: ${type}`, type };
+  }
+  if (!isString(value.messageId)) {
+    return { valid: false, reason: 'Missing messageId', type };
+  }
+  if (!isNumber(value.timestamp)) {
+    return { valid: false, reason: 'Missing timestamp', type };
+  }
+  if (value.replyTo !== undefined && !isString(value.replyTo)) {
+    return { valid: false, reason: 'Invalid replyTo', type };
+  }
+  if (!payloadValidators[type](value.payload)) {
+    return { valid: false, reason: `Invalid payload for ${type}`, type };
+  }
+
+  return { valid: true, message: value as unknown as WebViewToRNMessage };
+}
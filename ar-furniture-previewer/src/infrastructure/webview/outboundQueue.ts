@@ -0,0 +1,66 @@
+/**
+ * Outbound Queue Policies
+ *
+ * Per-type rules for RN → WebView messages sent before the page can take them.
+ * Messages are delivered strictly in send order; a message waiting for its
+ * gate holds back everything queued after it.
+ *
+ * @module infrastructure/webview/outboundQueue
+ */
+
+import type { RNToWebViewMessageType, WebViewMessage } from '@core/types/webview.types';
+
+/**
+ * When a message may be delivered.
+ * ATTACHED: as soon as a WebView is mounted; READY: after AR_READY.
+ */
+export type DeliveryGate = 'ATTACHED' | 'READY';
+
+/**
+ * What to do with a message that cannot be delivered yet.
+ * QUEUE: keep it; LATEST: keep it and drop earlier queued ones of the same
+ * type; DROP: reject it.
+ */
+export type QueueBehavior = 'QUEUE' | 'LATEST' | 'DROP';
+
+/**
+ * Queueing policy for one message type.
+ */
+export interface OutboundPolicy {
+  gate: DeliveryGate;
+  behavior: QueueBehavior;
+}
+
+/**
+ * Policies for every RN → WebView message type.
+ */
+export const OUTBOUND_POLICIES: { [K in RNToWebViewMessageType]: OutboundPolicy } = {
+  INIT_AR: { gate: 'ATTACHED', behavior: 'LATEST' },
+  LOAD_MODEL: { gate: 'READY', behavior: 'QUEUE' },
+  REMOVE_MODEL: { gate: 'READY', behavior: 'QUEUE' },
+  UPDATE_TRANSFORM: { gate: 'READY', behavior: 'QUEUE' },
+  CAPTURE_SCENE: { gate: 'READY', behavior: 'DROP' },
+  RESTORE_SCENE: { gate: 'READY', behavior: 'LATEST' },
+  START_SCAN: { gate: 'READY', behavior: 'QUEUE' },
+  CAPTURE_SCAN_PHOTO: { gate: 'READY', behavior: 'DROP' },
+  END_SCAN: { gate: 'READY', behavior: 'QUEUE' },
+  CANCEL_SCAN: { gate: 'READY', behavior: 'QUEUE' },
+  RESET_AR: { gate: 'READY', behavior: 'LATEST' },
+  PAUSE_AR: { gate: 'READY', behavior: 'LATEST' },
+  RESUME_AR: { gate: 'READY', behavior: 'LATEST' },
+  TRANSFER_BEGIN: { gate: 'READY', behavior: 'QUEUE' },
+  TRANSFER_CHUNK: { gate: 'READY', behavior: 'QUEUE' },
+  TRANSFER_COMMIT: { gate: 'READY', behavior: 'QUEUE' },
+  TRANSFER_ABORT: { gate: 'READY', behavior: 'DROP' },
+  PING: { gate: 'READY', behavior: 'DROP' },
+};
+
+/**
+ * A message waiting in the outbound queue.
+ */
+export interface QueuedMessage {
+  message: WebViewMessage<RNToWebViewMessageType>;
+  gate: DeliveryGate;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
@@ -0,0 +1,109 @@
+/**
+ * Bridge Protocol
+ *
+ * Version handshake between the app and the AR web page. The app announces
+ * the versions and message types it speaks in INIT_AR; the page answers with
+ * its chosen version and supported message types in AR_READY. Pages that
+ * predate the handshake are treated as version 1.
+ *
+ * @module infrastructure/webview/protocol
+ */
+
+import type {
+  ARReadyPayload,
+  BridgeFeature,
+  NegotiatedProtocol,
+  RNToWebViewMessageType,
+  WebViewToRNMessageType,
+} from '@core/types/webview.types';
+import { OUTBOUND_POLICIES } from './outboundQueue';
+import { payloadValidators } from './messageValidators';
+
+/**
+ * Protocol version introduced by this app build.
+ * v1: original message set. v2: replyTo correlation, chunked and file URL
+ * model transports, heartbeat, version handshake.
+ */
+export const BRIDGE_PROTOCOL_VERSION = 2;
+
+/**
+ * Protocol versions this app can speak, newest first.
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [2, 1];
+
+/**
+ * RN → WebView message types every v1 page handles.
+ */
+const V1_MESSAGE_TYPES: readonly RNToWebViewMessageType[] = [
+  'INIT_AR',
+  'LOAD_MODEL',
+  'REMOVE_MODEL',
+  'UPDATE_TRANSFORM',
+  'CAPTURE_SCENE',
+  'RESTORE_SCENE',
+  'START_SCAN',
+  'CAPTURE_SCAN_PHOTO',
+  'END_SCAN',
+  'CANCEL_SCAN',
+  'RESET_AR',
+  'PAUSE_AR',
+  'RESUME_AR',
+];
+
+/**
+ * Message types the app can send.
+ */
+export function getOutboundMessageTypes(): RNToWebViewMessageType[] {
+  return Object.keys(OUTBOUND_POLICIES) as RNToWebViewMessageType[];
+}
+
+/**
+ * Message types the app can receive.
+ */
+export function getInboundMessageTypes(): WebViewToRNMessageType[] {
+  return Object.keys(payloadValidators) as WebViewToRNMessageType[];
+}
+
+/**
+ * Negotiate the session protocol from the page's AR_READY payload.
+ * Returns null when the page speaks no version this app supports.
+ */
+export function negotiateProtocol(payload: ARReadyPayload): NegotiatedProtocol | null {
+  const version = payload.protocolVersion ?? 1;
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+    return null;
+  }
+
+  const known = new Set<string>(getOutboundMessageTypes());
+  const messageTypes = (payload.messageTypes ?? V1_MESSAGE_TYPES).filter(
+    (type): type is RNToWebViewMessageType => known.has(type)
+  );
+  const handles = (...types: RNToWebViewMessageType[]): boolean =>
+    types.every(type => messageTypes.includes(type));
+  const transports = payload.capabilities.modelTransports ?? [];
+
+  const features: BridgeFeature[] = [];
+  if (version >= 2) {
+    features.push('CORRELATED_REPLIES');
+  }
+  if (
+    transports.includes('CHUNKED') &&
+    handles('TRANSFER_BEGIN', 'TRANSFER_CHUNK', 'TRANSFER_COMMIT')
+  ) {
+    features.push('CHUNKED_TRANSFER');
+  }
+  if (version >= 2 && transports.includes('FILE_URL')) {
+    features.push('FILE_URL_MODELS');
+  }
+  if (handles('PING')) {
+    features.push('HEARTBEAT');
+  }
+  if (payload.capabilities.scanning && handles('START_SCAN', 'CAPTURE_SCAN_PHOTO', 'END_SCAN')) {
+    features.push('SCANNING');
+  }
+  if (payload.vpsAvailable && payload.capabilities.vps) {
+    features.push('VPS');
+  }
+
+  return { version, messageTypes, features };
+}
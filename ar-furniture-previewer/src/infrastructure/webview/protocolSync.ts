@@ -0,0 +1,26 @@
+/**
+ * Protocol Sync
+ *
+ * Publishes the bridge's protocol handshake result to the AR store so
+ * screens can hide actions the AR page does not support.
+ *
+ * @module infrastructure/webview/protocolSync
+ */
+
+import type { Unsubscribe } from '@core/types/webview.types';
+import { useARStore } from '@core/stores/useARStore';
+import { arWebViewBridge, type ARWebViewBridge } from './ARWebViewBridge';
+
+/**
+ * Install protocol sync on a bridge.
+ * Returns a function that removes it.
+ */
+export function installProtocolSync(bridge: ARWebViewBridge = arWebViewBridge): Unsubscribe {
+  return bridge.onProtocolNegotiated(protocol => {
+    const store = useARStore.getState();
+    store.setProtocol(protocol);
+    if (!protocol) {
+      store.setError('PROTOCOL_MISMATCH', 'This version of the AR page is not supported');
+    }
+  });
+}
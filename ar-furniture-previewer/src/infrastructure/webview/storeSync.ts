@@ -0,0 +1,131 @@
+/**
+ * Store Sync
+ *
+ * Applies inbound AR engine events to useARStore and useSceneStore, so store
+ * state mirrors the engine whichever code sent the request. Every update is
+ * idempotent: ARService applies its own replies as well, and either may run
+ * first.
+ *
+ * Replies whose meaning depends on the request, like SCENE_RESTORED, are
+ * applied by ARService instead.
+ *
+ * @module infrastructure/webview/storeSync
+ */
+
+import type { Unsubscribe } from '@core/types/webview.types';
+import { useARStore } from '@core/stores/useARStore';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { arWebViewBridge, type ARWebViewBridge } from './ARWebViewBridge';
+import { MessageHandlerRegistry } from './messageHandlers';
+
+/**
+ * Install store sync on a bridge.
+ * Returns a function that removes it; store state is left as it was.
+ */
+export function installStoreSync(bridge: ARWebViewBridge = arWebViewBridge): Unsubscribe {
+  const handlers = new MessageHandlerRegistry(bridge);
+
+  const startInitializing = (): void => {
+    const store = useARStore.getState();
+    if (store.status !== 'INITIALIZING') store.setStatus('INITIALIZING');
+  };
+
+  const subscriptions: Unsubscribe[] = [
+    // A loading page may report AR_READY before INIT_AR is sent
+    bridge.onPageLoad(startInitializing),
+
+    bridge.onTraffic(event => {
+      // Also sent again by the bridge after a WebView reload
+      if (event.direction === 'OUT' && event.message.type === 'INIT_AR') startInitializing();
+    }),
+
+    handlers.on('AR_READY', ({ capabilities }) => {
+      const store = useARStore.getState();
+      store.setCapabilities(capabilities);
+      store.setInitialized(true);
+    }),
+
+    handlers.on('AR_ERROR', ({ code, message }, { replyTo }) => {
+      // Errors answering a request belong to that request
+      if (replyTo !== undefined) return;
+      useARStore.getState().setError(code, message);
+    }),
+
+    handlers.on('SURFACE_DETECTED', ({ normal }) => {
+      useARStore.getState().setSurfaceDetected(true, normal);
+    }),
+
+    handlers.on('TRACKING_STATE', ({ state, reason }) => {
+      const store = useARStore.getState();
+      store.setTrackingState(state, reason);
+      // Without tracking the engine drops its surfaces
+      if (state === 'NOT_AVAILABLE' && store.surfaceDetected) {
+        store.clearSurface();
+      }
+    }),
+
+    handlers.on('MODEL_PLACED', ({ modelId, objectId, transform }) => {
+      const scene = useSceneStore.getState();
+      if (!scene.getObjectById(objectId)) {
+        scene.addObject({ id: objectId, modelId, transform, placedAt: Date.now() });
+      }
+
+      const ar = useARStore.getState();
+      if (ar.placementMode === 'PLACING' && ar.modelToPlace === modelId) {
+        ar.confirmPlacement();
+      }
+    }),
+
+    handlers.on('MODEL_ERROR', ({ modelId }) => {
+      const ar = useARStore.getState();
+      if (ar.placementMode === 'PLACING' && ar.modelToPlace === modelId) {
+        ar.cancelPlacement();
+      }
+    }),
+
+    handlers.on('TRANSFORM_UPDATED', ({ objectId, transform, gestureType }) => {
+      const scene = useSceneStore.getState();
+      if (scene.getObjectById(objectId)) {
+        // One gesture is one undo step
+        scene.updateObjectTransform(objectId, transform, { coalesceKey: gestureType });
+      }
+    }),
+
+    handlers.on('SCAN_PROGRESS', ({ sessionId, coverage, missingAngles }) => {
+      const { scanSession, updateScan } = useSceneStore.getState();
+      if (scanSession?.sessionId !== sessionId) return;
+      updateScan({ coverage, missingAngles });
+    }),
+
+    handlers.on('SCAN_PHOTO_CAPTURED', ({ photoId, angle, quality }) => {
+      const { scanSession, updateScan } = useSceneStore.getState();
+      if (!scanSession || scanSession.photos.some(photo => photo.photoId === photoId)) return;
+      updateScan({
+        photos: [
+          ...scanSession.photos,
+          { photoId, angle, quality: quality.quality, timestamp: Date.now() },
+        ],
+      });
+    }),
+
+    handlers.on('SCAN_COMPLETE', ({ sessionId }) => {
+      const { scanSession, endScan } = useSceneStore.getState();
+      if (scanSession?.sessionId === sessionId) endScan();
+    }),
+
+    handlers.on('SCAN_FAILED', ({ sessionId, recoverable }) => {
+      const { scanSession, updateScan, endScan } = useSceneStore.getState();
+      if (scanSession?.sessionId !== sessionId) return;
+      if (!recoverable) {
+        endScan();
+      } else if (scanSession.status === 'PROCESSING') {
+        // The photos are kept so the user can add more and try again
+        updateScan({ status: 'CAPTURING' });
+      }
+    }),
+  ];
+
+  return () => {
+    subscriptions.forEach(unsubscribe => unsubscribe());
+  };
+}
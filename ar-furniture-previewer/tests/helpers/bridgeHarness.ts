@@ -0,0 +1,149 @@
+/**
+ * Bridge Harness
+ *
+ * Drives a fresh ARWebViewBridge against a fake WebView: records what the
+ * bridge injects and feeds it page messages as the WebView would.
+ */
+
+import type { RefObject } from 'react';
+import type { WebView, WebViewMessageEvent } from 'react-native-webview';
+import type {
+  ARReadyPayload,
+  RNToWebViewMessage,
+  RNToWebViewMessageType,
+  TypedWebViewMessage,
+  WebViewToRNMessageMap,
+  WebViewToRNMessageType,
+} from '@core/types/webview.types';
+import { ARWebViewBridge } from '@infrastructure/webview/ARWebViewBridge';
+import { createFakeWebViewRef } from '@infrastructure/webview/fakeWebView';
+
+let pageMessageCounter = 0;
+
+/**
+ * AR_READY from a page speaking the current protocol with every feature.
+ */
+export const V2_READY: ARReadyPayload = {
+  sdkVersion: 'test',
+  vpsAvailable: false,
+  capabilities: {
+    surfaceDetection: true,
+    lightEstimation: true,
+    vps: false,
+    scanning: true,
+    maxObjects: 20,
+    modelTransports: ['INLINE', 'CHUNKED', 'FILE_URL'],
+  },
+  protocolVersion: 2,
+  messageTypes: [
+    'INIT_AR',
+    'LOAD_MODEL',
+    'REMOVE_MODEL',
+    'UPDATE_TRANSFORM',
+    'CAPTURE_SCENE',
+    'RESTORE_SCENE',
+    'START_SCAN',
+    'CAPTURE_SCAN_PHOTO',
+    'END_SCAN',
+    'CANCEL_SCAN',
+    'RESET_AR',
+    'PAUSE_AR',
+    'RESUME_AR',
+    'TRANSFER_BEGIN',
+    'TRANSFER_CHUNK',
+    'TRANSFER_COMMIT',
+    'TRANSFER_ABORT',
+    'PING',
+  ],
+};
+
+/**
+ * AR_READY from a page that predates the handshake.
+ */
+export const V1_READY: ARReadyPayload = {
+  sdkVersion: 'test',
+  vpsAvailable: false,
+  capabilities: {
+    surfaceDetection: true,
+    lightEstimation: true,
+    vps: false,
+    scanning: true,
+    maxObjects: 20,
+  },
+};
+
+export interface BridgeHarness {
+  bridge: ARWebViewBridge;
+  /** The fake WebView's ref */
+  ref: RefObject<WebView>;
+  /** Messages injected into the page, in order */
+  sent: RNToWebViewMessage[];
+  /** Number of times the bridge reloaded the page */
+  reloads: () => number;
+  /** Attach the bridge to the fake WebView */
+  attach: () => void;
+  /** Deliver a page message, optionally as a reply */
+  receive: <K extends WebViewToRNMessageType>(
+    type: K,
+    payload: WebViewToRNMessageMap[K],
+    replyTo?: string
+  ) => void;
+  /** Deliver raw message data */
+  receiveRaw: (data: string) => void;
+  /** Attach and complete the handshake */
+  connect: (ready?: ARReadyPayload) => void;
+  /** Last message of a type injected into the page */
+  lastSent: <K extends RNToWebViewMessageType>(type: K) => TypedWebViewMessage<K>;
+  /** Types of all injected messages, in order */
+  sentTypes: () => RNToWebViewMessageType[];
+}
+
+/**
+ * Create a fresh bridge wired to a fake WebView.
+ */
+export function createBridgeHarness(bridge = new ARWebViewBridge()): BridgeHarness {
+  const sent: RNToWebViewMessage[] = [];
+  let reloads = 0;
+  const ref = createFakeWebViewRef(() => {
+    reloads++;
+  });
+  bridge.onTraffic(event => {
+    if (event.direction === 'OUT') sent.push(event.message as RNToWebViewMessage);
+  });
+
+  const receiveRaw = (data: string): void => {
+    bridge.handleMessage({ nativeEvent: { data } } as WebViewMessageEvent);
+  };
+
+  const receive: BridgeHarness['receive'] = (type, payload, replyTo) => {
+    receiveRaw(
+      JSON.stringify({
+        type,
+        payload,
+        messageId: `page_${++pageMessageCounter}`,
+        timestamp: Date.now(),
+        ...(replyTo === undefined ? {} : { replyTo }),
+      })
+    );
+  };
+
+  return {
+    bridge,
+    ref,
+    sent,
+    reloads: () => reloads,
+    attach: () => bridge.attach(ref),
+    receive,
+    receiveRaw,
+    connect: (ready = V2_READY) => {
+      bridge.attach(ref);
+      receive('AR_READY', ready);
+    },
+    lastSent: <K extends RNToWebViewMessageType>(type: K): TypedWebViewMessage<K> => {
+      const message = [...sent].reverse().find(entry => entry.type === type);
+      if (!message) throw new Error(`No ${type} was sent`);
+      return message as TypedWebViewMessage<K>;
+    },
+    sentTypes: () => sent.map(message => message.type),
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * Let pending promise callbacks run. Only for real timers.
+ */
+export function flushPromises(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
@@ -0,0 +1,145 @@
+/**
+ * GLB Builders
+ *
+ * Assemble small GLB files in memory for parser, validator and import tests.
+ */
+
+const GLB_MAGIC = 0x46546c67;
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+type Vec3 = [number, number, number];
+
+/**
+ * Pad a chunk to 4 bytes with the given byte.
+ */
+function pad(bytes: Uint8Array, fill: number): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(bytes.length / 4) * 4).fill(fill);
+  padded.set(bytes);
+  return padded;
+}
+
+/**
+ * Build a GLB file from a glTF JSON document and an optional binary chunk.
+ * The JSON is taken as is, so malformed documents can be built too.
+ */
+export function buildGLB(json: unknown, bin?: Uint8Array): Uint8Array {
+  const jsonChunk = pad(Buffer.from(JSON.stringify(json), 'utf8'), 0x20);
+  const binChunk = bin ? pad(bin, 0) : null;
+  const length = 12 + 8 + jsonChunk.length + (binChunk ? 8 + binChunk.length : 0);
+
+  const out = new Uint8Array(length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, length, true);
+  view.setUint32(12, jsonChunk.length, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  out.set(jsonChunk, 20);
+  if (binChunk) {
+    const offset = 20 + jsonChunk.length;
+    view.setUint32(offset, binChunk.length, true);
+    view.setUint32(offset + 4, CHUNK_BIN, true);
+    out.set(binChunk, offset + 8);
+  }
+  return out;
+}
+
+/**
+ * glTF document and binary chunk for a single box mesh: eight float corner
+ * positions in one buffer view, with accessor min/max.
+ */
+export function boxDocument(
+  min: Vec3 = [-0.5, 0, -0.5],
+  max: Vec3 = [0.5, 1, 0.5]
+): { json: Record<string, unknown>; bin: Uint8Array } {
+  const positions = new Float32Array(24);
+  for (let corner = 0; corner < 8; corner++) {
+    positions[corner * 3] = corner & 1 ? max[0] : min[0];
+    positions[corner * 3 + 1] = corner & 2 ? max[1] : min[1];
+    positions[corner * 3 + 2] = corner & 4 ? max[2] : min[2];
+  }
+  const bin = new Uint8Array(positions.buffer);
+
+  return {
+    json: {
+      asset: { version: '2.0' },
+      scene: 0,
+      scenes: [{ nodes: [0] }],
+      nodes: [{ mesh: 0 }],
+      meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+      accessors: [{ bufferView: 0, componentType: 5126, count: 8, type: 'VEC3', min, max }],
+      bufferViews: [{ buffer: 0, byteOffset: 0, byteLength: bin.length }],
+      buffers: [{ byteLength: bin.length }],
+    },
+    bin,
+  };
+}
+
+/**
+ * A valid GLB holding one box.
+ */
+export function buildBoxGLB(min?: Vec3, max?: Vec3): Uint8Array {
+  const { json, bin } = boxDocument(min, max);
+  return buildGLB(json, bin);
+}
+
+/**
+ * Corner quads of the box faces, corners numbered as in boxDocument.
+ */
+const BOX_FACES: [number, number, number, number][] = [
+  [0, 2, 6, 4],
+  [1, 5, 7, 3],
+  [0, 4, 5, 1],
+  [2, 3, 7, 6],
+  [0, 1, 3, 2],
+  [4, 6, 7, 5],
+];
+
+/**
+ * A GLB holding a closed box: the boxDocument corners drawn as twelve
+ * indexed triangles with a single base colour.
+ */
+export function buildSolidBoxGLB(
+  min?: Vec3,
+  max?: Vec3,
+  baseColor: [number, number, number, number] = [0.8, 0.1, 0.1, 1]
+): Uint8Array {
+  const { json, bin: positions } = boxDocument(min, max);
+  const indices = new Uint16Array(BOX_FACES.flatMap(([a, b, c, d]) => [a, b, c, a, c, d]));
+  const bin = new Uint8Array(positions.length + indices.byteLength);
+  bin.set(positions);
+  bin.set(new Uint8Array(indices.buffer), positions.length);
+
+  return buildGLB(
+    {
+      ...json,
+      meshes: [{ primitives: [{ attributes: { POSITION: 0 }, indices: 1, material: 0 }] }],
+      materials: [{ pbrMetallicRoughness: { baseColorFactor: baseColor } }],
+      accessors: [
+        ...(json.accessors as unknown[]),
+        { bufferView: 1, componentType: 5123, count: indices.length, type: 'SCALAR' },
+      ],
+      bufferViews: [
+        { buffer: 0, byteOffset: 0, byteLength: positions.length },
+        { buffer: 0, byteOffset: positions.length, byteLength: indices.byteLength },
+      ],
+      buffers: [{ byteLength: bin.length }],
+    },
+    bin
+  );
+}
+
+/**
+ * Header bytes of a PNG of the given size.
+ */
+export function pngHeader(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(33);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
@@ -0,0 +1,253 @@
+/**
+ * JPEG Decoder
+ *
+ * Minimal baseline decoder for checking encoder output in tests: Huffman
+ * coded, one scan, no restart markers, every component sampled 1x1.
+ */
+
+/** Natural-order index of each zigzag position */
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20,
+  13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52,
+  45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** Symbols keyed by code length and code */
+type HuffmanTable = Map<number, number>;
+
+interface Component {
+  id: number;
+  quant: number;
+  dcTable: number;
+  acTable: number;
+  previousDc: number;
+}
+
+export interface DecodedJPEG {
+  width: number;
+  height: number;
+  /** Opaque RGBA pixels */
+  rgba: Uint8Array;
+}
+
+function buildTable(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+  const table: HuffmanTable = new Map();
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < (counts[length - 1] ?? 0); i++) {
+      table.set((length << 16) | code, symbols[k++] ?? 0);
+      code++;
+    }
+    code <<= 1;
+  }
+  return table;
+}
+
+/**
+ * Reads entropy-coded bits, skipping the zero stuffed after each 0xFF.
+ */
+class BitReader {
+  private bit = 0;
+  private current = 0;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    private offset: number
+  ) {}
+
+  read(): number {
+    if (this.bit === 0) {
+      this.current = this.bytes[this.offset++] ?? 0;
+      if (this.current === 0xff) {
+        const next = this.bytes[this.offset++];
+        if (next !== 0) throw new Error(`Unexpected marker 0xFF${next?.toString(16)} in scan`);
+      }
+      this.bit = 8;
+    }
+    this.bit--;
+    return (this.current >> this.bit) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | this.read();
+    return value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.read();
+      const symbol = table.get((length << 16) | code);
+      if (symbol !== undefined) return symbol;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+
+  /** Where the scan ends, after any padding bits */
+  get position(): number {
+    return this.offset;
+  }
+}
+
+/**
+ * Signed value of a magnitude category's bits.
+ */
+function extend(bits: number, category: number): number {
+  return category > 0 && bits < 1 << (category - 1) ? bits - (1 << category) + 1 : bits;
+}
+
+/** cos((2x + 1) u pi / 16), indexed u * 8 + x */
+const COSINES = Array.from({ length: 64 }, (_, i) =>
+  Math.cos(((2 * (i % 8) + 1) * Math.floor(i / 8) * Math.PI) / 16)
+);
+
+function inverseDct(coefficients: Float64Array): Float64Array {
+  const out = new Float64Array(64);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) {
+        for (let u = 0; u < 8; u++) {
+          const scale = (u === 0 ? Math.SQRT1_2 : 1) * (v === 0 ? Math.SQRT1_2 : 1);
+          sum +=
+            scale *
+            (coefficients[v * 8 + u] ?? 0) *
+            (COSINES[u * 8 + x] ?? 0) *
+            (COSINES[v * 8 + y] ?? 0);
+        }
+      }
+      out[y * 8 + x] = sum / 4;
+    }
+  }
+  return out;
+}
+
+function clampByte(value: number): number {
+  return Math.min(255, Math.max(0, Math.round(value)));
+}
+
+/**
+ * Decode a baseline JPEG. Throws on anything it does not support.
+ */
+export function decodeJPEG(bytes: Uint8Array): DecodedJPEG {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Missing SOI');
+
+  const quantTables: number[][] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: Component[] = [];
+  let width = 0;
+  let height = 0;
+  let offset = 2;
+
+  for (;;) {
+    if (bytes[offset] !== 0xff) throw new Error(`Expected a marker at ${offset}`);
+    const marker = bytes[offset + 1] ?? 0;
+    const length = ((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0);
+    const body = bytes.subarray(offset + 4, offset + 2 + length);
+    offset += 2 + length;
+
+    if (marker === 0xdb) {
+      for (let i = 0; i < body.length; i += 65) {
+        if ((body[i] ?? 0) >> 4 !== 0) throw new Error('16-bit quantization tables');
+        const table = new Array<number>(64);
+        for (let k = 0; k < 64; k++) table[ZIGZAG[k] ?? 0] = body[i + 1 + k] ?? 0;
+        quantTables[(body[i] ?? 0) & 15] = table;
+      }
+    } else if (marker === 0xc0) {
+      height = ((body[1] ?? 0) << 8) | (body[2] ?? 0);
+      width = ((body[3] ?? 0) << 8) | (body[4] ?? 0);
+      components = [];
+      for (let c = 0; c < (body[5] ?? 0); c++) {
+        if (body[7 + c * 3] !== 0x11) throw new Error('Subsampled components');
+        components.push({
+          id: body[6 + c * 3] ?? 0,
+          quant: body[8 + c * 3] ?? 0,
+          dcTable: 0,
+          acTable: 0,
+          previousDc: 0,
+        });
+      }
+    } else if (marker === 0xc4) {
+      for (let i = 0; i < body.length; ) {
+        const info = body[i] ?? 0;
+        const counts = body.subarray(i + 1, i + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildTable(counts, body.subarray(i + 17, i + 17 + total));
+        (info >> 4 === 0 ? dcTables : acTables)[info & 15] = table;
+        i += 17 + total;
+      }
+    } else if (marker === 0xda) {
+      for (let c = 0; c < (body[0] ?? 0); c++) {
+        const component = components.find(candidate => candidate.id === body[1 + c * 2]);
+        if (!component) throw new Error('Scan names an unknown component');
+        component.dcTable = (body[2 + c * 2] ?? 0) >> 4;
+        component.acTable = (body[2 + c * 2] ?? 0) & 15;
+      }
+      break;
+    } else if (marker === 0xd9 || (marker >= 0xc1 && marker <= 0xcf && marker !== 0xc4)) {
+      throw new Error(`Unsupported marker 0xFF${marker.toString(16)}`);
+    }
+  }
+
+  const reader = new BitReader(bytes, offset);
+  const planes = components.map(() => new Float64Array(width * height));
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      components.forEach((component, c) => {
+        const quant = quantTables[component.quant] ?? [];
+        const dcTable = dcTables[component.dcTable];
+        const acTable = acTables[component.acTable];
+        if (!dcTable || !acTable) throw new Error('Missing Huffman table');
+
+        const coefficients = new Float64Array(64);
+        const category = reader.decode(dcTable);
+        component.previousDc += extend(reader.receive(category), category);
+        coefficients[0] = component.previousDc * (quant[0] ?? 0);
+        for (let k = 1; k < 64; ) {
+          const symbol = reader.decode(acTable);
+          const run = symbol >> 4;
+          const size = symbol & 15;
+          if (size === 0) {
+            if (run !== 15) break;
+            k += 16;
+            continue;
+          }
+          k += run;
+          const index = ZIGZAG[k] ?? 0;
+          coefficients[index] = extend(reader.receive(size), size) * (quant[index] ?? 0);
+          k++;
+        }
+
+        const samples = inverseDct(coefficients);
+        const plane = planes[c] as Float64Array;
+        for (let i = 0; i < 64; i++) {
+          const x = blockX + (i % 8);
+          const y = blockY + Math.floor(i / 8);
+          if (x < width && y < height) plane[y * width + x] = samples[i] ?? 0;
+        }
+      });
+    }
+  }
+
+  const end = reader.position;
+  if (bytes[end] !== 0xff || bytes[end + 1] !== 0xd9 || end + 2 !== bytes.length) {
+    throw new Error('Missing EOI after the scan');
+  }
+
+  const [luma, cb, cr] = planes;
+  if (!luma || !cb || !cr) throw new Error('Expected three components');
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const y = (luma[i] ?? 0) + 128;
+    const u = cb[i] ?? 0;
+    const v = cr[i] ?? 0;
+    rgba[i * 4] = clampByte(y + 1.402 * v);
+    rgba[i * 4 + 1] = clampByte(y - 0.344136 * u - 0.714136 * v);
+    rgba[i * 4 + 2] = clampByte(y + 1.772 * u);
+    rgba[i * 4 + 3] = 255;
+  }
+  return { width, height, rgba };
+}
@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from '@jest/globals';
+import { BUNDLED_MODEL_MANIFEST } from '@core/constants/bundledModels';
+import { MODEL_LIMITS } from '@core/constants/limits';
+import { readGLBMetadata, readImageSize } from '@core/services/glbParser';
+import { glbValidatorService } from '@core/services/GLBValidatorService';
+import { suggestScale } from '@core/services/modelSizing';
+
+const MODELS_DIR = join(__dirname, '../../../assets/models');
+
+function readAsset(path: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(MODELS_DIR, path)));
+}
+
+describe('BUNDLED_MODEL_MANIFEST', () => {
+  it('has unique IDs and files', () => {
+    const { models } = BUNDLED_MODEL_MANIFEST;
+
+    expect(new Set(models.map(entry => entry.id)).size).toBe(models.length);
+    expect(new Set(models.map(entry => entry.file)).size).toBe(models.length);
+  });
+
+  describe.each(BUNDLED_MODEL_MANIFEST.models.map(entry => [entry.id, entry] as const))(
+    '%s',
+    (_id, entry) => {
+      it('ships a valid GLB', () => {
+        const report = glbValidatorService.validate(readAsset(entry.file));
+
+        expect(report.issues).toEqual([]);
+      });
+
+      it('lists the metadata of its file', () => {
+        const metadata = readGLBMetadata(readAsset(entry.file));
+
+        expect(entry.metadata).toEqual({
+          ...metadata,
+          boundingBox: {
+            min: metadata.boundingBox.min.map(value => expect.closeTo(value, 4)),
+            max: metadata.boundingBox.max.map(value => expect.closeTo(value, 4)),
+            center: metadata.boundingBox.center.map(value => expect.closeTo(value, 4)),
+            size: metadata.boundingBox.size.map(value => expect.closeTo(value, 4)),
+          },
+        });
+      });
+
+      it('is a plausible size for its category at its scale', () => {
+        const size = entry.metadata.boundingBox.size.map(value => value * entry.scale);
+
+        expect(suggestScale(size as [number, number, number], entry.category)).toMatchObject({
+          unit: 'METERS',
+          plausible: true,
+        });
+      });
+
+      it('ships a thumbnail of the library size', () => {
+        expect(readImageSize(readAsset(`thumbnails/${entry.thumbnail}`))).toEqual({
+          width: MODEL_LIMITS.THUMBNAIL_SIZE,
+          height: MODEL_LIMITS.THUMBNAIL_SIZE,
+        });
+      });
+    }
+  );
+});
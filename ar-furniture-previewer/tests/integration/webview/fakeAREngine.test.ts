@@ -0,0 +1,302 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { ScenePayload, WebViewMessage } from '@core/types/webview.types';
+import { MODEL_LIMITS } from '@core/constants/limits';
+import { ARWebViewBridge } from '@infrastructure/webview/ARWebViewBridge';
+import { FakeAREngine, type FakeAREngineConfig } from '@infrastructure/webview/FakeAREngine';
+
+const INIT = { apiKey: 'key', enableVPS: false, debugMode: false };
+const TRANSFORM = {
+  position: [0, 0, -1] as [number, number, number],
+  rotation: [1, 0, 0, 0] as [number, number, number, number],
+  scale: [1, 1, 1] as [number, number, number],
+};
+
+interface Session {
+  bridge: ARWebViewBridge;
+  engine: FakeAREngine;
+  inbound: WebViewMessage[];
+}
+
+/**
+ * Connect a fresh bridge to a fake engine and complete INIT_AR.
+ */
+async function startSession(config: FakeAREngineConfig = {}): Promise<Session> {
+  const bridge = new ARWebViewBridge();
+  const engine = new FakeAREngine({ surfaceDelayMs: 100, ...config });
+  const inbound: WebViewMessage[] = [];
+  bridge.onAny(message => inbound.push(message));
+  engine.connect(bridge);
+
+  void bridge.initAR(INIT);
+  await jest.advanceTimersByTimeAsync(1000);
+  return { bridge, engine, inbound };
+}
+
+/**
+ * Place a model and report whether it succeeded.
+ */
+function place(bridge: ARWebViewBridge, modelId: string): Promise<string> {
+  return bridge
+    .sendAndWait('LOAD_MODEL', { modelId, glbData: 'Z2xURg==' }, 'MODEL_PLACED', 1000)
+    .then(
+      () => 'placed',
+      (error: { code?: string; remoteCode?: string }) => `${error.code}:${error.remoteCode ?? ''}`
+    );
+}
+
+describe('ARWebViewBridge against FakeAREngine', () => {
+  let sessions: Session[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    sessions = [];
+  });
+
+  afterEach(() => {
+    sessions.forEach(({ engine }) => engine.disconnect());
+    jest.useRealTimers();
+  });
+
+  async function session(config?: FakeAREngineConfig): Promise<Session> {
+    const started = await startSession(config);
+    sessions.push(started);
+    return started;
+  }
+
+  describe('handshake', () => {
+    it('negotiates v2 with every feature', async () => {
+      const { bridge, inbound } = await session();
+
+      expect(bridge.ready).toBe(true);
+      expect(bridge.negotiatedProtocol?.version).toBe(2);
+      expect(bridge.modelTransport).toBe('FILE_URL');
+      expect(bridge.hasFeature('HEARTBEAT')).toBe(true);
+      expect(inbound.map(message => message.type)).toEqual([
+        'AR_READY',
+        'TRACKING_STATE',
+        'TRACKING_STATE',
+        'SURFACE_DETECTED',
+      ]);
+    });
+
+    it('falls back to v1 with a page that only speaks v1', async () => {
+      const { bridge } = await session({ protocolVersions: [1] });
+
+      expect(bridge.negotiatedProtocol?.version).toBe(1);
+      expect(bridge.modelTransport).toBe('INLINE');
+      await expect(bridge.send('PING', { sequence: 1 })).rejects.toMatchObject({
+        code: 'UNSUPPORTED',
+      });
+    });
+
+    it('stays not ready with a page speaking no common version', async () => {
+      const bridge = new ARWebViewBridge();
+      const engine = new FakeAREngine({ protocolVersions: [3] });
+      engine.connect(bridge);
+      sessions.push({ bridge, engine, inbound: [] });
+
+      void bridge.initAR(INIT);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(bridge.ready).toBe(false);
+      expect(bridge.negotiatedProtocol).toBeNull();
+    });
+  });
+
+  describe('latency', () => {
+    it('delivers replies after the configured latency', async () => {
+      const { bridge } = await session({ latencyMs: 40 });
+      const placed = jest.fn();
+      void bridge
+        .sendAndWait('LOAD_MODEL', { modelId: 'chair', glbData: 'Z2xURg==' }, 'MODEL_PLACED')
+        .then(placed);
+
+      await jest.advanceTimersByTimeAsync(39);
+      expect(placed).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(placed).toHaveBeenCalled();
+    });
+
+    it('keeps replies in request order under random latency', async () => {
+      const { bridge } = await session({ latencyMs: [5, 80], seed: 7 });
+      const order: string[] = [];
+
+      const requests = ['a', 'b', 'c', 'd', 'e'].map(modelId =>
+        bridge
+          .sendAndWait('LOAD_MODEL', { modelId, glbData: 'Z2xURg==' }, 'MODEL_PLACED')
+          .then(reply => order.push(reply.payload.modelId))
+      );
+      await jest.advanceTimersByTimeAsync(1000);
+      await Promise.all(requests);
+
+      expect(order).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+  });
+
+  describe('failure injection', () => {
+    it('answers failed requests with the error reply for their type', async () => {
+      const { bridge, engine } = await session();
+      engine.injectFailure('LOAD_MODEL', { code: 'TEXTURE_ERROR', times: 1 });
+
+      const results = [place(bridge, 'chair'), place(bridge, 'chair')];
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(Promise.all(results)).resolves.toEqual(['REMOTE_ERROR:TEXTURE_ERROR', 'placed']);
+    });
+
+    it('times out requests whose messages are dropped', async () => {
+      const { bridge, engine } = await session();
+      engine.injectFailure('LOAD_MODEL', { mode: 'DROP' });
+
+      const result = place(bridge, 'chair');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(result).resolves.toBe('TIMEOUT:');
+    });
+
+    it('fails the same requests for the same seed', async () => {
+      const outcomes = async (): Promise<string[]> => {
+        const { bridge } = await session({
+          seed: 42,
+          failures: { LOAD_MODEL: { rate: 0.5 } },
+        });
+        const results = Array.from({ length: 8 }, () => place(bridge, 'chair'));
+        await jest.advanceTimersByTimeAsync(1000);
+        return Promise.all(results);
+      };
+
+      const first = await outcomes();
+      const second = await outcomes();
+
+      expect(first).toEqual(second);
+      expect(first).toContain('placed');
+      expect(first).toContain('REMOTE_ERROR:PLACEMENT_FAILED');
+    });
+  });
+
+  describe('RESTORE_SCENE', () => {
+    const scene: ScenePayload = {
+      sceneId: 'scene_1',
+      vpsAnchorId: null,
+      anchorType: 'DEVICE_RELATIVE',
+      objects: [
+        { objectId: 'obj_1', modelId: 'chair', transform: TRANSFORM },
+        { objectId: 'obj_2', modelId: 'table', transform: TRANSFORM },
+      ],
+    };
+
+    it('restores objects whose models are provided and reports the rest', async () => {
+      const { bridge, engine } = await session();
+
+      const reply = bridge.sendAndWait(
+        'RESTORE_SCENE',
+        { scene, models: { chair: 'Z2xURg==' } },
+        'SCENE_RESTORED'
+      );
+      await jest.advanceTimersByTimeAsync(100);
+
+      await expect(reply).resolves.toMatchObject({
+        payload: { objectCount: 1, failedObjects: ['obj_2'] },
+      });
+      expect(engine.getPlacedObjects().map(object => object.objectId)).toEqual(['obj_1']);
+    });
+
+    it('restores models sent as chunked transfers', async () => {
+      const { bridge, engine } = await session();
+
+      const payload = bridge.prepareScenePayload(scene, { chair: 'Z2xURg==', table: 'AAAA' });
+      await jest.advanceTimersByTimeAsync(1000);
+      const reply = bridge.sendAndWait('RESTORE_SCENE', await payload, 'SCENE_RESTORED');
+      await jest.advanceTimersByTimeAsync(100);
+
+      await expect(reply).resolves.toMatchObject({
+        payload: { objectCount: 2, failedObjects: [] },
+      });
+      expect(engine.getPlacedObjects()).toHaveLength(2);
+    });
+
+    it('rejects with the injected AR error', async () => {
+      const { bridge, engine } = await session();
+      engine.injectFailure('RESTORE_SCENE', { code: 'NETWORK_ERROR' });
+
+      const reply = bridge
+        .sendAndWait('RESTORE_SCENE', { scene, models: {} }, 'SCENE_RESTORED')
+        .catch((error: unknown) => error);
+      await jest.advanceTimersByTimeAsync(100);
+
+      await expect(reply).resolves.toMatchObject({
+        code: 'REMOTE_ERROR',
+        remoteCode: 'NETWORK_ERROR',
+      });
+    });
+  });
+
+  describe('scanning', () => {
+    async function capturePhotos(bridge: ARWebViewBridge, count: number): Promise<void> {
+      for (let i = 0; i < count; i++) {
+        const photo = bridge.sendAndWait(
+          'CAPTURE_SCAN_PHOTO',
+          { photoId: `photo_${i}` },
+          'SCAN_PHOTO_CAPTURED'
+        );
+        await jest.advanceTimersByTimeAsync(20);
+        await photo;
+      }
+    }
+
+    it('reports progress and completes with enough photos', async () => {
+      const { bridge, inbound } = await session();
+
+      const started = bridge.sendAndWait('START_SCAN', { sessionId: 'scan_1' }, 'SCAN_PROGRESS');
+      await jest.advanceTimersByTimeAsync(20);
+      await expect(started).resolves.toMatchObject({ payload: { photoCount: 0, coverage: 0 } });
+
+      await capturePhotos(bridge, MODEL_LIMITS.MIN_SCAN_PHOTOS);
+      await jest.advanceTimersByTimeAsync(20);
+      const progress = inbound.filter(message => message.type === 'SCAN_PROGRESS').at(-1);
+      expect(progress?.payload).toMatchObject({ photoCount: MODEL_LIMITS.MIN_SCAN_PHOTOS });
+
+      const complete = bridge.sendAndWait('END_SCAN', { sessionId: 'scan_1' }, 'SCAN_COMPLETE');
+      await jest.advanceTimersByTimeAsync(20);
+      await expect(complete).resolves.toMatchObject({
+        payload: { sessionId: 'scan_1', glbData: expect.any(String) },
+      });
+    });
+
+    it('fails scans ended with too few photos', async () => {
+      const { bridge } = await session();
+      void bridge.startScan({ sessionId: 'scan_1' });
+      await capturePhotos(bridge, 2);
+
+      const ended = bridge
+        .sendAndWait('END_SCAN', { sessionId: 'scan_1' }, 'SCAN_COMPLETE')
+        .catch((error: unknown) => error);
+      await jest.advanceTimersByTimeAsync(20);
+
+      await expect(ended).resolves.toMatchObject({
+        code: 'REMOTE_ERROR',
+        remoteCode: 'INSUFFICIENT_PHOTOS',
+      });
+    });
+  });
+
+  describe('crash recovery', () => {
+    it('reloads a hung page and renegotiates', async () => {
+      const { bridge, engine, inbound } = await session();
+      bridge.startHeartbeat({ intervalMs: 100, timeoutMs: 50, maxMissed: 2 });
+      const lost = jest.fn();
+      bridge.onConnectionLost(lost);
+
+      engine.crash();
+      inbound.length = 0;
+      await jest.advanceTimersByTimeAsync(1000);
+      bridge.stopHeartbeat();
+
+      expect(lost).toHaveBeenCalledWith('HEARTBEAT_TIMEOUT');
+      expect(bridge.ready).toBe(true);
+      expect(inbound.map(message => message.type)).toContain('AR_READY');
+    });
+  });
+});
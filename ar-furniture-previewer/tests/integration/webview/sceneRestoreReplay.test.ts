@@ -0,0 +1,99 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import type { ScenePayload } from '@core/types/webview.types';
+import { APP_PATHS } from '@core/constants/paths';
+import { ARService } from '@core/services/ARService';
+import { useARStore } from '@core/stores/useARStore';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { ARWebViewBridge } from '@infrastructure/webview/ARWebViewBridge';
+import { loadRecording, replayRecording } from '@infrastructure/webview/BridgeRecorder';
+import { installStoreSync } from '@infrastructure/webview/storeSync';
+import { resetFiles, setFile } from '@tests/mocks/react-native-fs';
+
+const RECORDING_PATH = `${APP_PATHS.recordings}/scene-restore.json`;
+
+const SCENE: ScenePayload = {
+  sceneId: 'scene_living_room',
+  vpsAnchorId: null,
+  anchorType: 'DEVICE_RELATIVE',
+  objects: [
+    {
+      objectId: 'obj_sofa',
+      modelId: 'bundled_sofa',
+      transform: { position: [0, 0, -1.5], rotation: [1, 0, 0, 0], scale: [1, 1, 1] },
+    },
+    {
+      objectId: 'obj_lamp',
+      modelId: 'user_lamp',
+      transform: { position: [1.2, 0, -1.8], rotation: [0.924, 0, 0.383, 0], scale: [1, 1, 1] },
+    },
+  ],
+};
+
+describe('scene-restore recording', () => {
+  let bridge: ARWebViewBridge;
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    resetFiles();
+    setFile(RECORDING_PATH, readFileSync(join(__dirname, 'recordings/scene-restore.json'), 'utf8'));
+    useARStore.getState().reset();
+    useSceneStore.getState().reset();
+    bridge = new ARWebViewBridge();
+    uninstall = installStoreSync(bridge);
+  });
+
+  afterEach(() => {
+    uninstall();
+  });
+
+  it('replays onto the stores with the messages the app sends', async () => {
+    const service = new ARService(bridge);
+    const recording = await loadRecording(RECORDING_PATH);
+
+    const replay = replayRecording(recording, bridge, { resendOutbound: false });
+    await service.initialize({ apiKey: 'test-key' });
+    const restored = await service.restoreScene({ sceneConfig: SCENE });
+    const result = await replay;
+
+    expect(result.mismatches).toEqual([]);
+    expect(result.inboundDelivered).toBe(7);
+    expect(restored.failedModelIds).toEqual(['user_lamp']);
+
+    expect(useARStore.getState()).toMatchObject({
+      status: 'SURFACE_DETECTED',
+      isInitialized: true,
+      trackingState: 'NORMAL',
+      surfaceNormal: [0, 1, 0],
+      capabilities: { maxObjects: 20, scanning: false },
+    });
+
+    const scene = useSceneStore.getState();
+    expect(scene.placedObjects).toEqual([
+      expect.objectContaining({
+        id: 'obj_sofa',
+        modelId: 'bundled_sofa',
+        transform: { position: [0.3, 0, -1.7], rotation: [1, 0, 0, 0], scale: [1, 1, 1] },
+      }),
+    ]);
+    // Both drag updates belong to one gesture
+    expect(scene.undoStack).toHaveLength(1);
+  });
+
+  it('reports the outbound messages the app failed to send', async () => {
+    const recording = await loadRecording(RECORDING_PATH);
+
+    const result = await replayRecording(recording, bridge, { resendOutbound: false });
+
+    expect(result.expectedOutbound).toEqual(['INIT_AR', 'RESTORE_SCENE']);
+    expect(result.actualOutbound).toEqual([]);
+    expect(result.mismatches).toHaveLength(2);
+  });
+
+  it('rejects recordings in another format version', async () => {
+    setFile(RECORDING_PATH, JSON.stringify({ version: 99, startedAt: 0, entries: [] }));
+
+    await expect(loadRecording(RECORDING_PATH)).rejects.toThrow('Unsupported recording version 99');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * In-memory react-native-fs
+ *
+ * Stands in for the native module in Jest. Files live in a map keyed by
+ * absolute path; directories exist when created or when a file is under them.
+ * Tests reach the contents through the helpers at the bottom.
+ */
+
+const files = new Map<string, Buffer>();
+const directories = new Set<string>();
+const failures = new Map<string, Error>();
+
+type Encoding = 'utf8' | 'base64';
+
+interface ReadDirItem {
+  path: string;
+  name: string;
+  size: number;
+  mtime: Date;
+  ctime: Date;
+  isFile: () => boolean;
+  isDirectory: () => boolean;
+}
+
+function parentOf(path: string): string {
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+function isDirectory(path: string): boolean {
+  if (directories.has(path)) return true;
+  const prefix = `${path}/`;
+  for (const key of [...files.keys(), ...directories]) {
+    if (key.startsWith(prefix)) return true;
+  }
+  return false;
+}
+
+/**
+ * Throw the failure registered for an operation, once.
+ */
+function checkFailure(operation: string, path: string): void {
+  for (const key of [`${operation}:${path}`, operation]) {
+    const error = failures.get(key);
+    if (error) {
+      failures.delete(key);
+      throw error;
+    }
+  }
+}
+
+function notFound(path: string): Error {
+  return new Error(`ENOENT: no such file or directory, ${path}`);
+}
+
+/**
+ * Check the directory a file is written to exists, as the native module does.
+ */
+function checkParent(path: string): void {
+  if (!isDirectory(parentOf(path))) throw notFound(path);
+}
+
+function read(path: string): Buffer {
+  const data = files.get(path);
+  if (!data) throw notFound(path);
+  return data;
+}
+
+function item(path: string): ReadDirItem {
+  const file = files.get(path);
+  return {
+    path,
+    name: path.slice(path.lastIndexOf('/') + 1),
+    size: file?.length ?? 0,
+    mtime: new Date(0),
+    ctime: new Date(0),
+    isFile: () => file !== undefined,
+    isDirectory: () => file === undefined,
+  };
+}
+
+const RNFS = {
+  DocumentDirectoryPath: '/data/documents',
+  TemporaryDirectoryPath: '/data/tmp',
+  CachesDirectoryPath: '/data/caches',
+  MainBundlePath: '/bundle',
+
+  async exists(path: string): Promise<boolean> {
+    checkFailure('exists', path);
+    return files.has(path) || isDirectory(path);
+  },
+
+  async mkdir(path: string): Promise<void> {
+    checkFailure('mkdir', path);
+    directories.add(path);
+  },
+
+  async stat(path: string): Promise<ReadDirItem> {
+    checkFailure('stat', path);
+    if (!files.has(path) && !isDirectory(path)) throw notFound(path);
+    return item(path);
+  },
+
+  async readFile(path: string, encoding: Encoding = 'utf8'): Promise<string> {
+    checkFailure('readFile', path);
+    return read(path).toString(encoding);
+  },
+
+  async writeFile(path: string, content: string, encoding: Encoding = 'utf8'): Promise<void> {
+    checkFailure('writeFile', path);
+    checkParent(path);
+    files.set(path, Buffer.from(content, encoding));
+  },
+
+  async unlink(path: string): Promise<void> {
+    checkFailure('unlink', path);
+    if (!files.has(path) && !isDirectory(path)) throw notFound(path);
+    const prefix = `${path}/`;
+    for (const key of [...files.keys()]) {
+      if (key === path || key.startsWith(prefix)) files.delete(key);
+    }
+    for (const key of [...directories]) {
+      if (key === path || key.startsWith(prefix)) directories.delete(key);
+    }
+  },
+
+  async copyFile(from: string, to: string): Promise<void> {
+    checkFailure('copyFile', to);
+    checkParent(to);
+    files.set(to, Buffer.from(read(from)));
+  },
+
+  async copyFileAssets(from: string, to: string): Promise<void> {
+    checkFailure('copyFileAssets', to);
+    checkParent(to);
+    files.set(to, Buffer.from(read(from)));
+  },
+
+  async moveFile(from: string, to: string): Promise<void> {
+    checkFailure('moveFile', to);
+    const data = read(from);
+    checkParent(to);
+    files.delete(from);
+    files.set(to, data);
+  },
+
+  async readDir(path: string): Promise<ReadDirItem[]> {
+    checkFailure('readDir', path);
+    if (!isDirectory(path)) throw notFound(path);
+    const children = new Set<string>();
+    const prefix = `${path}/`;
+    for (const key of [...files.keys(), ...directories]) {
+      if (!key.startsWith(prefix)) continue;
+      const rest = key.slice(prefix.length);
+      children.add(prefix + rest.split('/')[0]);
+    }
+    return [...children].sort().map(item);
+  },
+
+  async getFSInfo(): Promise<{ freeSpace: number; totalSpace: number }> {
+    return { freeSpace: 1024 * 1024 * 1024, totalSpace: 4 * 1024 * 1024 * 1024 };
+  },
+};
+
+export default RNFS;
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+/**
+ * Remove every file, directory and pending failure.
+ */
+export function resetFiles(): void {
+  files.clear();
+  directories.clear();
+  failures.clear();
+}
+
+/**
+ * Put a file in place, creating its directories.
+ */
+export function setFile(
+  path: string,
+  content: string | Uint8Array,
+  encoding: Encoding = 'utf8'
+): void {
+  files.set(
+    path,
+    typeof content === 'string' ? Buffer.from(content, encoding) : Buffer.from(content)
+  );
+  directories.add(parentOf(path));
+}
+
+/**
+ * Contents of a file, or undefined if there is none.
+ */
+export function getFile(path: string, encoding: Encoding = 'utf8'): string | undefined {
+  return files.get(path)?.toString(encoding);
+}
+
+/**
+ * Raw bytes of a file, or undefined if there is none.
+ */
+export function getFileBytes(path: string): Uint8Array | undefined {
+  const data = files.get(path);
+  return data ? new Uint8Array(data) : undefined;
+}
+
+/**
+ * Whether a file exists.
+ */
+export function hasFile(path: string): boolean {
+  return files.has(path);
+}
+
+/**
+ * Paths of all files, sorted.
+ */
+export function listFiles(): string[] {
+  return [...files.keys()].sort();
+}
+
+/**
+ * Make the next call to an operation throw, optionally only for one path.
+ * Operations are named after the RNFS functions (writeFile, moveFile, ...);
+ * copy and move failures match on the destination path.
+ */
+export function failNext(
+  operation: string,
+  path?: string,
+  error = new Error(`${operation} failed`)
+): void {
+  failures.set(path === undefined ? operation : `${operation}:${path}`, error);
+}
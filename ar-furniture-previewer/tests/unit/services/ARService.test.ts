@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ARService } from '@core/services/ARService';
+import { useARStore } from '@core/stores/useARStore';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { ARWebViewBridge } from '@infrastructure/webview/ARWebViewBridge';
+import { FakeAREngine } from '@infrastructure/webview/FakeAREngine';
+import { installStoreSync } from '@infrastructure/webview/storeSync';
+import { resetFiles } from '@tests/mocks/react-native-fs';
+
+const GLB = 'Z2xURg==';
+
+describe('ARService edit history', () => {
+  let bridge: ARWebViewBridge;
+  let engine: FakeAREngine;
+  let service: ARService;
+  let uninstall: () => void;
+
+  /**
+   * Settle a promise while advancing fake time.
+   */
+  async function settle<T>(promise: Promise<T>): Promise<T> {
+    const result = promise.then(
+      value => ({ value }),
+      (error: unknown) => ({ error })
+    );
+    await jest.advanceTimersByTimeAsync(60_000);
+    const outcome = await result;
+    if ('error' in outcome) throw outcome.error;
+    return outcome.value;
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    resetFiles();
+    useARStore.getState().reset();
+    useSceneStore.getState().reset();
+
+    bridge = new ARWebViewBridge();
+    engine = new FakeAREngine({ surfaceDelayMs: 100 });
+    engine.connect(bridge);
+    uninstall = installStoreSync(bridge);
+    service = new ARService(bridge);
+    await settle(service.initialize({ apiKey: 'test-key' }));
+  });
+
+  afterEach(() => {
+    uninstall();
+    engine.disconnect();
+    jest.useRealTimers();
+  });
+
+  async function placeAndMove(): Promise<string> {
+    const { objectId } = await settle(service.placeModel({ modelId: 'chair', glbData: GLB }));
+    await settle(service.updateTransform(objectId, { position: [1, 0, -2] }));
+    return objectId;
+  }
+
+  it('moves the store and the engine together', async () => {
+    const objectId = await placeAndMove();
+
+    await expect(settle(service.undo())).resolves.toBe(true);
+
+    const [engineObject] = engine.getPlacedObjects();
+    const [storeObject] = useSceneStore.getState().placedObjects;
+    expect(storeObject?.id).toBe(objectId);
+    expect(storeObject?.transform.position).not.toEqual([1, 0, -2]);
+    expect(engineObject?.transform.position).toEqual(storeObject?.transform.position);
+    expect(useSceneStore.getState().redoStack).toHaveLength(1);
+  });
+
+  it('loads a removed object back under the engine ID and removes it again on redo', async () => {
+    const { objectId } = await settle(service.placeModel({ modelId: 'chair', glbData: GLB }));
+    await settle(service.removeObject(objectId));
+
+    await expect(settle(service.undo())).resolves.toBe(true);
+    const [engineObject] = engine.getPlacedObjects();
+    expect(engineObject?.objectId).not.toBe(objectId);
+    expect(useSceneStore.getState().placedObjects.map(obj => obj.id)).toEqual([
+      engineObject?.objectId,
+    ]);
+
+    await expect(settle(service.redo())).resolves.toBe(true);
+    expect(engine.getPlacedObjects()).toEqual([]);
+    expect(useSceneStore.getState().placedObjects).toEqual([]);
+  });
+
+  it('returns false with nothing to undo or redo', async () => {
+    await expect(settle(service.undo())).resolves.toBe(false);
+    await expect(settle(service.redo())).resolves.toBe(false);
+  });
+
+  it('puts the store back when an undo cannot be sent', async () => {
+    await placeAndMove();
+    const before = useSceneStore.getState();
+
+    jest.spyOn(bridge, 'updateTransform').mockRejectedValueOnce(new Error('queue full'));
+    await expect(settle(service.undo())).rejects.toMatchObject({ code: 'REQUEST_FAILED' });
+
+    const after = useSceneStore.getState();
+    expect(after.placedObjects).toEqual(before.placedObjects);
+    expect(after.undoStack).toEqual(before.undoStack);
+    expect(after.redoStack).toEqual([]);
+    expect(after.historyPaused).toBe(false);
+  });
+
+  it('puts the store back when a redo cannot be sent', async () => {
+    await placeAndMove();
+    await settle(service.undo());
+    const before = useSceneStore.getState();
+
+    jest.spyOn(bridge, 'updateTransform').mockRejectedValueOnce(new Error('queue full'));
+    await expect(settle(service.redo())).rejects.toMatchObject({ code: 'REQUEST_FAILED' });
+
+    const after = useSceneStore.getState();
+    expect(after.placedObjects).toEqual(before.placedObjects);
+    expect(after.redoStack).toEqual(before.redoStack);
+    expect(after.undoStack).toEqual(before.undoStack);
+  });
+
+  it('leaves a removed object out when the engine cannot load it back', async () => {
+    const { objectId } = await settle(service.placeModel({ modelId: 'chair', glbData: GLB }));
+    await settle(service.removeObject(objectId));
+
+    engine.injectFailure('LOAD_MODEL');
+    await expect(settle(service.undo())).rejects.toThrow();
+
+    expect(useSceneStore.getState().placedObjects).toEqual([]);
+    expect(engine.getPlacedObjects()).toEqual([]);
+    expect(useSceneStore.getState().canUndo()).toBe(true);
+    expect(useSceneStore.getState().canRedo()).toBe(false);
+  });
+});
+
+describe('ARService session events', () => {
+  let bridge: ARWebViewBridge;
+  let engine: FakeAREngine;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    useARStore.getState().reset();
+    useSceneStore.getState().reset();
+    bridge = new ARWebViewBridge();
+    engine = new FakeAREngine();
+    engine.connect(bridge);
+  });
+
+  afterEach(() => {
+    engine.disconnect();
+    jest.useRealTimers();
+  });
+
+  it('tracks its own session state and leaves the AR store to store sync', async () => {
+    const service = new ARService(bridge);
+    const initialized = service.initialize({ apiKey: 'test-key' });
+    await jest.advanceTimersByTimeAsync(1000);
+    await initialized;
+
+    engine.simulateTracking('LIMITED', 'EXCESSIVE_MOTION');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(service.getSessionInfo()).toMatchObject({
+      state: 'READY',
+      trackingState: 'LIMITED',
+      trackingLimitedReason: 'EXCESSIVE_MOTION',
+    });
+    expect(useARStore.getState()).toMatchObject({ isInitialized: false, capabilities: null });
+    expect(useARStore.getState().trackingState).not.toBe('LIMITED');
+  });
+
+  it('applies each engine event to the AR store once with store sync installed', async () => {
+    const uninstall = installStoreSync(bridge);
+    const service = new ARService(bridge);
+    const initialized = service.initialize({ apiKey: 'test-key' });
+    await jest.advanceTimersByTimeAsync(1000);
+    await initialized;
+    const setTrackingState = jest.spyOn(useARStore.getState(), 'setTrackingState');
+
+    engine.simulateTracking('LIMITED', 'EXCESSIVE_MOTION');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(setTrackingState).toHaveBeenCalledTimes(1);
+    expect(useARStore.getState()).toMatchObject({
+      isInitialized: true,
+      trackingState: 'LIMITED',
+    });
+    uninstall();
+  });
+});
+
+describe('ARService selection', () => {
+  beforeEach(() => {
+    useARStore.getState().reset();
+    useSceneStore.getState().reset();
+  });
+
+  it('rejects rather than throws when the object is not placed', async () => {
+    const service = new ARService(new ARWebViewBridge());
+
+    let selection: Promise<void> | undefined;
+    expect(() => {
+      selection = service.selectObject('missing');
+    }).not.toThrow();
+
+    await expect(selection).rejects.toMatchObject({ code: 'OBJECT_NOT_FOUND' });
+    expect(useSceneStore.getState().selectedObjectId).toBeNull();
+    expect(useARStore.getState().placementMode).not.toBe('ADJUSTING');
+  });
+});
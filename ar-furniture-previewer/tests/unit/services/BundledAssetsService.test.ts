@@ -0,0 +1,220 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { BundledModelEntry, BundledModelManifest, Model } from '@core/types/model.types';
+import { BUNDLED_ASSETS, getImportStagingPath, getModelPaths } from '@core/constants/paths';
+import { BundledAssetsService } from '@core/services/BundledAssetsService';
+import { thumbnailService } from '@core/services/ThumbnailService';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  getBundledModelsState,
+  getModelIndex,
+  saveModelIndex,
+} from '@infrastructure/storage/asyncStorageHelpers';
+import { buildBoxGLB } from '@tests/helpers/glb';
+import {
+  failNext,
+  getFile,
+  hasFile,
+  listFiles,
+  resetFiles,
+  setFile,
+} from '@tests/mocks/react-native-fs';
+
+function entry(id: string, revision = 1): BundledModelEntry {
+  return {
+    id,
+    revision,
+    name: id,
+    category: 'CHAIR',
+    file: `${id}.glb`,
+    thumbnail: `${id}.jpg`,
+    scale: 1,
+    metadata: {
+      fileSize: 100,
+      vertexCount: 8,
+      textureResolution: null,
+      hasAnimations: false,
+      boundingBox: { min: [0, 0, 0], max: [1, 1, 1], center: [0.5, 0.5, 0.5], size: [1, 1, 1] },
+    },
+  };
+}
+
+/**
+ * Put a manifest entry's files in the app bundle, tagged with its revision.
+ */
+function bundle(model: BundledModelEntry): void {
+  setFile(BUNDLED_ASSETS.model(model.file), `glb r${model.revision}`);
+  setFile(BUNDLED_ASSETS.thumbnail(model.thumbnail), `jpg r${model.revision}`);
+}
+
+function manifest(version: number, models: BundledModelEntry[]): BundledModelManifest {
+  models.forEach(bundle);
+  return { version, models };
+}
+
+function userModel(id: string): Model {
+  const paths = getModelPaths(id);
+  return {
+    ...entry(id),
+    glbPath: paths.glb,
+    thumbnailPath: paths.thumbnail,
+    isBundled: false,
+    createdAt: 1,
+    lastUsedAt: null,
+  };
+}
+
+async function indexIds(): Promise<string[]> {
+  return (await getModelIndex()).models.map(model => model.id);
+}
+
+describe('BundledAssetsService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetFiles();
+    await fileSystem.initializeDirectories();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(thumbnailService, 'generateThumbnail').mockResolvedValue('');
+  });
+
+  it('installs every bundled model on first launch', async () => {
+    const service = new BundledAssetsService(manifest(1, [entry('chair'), entry('lamp')]));
+    expect(await service.areBundledModelsInitialized()).toBe(false);
+
+    await service.initializeBundledModels();
+
+    const { models } = await getModelIndex();
+    expect(models).toEqual([
+      expect.objectContaining({ id: 'chair', isBundled: true, scale: 1, lastUsedAt: null }),
+      expect.objectContaining({ id: 'lamp', isBundled: true }),
+    ]);
+    expect(getFile(getModelPaths('chair').glb)).toBe('glb r1');
+    expect(getFile(getModelPaths('chair').thumbnail)).toBe('jpg r1');
+    expect(listFiles().filter(path => path.includes('staging'))).toEqual([]);
+    expect(await getBundledModelsState()).toEqual({
+      manifestVersion: 1,
+      installed: { chair: 1, lamp: 1 },
+    });
+    expect(await service.areBundledModelsInitialized()).toBe(true);
+  });
+
+  it('does nothing once the manifest version is installed', async () => {
+    const service = new BundledAssetsService(manifest(1, [entry('chair')]));
+    await service.initializeBundledModels();
+    const copy = jest.spyOn(fileSystem, 'copyFromBundle');
+
+    await service.initializeBundledModels();
+
+    expect(copy).not.toHaveBeenCalled();
+  });
+
+  describe('upgrades', () => {
+    beforeEach(async () => {
+      await new BundledAssetsService(
+        manifest(1, [entry('chair'), entry('lamp'), entry('sofa')])
+      ).initializeBundledModels();
+      const index = await getModelIndex();
+      index.models = index.models.map(model =>
+        model.id === 'chair' ? { ...model, createdAt: 5, lastUsedAt: 7 } : model
+      );
+      index.models.push(userModel('mine'));
+      await saveModelIndex(index);
+      setFile(getModelPaths('mine').glb, 'user file');
+    });
+
+    it('adds, replaces and retires bundled models', async () => {
+      const service = new BundledAssetsService(
+        manifest(2, [entry('chair', 2), entry('lamp'), entry('desk')])
+      );
+
+      await service.initializeBundledModels();
+
+      expect(await indexIds()).toEqual(['chair', 'lamp', 'mine', 'desk']);
+      expect(getFile(getModelPaths('chair').glb)).toBe('glb r2');
+      expect(hasFile(getModelPaths('sofa').glb)).toBe(false);
+      expect(hasFile(getModelPaths('sofa').thumbnail)).toBe(false);
+      expect(await getBundledModelsState()).toEqual({
+        manifestVersion: 2,
+        installed: { chair: 2, lamp: 1, desk: 1 },
+      });
+    });
+
+    it('keeps the creation and last use times of replaced models', async () => {
+      await new BundledAssetsService(manifest(2, [entry('chair', 2)])).initializeBundledModels();
+
+      expect((await getModelIndex()).models[0]).toMatchObject({
+        id: 'chair',
+        createdAt: 5,
+        lastUsedAt: 7,
+      });
+    });
+
+    it('leaves user models alone', async () => {
+      await new BundledAssetsService(manifest(2, [])).initializeBundledModels();
+
+      expect(await indexIds()).toEqual(['mine']);
+      expect(getFile(getModelPaths('mine').glb)).toBe('user file');
+    });
+
+    it('does not overwrite a user model with a bundled ID', async () => {
+      await new BundledAssetsService(
+        manifest(2, [entry('chair'), entry('lamp'), entry('sofa'), entry('mine')])
+      ).initializeBundledModels();
+
+      expect((await getModelIndex()).models.find(model => model.id === 'mine')).toMatchObject({
+        isBundled: false,
+      });
+      expect(getFile(getModelPaths('mine').glb)).toBe('user file');
+      expect(console.warn).toHaveBeenCalledWith(
+        '[BundledAssetsService] Model ID mine is taken by a user model'
+      );
+    });
+  });
+
+  it('retries a model that failed to install on the next launch', async () => {
+    const service = new BundledAssetsService(manifest(1, [entry('chair'), entry('lamp')]));
+    failNext('copyFileAssets', getImportStagingPath('chair.glb'));
+    failNext('copyFile', getImportStagingPath('chair.glb'));
+
+    await service.initializeBundledModels();
+
+    expect(await indexIds()).toEqual(['lamp']);
+    expect(await getBundledModelsState()).toEqual({ manifestVersion: 0, installed: { lamp: 1 } });
+    expect(await service.areBundledModelsInitialized()).toBe(false);
+
+    await service.initializeBundledModels();
+
+    expect(await indexIds()).toEqual(['lamp', 'chair']);
+    expect(await service.areBundledModelsInitialized()).toBe(true);
+  });
+
+  it('renders a thumbnail that is missing from the bundle', async () => {
+    const chair = entry('chair');
+    const service = new BundledAssetsService({ version: 1, models: [chair] });
+    setFile(BUNDLED_ASSETS.model(chair.file), buildBoxGLB());
+
+    await service.initializeBundledModels();
+
+    expect(thumbnailService.generateThumbnail).toHaveBeenCalledWith('chair');
+    expect(await indexIds()).toEqual(['chair']);
+  });
+
+  describe('reinstallModel', () => {
+    it('copies the files again', async () => {
+      const service = new BundledAssetsService(manifest(1, [entry('chair')]));
+      await service.initializeBundledModels();
+      setFile(getModelPaths('chair').glb, 'damaged');
+
+      await service.reinstallModel('chair');
+
+      expect(getFile(getModelPaths('chair').glb)).toBe('glb r1');
+      expect(await indexIds()).toEqual(['chair']);
+    });
+
+    it('refuses models outside the manifest', async () => {
+      const service = new BundledAssetsService(manifest(1, []));
+
+      await expect(service.reinstallModel('mine')).rejects.toThrow('mine is not a bundled model');
+    });
+  });
+});
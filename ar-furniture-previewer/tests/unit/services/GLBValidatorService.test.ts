@@ -0,0 +1,274 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as glbParser from '@core/services/glbParser';
+import { glbValidatorService } from '@core/services/GLBValidatorService';
+import { boxDocument, buildBoxGLB, buildGLB, pngHeader } from '@tests/helpers/glb';
+
+/**
+ * The box document with changes applied to its JSON.
+ */
+function modifiedBox(change: (json: Record<string, unknown>) => void): Uint8Array {
+  const { json, bin } = boxDocument();
+  change(json);
+  return buildGLB(json, bin);
+}
+
+function issuesOf(bytes: Uint8Array): { code: string; severity: string; pointer: string | null }[] {
+  return glbValidatorService
+    .validate(bytes)
+    .issues.map(({ code, severity, pointer }) => ({ code, severity, pointer }));
+}
+
+describe('GLBValidatorService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts a well-formed box', () => {
+    expect(glbValidatorService.validate(buildBoxGLB())).toMatchObject({
+      valid: true,
+      errorCount: 0,
+      warningCount: 0,
+      issues: [],
+    });
+  });
+
+  describe('container', () => {
+    it('rejects files that are not GLB', () => {
+      expect(issuesOf(new Uint8Array(32))).toEqual([
+        { code: 'INVALID_HEADER', severity: 'ERROR', pointer: null },
+      ]);
+    });
+
+    it('rejects truncated files', () => {
+      expect(issuesOf(buildBoxGLB().subarray(0, 60))).toEqual([
+        { code: 'LENGTH_MISMATCH', severity: 'ERROR', pointer: null },
+      ]);
+    });
+
+    it('warns about trailing bytes', () => {
+      const box = buildBoxGLB();
+      const padded = new Uint8Array(box.length + 4);
+      padded.set(box);
+
+      expect(issuesOf(padded)).toEqual([
+        { code: 'LENGTH_MISMATCH', severity: 'WARNING', pointer: null },
+      ]);
+    });
+  });
+
+  describe('malformed JSON', () => {
+    it.each<[string, (json: Record<string, unknown>) => void, string]>([
+      [
+        'accessors as an object',
+        json => {
+          json.accessors = { 0: {} };
+        },
+        '/accessors',
+      ],
+      [
+        'null primitives',
+        json => {
+          json.meshes = [{ primitives: null }];
+        },
+        '/meshes/0/primitives',
+      ],
+      [
+        'a null image',
+        json => {
+          json.images = [null];
+        },
+        '/images/0',
+      ],
+      [
+        'a null material',
+        json => {
+          json.materials = [null];
+        },
+        '/materials/0',
+      ],
+      [
+        'a string extensionsRequired',
+        json => {
+          json.extensionsRequired = 'KHR_draco_mesh_compression';
+        },
+        '/extensionsRequired',
+      ],
+      [
+        'a negative bufferView byteOffset',
+        json => {
+          json.bufferViews = [{ buffer: 0, byteOffset: -4, byteLength: 96 }];
+        },
+        '/bufferViews/0/byteOffset',
+      ],
+      [
+        'a fractional bufferView byteLength',
+        json => {
+          json.bufferViews = [{ buffer: 0, byteLength: 95.5 }];
+        },
+        '/bufferViews/0/byteLength',
+      ],
+      [
+        'a negative accessor byteOffset',
+        json => {
+          (json.accessors as Record<string, unknown>[])[0]!.byteOffset = -12;
+        },
+        '/accessors/0/byteOffset',
+      ],
+    ])('reports %s instead of throwing', (_label, change, pointer) => {
+      const bytes = modifiedBox(change);
+
+      expect(issuesOf(bytes)).toEqual([{ code: 'INVALID_JSON', severity: 'ERROR', pointer }]);
+    });
+
+    it('reports unexpected failures in the checks as unreadable', () => {
+      jest.spyOn(glbParser, 'getImageBytes').mockImplementation(() => {
+        throw new TypeError('Cannot read properties of null');
+      });
+      const bytes = modifiedBox(json => {
+        json.images = [{ uri: 'data:image/png;base64,AAAA' }];
+      });
+
+      expect(glbValidatorService.validate(bytes)).toMatchObject({
+        valid: false,
+        issues: [
+          {
+            code: 'INVALID_JSON',
+            message: 'The model description could not be read.',
+            pointer: null,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('extensions', () => {
+    it('rejects required compression extensions', () => {
+      const bytes = modifiedBox(json => {
+        json.extensionsUsed = ['KHR_draco_mesh_compression'];
+        json.extensionsRequired = ['KHR_draco_mesh_compression'];
+      });
+
+      expect(glbValidatorService.validate(bytes).issues).toEqual([
+        expect.objectContaining({
+          code: 'UNSUPPORTED_EXTENSION',
+          message: expect.stringContaining('Draco'),
+        }),
+      ]);
+    });
+
+    it('notes optional extensions it cannot render', () => {
+      const bytes = modifiedBox(json => {
+        json.extensionsUsed = ['EXT_lights_image_based'];
+      });
+
+      expect(issuesOf(bytes)).toEqual([
+        { code: 'UNSUPPORTED_EXTENSION', severity: 'INFO', pointer: '/extensionsUsed' },
+      ]);
+    });
+  });
+
+  describe('data', () => {
+    it('rejects accessors that read past their buffer view', () => {
+      const bytes = modifiedBox(json => {
+        (json.accessors as Record<string, unknown>[])[0]!.count = 9;
+      });
+
+      expect(issuesOf(bytes)).toEqual([
+        { code: 'BUFFER_OUT_OF_BOUNDS', severity: 'ERROR', pointer: '/accessors/0' },
+      ]);
+    });
+
+    it('rejects buffer views past their buffer', () => {
+      const bytes = modifiedBox(json => {
+        json.bufferViews = [{ buffer: 0, byteOffset: 4, byteLength: 96 }];
+      });
+
+      expect(issuesOf(bytes)).toContainEqual({
+        code: 'BUFFER_OUT_OF_BOUNDS',
+        severity: 'ERROR',
+        pointer: '/bufferViews/0',
+      });
+    });
+
+    it('rejects external files', () => {
+      const bytes = modifiedBox(json => {
+        json.images = [{ uri: 'wood.png' }];
+      });
+
+      expect(issuesOf(bytes)).toEqual([
+        { code: 'EXTERNAL_URI', severity: 'ERROR', pointer: '/images/0' },
+      ]);
+    });
+
+    it('warns about oversized textures', () => {
+      const png = glbParser.encodeBase64(pngHeader(8192, 8192));
+      const bytes = modifiedBox(json => {
+        json.images = [{ uri: `data:image/png;base64,${png}` }];
+      });
+
+      expect(issuesOf(bytes)).toEqual([
+        { code: 'LARGE_TEXTURE', severity: 'WARNING', pointer: '/images/0' },
+      ]);
+    });
+
+    it('rejects files with no geometry', () => {
+      const bytes = buildGLB({ asset: { version: '2.0' }, nodes: [{}] });
+
+      expect(issuesOf(bytes)).toEqual([{ code: 'NO_GEOMETRY', severity: 'ERROR', pointer: null }]);
+    });
+  });
+
+  describe('node hierarchy', () => {
+    function withNodes(nodes: unknown[]): Uint8Array {
+      return modifiedBox(json => {
+        json.nodes = nodes;
+        json.scenes = [{ nodes: [0] }];
+      });
+    }
+
+    it('rejects dangling references', () => {
+      expect(issuesOf(withNodes([{ mesh: 4, children: [7] }]))).toEqual([
+        { code: 'INVALID_REFERENCE', severity: 'ERROR', pointer: '/nodes/0' },
+        { code: 'INVALID_REFERENCE', severity: 'ERROR', pointer: '/nodes/0' },
+      ]);
+    });
+
+    it('rejects a node that is its own child', () => {
+      expect(issuesOf(withNodes([{ mesh: 0, children: [0] }]))).toEqual([
+        { code: 'INVALID_REFERENCE', severity: 'ERROR', pointer: '/nodes/0/children' },
+      ]);
+    });
+
+    it('rejects cycles across several nodes', () => {
+      const report = glbValidatorService.validate(
+        withNodes([{ mesh: 0, children: [1] }, { children: [2] }, { children: [0] }])
+      );
+
+      expect(report.issues).toEqual([
+        expect.objectContaining({
+          code: 'INVALID_REFERENCE',
+          pointer: '/nodes/2/children',
+          message: expect.stringContaining('Child node 0'),
+        }),
+      ]);
+    });
+
+    it('finds cycles that do not include the first node', () => {
+      expect(
+        issuesOf(withNodes([{ mesh: 0, children: [1] }, { children: [2] }, { children: [1] }]))
+      ).toEqual([{ code: 'INVALID_REFERENCE', severity: 'ERROR', pointer: '/nodes/2/children' }]);
+    });
+
+    it('accepts nodes shared by two parents', () => {
+      expect(
+        issuesOf(
+          withNodes([{ children: [1, 2] }, { children: [3] }, { children: [3] }, { mesh: 0 }])
+        )
+      ).toEqual([]);
+    });
+  });
+});
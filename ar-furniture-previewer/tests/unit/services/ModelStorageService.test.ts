@@ -0,0 +1,292 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Model, ModelMetadata } from '@core/types/model.types';
+import { APP_PATHS, getModelPaths, STORAGE_KEYS } from '@core/constants/paths';
+import { MODEL_LIMITS } from '@core/constants/limits';
+import { bundledAssetsService } from '@core/services/BundledAssetsService';
+import { encodeBase64 } from '@core/services/glbParser';
+import { ModelStorageService, ModelValidationError } from '@core/services/ModelStorageService';
+import { thumbnailService } from '@core/services/ThumbnailService';
+import { useModelStore } from '@core/stores/useModelStore';
+import { getModelIndex, MODEL_INDEX_VERSION } from '@infrastructure/storage/asyncStorageHelpers';
+import { buildBoxGLB, buildGLB } from '@tests/helpers/glb';
+import { failNext, hasFile, listFiles, resetFiles, setFile } from '@tests/mocks/react-native-fs';
+
+const SOURCE = '/data/tmp/picked/chair.glb';
+
+const METADATA: ModelMetadata = {
+  fileSize: 0,
+  vertexCount: 8,
+  textureResolution: null,
+  hasAnimations: false,
+  boundingBox: { min: [0, 0, 0], max: [1, 1, 1], center: [0.5, 0.5, 0.5], size: [1, 1, 1] },
+};
+
+function storedModel(id: string, isBundled = false): Model {
+  const paths = getModelPaths(id);
+  return {
+    id,
+    name: id,
+    glbPath: paths.glb,
+    thumbnailPath: paths.thumbnail,
+    category: 'CHAIR',
+    isBundled,
+    metadata: METADATA,
+    createdAt: 1,
+    lastUsedAt: null,
+  };
+}
+
+async function seedIndex(models: Model[]): Promise<void> {
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.MODEL_INDEX,
+    JSON.stringify({ version: MODEL_INDEX_VERSION, models, lastUpdated: 1 })
+  );
+}
+
+function modelFiles(): string[] {
+  return listFiles().filter(
+    path => path.startsWith(APP_PATHS.models) || path.startsWith(APP_PATHS.importStaging)
+  );
+}
+
+describe('ModelStorageService', () => {
+  let service: ModelStorageService;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetFiles();
+    useModelStore.getState().reset();
+    jest.spyOn(bundledAssetsService, 'initializeBundledModels').mockResolvedValue(undefined);
+    jest.spyOn(thumbnailService, 'generateThumbnail').mockResolvedValue('');
+    service = new ModelStorageService();
+  });
+
+  describe('importModel', () => {
+    it('copies, validates and indexes the file', async () => {
+      setFile(SOURCE, buildBoxGLB());
+
+      const model = await service.importModel({
+        sourcePath: SOURCE,
+        name: ' Chair ',
+        category: 'CHAIR',
+      });
+
+      expect(model).toMatchObject({
+        name: 'Chair',
+        category: 'CHAIR',
+        isBundled: false,
+        glbPath: getModelPaths(model.id).glb,
+        metadata: { vertexCount: 8, boundingBox: { size: [1, 1, 1] } },
+        validation: { valid: true },
+      });
+      expect(hasFile(SOURCE)).toBe(true);
+      expect(modelFiles()).toEqual([model.glbPath]);
+      expect((await getModelIndex()).models).toEqual([model]);
+      expect(useModelStore.getState().models).toEqual([model]);
+      expect(thumbnailService.generateThumbnail).toHaveBeenCalledWith(model.id, {
+        glbPath: model.glbPath,
+      });
+    });
+
+    it('rejects a file that fails validation and cleans up', async () => {
+      setFile(SOURCE, buildGLB({ asset: { version: '2.0' } }));
+
+      const error = await service
+        .importModel({ sourcePath: SOURCE, name: 'Chair', category: 'CHAIR' })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ModelValidationError);
+      expect(modelFiles()).toEqual([]);
+      expect((await getModelIndex()).models).toEqual([]);
+    });
+
+    it('rejects an empty file', async () => {
+      setFile(SOURCE, new Uint8Array(0));
+
+      await expect(
+        service.importModel({ sourcePath: SOURCE, name: 'Chair', category: 'CHAIR' })
+      ).rejects.toMatchObject({ code: 'INVALID_DATA' });
+      expect(modelFiles()).toEqual([]);
+    });
+
+    it('removes the moved file when the index write fails', async () => {
+      setFile(SOURCE, buildBoxGLB());
+      jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(
+        service.importModel({ sourcePath: SOURCE, name: 'Chair', category: 'CHAIR' })
+      ).rejects.toMatchObject({ code: 'IO_ERROR' });
+      expect(modelFiles()).toEqual([]);
+      expect(useModelStore.getState().models).toEqual([]);
+    });
+
+    it('keeps the model when the thumbnail cannot be rendered', async () => {
+      setFile(SOURCE, buildBoxGLB());
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(thumbnailService, 'generateThumbnail').mockRejectedValueOnce(new Error('render'));
+
+      const model = await service.importModel({
+        sourcePath: SOURCE,
+        name: 'Chair',
+        category: 'CHAIR',
+      });
+
+      expect((await getModelIndex()).models.map(stored => stored.id)).toEqual([model.id]);
+    });
+
+    it(`stops at ${MODEL_LIMITS.MAX_MODELS} models`, async () => {
+      await seedIndex(
+        Array.from({ length: MODEL_LIMITS.MAX_MODELS }, (_, i) => storedModel(`m${i}`))
+      );
+      setFile(SOURCE, buildBoxGLB());
+
+      await expect(
+        service.importModel({ sourcePath: SOURCE, name: 'Chair', category: 'CHAIR' })
+      ).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+      await expect(service.canAddModel()).resolves.toBe(false);
+      expect(modelFiles()).toEqual([]);
+    });
+
+    it('rejects invalid names and categories before touching disk', async () => {
+      await expect(
+        service.importModel({ sourcePath: SOURCE, name: '', category: 'CHAIR' })
+      ).rejects.toMatchObject({ code: 'INVALID_DATA' });
+      await expect(
+        service.importModel({
+          sourcePath: SOURCE,
+          name: 'Chair',
+          category: 'BED' as Model['category'],
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_DATA' });
+    });
+  });
+
+  it('saves a scanned model with its metadata', async () => {
+    const glbData = encodeBase64(buildBoxGLB());
+
+    const model = await service.saveScannedModel({ glbData, name: 'Scan', metadata: METADATA });
+
+    expect(model.category).toBe('CUSTOM');
+    expect(model.metadata.fileSize).toBeGreaterThan(0);
+    expect(modelFiles()).toEqual([model.glbPath]);
+  });
+
+  describe('scale', () => {
+    async function importSofa(): Promise<Model> {
+      // 200 units long: a sofa exported in centimetres
+      setFile(SOURCE, buildBoxGLB([0, 0, 0], [200, 90, 90]));
+      return service.importModel({ sourcePath: SOURCE, name: 'Sofa', category: 'SOFA' });
+    }
+
+    it('suggests a unit correction on import without applying it', async () => {
+      const model = await importSofa();
+
+      expect(model.scale).toBeUndefined();
+      expect(model.scaleSuggestion).toEqual({
+        unit: 'CENTIMETERS',
+        scale: 0.01,
+        plausible: true,
+        dimensions: [2, 0.9, 0.9],
+      });
+      expect((await getModelIndex()).models).toEqual([model]);
+    });
+
+    it('suggests nothing for a plausible size', async () => {
+      setFile(SOURCE, buildBoxGLB([0, 0, 0], [0.5, 0.9, 0.5]));
+
+      const model = await service.importModel({
+        sourcePath: SOURCE,
+        name: 'Chair',
+        category: 'CHAIR',
+      });
+
+      expect(model).not.toHaveProperty('scale');
+      expect(model).not.toHaveProperty('scaleSuggestion');
+    });
+
+    it('applies the suggestion once accepted', async () => {
+      const { id } = await importSofa();
+
+      const model = await service.acceptScaleSuggestion(id);
+
+      expect(model.scale).toBe(0.01);
+      expect(model).not.toHaveProperty('scaleSuggestion');
+      expect((await getModelIndex()).models).toEqual([model]);
+      expect(useModelStore.getState().getModelById(id)).toEqual(model);
+    });
+
+    it('drops the suggestion when the user gives a real dimension', async () => {
+      const { id } = await importSofa();
+
+      const model = await service.setRealDimension(id, 'width', 2.1);
+
+      expect(model.scale).toBeCloseTo(0.0105);
+      expect(model).not.toHaveProperty('scaleSuggestion');
+    });
+
+    it('keeps the suggestion through other updates', async () => {
+      const { id } = await importSofa();
+
+      const model = await service.updateModel(id, { name: 'Couch' });
+
+      expect(model.scaleSuggestion?.unit).toBe('CENTIMETERS');
+    });
+
+    it('refuses to accept a suggestion that does not exist', async () => {
+      await seedIndex([storedModel('chair')]);
+
+      await expect(service.acceptScaleSuggestion('chair')).rejects.toMatchObject({
+        code: 'INVALID_DATA',
+      });
+      await expect(service.acceptScaleSuggestion('missing')).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  describe('deleteModel', () => {
+    it('removes the files and the index entry', async () => {
+      await seedIndex([storedModel('m1')]);
+      setFile(getModelPaths('m1').glb, 'glb');
+      setFile(getModelPaths('m1').thumbnail, 'jpeg');
+
+      await service.deleteModel('m1');
+
+      expect(listFiles()).toEqual([]);
+      expect((await getModelIndex()).models).toEqual([]);
+    });
+
+    it('refuses bundled models', async () => {
+      await seedIndex([storedModel('bundled_sofa', true)]);
+
+      await expect(service.deleteModel('bundled_sofa')).rejects.toMatchObject({
+        code: 'BUNDLED_MODEL',
+      });
+      expect((await getModelIndex()).models).toHaveLength(1);
+    });
+
+    it('reports a missing model', async () => {
+      await expect(service.deleteModel('missing')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('still deletes when a file cannot be removed', async () => {
+      await seedIndex([storedModel('m1')]);
+      setFile(getModelPaths('m1').glb, 'glb');
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      failNext('unlink', getModelPaths('m1').glb);
+
+      await service.deleteModel('m1');
+
+      expect((await getModelIndex()).models).toEqual([]);
+    });
+  });
+
+  it('clears imports cut short by the app being killed', async () => {
+    setFile(`${APP_PATHS.importStaging}/left-over.glb`, 'partial');
+
+    await service.initialize();
+
+    expect(modelFiles()).toEqual([]);
+  });
+});
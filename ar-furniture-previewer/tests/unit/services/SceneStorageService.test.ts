@@ -0,0 +1,222 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SavedScene, SaveSceneParams } from '@core/types/scene.types';
+import { APP_PATHS, getScenePaths, STORAGE_KEYS } from '@core/constants/paths';
+import { SCENE_LIMITS } from '@core/constants/limits';
+import { SceneStorageService } from '@core/services/SceneStorageService';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { getSceneIndex, SCENE_INDEX_VERSION } from '@infrastructure/storage/asyncStorageHelpers';
+import { failNext, getFile, listFiles, resetFiles, setFile } from '@tests/mocks/react-native-fs';
+
+const OLD_JPEG = Buffer.from('old jpeg').toString('base64');
+const NEW_JPEG = Buffer.from('new jpeg').toString('base64');
+
+const PARAMS: SaveSceneParams = {
+  name: 'Living room',
+  thumbnailBase64: OLD_JPEG,
+  anchorId: null,
+  anchorType: 'DEVICE_RELATIVE',
+  objects: [
+    {
+      id: 'obj_1',
+      modelId: 'chair',
+      transform: { position: [0, 0, -1], rotation: [1, 0, 0, 0], scale: [1, 1, 1] },
+      placedAt: 1,
+    },
+  ],
+};
+
+describe('SceneStorageService', () => {
+  let service: SceneStorageService;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetFiles();
+    useSceneStore.getState().reset();
+    service = new SceneStorageService();
+  });
+
+  function thumbnailOf(sceneId: string): string | undefined {
+    return getFile(getScenePaths(sceneId).thumbnail, 'base64');
+  }
+
+  function thumbnailFiles(): string[] {
+    return listFiles().filter(path => path.startsWith(APP_PATHS.sceneThumbnails));
+  }
+
+  describe('saveScene', () => {
+    it('writes the thumbnail and the index entry', async () => {
+      const scene = await service.saveScene(PARAMS);
+
+      expect(thumbnailOf(scene.id)).toBe(OLD_JPEG);
+      expect((await getSceneIndex()).scenes).toEqual([scene]);
+      expect(useSceneStore.getState().currentScene).toEqual(scene);
+    });
+
+    it('saves without a thumbnail', async () => {
+      const scene = await service.saveScene({ ...PARAMS, thumbnailBase64: null });
+
+      expect(scene.thumbnailPath).toBeNull();
+      expect(thumbnailFiles()).toEqual([]);
+    });
+
+    it('rejects invalid names', async () => {
+      await expect(service.saveScene({ ...PARAMS, name: '   ' })).rejects.toMatchObject({
+        code: 'INVALID_DATA',
+      });
+    });
+
+    it(`stops at ${SCENE_LIMITS.MAX_SCENES} scenes`, async () => {
+      for (let i = 0; i < SCENE_LIMITS.MAX_SCENES; i++) {
+        await service.saveScene({ ...PARAMS, thumbnailBase64: null });
+      }
+
+      await expect(service.saveScene(PARAMS)).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+      expect(thumbnailFiles()).toEqual([]);
+    });
+
+    it('leaves no file behind when the index write fails', async () => {
+      jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(service.saveScene(PARAMS)).rejects.toMatchObject({ code: 'IO_ERROR' });
+      expect(thumbnailFiles()).toEqual([]);
+      expect((await getSceneIndex()).scenes).toEqual([]);
+    });
+  });
+
+  describe('updateScene', () => {
+    let sceneId: string;
+
+    beforeEach(async () => {
+      sceneId = (await service.saveScene(PARAMS)).id;
+    });
+
+    it('replaces the thumbnail', async () => {
+      await service.updateScene(sceneId, { thumbnailBase64: NEW_JPEG });
+
+      expect(thumbnailOf(sceneId)).toBe(NEW_JPEG);
+      expect(thumbnailFiles()).toEqual([getScenePaths(sceneId).thumbnail]);
+    });
+
+    it('removes the thumbnail when given null', async () => {
+      const scene = await service.updateScene(sceneId, { thumbnailBase64: null });
+
+      expect(scene.thumbnailPath).toBeNull();
+      expect(thumbnailFiles()).toEqual([]);
+    });
+
+    it('keeps the old thumbnail when the new one cannot be written', async () => {
+      failNext('writeFile', `${getScenePaths(sceneId).thumbnail}.pending`);
+
+      await expect(
+        service.updateScene(sceneId, { name: 'Den', thumbnailBase64: NEW_JPEG })
+      ).rejects.toMatchObject({ code: 'IO_ERROR' });
+
+      expect(thumbnailOf(sceneId)).toBe(OLD_JPEG);
+      expect(thumbnailFiles()).toEqual([getScenePaths(sceneId).thumbnail]);
+      expect((await getSceneIndex()).scenes[0]?.name).toBe('Living room');
+    });
+
+    it('keeps the old thumbnail when the old one cannot be backed up', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(Number.MAX_SAFE_INTEGER);
+      failNext('moveFile', `${getScenePaths(sceneId).thumbnail}.${Number.MAX_SAFE_INTEGER}.bak`);
+
+      await expect(service.updateScene(sceneId, { thumbnailBase64: NEW_JPEG })).rejects.toThrow();
+
+      expect(thumbnailOf(sceneId)).toBe(OLD_JPEG);
+      expect(thumbnailFiles()).toEqual([getScenePaths(sceneId).thumbnail]);
+    });
+
+    it('keeps the old thumbnail when the new one cannot be moved into place', async () => {
+      failNext('moveFile', getScenePaths(sceneId).thumbnail);
+
+      await expect(service.updateScene(sceneId, { thumbnailBase64: NEW_JPEG })).rejects.toThrow();
+
+      expect(thumbnailOf(sceneId)).toBe(OLD_JPEG);
+      expect(thumbnailFiles()).toEqual([getScenePaths(sceneId).thumbnail]);
+    });
+
+    it('puts the old thumbnail back when the index write fails', async () => {
+      jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(service.updateScene(sceneId, { thumbnailBase64: NEW_JPEG })).rejects.toThrow();
+
+      expect(thumbnailOf(sceneId)).toBe(OLD_JPEG);
+      expect(thumbnailFiles()).toEqual([getScenePaths(sceneId).thumbnail]);
+    });
+
+    it('records each update later than the last', async () => {
+      const saved = await service.getScene(sceneId);
+      jest.spyOn(Date, 'now').mockReturnValue(saved?.updatedAt ?? 0);
+
+      const updated = await service.updateScene(sceneId, { name: 'Den' });
+
+      expect(updated.updatedAt).toBe((saved?.updatedAt ?? 0) + 1);
+    });
+
+    it('reports a missing scene', async () => {
+      await expect(service.updateScene('missing', { name: 'Den' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  describe('initialize', () => {
+    function scene(id: string, updatedAt: number, withThumbnail = true): SavedScene {
+      return {
+        id,
+        name: id,
+        thumbnailPath: withThumbnail ? getScenePaths(id).thumbnail : null,
+        anchorId: null,
+        anchorType: 'DEVICE_RELATIVE',
+        objects: [],
+        createdAt: 1,
+        updatedAt,
+      };
+    }
+
+    it('keeps updates the index committed and rolls back the rest', async () => {
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.SCENE_INDEX,
+        JSON.stringify({
+          version: SCENE_INDEX_VERSION,
+          scenes: [
+            scene('committed', 200),
+            // Killed after the new file was moved into place
+            scene('placed', 100),
+            // Killed after the old file was backed up
+            scene('backed-up', 100),
+            scene('removed', 200, false),
+          ],
+          lastUpdated: 1,
+        })
+      );
+      const paths = (id: string): string => getScenePaths(id).thumbnail;
+      setFile(paths('committed'), NEW_JPEG, 'base64');
+      setFile(`${paths('committed')}.200.bak`, OLD_JPEG, 'base64');
+      setFile(paths('placed'), NEW_JPEG, 'base64');
+      setFile(`${paths('placed')}.200.bak`, OLD_JPEG, 'base64');
+      setFile(`${paths('backed-up')}.200.bak`, OLD_JPEG, 'base64');
+      setFile(`${paths('backed-up')}.pending`, NEW_JPEG, 'base64');
+      setFile(`${paths('removed')}.200.bak`, OLD_JPEG, 'base64');
+
+      await service.initialize();
+
+      expect(thumbnailFiles()).toEqual(
+        [paths('backed-up'), paths('committed'), paths('placed')].sort()
+      );
+      expect(thumbnailOf('committed')).toBe(NEW_JPEG);
+      expect(thumbnailOf('placed')).toBe(OLD_JPEG);
+      expect(thumbnailOf('backed-up')).toBe(OLD_JPEG);
+    });
+  });
+
+  it('deletes a scene with its thumbnail', async () => {
+    const { id } = await service.saveScene(PARAMS);
+
+    await service.deleteScene(id);
+
+    expect(thumbnailFiles()).toEqual([]);
+    expect(await service.getAllScenes()).toEqual([]);
+  });
+});
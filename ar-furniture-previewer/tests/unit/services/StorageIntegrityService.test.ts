@@ -0,0 +1,396 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, type AppStateStatus } from 'react-native';
+import type { Model } from '@core/types/model.types';
+import type { PlacedObject, SavedScene } from '@core/types/scene.types';
+import { APP_PATHS, getModelPaths, getScenePaths, STORAGE_KEYS } from '@core/constants/paths';
+import { bundledAssetsService } from '@core/services/BundledAssetsService';
+import { modelStorageService } from '@core/services/ModelStorageService';
+import { StorageIntegrityService } from '@core/services/StorageIntegrityService';
+import { storageStatsService } from '@core/services/StorageStatsService';
+import { thumbnailService } from '@core/services/ThumbnailService';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  getModelIndex,
+  getSceneIndex,
+  MODEL_INDEX_VERSION,
+  SCENE_INDEX_VERSION,
+} from '@infrastructure/storage/asyncStorageHelpers';
+import { boxDocument, buildBoxGLB, buildGLB } from '@tests/helpers/glb';
+import { failNext, hasFile, resetFiles, setFile } from '@tests/mocks/react-native-fs';
+
+const BUNDLED_ID = 'bundled-chair';
+
+const METADATA: Model['metadata'] = {
+  fileSize: 0,
+  vertexCount: 8,
+  textureResolution: null,
+  hasAnimations: false,
+  boundingBox: { min: [0, 0, 0], max: [1, 1, 1], center: [0.5, 0.5, 0.5], size: [1, 1, 1] },
+};
+
+function model(id: string, isBundled = false): Model {
+  const paths = getModelPaths(id);
+  return {
+    id,
+    name: id,
+    glbPath: paths.glb,
+    thumbnailPath: paths.thumbnail,
+    category: 'CHAIR',
+    isBundled,
+    metadata: METADATA,
+    createdAt: 1,
+    lastUsedAt: null,
+  };
+}
+
+function placed(id: string, modelId: string, missingModel?: boolean): PlacedObject {
+  return {
+    id,
+    modelId,
+    transform: { position: [0, 0, -1], rotation: [1, 0, 0, 0], scale: [1, 1, 1] },
+    placedAt: 1,
+    ...(missingModel ? { missingModel } : {}),
+  };
+}
+
+function scene(id: string, objects: PlacedObject[], withThumbnail = false): SavedScene {
+  return {
+    id,
+    name: id,
+    thumbnailPath: withThumbnail ? getScenePaths(id).thumbnail : null,
+    anchorId: null,
+    anchorType: 'DEVICE_RELATIVE',
+    objects,
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+/**
+ * Seed the indexes, and put each model's files in place.
+ */
+async function seed(models: Model[], scenes: SavedScene[] = []): Promise<void> {
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.MODEL_INDEX,
+    JSON.stringify({ version: MODEL_INDEX_VERSION, models, lastUpdated: 1 })
+  );
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.SCENE_INDEX,
+    JSON.stringify({ version: SCENE_INDEX_VERSION, scenes, lastUpdated: 1 })
+  );
+  for (const entry of models) {
+    setFile(entry.glbPath, buildBoxGLB());
+    setFile(entry.thumbnailPath, 'jpeg');
+  }
+  for (const entry of scenes) {
+    if (entry.thumbnailPath) setFile(entry.thumbnailPath, 'jpeg');
+  }
+}
+
+async function removeFile(path: string): Promise<void> {
+  await fileSystem.deleteFile(path);
+}
+
+describe('StorageIntegrityService', () => {
+  let service: StorageIntegrityService;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetFiles();
+    await fileSystem.initializeDirectories();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(bundledAssetsService, 'initializeBundledModels').mockResolvedValue(undefined);
+    jest.spyOn(thumbnailService, 'generateThumbnail').mockResolvedValue('');
+    service = new StorageIntegrityService();
+  });
+
+  describe('scan', () => {
+    it('finds nothing wrong with a consistent library', async () => {
+      await seed([model('chair')], [scene('room', [placed('o1', 'chair')], true)]);
+
+      expect((await service.scan()).issues).toEqual([]);
+    });
+
+    it('finds missing and orphan model files', async () => {
+      await seed([model('chair'), model('lamp')]);
+      await removeFile(getModelPaths('chair').glb);
+      await removeFile(getModelPaths('lamp').thumbnail);
+      setFile(getModelPaths('stray').glb, buildBoxGLB());
+      setFile(getModelPaths('stray').thumbnail, 'jpeg');
+      // Left by an interrupted write; its owner cleans it up
+      setFile(`${getModelPaths('lamp').thumbnail}.pending`, 'jpeg');
+
+      expect((await service.scan()).issues).toEqual([
+        expect.objectContaining({ type: 'MISSING_MODEL_FILE', modelId: 'chair' }),
+        expect.objectContaining({ type: 'MISSING_MODEL_THUMBNAIL', modelId: 'lamp' }),
+        expect.objectContaining({ type: 'ORPHAN_MODEL_FILE', path: getModelPaths('stray').glb }),
+        expect.objectContaining({
+          type: 'ORPHAN_MODEL_THUMBNAIL',
+          path: getModelPaths('stray').thumbnail,
+        }),
+      ]);
+    });
+
+    it('finds missing and orphan scene thumbnails', async () => {
+      await seed([], [scene('room', [], true)]);
+      await removeFile(getScenePaths('room').thumbnail);
+      setFile(getScenePaths('gone').thumbnail, 'jpeg');
+
+      expect((await service.scan()).issues).toEqual([
+        expect.objectContaining({ type: 'MISSING_SCENE_THUMBNAIL', sceneId: 'room' }),
+        expect.objectContaining({
+          type: 'ORPHAN_SCENE_THUMBNAIL',
+          path: getScenePaths('gone').thumbnail,
+        }),
+      ]);
+    });
+
+    it('finds objects whose model is gone, and marks that are no longer true', async () => {
+      await seed(
+        [model('chair'), model(BUNDLED_ID, true)],
+        [
+          scene('room', [
+            placed('o1', 'deleted'),
+            placed('o2', 'chair', true),
+            placed('o3', 'also-deleted', true),
+          ]),
+        ]
+      );
+      // Bundled models are restored, so their objects are not dangling
+      await removeFile(getModelPaths(BUNDLED_ID).glb);
+
+      expect((await service.scan()).issues).toEqual([
+        expect.objectContaining({ type: 'MISSING_MODEL_FILE', modelId: BUNDLED_ID }),
+        expect.objectContaining({
+          type: 'DANGLING_MODEL_REFERENCE',
+          sceneId: 'room',
+          objectIds: ['o1'],
+        }),
+        expect.objectContaining({
+          type: 'STALE_MISSING_MARK',
+          sceneId: 'room',
+          objectIds: ['o2'],
+        }),
+      ]);
+    });
+  });
+
+  describe('repair', () => {
+    async function scanAndRepair(
+      options?: Parameters<StorageIntegrityService['repair']>[1]
+    ): Promise<Awaited<ReturnType<StorageIntegrityService['repair']>>> {
+      return service.repair(await service.scan(), options);
+    }
+
+    it('deletes user models whose file is gone and marks their objects missing', async () => {
+      await seed([model('chair')], [scene('room', [placed('o1', 'chair')])]);
+      await removeFile(getModelPaths('chair').glb);
+
+      const result = await scanAndRepair();
+
+      expect(result.failed).toEqual([]);
+      expect((await getModelIndex()).models).toEqual([]);
+      expect((await getSceneIndex()).scenes[0]?.objects).toEqual([placed('o1', 'chair', true)]);
+    });
+
+    it('drops dangling objects when asked to', async () => {
+      await seed([], [scene('room', [placed('o1', 'deleted'), placed('o2', 'deleted')])]);
+
+      await scanAndRepair({ danglingReferences: 'DROP' });
+
+      expect((await getSceneIndex()).scenes[0]?.objects).toEqual([]);
+    });
+
+    it('restores bundled models and unmarks their objects', async () => {
+      const restore = jest
+        .spyOn(modelStorageService, 'restoreBundledModel')
+        .mockResolvedValue(model(BUNDLED_ID, true));
+      await seed([model(BUNDLED_ID, true)], [scene('room', [placed('o1', BUNDLED_ID, true)])]);
+      await removeFile(getModelPaths(BUNDLED_ID).glb);
+
+      const result = await scanAndRepair();
+
+      expect(result.failed).toEqual([]);
+      expect(restore).toHaveBeenCalledWith(BUNDLED_ID);
+      expect((await getSceneIndex()).scenes[0]?.objects).toEqual([placed('o1', BUNDLED_ID)]);
+    });
+
+    it('renders missing model thumbnails and forgets missing scene thumbnails', async () => {
+      await seed([model('chair')], [scene('room', [], true)]);
+      await removeFile(getModelPaths('chair').thumbnail);
+      await removeFile(getScenePaths('room').thumbnail);
+
+      await scanAndRepair();
+
+      expect(thumbnailService.generateThumbnail).toHaveBeenCalledWith('chair');
+      expect((await getSceneIndex()).scenes[0]?.thumbnailPath).toBeNull();
+    });
+
+    it('deletes orphan thumbnails', async () => {
+      await seed([]);
+      setFile(getModelPaths('stray').thumbnail, 'jpeg');
+      setFile(getScenePaths('gone').thumbnail, 'jpeg');
+
+      await scanAndRepair();
+
+      expect(hasFile(getModelPaths('stray').thumbnail)).toBe(false);
+      expect(hasFile(getScenePaths('gone').thumbnail)).toBe(false);
+    });
+
+    describe('orphan model files', () => {
+      const orphan = getModelPaths('stray').glb;
+
+      beforeEach(async () => {
+        await seed([]);
+      });
+
+      it('indexes a readable file again under its own ID', async () => {
+        setFile(orphan, buildBoxGLB());
+        setFile(getModelPaths('stray').thumbnail, 'jpeg');
+
+        const result = await scanAndRepair();
+
+        expect(result.failed).toEqual([]);
+        expect((await getModelIndex()).models).toEqual([
+          expect.objectContaining({
+            id: 'stray',
+            name: 'Recovered model',
+            category: 'CUSTOM',
+            glbPath: orphan,
+          }),
+        ]);
+        expect(hasFile(orphan)).toBe(true);
+        // The thumbnail belongs to the model again
+        expect(hasFile(getModelPaths('stray').thumbnail)).toBe(true);
+        expect(thumbnailService.generateThumbnail).not.toHaveBeenCalled();
+      });
+
+      it('keeps the scene objects that place it', async () => {
+        await seed([], [scene('room', [placed('o1', 'stray')])]);
+        setFile(orphan, buildBoxGLB());
+
+        const report = await service.scan();
+        expect(report.issues.map(issue => issue.type)).toEqual(['ORPHAN_MODEL_FILE']);
+
+        await service.repair(report, { danglingReferences: 'DROP' });
+
+        expect((await getSceneIndex()).scenes[0]?.objects).toEqual([placed('o1', 'stray')]);
+        expect(thumbnailService.generateThumbnail).toHaveBeenCalledWith('stray', {
+          glbPath: orphan,
+        });
+      });
+
+      it('reinstalls a bundled model instead', async () => {
+        const restore = jest
+          .spyOn(modelStorageService, 'restoreBundledModel')
+          .mockResolvedValue(model(BUNDLED_ID, true));
+        setFile(getModelPaths(BUNDLED_ID).glb, buildBoxGLB());
+
+        const result = await scanAndRepair();
+
+        expect(result.failed).toEqual([]);
+        expect(restore).toHaveBeenCalledWith(BUNDLED_ID);
+      });
+
+      it.each<[string, () => Uint8Array]>([
+        ['is not a GLB', () => new Uint8Array([1, 2, 3, 4])],
+        ['is empty', () => new Uint8Array(0)],
+        [
+          'passes validation but has unreadable positions',
+          () => {
+            // An accessor without a buffer view is valid glTF, but no vertex
+            // count can be trusted from it
+            const { json, bin } = boxDocument();
+            (json.accessors as Record<string, unknown>[])[0]!.bufferView = undefined;
+            return buildGLB(json, bin);
+          },
+        ],
+      ])('removes a file that %s', async (_label, bytes) => {
+        setFile(orphan, bytes());
+
+        const result = await scanAndRepair();
+
+        expect(result.failed).toEqual([]);
+        expect((await getModelIndex()).models).toEqual([]);
+        expect(hasFile(orphan)).toBe(false);
+      });
+
+      it('keeps the file when it could not be imported for another reason', async () => {
+        setFile(orphan, buildBoxGLB());
+        failNext('readFile', orphan);
+
+        const result = await scanAndRepair();
+
+        expect(result.failed).toEqual([
+          {
+            issue: expect.objectContaining({ type: 'ORPHAN_MODEL_FILE' }),
+            error: expect.any(String),
+          },
+        ]);
+        expect(hasFile(orphan)).toBe(true);
+      });
+    });
+
+    it('carries on past a failed repair and refreshes the storage stats', async () => {
+      jest.spyOn(storageStatsService, 'invalidate');
+      await seed([model('chair')], [scene('room', [], true)]);
+      await removeFile(getModelPaths('chair').thumbnail);
+      await removeFile(getScenePaths('room').thumbnail);
+      jest.mocked(thumbnailService.generateThumbnail).mockRejectedValueOnce(new Error('no GPU'));
+
+      const result = await scanAndRepair();
+
+      expect(result.failed).toEqual([
+        { issue: expect.objectContaining({ type: 'MISSING_MODEL_THUMBNAIL' }), error: 'no GPU' },
+      ]);
+      expect(result.repaired).toEqual([
+        expect.objectContaining({ type: 'MISSING_SCENE_THUMBNAIL' }),
+      ]);
+      expect(storageStatsService.invalidate).toHaveBeenCalled();
+    });
+  });
+
+  describe('sessions', () => {
+    it('checks storage only after a session that did not end normally', async () => {
+      await seed([model('chair')]);
+      await removeFile(getModelPaths('chair').thumbnail);
+
+      expect(await service.checkAfterCrash()).toBeNull();
+      expect(thumbnailService.generateThumbnail).not.toHaveBeenCalled();
+
+      // The flag set at launch was never cleared
+      expect(await service.checkAfterCrash()).toMatchObject({
+        repaired: [expect.objectContaining({ type: 'MISSING_MODEL_THUMBNAIL' })],
+      });
+    });
+
+    it('clears the flag in the background and sets it on return', async () => {
+      let listener: ((status: AppStateStatus) => void) | undefined;
+      const remove = jest.fn();
+      jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, handler) => {
+        listener = handler;
+        return { remove };
+      });
+      const stop = service.trackSession();
+
+      listener?.('background');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(await service.beginSession()).toBe(false);
+
+      listener?.('active');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(await service.beginSession()).toBe(true);
+
+      stop();
+      expect(remove).toHaveBeenCalled();
+    });
+  });
+
+  it('leaves files it does not own alone', async () => {
+    await seed([]);
+    setFile(`${APP_PATHS.models}/notes.txt`, 'hello');
+
+    expect((await service.scan()).issues).toEqual([]);
+  });
+});
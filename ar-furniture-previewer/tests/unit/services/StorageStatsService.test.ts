@@ -0,0 +1,244 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Model } from '@core/types/model.types';
+import type { SavedScene } from '@core/types/scene.types';
+import {
+  APP_PATHS,
+  BASE_PATHS,
+  getModelPaths,
+  getScenePaths,
+  STORAGE_KEYS,
+} from '@core/constants/paths';
+import { StorageStatsService } from '@core/services/StorageStatsService';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import {
+  MODEL_INDEX_VERSION,
+  SCENE_INDEX_VERSION,
+} from '@infrastructure/storage/asyncStorageHelpers';
+import { resetFiles, setFile } from '@tests/mocks/react-native-fs';
+
+const METADATA: Model['metadata'] = {
+  fileSize: 0,
+  vertexCount: 8,
+  textureResolution: null,
+  hasAnimations: false,
+  boundingBox: { min: [0, 0, 0], max: [1, 1, 1], center: [0.5, 0.5, 0.5], size: [1, 1, 1] },
+};
+
+interface ModelSpec {
+  id: string;
+  glbSize?: number;
+  thumbnailSize?: number;
+  isBundled?: boolean;
+  createdAt?: number;
+  lastUsedAt?: number | null;
+}
+
+function model({ id, isBundled = false, createdAt = 1, lastUsedAt = null }: ModelSpec): Model {
+  const paths = getModelPaths(id);
+  return {
+    id,
+    name: id,
+    glbPath: paths.glb,
+    thumbnailPath: paths.thumbnail,
+    category: 'CHAIR',
+    isBundled,
+    metadata: METADATA,
+    createdAt,
+    lastUsedAt,
+  };
+}
+
+function scene(id: string, withThumbnail: boolean): SavedScene {
+  return {
+    id,
+    name: id,
+    thumbnailPath: withThumbnail ? getScenePaths(id).thumbnail : null,
+    anchorId: null,
+    anchorType: 'DEVICE_RELATIVE',
+    objects: [],
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+/**
+ * Seed the indexes, writing each model's files at the given sizes.
+ */
+async function seed(specs: ModelSpec[], scenes: SavedScene[] = []): Promise<void> {
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.MODEL_INDEX,
+    JSON.stringify({ version: MODEL_INDEX_VERSION, models: specs.map(model), lastUpdated: 1 })
+  );
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.SCENE_INDEX,
+    JSON.stringify({ version: SCENE_INDEX_VERSION, scenes, lastUpdated: 1 })
+  );
+  for (const spec of specs) {
+    const paths = getModelPaths(spec.id);
+    if (spec.glbSize !== undefined) setFile(paths.glb, new Uint8Array(spec.glbSize));
+    if (spec.thumbnailSize !== undefined) {
+      setFile(paths.thumbnail, new Uint8Array(spec.thumbnailSize));
+    }
+  }
+}
+
+describe('StorageStatsService', () => {
+  let service: StorageStatsService;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetFiles();
+    service = new StorageStatsService();
+  });
+
+  describe('getBreakdown', () => {
+    it('reports nothing for a fresh install', async () => {
+      const breakdown = await service.getBreakdown();
+
+      expect(breakdown).toMatchObject({
+        modelCount: 0,
+        sceneCount: 0,
+        modelsSize: 0,
+        scenesSize: 0,
+        scanSessionsSize: 0,
+        cacheSize: 0,
+        nearingLimit: false,
+        models: [],
+        scenes: [],
+        largestModels: [],
+        leastRecentlyUsedModels: [],
+      });
+      expect(breakdown.availableSpace).toBeGreaterThan(0);
+    });
+
+    it('sizes each model, scene thumbnail and directory', async () => {
+      await fileSystem.initializeDirectories();
+      await seed(
+        [
+          { id: 'chair', glbSize: 1000, thumbnailSize: 100 },
+          // Files lost from disk count as empty
+          { id: 'lamp' },
+        ],
+        [scene('room', true), scene('hall', false)]
+      );
+      setFile(getScenePaths('room').thumbnail, new Uint8Array(50));
+      setFile(`${APP_PATHS.scanSessions}/session-1/frame-0.jpg`, new Uint8Array(300));
+      setFile(`${BASE_PATHS.cache}/remote/model.glb`, new Uint8Array(20));
+
+      const breakdown = await service.getBreakdown();
+
+      expect(breakdown.models).toEqual([
+        {
+          modelId: 'chair',
+          name: 'chair',
+          isBundled: false,
+          fileSize: 1000,
+          thumbnailSize: 100,
+          totalSize: 1100,
+          createdAt: 1,
+          lastUsedAt: null,
+        },
+        expect.objectContaining({ modelId: 'lamp', fileSize: 0, thumbnailSize: 0, totalSize: 0 }),
+      ]);
+      expect(breakdown.scenes).toEqual([
+        { sceneId: 'room', name: 'room', thumbnailSize: 50 },
+        { sceneId: 'hall', name: 'hall', thumbnailSize: 0 },
+      ]);
+      expect(breakdown).toMatchObject({
+        modelCount: 2,
+        sceneCount: 2,
+        modelsSize: 1100,
+        scenesSize: 50,
+        scanSessionsSize: 300,
+        cacheSize: 20,
+      });
+    });
+
+    it('reports quota use and warns near either limit', async () => {
+      await seed(Array.from({ length: 39 }, (_, index) => ({ id: `model-${index}` })));
+
+      expect((await service.getBreakdown()).modelQuota).toEqual({
+        used: 39,
+        limit: 50,
+        ratio: 0.78,
+        warningThreshold: 0.8,
+        nearingLimit: false,
+      });
+
+      await seed(
+        Array.from({ length: 40 }, (_, index) => ({ id: `model-${index}` })),
+        Array.from({ length: 3 }, (_, index) => scene(`scene-${index}`, false))
+      );
+      service.invalidate();
+      const breakdown = await service.getBreakdown();
+
+      expect(breakdown.modelQuota).toMatchObject({ used: 40, ratio: 0.8, nearingLimit: true });
+      expect(breakdown.sceneQuota).toMatchObject({ used: 3, limit: 20, nearingLimit: false });
+      expect(breakdown.nearingLimit).toBe(true);
+    });
+
+    it('suggests the largest and least recently used user models', async () => {
+      await seed([
+        { id: 'bundled-sofa', glbSize: 9000, isBundled: true, createdAt: 0 },
+        { id: 'a', glbSize: 100, createdAt: 10, lastUsedAt: 70 },
+        { id: 'b', glbSize: 600, createdAt: 20 },
+        { id: 'c', glbSize: 300, createdAt: 30, lastUsedAt: 40 },
+        { id: 'd', glbSize: 500, createdAt: 5, lastUsedAt: 90 },
+        { id: 'e', glbSize: 200, createdAt: 50 },
+        { id: 'f', glbSize: 400, createdAt: 60 },
+      ]);
+
+      const breakdown = await service.getBreakdown();
+
+      expect(breakdown.largestModels.map(usage => usage.modelId)).toEqual([
+        'b',
+        'd',
+        'f',
+        'c',
+        'e',
+      ]);
+      // Never-used models count from when they were added
+      expect(breakdown.leastRecentlyUsedModels.map(usage => usage.modelId)).toEqual([
+        'b',
+        'c',
+        'e',
+        'f',
+        'a',
+      ]);
+    });
+  });
+
+  describe('caching', () => {
+    it('reuses the breakdown until invalidated', async () => {
+      await seed([{ id: 'chair', glbSize: 100 }]);
+      const first = await service.getBreakdown();
+
+      await seed([{ id: 'chair', glbSize: 100 }, { id: 'lamp' }]);
+      expect(await service.getBreakdown()).toBe(first);
+
+      service.invalidate();
+      expect((await service.getBreakdown()).modelCount).toBe(2);
+    });
+
+    it('does not cache a breakdown invalidated while it was gathered', async () => {
+      await seed([{ id: 'chair' }]);
+      const stale = service.getBreakdown();
+      service.invalidate();
+      await stale;
+
+      await seed([{ id: 'chair' }, { id: 'lamp' }]);
+      expect((await service.getBreakdown()).modelCount).toBe(2);
+    });
+
+    it('gathers again after a failure', async () => {
+      const spy = jest
+        .spyOn(fileSystem, 'getFreeDiskSpace')
+        .mockRejectedValueOnce(new Error('statfs failed'));
+
+      await expect(service.getBreakdown()).rejects.toThrow('statfs failed');
+      await expect(service.getBreakdown()).resolves.toMatchObject({ modelCount: 0 });
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
+});
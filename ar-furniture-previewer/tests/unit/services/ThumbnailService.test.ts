@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MODEL_LIMITS } from '@core/constants/limits';
+import { getModelPaths } from '@core/constants/paths';
+import { storageStatsService } from '@core/services/StorageStatsService';
+import { THUMBNAIL_VIEW } from '@core/services/softwareRenderer';
+import {
+  ThumbnailError,
+  ThumbnailService,
+  type ThumbnailRenderer,
+} from '@core/services/ThumbnailService';
+import { fileSystem } from '@infrastructure/filesystem/FileSystemAdapter';
+import { buildSolidBoxGLB } from '@tests/helpers/glb';
+import { decodeJPEG } from '@tests/helpers/jpeg';
+import { failNext, getFileBytes, hasFile, resetFiles, setFile } from '@tests/mocks/react-native-fs';
+
+const SIZE = MODEL_LIMITS.THUMBNAIL_SIZE;
+const MODEL_ID = 'model_1';
+
+/**
+ * A renderer that fills the image with one colour.
+ */
+function solidRenderer(rgb: [number, number, number], size: number = SIZE): ThumbnailRenderer {
+  return {
+    name: 'solid',
+    render: jest.fn(() => {
+      const pixels = new Uint8Array(size * size * 4);
+      for (let i = 0; i < size * size; i++) pixels.set([...rgb, 255], i * 4);
+      return Promise.resolve(pixels);
+    }),
+  };
+}
+
+function pixel(rgba: Uint8Array, x: number, y: number): number[] {
+  const offset = (y * SIZE + x) * 4;
+  return Array.from(rgba.subarray(offset, offset + 3));
+}
+
+function thumbnail(): Uint8Array {
+  const bytes = getFileBytes(getModelPaths(MODEL_ID).thumbnail);
+  if (!bytes) throw new Error('No thumbnail written');
+  return decodeJPEG(bytes).rgba;
+}
+
+describe('ThumbnailService', () => {
+  let service: ThumbnailService;
+
+  beforeEach(async () => {
+    resetFiles();
+    await fileSystem.initializeDirectories();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(storageStatsService, 'invalidate');
+    service = new ThumbnailService();
+  });
+
+  it('renders the library model to a square JPEG on the neutral background', async () => {
+    setFile(getModelPaths(MODEL_ID).glb, buildSolidBoxGLB());
+
+    const path = await service.generateThumbnail(MODEL_ID);
+
+    expect(path).toBe(getModelPaths(MODEL_ID).thumbnail);
+    const { width, height, rgba } = decodeJPEG(getFileBytes(path) ?? new Uint8Array());
+    expect([width, height]).toEqual([SIZE, SIZE]);
+    for (const [channel, value] of pixel(rgba, 2, 2).entries()) {
+      expect(Math.abs(value - (THUMBNAIL_VIEW.background[channel] ?? 0))).toBeLessThanOrEqual(3);
+    }
+    const [r = 0, g = 0] = pixel(rgba, SIZE / 2, SIZE / 2);
+    expect(r).toBeGreaterThan(g * 2);
+    expect(storageStatsService.invalidate).toHaveBeenCalled();
+  });
+
+  it('reads the GLB from a given path or bytes', async () => {
+    setFile('/data/tmp/staged.glb', buildSolidBoxGLB());
+
+    await service.generateThumbnail(MODEL_ID, { glbPath: '/data/tmp/staged.glb' });
+    expect(hasFile(getModelPaths(MODEL_ID).thumbnail)).toBe(true);
+
+    await fileSystem.deleteFile(getModelPaths(MODEL_ID).thumbnail);
+    await service.generateThumbnail(MODEL_ID, { glbBytes: buildSolidBoxGLB() });
+    expect(hasFile(getModelPaths(MODEL_ID).thumbnail)).toBe(true);
+  });
+
+  describe('renderers', () => {
+    it('prefers the accelerated renderer', async () => {
+      const renderer = solidRenderer([0, 0, 255]);
+      service.setAcceleratedRenderer(renderer);
+
+      await service.generateThumbnail(MODEL_ID, { glbBytes: buildSolidBoxGLB() });
+
+      expect(renderer.render).toHaveBeenCalledWith(expect.anything(), expect.anything(), SIZE);
+      const [r = 0, , b = 0] = pixel(thumbnail(), SIZE / 2, SIZE / 2);
+      expect(b).toBeGreaterThan(200);
+      expect(r).toBeLessThan(30);
+    });
+
+    it.each<[string, ThumbnailRenderer]>([
+      ['fails', { name: 'broken', render: () => Promise.reject(new Error('context lost')) }],
+      ['returns the wrong size', solidRenderer([0, 0, 255], 64)],
+    ])('falls back to software when the accelerated renderer %s', async (_label, renderer) => {
+      service.setAcceleratedRenderer(renderer);
+
+      await service.generateThumbnail(MODEL_ID, { glbBytes: buildSolidBoxGLB() });
+
+      const [r = 0, g = 0] = pixel(thumbnail(), SIZE / 2, SIZE / 2);
+      expect(r).toBeGreaterThan(g * 2);
+      expect(console.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('goes back to software only when the renderer is removed', async () => {
+      const renderer = solidRenderer([0, 0, 255]);
+      service.setAcceleratedRenderer(renderer);
+      service.setAcceleratedRenderer(null);
+
+      await service.generateThumbnail(MODEL_ID, { glbBytes: buildSolidBoxGLB() });
+
+      expect(renderer.render).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('errors', () => {
+    it('rejects files that are not GLB', async () => {
+      await expect(
+        service.generateThumbnail(MODEL_ID, { glbBytes: new Uint8Array(32) })
+      ).rejects.toMatchObject({ name: 'ThumbnailError', code: 'INVALID_DATA', modelId: MODEL_ID });
+      expect(hasFile(getModelPaths(MODEL_ID).thumbnail)).toBe(false);
+    });
+
+    it('reports a missing model file', async () => {
+      const error = await service.generateThumbnail(MODEL_ID).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ThumbnailError);
+      expect(error).toMatchObject({ code: 'IO_ERROR' });
+    });
+
+    it('reports a failed write', async () => {
+      failNext('writeFile', getModelPaths(MODEL_ID).thumbnail);
+
+      await expect(
+        service.generateThumbnail(MODEL_ID, { glbBytes: buildSolidBoxGLB() })
+      ).rejects.toMatchObject({ code: 'IO_ERROR' });
+      expect(storageStatsService.invalidate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  decodeBase64,
+  encodeBase64,
+  GLBParseError,
+  parseGLB,
+  readAccessor,
+  readGLBMetadata,
+  readImageSize,
+} from '@core/services/glbParser';
+import { boxDocument, buildBoxGLB, buildGLB, pngHeader } from '@tests/helpers/glb';
+
+/**
+ * JPEG header bytes: SOI, an APP0 segment, then SOF0 with the size.
+ */
+function jpegHeader(width: number, height: number): Uint8Array {
+  const app0 = [0xff, 0xe0, 0x00, 0x10, ...new Array<number>(14).fill(0)];
+  const sof0 = [0xff, 0xc0, 0x00, 0x11, 8, height >> 8, height & 0xff, width >> 8, width & 0xff];
+  return new Uint8Array([0xff, 0xd8, ...app0, ...sof0, ...new Array<number>(8).fill(0)]);
+}
+
+/**
+ * The box document with changes applied to its JSON.
+ */
+function modifiedBox(change: (json: Record<string, unknown>) => void): Uint8Array {
+  const { json, bin } = boxDocument();
+  change(json);
+  return buildGLB(json, bin);
+}
+
+function parseError(bytes: Uint8Array): GLBParseError {
+  try {
+    readGLBMetadata(bytes);
+  } catch (error) {
+    if (error instanceof GLBParseError) return error;
+    throw error;
+  }
+  throw new Error('Expected a GLBParseError');
+}
+
+describe('parseGLB', () => {
+  it('splits the file into its chunks', () => {
+    const glb = parseGLB(buildBoxGLB());
+
+    expect(glb.version).toBe(2);
+    expect(glb.json.asset.version).toBe('2.0');
+    expect(glb.bin?.length).toBe(96);
+  });
+
+  it.each([
+    ['not GLB', new Uint8Array(16), 'INVALID_HEADER'],
+    ['truncated', buildBoxGLB().subarray(0, 40), 'INVALID_CHUNK'],
+  ])('rejects a file that is %s', (_label, bytes, code) => {
+    expect(() => parseGLB(bytes)).toThrow(expect.objectContaining({ code }));
+  });
+
+  it('rejects other container versions', () => {
+    const bytes = buildBoxGLB();
+    new DataView(bytes.buffer).setUint32(4, 1, true);
+
+    expect(() => parseGLB(bytes)).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_VERSION' }));
+  });
+
+  it('rejects a JSON chunk that is not JSON', () => {
+    const bytes = buildGLB({ asset: { version: '2.0' } });
+    bytes[20] = 0x7d;
+
+    expect(() => parseGLB(bytes)).toThrow(expect.objectContaining({ code: 'INVALID_JSON' }));
+  });
+});
+
+describe('readGLBMetadata', () => {
+  it('measures a box', () => {
+    expect(readGLBMetadata(buildBoxGLB([-1, 0, -0.5], [1, 0.8, 0.5]))).toEqual({
+      fileSize: expect.any(Number),
+      vertexCount: 8,
+      textureResolution: null,
+      hasAnimations: false,
+      boundingBox: {
+        min: [-1, 0, -0.5],
+        max: [1, 0.8, 0.5],
+        center: [0, 0.4, 0],
+        size: [2, 0.8, 1],
+      },
+    });
+  });
+
+  it('applies the node hierarchy to the bounding box', () => {
+    const bytes = modifiedBox(json => {
+      json.nodes = [
+        { children: [1], translation: [10, 0, 0], scale: [2, 2, 2] },
+        // 90 degrees about y swaps x and z
+        { mesh: 0, rotation: [0, Math.SQRT1_2, 0, Math.SQRT1_2] },
+      ];
+    });
+
+    const { boundingBox } = readGLBMetadata(bytes);
+
+    expect(boundingBox.min.map(value => Number(value.toFixed(5)))).toEqual([9, 0, -1]);
+    expect(boundingBox.max.map(value => Number(value.toFixed(5)))).toEqual([11, 2, 1]);
+  });
+
+  it('dequantizes normalized bounds', () => {
+    const bytes = modifiedBox(json => {
+      json.accessors = [
+        {
+          bufferView: 0,
+          componentType: 5122,
+          normalized: true,
+          count: 8,
+          type: 'VEC3',
+          min: [-32767, 0, -32767],
+          max: [32767, 32767, 32767],
+        },
+      ];
+    });
+
+    expect(readGLBMetadata(bytes).boundingBox.size).toEqual([2, 1, 2]);
+  });
+
+  it('reports the largest embedded texture and animations', () => {
+    const png = pngHeader(1024, 512);
+    const jpeg = jpegHeader(2048, 2048);
+    const { json, bin } = boxDocument();
+    const combined = new Uint8Array(bin.length + png.length + 3);
+    combined.set(bin);
+    combined.set(png, bin.length);
+    json.bufferViews = [
+      { buffer: 0, byteOffset: 0, byteLength: bin.length },
+      { buffer: 0, byteOffset: bin.length, byteLength: png.length },
+    ];
+    json.buffers = [{ byteLength: combined.length }];
+    json.images = [
+      { bufferView: 1, mimeType: 'image/png' },
+      { uri: `data:image/jpeg;base64,${encodeBase64(jpeg)}` },
+      { uri: 'textures/outside.png' },
+    ];
+    json.animations = [{ channels: [], samplers: [] }];
+
+    const metadata = readGLBMetadata(buildGLB(json, combined));
+
+    expect(metadata.textureResolution).toBe('2048x2048');
+    expect(metadata.hasAnimations).toBe(true);
+  });
+
+  describe('malformed files', () => {
+    it.each<[string, (json: Record<string, unknown>) => void, string]>([
+      [
+        'accessors as an object',
+        json => {
+          json.accessors = { 0: {} };
+        },
+        '/accessors',
+      ],
+      [
+        'null primitives',
+        json => {
+          json.meshes = [{ primitives: null }];
+        },
+        '/meshes/0/primitives',
+      ],
+      [
+        'a null image',
+        json => {
+          json.images = [null];
+        },
+        '/images/0',
+      ],
+      [
+        'a null material',
+        json => {
+          json.materials = [null];
+        },
+        '/materials/0',
+      ],
+      [
+        'a string extensionsRequired',
+        json => {
+          json.extensionsRequired = 'KHR_draco_mesh_compression';
+        },
+        '/extensionsRequired',
+      ],
+      [
+        'a negative byteOffset',
+        json => {
+          json.bufferViews = [{ buffer: 0, byteOffset: -4, byteLength: 96 }];
+        },
+        '/bufferViews/0/byteOffset',
+      ],
+      [
+        'a fractional byteLength',
+        json => {
+          json.bufferViews = [{ buffer: 0, byteLength: 95.5 }];
+        },
+        '/bufferViews/0/byteLength',
+      ],
+      [
+        'a string count',
+        json => {
+          (json.accessors as Record<string, unknown>[])[0]!.count = '8';
+        },
+        '/accessors/0/count',
+      ],
+      [
+        'no asset version',
+        json => {
+          json.asset = {};
+        },
+        '/asset/version',
+      ],
+    ])('rejects %s', (_label, change, pointer) => {
+      const error = parseError(modifiedBox(change));
+
+      expect(error).toMatchObject({ code: 'INVALID_JSON', pointer });
+    });
+
+    it('does not trust accessor counts beyond the buffer view', () => {
+      const error = parseError(
+        modifiedBox(json => {
+          (json.accessors as Record<string, unknown>[])[0]!.count = 1e9;
+        })
+      );
+
+      expect(error).toMatchObject({ code: 'INVALID_CHUNK', pointer: '/accessors/0' });
+      expect(error.message).toContain('holds 8');
+    });
+
+    it('rejects buffer views past the binary chunk', () => {
+      const error = parseError(
+        modifiedBox(json => {
+          json.bufferViews = [{ buffer: 0, byteOffset: 64, byteLength: 96 }];
+        })
+      );
+
+      expect(error).toMatchObject({ code: 'INVALID_CHUNK', pointer: '/bufferViews/0' });
+    });
+
+    it('rejects positions that refer to a missing accessor', () => {
+      const error = parseError(
+        modifiedBox(json => {
+          json.meshes = [{ primitives: [{ attributes: { POSITION: 3 } }] }];
+        })
+      );
+
+      expect(error).toMatchObject({
+        code: 'INVALID_JSON',
+        pointer: '/meshes/0/primitives/0/attributes/POSITION',
+      });
+    });
+
+    it('survives node cycles', () => {
+      const bytes = modifiedBox(json => {
+        json.nodes = [{ mesh: 0, children: [1] }, { children: [0] }];
+      });
+
+      expect(readGLBMetadata(bytes).boundingBox.size).toEqual([1, 1, 1]);
+    });
+  });
+});
+
+describe('readAccessor', () => {
+  it('reads the positions', () => {
+    const positions = readAccessor(parseGLB(buildBoxGLB([0, 0, 0], [1, 2, 3])), 0);
+
+    expect(Array.from(positions ?? []).slice(-3)).toEqual([1, 2, 3]);
+  });
+
+  it('returns null for data outside the buffer view', () => {
+    const glb = parseGLB(buildBoxGLB());
+    glb.json.accessors![0]!.count = 1e9;
+
+    expect(readAccessor(glb, 0)).toBeNull();
+  });
+});
+
+describe('readImageSize', () => {
+  it('reads PNG and JPEG headers', () => {
+    expect(readImageSize(pngHeader(640, 480))).toEqual({ width: 640, height: 480 });
+    expect(readImageSize(jpegHeader(300, 200))).toEqual({ width: 300, height: 200 });
+  });
+
+  it('returns null for other data', () => {
+    expect(readImageSize(new Uint8Array([1, 2, 3, 4]))).toBeNull();
+  });
+});
+
+describe('base64', () => {
+  it('round-trips bytes', () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253]);
+
+    expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes);
+    expect(encodeBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import { readImageSize } from '@core/services/glbParser';
+import { encodeJPEG } from '@core/services/jpegEncoder';
+import { decodeJPEG } from '@tests/helpers/jpeg';
+
+/**
+ * RGBA pixels from a colour function.
+ */
+function image(
+  width: number,
+  height: number,
+  color: (x: number, y: number) => [number, number, number]
+): Uint8Array {
+  const rgba = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rgba.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return rgba;
+}
+
+/**
+ * Largest difference of any channel between two RGBA images.
+ */
+function maxDifference(a: Uint8Array, b: Uint8Array): number {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs((a[i] ?? 0) - (b[i] ?? 0)));
+  return max;
+}
+
+/**
+ * Deterministic noise, so the tests do not depend on Math.random.
+ */
+function noise(x: number, y: number): number {
+  return ((x * 73 + y * 151 + ((x * y) % 17) * 29) * 2654435761) % 256;
+}
+
+describe('encodeJPEG', () => {
+  it('writes a baseline JPEG with the image size', () => {
+    const jpeg = encodeJPEG(
+      image(40, 24, () => [10, 20, 30]),
+      40,
+      24
+    );
+
+    expect(Array.from(jpeg.subarray(0, 2))).toEqual([0xff, 0xd8]);
+    expect(Array.from(jpeg.subarray(-2))).toEqual([0xff, 0xd9]);
+    expect(readImageSize(jpeg)).toEqual({ width: 40, height: 24 });
+  });
+
+  it('round-trips flat colours closely', () => {
+    const rgba = image(16, 16, x => (x < 8 ? [200, 40, 40] : [236, 236, 236]));
+
+    const decoded = decodeJPEG(encodeJPEG(rgba, 16, 16, 95));
+
+    expect(decoded).toMatchObject({ width: 16, height: 16 });
+    expect(maxDifference(decoded.rgba, rgba)).toBeLessThanOrEqual(4);
+  });
+
+  it('handles sizes that are not a multiple of the block size', () => {
+    const rgba = image(13, 7, (x, y) => [x * 18, y * 30, 128]);
+
+    const decoded = decodeJPEG(encodeJPEG(rgba, 13, 7, 90));
+
+    expect(decoded).toMatchObject({ width: 13, height: 7 });
+    expect(maxDifference(decoded.rgba, rgba)).toBeLessThanOrEqual(12);
+  });
+
+  it('stuffs 0xFF bytes in busy images', () => {
+    const rgba = image(32, 32, (x, y) => [noise(x, y), noise(y, x), noise(x + 1, y)]);
+
+    const jpeg = encodeJPEG(rgba, 32, 32, 100);
+    const scan = Buffer.from(jpeg).subarray(Buffer.from(jpeg).indexOf(Buffer.from([0xff, 0xda])));
+
+    expect(scan.indexOf(Buffer.from([0xff, 0x00]))).toBeGreaterThan(0);
+    // The decoder rejects an unstuffed 0xFF as a marker inside the scan
+    const decoded = decodeJPEG(jpeg);
+    expect(maxDifference(decoded.rgba, rgba)).toBeLessThanOrEqual(16);
+  });
+
+  it('trades size for quality', () => {
+    const rgba = image(32, 32, (x, y) => [noise(x, y), 90, noise(y, x)]);
+
+    const low = encodeJPEG(rgba, 32, 32, 10);
+    const high = encodeJPEG(rgba, 32, 32, 95);
+
+    expect(low.length).toBeLessThan(high.length);
+    expect(maxDifference(decodeJPEG(low).rgba, rgba)).toBeGreaterThan(
+      maxDifference(decodeJPEG(high).rgba, rgba)
+    );
+  });
+});
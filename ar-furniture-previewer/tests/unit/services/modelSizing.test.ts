@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import { suggestScale } from '@core/services/modelSizing';
+import type { LengthUnit } from '@core/types/model.types';
+
+describe('suggestScale', () => {
+  it('keeps a model that already fits its category in metres', () => {
+    expect(suggestScale([0.6, 0.9, 0.55], 'CHAIR')).toEqual({
+      unit: 'METERS',
+      scale: 1,
+      plausible: true,
+      dimensions: [0.6, 0.9, 0.55],
+    });
+  });
+
+  it.each<[LengthUnit, [number, number, number], number]>([
+    ['CENTIMETERS', [60, 90, 55], 0.01],
+    ['MILLIMETERS', [600, 900, 550], 0.001],
+    ['INCHES', [24, 36, 22], 0.0254],
+  ])('corrects a chair authored in %s', (unit, size, scale) => {
+    const suggestion = suggestScale(size, 'CHAIR');
+
+    expect(suggestion).toMatchObject({ unit, scale, plausible: true });
+    suggestion.dimensions.forEach((length, axis) => {
+      expect(length).toBeCloseTo((size[axis] ?? 0) * scale);
+    });
+  });
+
+  it('prefers the unit nearest the middle of the range when several fit', () => {
+    // 0.8 m in centimetres is at the bottom of the sofa range, 2.03 m in inches near the middle
+    expect(suggestScale([80, 30, 40], 'SOFA')).toMatchObject({ unit: 'INCHES' });
+  });
+
+  it.each<[string, [number, number, number]]>([
+    ['too large in every unit', [5000, 3000, 2000]],
+    ['too small even in metres', [0.01, 0.02, 0.01]],
+  ])('reports a model %s as implausible and leaves it unscaled', (_label, size) => {
+    expect(suggestScale(size, 'CHAIR')).toEqual({
+      unit: null,
+      scale: 1,
+      plausible: false,
+      dimensions: size,
+    });
+  });
+
+  it('reports a box with no extent as implausible', () => {
+    expect(suggestScale([0, 0, 0], 'CUSTOM')).toEqual({
+      unit: null,
+      scale: 1,
+      plausible: false,
+      dimensions: [0, 0, 0],
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from '@jest/globals';
+import type { BoundingBox } from '@core/types/model.types';
+import { computeBoundingBox, parseGLB } from '@core/services/glbParser';
+import { frameBoundingBox, renderSoftware, THUMBNAIL_VIEW } from '@core/services/softwareRenderer';
+import { buildSolidBoxGLB } from '@tests/helpers/glb';
+
+const SIZE = 32;
+
+/**
+ * Normalized device coordinates of a point seen by a camera.
+ */
+function project(matrix: number[], point: [number, number, number]): [number, number, number] {
+  const clip = [0, 1, 2, 3].map(
+    row =>
+      (matrix[row] ?? 0) * point[0] +
+      (matrix[4 + row] ?? 0) * point[1] +
+      (matrix[8 + row] ?? 0) * point[2] +
+      (matrix[12 + row] ?? 0)
+  );
+  const w = clip[3] ?? 1;
+  return [(clip[0] ?? 0) / w, (clip[1] ?? 0) / w, (clip[2] ?? 0) / w];
+}
+
+function corners(box: BoundingBox): [number, number, number][] {
+  return Array.from({ length: 8 }, (_, corner) => [
+    corner & 1 ? box.max[0] : box.min[0],
+    corner & 2 ? box.max[1] : box.min[1],
+    corner & 4 ? box.max[2] : box.min[2],
+  ]);
+}
+
+function box(min: [number, number, number], max: [number, number, number]): BoundingBox {
+  return {
+    min,
+    max,
+    center: [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2],
+    size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]],
+  };
+}
+
+function pixel(rgba: Uint8Array, x: number, y: number): number[] {
+  const offset = (y * SIZE + x) * 4;
+  return Array.from(rgba.subarray(offset, offset + 4));
+}
+
+describe('frameBoundingBox', () => {
+  it.each([
+    ['a cube', box([-0.5, 0, -0.5], [0.5, 1, 0.5])],
+    ['a flat table top', box([-1, 0.7, -0.5], [1, 0.75, 0.5])],
+    ['a tall lamp', box([-0.1, 0, -0.1], [0.1, 1.8, 0.1])],
+    ['a model away from the origin', box([10, 2, -30], [12, 3, -29])],
+  ])('fills the frame with %s less the margin', (_label, bounds) => {
+    const camera = frameBoundingBox(bounds);
+    const points = corners(bounds).map(corner => project(camera.viewProjection, corner));
+    const xs = points.map(([x]) => x);
+    const ys = points.map(([, y]) => y);
+    const zs = points.map(([, , z]) => z);
+
+    const limit = 1 - THUMBNAIL_VIEW.margin;
+    const extent = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    expect(extent / 2).toBeCloseTo(limit, 5);
+    expect(Math.max(...xs) + Math.min(...xs)).toBeCloseTo(0, 5);
+    expect(Math.max(...ys) + Math.min(...ys)).toBeCloseTo(0, 5);
+    // Inside the depth range, so nothing is clipped
+    expect(Math.min(...zs)).toBeGreaterThan(-1);
+    expect(Math.max(...zs)).toBeLessThan(1);
+  });
+
+  it('looks down at the front right of the model', () => {
+    const { eye, target } = frameBoundingBox(box([-0.5, 0, -0.5], [0.5, 1, 0.5]));
+
+    expect(eye[0]).toBeGreaterThan(target[0]);
+    expect(eye[1]).toBeGreaterThan(target[1]);
+    expect(eye[2]).toBeGreaterThan(target[2]);
+  });
+});
+
+describe('renderSoftware', () => {
+  function render(glbBytes: Uint8Array, supersample?: number): Uint8Array {
+    const glb = parseGLB(glbBytes);
+    const camera = frameBoundingBox(computeBoundingBox(glb.json));
+    return renderSoftware(glb, camera, SIZE, supersample ? { supersample } : {});
+  }
+
+  it('draws the model in its colour over the background', () => {
+    const rgba = render(buildSolidBoxGLB());
+
+    expect(rgba).toHaveLength(SIZE * SIZE * 4);
+    expect(pixel(rgba, 0, 0)).toEqual([...THUMBNAIL_VIEW.background, 255]);
+    expect(pixel(rgba, SIZE - 1, SIZE - 1)).toEqual([...THUMBNAIL_VIEW.background, 255]);
+    const [r = 0, g = 0, b = 0, a] = pixel(rgba, SIZE / 2, SIZE / 2);
+    expect(r).toBeGreaterThan(g * 2);
+    expect(r).toBeGreaterThan(b * 2);
+    expect(a).toBe(255);
+  });
+
+  it('shades each visible face by its angle to the light', () => {
+    const rgba = render(buildSolidBoxGLB(undefined, undefined, [0.6, 0.6, 0.6, 1]));
+
+    const shades = new Set<number>();
+    for (let i = 0; i < rgba.length; i += 4) {
+      if (rgba[i] !== THUMBNAIL_VIEW.background[0]) shades.add(rgba[i] ?? 0);
+    }
+    expect(shades.size).toBeGreaterThan(2);
+  });
+
+  it('smooths edges when supersampling', () => {
+    const countShades = (rgba: Uint8Array): number => {
+      const shades = new Set<number>();
+      for (let i = 0; i < rgba.length; i += 4) shades.add(rgba[i] ?? 0);
+      return shades.size;
+    };
+
+    expect(countShades(render(buildSolidBoxGLB(), 4))).toBeGreaterThan(
+      countShades(render(buildSolidBoxGLB(), 1))
+    );
+  });
+
+  it('skips primitives whose data cannot be read', () => {
+    const glb = parseGLB(buildSolidBoxGLB());
+    const camera = frameBoundingBox(computeBoundingBox(glb.json));
+    // Indices past the end of their buffer view
+    glb.json.accessors![1]!.count = 1000;
+
+    const rgba = renderSoftware(glb, camera, SIZE);
+
+    for (let i = 0; i < rgba.length; i += 4) {
+      expect(rgba[i]).toBe(THUMBNAIL_VIEW.background[0]);
+    }
+  });
+});
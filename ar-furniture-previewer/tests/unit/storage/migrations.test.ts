@@ -0,0 +1,254 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getMigrationBackupKey, getScenePaths, STORAGE_KEYS } from '@core/constants/paths';
+import { useSettingsStore } from '@core/stores/useSettingsStore';
+import {
+  getModelIndex,
+  getSceneIndex,
+  getSettings,
+} from '@infrastructure/storage/asyncStorageHelpers';
+import {
+  MigrationError,
+  STORAGE_MIGRATIONS,
+  StorageMigrator,
+  type StorageMigration,
+} from '@infrastructure/storage/migrations';
+import { failNext, getFile, resetFiles } from '@tests/mocks/react-native-fs';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+/**
+ * A stored value as an older (or the current) app version left it.
+ */
+interface Fixture {
+  file: string;
+  key: keyof typeof STORAGE_KEYS;
+  data: { version: number };
+}
+
+const FIXTURES: Fixture[] = readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith('.json'))
+  .sort()
+  .map(file => ({
+    file,
+    ...(JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf8')) as Omit<Fixture, 'file'>),
+  }));
+
+async function store(key: string, value: unknown): Promise<void> {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+}
+
+async function stored(key: string): Promise<unknown> {
+  const raw = await AsyncStorage.getItem(key);
+  return raw === null ? null : JSON.parse(raw);
+}
+
+describe('storage migrations', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetFiles();
+  });
+
+  describe('fixtures', () => {
+    it('cover every stored version of every key', () => {
+      const expected = Object.entries(STORAGE_MIGRATIONS).flatMap(([key, plan]) =>
+        [...plan.migrations.map(migration => migration.fromVersion), plan.version].map(
+          version => `${key}@${version}`
+        )
+      );
+      const actual = FIXTURES.map(({ key, data }) => `${STORAGE_KEYS[key]}@${data.version}`);
+
+      expect(actual.sort()).toEqual(expected.sort());
+    });
+
+    it.each(FIXTURES.map(fixture => [fixture.file, fixture] as const))(
+      'migrates %s to the current version',
+      async (_file, { key, data }) => {
+        const storageKey = STORAGE_KEYS[key];
+        const plan = STORAGE_MIGRATIONS[storageKey];
+        await store(storageKey, data);
+
+        await new StorageMigrator().migrate(storageKey);
+
+        expect(await stored(storageKey)).toMatchObject({ version: plan?.version });
+      }
+    );
+  });
+
+  describe('the current app reads migrated data', () => {
+    function fixture(file: string): Fixture {
+      const found = FIXTURES.find(candidate => candidate.file === file);
+      if (!found) throw new Error(`No fixture ${file}`);
+      return found;
+    }
+
+    it('model index v1', async () => {
+      await store(STORAGE_KEYS.MODEL_INDEX, fixture('model-index.v1.json').data);
+
+      await new StorageMigrator().migrate(STORAGE_KEYS.MODEL_INDEX);
+
+      expect((await getModelIndex()).models).toEqual([
+        expect.objectContaining({ name: 'Armchair', category: 'CHAIR' }),
+      ]);
+    });
+
+    it('scene index v1 moves screenshots to files', async () => {
+      await store(STORAGE_KEYS.SCENE_INDEX, fixture('scene-index.v1.json').data);
+
+      await new StorageMigrator().migrate(STORAGE_KEYS.SCENE_INDEX);
+
+      const { scenes } = await getSceneIndex();
+      const path = getScenePaths('scene-with-screenshot').thumbnail;
+      expect(scenes).toEqual([
+        expect.objectContaining({ id: 'scene-with-screenshot', thumbnailPath: path }),
+        expect.objectContaining({ id: 'scene-without-screenshot', thumbnailPath: null }),
+      ]);
+      expect(scenes[0]).not.toHaveProperty('thumbnailBase64');
+      expect(scenes[0]?.objects).toHaveLength(1);
+      expect(getFile(path, 'base64')).toBe('/9j/4AAQSkZJRgABAQAAAQABAAD/2Q==');
+    });
+
+    it('settings v1', async () => {
+      await store(STORAGE_KEYS.SETTINGS, fixture('settings.v1.json').data);
+
+      await new StorageMigrator().migrateAll();
+
+      expect(await getSettings()).toMatchObject({ theme: 'light', onboardingComplete: true });
+    });
+
+    it('settings store v0', async () => {
+      // Resetting writes the defaults, so it goes before the stored state
+      useSettingsStore.getState().reset();
+      await store(STORAGE_KEYS.SETTINGS_STORE, fixture('settings-store.v0.json').data);
+
+      await new StorageMigrator().migrate(STORAGE_KEYS.SETTINGS_STORE);
+      await useSettingsStore.persist.rehydrate();
+
+      expect(useSettingsStore.getState()).toMatchObject({
+        theme: 'dark',
+        onboardingComplete: true,
+        lastARSession: 1717300000000,
+        analyticsEnabled: false,
+        isHydrated: true,
+      });
+    });
+  });
+
+  describe('StorageMigrator', () => {
+    const KEY = STORAGE_KEYS.MODEL_INDEX;
+
+    function hop(fromVersion: number, change: Record<string, unknown> = {}): StorageMigration {
+      return {
+        fromVersion,
+        toVersion: fromVersion + 1,
+        migrate: jest.fn((data: unknown) =>
+          Promise.resolve({ ...(data as object), ...change, version: fromVersion + 1 })
+        ),
+      };
+    }
+
+    it('runs each hop in order and keeps a backup of the original', async () => {
+      const migrator = new StorageMigrator({
+        [KEY]: { version: 3, migrations: [hop(2, { b: true }), hop(1, { a: true })] },
+      });
+      await store(KEY, { version: 1, models: [] });
+
+      await migrator.migrate(KEY);
+
+      expect(await stored(KEY)).toEqual({ version: 3, models: [], a: true, b: true });
+      expect(await stored(getMigrationBackupKey(KEY))).toEqual({
+        fromVersion: 1,
+        toVersion: 3,
+        createdAt: expect.any(Number),
+        data: JSON.stringify({ version: 1, models: [] }),
+      });
+    });
+
+    it('leaves current and missing data alone', async () => {
+      const migration = hop(1);
+      const migrator = new StorageMigrator({ [KEY]: { version: 2, migrations: [migration] } });
+
+      await migrator.migrate(KEY);
+      await store(KEY, { version: 2 });
+      await new StorageMigrator({ [KEY]: { version: 2, migrations: [migration] } }).migrate(KEY);
+
+      expect(migration.migrate).not.toHaveBeenCalled();
+      expect(await AsyncStorage.getItem(getMigrationBackupKey(KEY))).toBeNull();
+    });
+
+    it('keeps the old data when a hop fails, and retries on the next call', async () => {
+      const failing = hop(1);
+      jest.mocked(failing.migrate).mockRejectedValueOnce(new Error('boom'));
+      const migrator = new StorageMigrator({ [KEY]: { version: 2, migrations: [failing] } });
+      await store(KEY, { version: 1 });
+
+      await expect(migrator.migrate(KEY)).rejects.toMatchObject({
+        name: 'MigrationError',
+        code: 'MIGRATION_FAILED',
+        key: KEY,
+      });
+      expect(await stored(KEY)).toEqual({ version: 1 });
+
+      await migrator.migrate(KEY);
+      expect(await stored(KEY)).toEqual({ version: 2 });
+    });
+
+    it('keeps the old data when a file write in a hop fails', async () => {
+      const thumbnail = getScenePaths('scene-with-screenshot').thumbnail;
+      failNext('writeFile', thumbnail);
+      const original = FIXTURES.find(candidate => candidate.file === 'scene-index.v1.json')?.data;
+      await store(STORAGE_KEYS.SCENE_INDEX, original);
+
+      await expect(new StorageMigrator().migrate(STORAGE_KEYS.SCENE_INDEX)).rejects.toBeInstanceOf(
+        MigrationError
+      );
+
+      expect(await stored(STORAGE_KEYS.SCENE_INDEX)).toEqual(original);
+    });
+
+    it.each<[string, string, string]>([
+      ['is not JSON', '{', 'INVALID_DATA'],
+      ['has no version', '{"models":[]}', 'INVALID_DATA'],
+      ['is newer than the app', '{"version":9}', 'UNSUPPORTED_VERSION'],
+      ['has no migration path', '{"version":0}', 'MIGRATION_FAILED'],
+    ])('rejects data that %s', async (_label, raw, code) => {
+      await AsyncStorage.setItem(KEY, raw);
+
+      await expect(
+        new StorageMigrator({ [KEY]: { version: 2, migrations: [hop(1)] } }).migrate(KEY)
+      ).rejects.toMatchObject({ code });
+      expect(await AsyncStorage.getItem(KEY)).toBe(raw);
+    });
+
+    it('rejects a hop that does not produce its version', async () => {
+      const wrong: StorageMigration = {
+        fromVersion: 1,
+        toVersion: 2,
+        migrate: data => Promise.resolve(data),
+      };
+      await store(KEY, { version: 1 });
+
+      await expect(
+        new StorageMigrator({ [KEY]: { version: 2, migrations: [wrong] } }).migrate(KEY)
+      ).rejects.toMatchObject({ code: 'MIGRATION_FAILED' });
+    });
+
+    it('migrates every key even when one fails', async () => {
+      await AsyncStorage.setItem(STORAGE_KEYS.MODEL_INDEX, '{"version":9}');
+      await store(STORAGE_KEYS.SCENE_INDEX, { version: 1 });
+      const migrator = new StorageMigrator({
+        [STORAGE_KEYS.MODEL_INDEX]: { version: 1, migrations: [] },
+        [STORAGE_KEYS.SCENE_INDEX]: { version: 2, migrations: [hop(1)] },
+      });
+
+      const errors = await migrator.migrateAll();
+
+      expect(errors).toEqual([
+        expect.objectContaining({ key: STORAGE_KEYS.MODEL_INDEX, code: 'UNSUPPORTED_VERSION' }),
+      ]);
+      expect(await stored(STORAGE_KEYS.SCENE_INDEX)).toEqual({ version: 2 });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, type AppStateStatus } from 'react-native';
+import type { PlacedObject, SceneDraft } from '@core/types/scene.types';
+import { STORAGE_KEYS } from '@core/constants/paths';
+import { SCENE_LIMITS } from '@core/constants/limits';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import {
+  installSceneAutosave,
+  loadRecoverableDraft,
+  SCENE_DRAFT_VERSION,
+} from '@infrastructure/storage/sceneAutosave';
+
+const CHAIR: PlacedObject = {
+  id: 'obj_1',
+  modelId: 'chair',
+  transform: { position: [0, 0, -1], rotation: [1, 0, 0, 0], scale: [1, 1, 1] },
+  placedAt: 1,
+};
+
+const DRAFT: SceneDraft = {
+  version: SCENE_DRAFT_VERSION,
+  savedAt: 1,
+  currentScene: null,
+  placedObjects: [CHAIR],
+  isDirty: true,
+};
+
+async function storedDraft(): Promise<SceneDraft | null> {
+  const value = await AsyncStorage.getItem(STORAGE_KEYS.SCENE_DRAFT);
+  return value === null ? null : (JSON.parse(value) as SceneDraft);
+}
+
+async function storeDraft(draft: unknown): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEYS.SCENE_DRAFT, JSON.stringify(draft));
+}
+
+describe('installSceneAutosave', () => {
+  let appStateListener: ((status: AppStateStatus) => void) | null;
+  let removeAppStateListener: jest.Mock;
+  let uninstall: (() => void) | null;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    await AsyncStorage.clear();
+    useSceneStore.getState().reset();
+    appStateListener = null;
+    removeAppStateListener = jest.fn();
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, listener) => {
+      appStateListener = listener as (status: AppStateStatus) => void;
+      return { remove: removeAppStateListener };
+    });
+    uninstall = installSceneAutosave();
+  });
+
+  afterEach(() => {
+    uninstall?.();
+    jest.useRealTimers();
+  });
+
+  it('writes the draft once edits settle', async () => {
+    useSceneStore.getState().addObject(CHAIR);
+    await jest.advanceTimersByTimeAsync(SCENE_LIMITS.AUTOSAVE_DEBOUNCE_MS - 1);
+    expect(await storedDraft()).toBeNull();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(await storedDraft()).toMatchObject({
+      version: SCENE_DRAFT_VERSION,
+      placedObjects: [CHAIR],
+      currentScene: null,
+      isDirty: true,
+    });
+  });
+
+  it('writes immediately when the app leaves the foreground', async () => {
+    useSceneStore.getState().addObject(CHAIR);
+    appStateListener?.('background');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(await storedDraft()).toMatchObject({ placedObjects: [CHAIR] });
+  });
+
+  it('removes the draft once the layout is saved', async () => {
+    useSceneStore.getState().addObject(CHAIR);
+    await jest.advanceTimersByTimeAsync(SCENE_LIMITS.AUTOSAVE_DEBOUNCE_MS);
+
+    useSceneStore.getState().saveScene('Living room');
+    await jest.advanceTimersByTimeAsync(SCENE_LIMITS.AUTOSAVE_DEBOUNCE_MS);
+
+    expect(await storedDraft()).toBeNull();
+  });
+
+  it('ignores changes that do not touch the layout', async () => {
+    useSceneStore.getState().selectObject('obj_1');
+    await jest.advanceTimersByTimeAsync(SCENE_LIMITS.AUTOSAVE_DEBOUNCE_MS);
+
+    expect(await storedDraft()).toBeNull();
+  });
+
+  it('writes the pending draft when removed', async () => {
+    useSceneStore.getState().addObject(CHAIR);
+    uninstall?.();
+    uninstall = null;
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(await storedDraft()).toMatchObject({ placedObjects: [CHAIR] });
+    expect(removeAppStateListener).toHaveBeenCalled();
+  });
+
+  it('keeps going after a failed write', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('disk full'));
+
+    useSceneStore.getState().addObject(CHAIR);
+    await jest.advanceTimersByTimeAsync(SCENE_LIMITS.AUTOSAVE_DEBOUNCE_MS);
+    expect(warn).toHaveBeenCalledWith('[sceneAutosave] Failed to write draft:', expect.any(Error));
+
+    useSceneStore.getState().updateObjectTransform('obj_1', {
+      ...CHAIR.transform,
+      position: [1, 0, -1],
+    });
+    await jest.advanceTimersByTimeAsync(SCENE_LIMITS.AUTOSAVE_DEBOUNCE_MS);
+    expect((await storedDraft())?.placedObjects[0]?.transform.position).toEqual([1, 0, -1]);
+  });
+});
+
+describe('loadRecoverableDraft', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('offers a draft with unsaved work', async () => {
+    await storeDraft(DRAFT);
+
+    await expect(loadRecoverableDraft()).resolves.toEqual(DRAFT);
+  });
+
+  it.each([
+    ['no draft', null],
+    ['a saved layout', { ...DRAFT, isDirty: false }],
+    ['an empty new layout', { ...DRAFT, placedObjects: [] }],
+    ['another draft version', { ...DRAFT, version: SCENE_DRAFT_VERSION + 1 }],
+  ])('offers nothing for %s', async (_label, draft) => {
+    if (draft) await storeDraft(draft);
+
+    await expect(loadRecoverableDraft()).resolves.toBeNull();
+  });
+
+  it('offers nothing for an unreadable draft', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await AsyncStorage.setItem(STORAGE_KEYS.SCENE_DRAFT, '{not json');
+
+    await expect(loadRecoverableDraft()).resolves.toBeNull();
+  });
+
+  it('brings a draft back without touching the saved scenes', async () => {
+    const saved = useSceneStore.getState().saveScene('Living room');
+    useSceneStore.getState().restoreDraft({ ...DRAFT, currentScene: saved });
+
+    const state = useSceneStore.getState();
+    expect(state.savedScenes).toEqual([saved]);
+    expect(state.placedObjects).toEqual([CHAIR]);
+    expect(state.isDirty).toBe(true);
+  });
+});
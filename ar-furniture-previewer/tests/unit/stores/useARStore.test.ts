@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { canTransition, selectCoachingHint, useARStore } from '@core/stores/useARStore';
+
+describe('useARStore', () => {
+  let warn: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    useARStore.getState().reset();
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  /**
+   * Start a session with normal tracking.
+   */
+  function startSession(): void {
+    const store = useARStore.getState();
+    store.setStatus('INITIALIZING');
+    store.setInitialized(true);
+    store.setTrackingState('NORMAL');
+  }
+
+  describe('transitions', () => {
+    it('only becomes READY through INITIALIZING', () => {
+      useARStore.getState().setInitialized(true);
+
+      expect(useARStore.getState()).toMatchObject({ status: 'IDLE', isInitialized: false });
+      expect(warn).toHaveBeenCalledWith('[useARStore] Rejected status transition IDLE -> READY');
+      expect(canTransition('IDLE', 'INITIALIZING')).toBe(true);
+    });
+
+    it('rejects transitions outside the table and leaves the state alone', () => {
+      useARStore.getState().pauseSession();
+
+      expect(useARStore.getState().status).toBe('IDLE');
+      expect(warn).toHaveBeenCalledWith('[useARStore] Rejected status transition IDLE -> PAUSED');
+    });
+
+    it('always allows ERROR, BRIDGE_LOST and IDLE', () => {
+      for (const to of ['ERROR', 'BRIDGE_LOST', 'IDLE'] as const) {
+        expect(canTransition('INITIALIZING', to)).toBe(true);
+      }
+      expect(canTransition('INITIALIZING', 'SURFACE_DETECTED')).toBe(false);
+    });
+  });
+
+  describe('tracking', () => {
+    it('goes LIMITED and back to the surface it had', () => {
+      startSession();
+      useARStore.getState().setSurfaceDetected(true, [0, 1, 0]);
+
+      useARStore.getState().setTrackingState('LIMITED', 'EXCESSIVE_MOTION');
+      expect(useARStore.getState()).toMatchObject({
+        status: 'LIMITED',
+        trackingReason: 'EXCESSIVE_MOTION',
+      });
+
+      useARStore.getState().setTrackingState('NORMAL');
+      expect(useARStore.getState()).toMatchObject({
+        status: 'SURFACE_DETECTED',
+        trackingReason: null,
+      });
+    });
+
+    it('records a surface found while limited for when tracking recovers', () => {
+      startSession();
+      useARStore.getState().setTrackingState('LIMITED', 'INSUFFICIENT_FEATURES');
+      useARStore.getState().setSurfaceDetected(true, [0, 1, 0]);
+      expect(useARStore.getState().status).toBe('LIMITED');
+
+      useARStore.getState().setTrackingState('NORMAL');
+      expect(useARStore.getState().status).toBe('SURFACE_DETECTED');
+    });
+
+    it('resumes into the status tracking calls for', () => {
+      startSession();
+      useARStore.getState().pauseSession();
+      useARStore.getState().setTrackingState('LIMITED', 'RELOCALIZING');
+
+      useARStore.getState().resumeSession();
+      expect(useARStore.getState().status).toBe('LIMITED');
+    });
+  });
+
+  describe('errors and recovery', () => {
+    it('clears an error back into the running session', () => {
+      startSession();
+      useARStore.getState().setError('NETWORK_ERROR', 'offline');
+      expect(useARStore.getState()).toMatchObject({ status: 'ERROR', errorMessage: 'offline' });
+
+      useARStore.getState().clearError();
+      expect(useARStore.getState()).toMatchObject({ status: 'READY', error: null });
+    });
+
+    it('drops session state when the bridge is lost', () => {
+      startSession();
+      useARStore.getState().setSurfaceDetected(true, [0, 1, 0]);
+      useARStore.getState().startPlacing('chair');
+
+      useARStore.getState().markBridgeLost();
+      expect(useARStore.getState()).toMatchObject({
+        status: 'BRIDGE_LOST',
+        isInitialized: false,
+        surfaceDetected: false,
+        placementMode: 'NONE',
+      });
+
+      useARStore.getState().setInitialized(true);
+      expect(useARStore.getState().status).toBe('READY');
+    });
+  });
+
+  describe('canPlaceObject', () => {
+    it('needs a surface and no placement in progress', () => {
+      startSession();
+      expect(useARStore.getState().canPlaceObject()).toBe(false);
+
+      useARStore.getState().setSurfaceDetected(true, [0, 1, 0]);
+      expect(useARStore.getState().canPlaceObject()).toBe(true);
+
+      useARStore.getState().startPlacing('chair');
+      expect(useARStore.getState().canPlaceObject()).toBe(false);
+    });
+  });
+
+  describe('selectCoachingHint', () => {
+    it('asks for a surface while READY', () => {
+      expect(
+        selectCoachingHint({ status: 'READY', trackingState: 'NORMAL', trackingReason: null })
+      ).toBe('FIND_SURFACE');
+    });
+
+    it('explains limited tracking', () => {
+      const limited = { status: 'LIMITED', trackingState: 'LIMITED' } as const;
+      expect(selectCoachingHint({ ...limited, trackingReason: 'EXCESSIVE_MOTION' })).toBe(
+        'MOVE_SLOWER'
+      );
+      expect(selectCoachingHint({ ...limited, trackingReason: 'INSUFFICIENT_FEATURES' })).toBe(
+        'MORE_LIGHT'
+      );
+      expect(selectCoachingHint({ ...limited, trackingReason: 'RELOCALIZING' })).toBe(
+        'RETURN_TO_AREA'
+      );
+      expect(
+        selectCoachingHint({
+          status: 'LIMITED',
+          trackingState: 'NOT_AVAILABLE',
+          trackingReason: null,
+        })
+      ).toBe('TRACKING_LOST');
+    });
+
+    it('stays quiet once a surface is found', () => {
+      expect(
+        selectCoachingHint({
+          status: 'SURFACE_DETECTED',
+          trackingState: 'NORMAL',
+          trackingReason: null,
+        })
+      ).toBeNull();
+    });
+  });
+});
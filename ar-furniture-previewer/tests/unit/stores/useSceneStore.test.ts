@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { PlacedObject, Transform } from '@core/types/scene.types';
+import { SCENE_LIMITS } from '@core/constants/limits';
+import { useSceneStore } from '@core/stores/useSceneStore';
+
+function transformAt(x: number): Transform {
+  return { position: [x, 0, -1], rotation: [1, 0, 0, 0], scale: [1, 1, 1] };
+}
+
+function object(id: string, x = 0): PlacedObject {
+  return { id, modelId: `model_${id}`, transform: transformAt(x), placedAt: 1 };
+}
+
+function ids(): string[] {
+  return useSceneStore.getState().placedObjects.map(obj => obj.id);
+}
+
+describe('useSceneStore edit history', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    useSceneStore.getState().reset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('undoes and redoes additions', () => {
+    const scene = useSceneStore.getState();
+    scene.addObject(object('a'));
+    scene.addObject(object('b'));
+
+    expect(scene.undo()).toMatchObject({ type: 'ADD', object: { id: 'b' } });
+    expect(ids()).toEqual(['a']);
+
+    expect(scene.redo()).toMatchObject({ type: 'ADD', object: { id: 'b' } });
+    expect(ids()).toEqual(['a', 'b']);
+  });
+
+  it('puts a removed object back where it was', () => {
+    const scene = useSceneStore.getState();
+    ['a', 'b', 'c'].forEach(id => scene.addObject(object(id)));
+    scene.selectObject('b');
+    scene.removeObject('b');
+
+    scene.undo();
+    expect(ids()).toEqual(['a', 'b', 'c']);
+    // The selection is not brought back with the object
+    expect(useSceneStore.getState().selectedObjectId).toBeNull();
+  });
+
+  it('undoes clearing the scene in one step', () => {
+    const scene = useSceneStore.getState();
+    ['a', 'b'].forEach(id => scene.addObject(object(id)));
+    scene.clearObjects();
+
+    scene.undo();
+    expect(ids()).toEqual(['a', 'b']);
+    expect(useSceneStore.getState().undoStack).toHaveLength(2);
+  });
+
+  it('records nothing for clearing an empty scene', () => {
+    useSceneStore.getState().clearObjects();
+
+    expect(useSceneStore.getState().canUndo()).toBe(false);
+  });
+
+  it('returns null with nothing to undo or redo', () => {
+    expect(useSceneStore.getState().undo()).toBeNull();
+    expect(useSceneStore.getState().redo()).toBeNull();
+  });
+
+  it('forgets the redo steps on a new edit', () => {
+    const scene = useSceneStore.getState();
+    scene.addObject(object('a'));
+    scene.undo();
+    scene.addObject(object('b'));
+
+    expect(useSceneStore.getState().canRedo()).toBe(false);
+  });
+
+  it(`keeps the last ${SCENE_LIMITS.MAX_HISTORY_STEPS} steps`, () => {
+    const scene = useSceneStore.getState();
+    for (let i = 0; i < SCENE_LIMITS.MAX_HISTORY_STEPS + 5; i++) {
+      scene.addObject(object(`obj_${i}`));
+    }
+
+    const { undoStack } = useSceneStore.getState();
+    expect(undoStack).toHaveLength(SCENE_LIMITS.MAX_HISTORY_STEPS);
+    expect(undoStack[0]).toMatchObject({ object: { id: 'obj_5' } });
+  });
+
+  describe('transforms', () => {
+    beforeEach(() => {
+      useSceneStore.getState().addObject(object('a'));
+      useSceneStore.getState().clearHistory();
+    });
+
+    it('makes one step of a gesture', () => {
+      const scene = useSceneStore.getState();
+      for (const x of [1, 2, 3]) {
+        jest.advanceTimersByTime(SCENE_LIMITS.HISTORY_COALESCE_MS - 1);
+        scene.updateObjectTransform('a', transformAt(x), { coalesceKey: 'drag' });
+      }
+
+      expect(useSceneStore.getState().undoStack).toEqual([
+        expect.objectContaining({ before: transformAt(0), after: transformAt(3) }),
+      ]);
+      scene.undo();
+      expect(useSceneStore.getState().placedObjects[0]?.transform).toEqual(transformAt(0));
+    });
+
+    it('starts a new step after a pause', () => {
+      const scene = useSceneStore.getState();
+      scene.updateObjectTransform('a', transformAt(1), { coalesceKey: 'drag' });
+      jest.advanceTimersByTime(SCENE_LIMITS.HISTORY_COALESCE_MS + 1);
+      scene.updateObjectTransform('a', transformAt(2), { coalesceKey: 'drag' });
+
+      expect(useSceneStore.getState().undoStack).toHaveLength(2);
+    });
+
+    it('starts a new step for another gesture or an uncoalesced change', () => {
+      const scene = useSceneStore.getState();
+      scene.updateObjectTransform('a', transformAt(1), { coalesceKey: 'drag' });
+      scene.updateObjectTransform('a', transformAt(2), { coalesceKey: 'rotate' });
+      scene.updateObjectTransform('a', transformAt(3));
+      scene.updateObjectTransform('a', transformAt(4));
+
+      expect(useSceneStore.getState().undoStack).toHaveLength(4);
+    });
+
+    it('ignores unknown objects', () => {
+      useSceneStore.getState().updateObjectTransform('missing', transformAt(1));
+
+      expect(useSceneStore.getState().canUndo()).toBe(false);
+    });
+  });
+
+  it('records nothing while paused', () => {
+    const scene = useSceneStore.getState();
+    scene.setHistoryPaused(true);
+    scene.addObject(object('a'));
+    scene.setHistoryPaused(false);
+
+    expect(ids()).toEqual(['a']);
+    expect(useSceneStore.getState().canUndo()).toBe(false);
+  });
+
+  it('renames an object in the scene and its history', () => {
+    const scene = useSceneStore.getState();
+    scene.addObject(object('a'));
+    scene.updateObjectTransform('a', transformAt(1));
+    scene.selectObject('a');
+
+    scene.replaceObjectId('a', 'a2');
+
+    const state = useSceneStore.getState();
+    expect(ids()).toEqual(['a2']);
+    expect(state.selectedObjectId).toBe('a2');
+    expect(state.undoStack).toEqual([
+      expect.objectContaining({ type: 'ADD', object: expect.objectContaining({ id: 'a2' }) }),
+      expect.objectContaining({ type: 'TRANSFORM', objectId: 'a2' }),
+    ]);
+  });
+
+  it('drops a copy already stored under the new ID when renaming', () => {
+    const scene = useSceneStore.getState();
+    scene.addObject(object('a'));
+    scene.addObject(object('a2', 5));
+
+    scene.replaceObjectId('a', 'a2');
+
+    expect(useSceneStore.getState().placedObjects).toEqual([{ ...object('a'), id: 'a2' }]);
+  });
+
+  it('starts a fresh history for a loaded scene', () => {
+    const scene = useSceneStore.getState();
+    scene.addObject(object('a'));
+    scene.loadScene({
+      id: 'scene_1',
+      name: 'Living room',
+      thumbnailPath: null,
+      anchorId: null,
+      objects: [object('b')],
+      createdAt: 1,
+      updatedAt: 1,
+      anchorType: 'DEVICE_RELATIVE',
+    });
+
+    expect(useSceneStore.getState().canUndo()).toBe(false);
+    expect(useSceneStore.getState().isDirty).toBe(false);
+  });
+});
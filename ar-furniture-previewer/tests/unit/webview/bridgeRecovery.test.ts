@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { useARStore } from '@core/stores/useARStore';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { installBridgeRecovery } from '@infrastructure/webview/bridgeRecovery';
+import {
+  createBridgeHarness,
+  V1_READY,
+  V2_READY,
+  type BridgeHarness,
+} from '@tests/helpers/bridgeHarness';
+import { flushPromises } from '@tests/helpers/flushPromises';
+
+const HEARTBEAT = { intervalMs: 100, timeoutMs: 50, maxMissed: 2 };
+const INIT = { apiKey: 'key', enableVPS: false, debugMode: false };
+const TRANSFORM = {
+  position: [0, 0, -1] as [number, number, number],
+  rotation: [1, 0, 0, 0] as [number, number, number, number],
+  scale: [1, 1, 1] as [number, number, number],
+};
+
+describe('ARWebViewBridge heartbeat', () => {
+  let harness: BridgeHarness;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    harness = createBridgeHarness();
+  });
+
+  afterEach(() => {
+    harness.bridge.stopHeartbeat();
+    jest.useRealTimers();
+  });
+
+  it('pings a ready page and keeps the connection while it answers', async () => {
+    harness.connect();
+    const lost = jest.fn();
+    harness.bridge.onConnectionLost(lost);
+    harness.bridge.onTraffic(event => {
+      if (event.direction === 'OUT' && event.message.type === 'PING') {
+        harness.receive('PONG', { sequence: 0 }, event.message.messageId);
+      }
+    });
+    harness.bridge.startHeartbeat(HEARTBEAT);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(harness.sentTypes().filter(type => type === 'PING')).toHaveLength(10);
+    expect(lost).not.toHaveBeenCalled();
+  });
+
+  it('does not ping pages without heartbeat support', async () => {
+    harness.connect(V1_READY);
+    harness.bridge.startHeartbeat(HEARTBEAT);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(harness.sentTypes()).not.toContain('PING');
+  });
+
+  it('reloads the page after too many missed pongs', async () => {
+    harness.connect();
+    const lost = jest.fn();
+    harness.bridge.onConnectionLost(lost);
+    harness.bridge.startHeartbeat(HEARTBEAT);
+    const pending = harness.bridge
+      .sendAndWait(
+        'CAPTURE_SCENE',
+        { includeScreenshot: false, createVPSAnchor: false },
+        'SCENE_CAPTURED'
+      )
+      .catch((error: unknown) => error);
+
+    await jest.advanceTimersByTimeAsync(250);
+
+    expect(lost).toHaveBeenCalledWith('HEARTBEAT_TIMEOUT');
+    expect(harness.reloads()).toBe(1);
+    expect(harness.bridge.ready).toBe(false);
+    await expect(pending).resolves.toMatchObject({ code: 'CONNECTION_LOST' });
+  });
+
+  it('re-sends INIT_AR ahead of queued messages once the page reloads', () => {
+    harness.connect();
+    void harness.bridge.initAR(INIT);
+    harness.bridge.handleConnectionLost('PROCESS_GONE');
+    void harness.bridge.removeModel({ objectId: 'obj_1' });
+    harness.sent.length = 0;
+
+    harness.bridge.handleLoadEnd();
+    expect(harness.sentTypes()).toEqual(['INIT_AR']);
+    expect(harness.lastSent('INIT_AR').payload).toMatchObject(INIT);
+
+    harness.connect();
+    expect(harness.sentTypes()).toEqual(['INIT_AR', 'REMOVE_MODEL']);
+  });
+
+  it('reloads once while a reload is in progress', () => {
+    harness.connect();
+
+    harness.bridge.handleConnectionLost('PROCESS_GONE');
+    harness.bridge.handleConnectionLost('HEARTBEAT_TIMEOUT');
+
+    expect(harness.reloads()).toBe(1);
+  });
+});
+
+describe('installBridgeRecovery', () => {
+  let harness: BridgeHarness;
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    useARStore.getState().reset();
+    useSceneStore.getState().reset();
+    harness = createBridgeHarness();
+    uninstall = installBridgeRecovery(harness.bridge);
+  });
+
+  afterEach(() => {
+    uninstall();
+  });
+
+  it('marks the session lost and restores the layout on the next AR_READY', async () => {
+    harness.connect();
+    useSceneStore.getState().addObject({
+      id: 'obj_1',
+      modelId: 'chair',
+      transform: TRANSFORM,
+      placedAt: 1,
+    });
+
+    harness.bridge.handleConnectionLost('PROCESS_GONE');
+    expect(useARStore.getState().status).toBe('BRIDGE_LOST');
+
+    harness.bridge.handleLoadEnd();
+    harness.receive('AR_READY', V2_READY);
+    await flushPromises();
+
+    expect(useARStore.getState()).toMatchObject({ status: 'READY', isInitialized: true });
+    expect(harness.lastSent('RESTORE_SCENE').payload.scene.objects).toEqual([
+      { objectId: 'obj_1', modelId: 'chair', transform: TRANSFORM },
+    ]);
+  });
+
+  it('ignores AR_READY outside recovery', () => {
+    harness.connect();
+
+    expect(useARStore.getState().status).toBe('IDLE');
+    expect(harness.sentTypes()).not.toContain('RESTORE_SCENE');
+  });
+});
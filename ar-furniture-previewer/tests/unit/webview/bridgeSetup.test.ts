@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { WebViewMessageEvent } from 'react-native-webview';
+import { BRIDGE_LIMITS } from '@core/constants/limits';
+import { useARStore } from '@core/stores/useARStore';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { getBridgeWebViewProps, installARBridge } from '@infrastructure/webview/bridgeSetup';
+import { createBridgeHarness, V2_READY, type BridgeHarness } from '@tests/helpers/bridgeHarness';
+
+const INIT = { apiKey: 'key', enableVPS: false, debugMode: false };
+const TRANSFORM = {
+  position: [0, 0, -1] as [number, number, number],
+  rotation: [1, 0, 0, 0] as [number, number, number, number],
+  scale: [1, 1, 1] as [number, number, number],
+};
+
+describe('installARBridge', () => {
+  let harness: BridgeHarness;
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    useARStore.getState().reset();
+    useSceneStore.getState().reset();
+    harness = createBridgeHarness();
+    uninstall = installARBridge(harness.ref, harness.bridge);
+  });
+
+  afterEach(() => {
+    uninstall();
+    jest.useRealTimers();
+  });
+
+  /**
+   * Start a session through the installed bridge.
+   */
+  function startSession(): void {
+    void harness.bridge.initAR(INIT).catch(() => undefined);
+    harness.receive('AR_READY', V2_READY, harness.lastSent('INIT_AR').messageId);
+  }
+
+  it('attaches the bridge to the WebView', () => {
+    void harness.bridge.initAR(INIT).catch(() => undefined);
+
+    expect(harness.sentTypes()).toEqual(['INIT_AR']);
+  });
+
+  it('publishes the session and protocol to the AR store', () => {
+    startSession();
+
+    expect(useARStore.getState()).toMatchObject({
+      status: 'READY',
+      isInitialized: true,
+      protocol: expect.objectContaining({ version: 2 }),
+    });
+  });
+
+  it('mirrors page events into the scene store', () => {
+    startSession();
+    harness.receive('MODEL_PLACED', { objectId: 'obj_1', modelId: 'chair', transform: TRANSFORM });
+
+    expect(useSceneStore.getState().placedObjects.map(obj => obj.id)).toEqual(['obj_1']);
+  });
+
+  it('reloads after missed heartbeats and restores the layout', async () => {
+    startSession();
+    harness.receive('MODEL_PLACED', { objectId: 'obj_1', modelId: 'chair', transform: TRANSFORM });
+
+    const { HEARTBEAT_INTERVAL_MS, HEARTBEAT_TIMEOUT_MS, HEARTBEAT_MAX_MISSED } = BRIDGE_LIMITS;
+    await jest.advanceTimersByTimeAsync(
+      (HEARTBEAT_INTERVAL_MS + HEARTBEAT_TIMEOUT_MS) * (HEARTBEAT_MAX_MISSED + 1)
+    );
+
+    expect(harness.sentTypes()).toContain('PING');
+    expect(harness.reloads()).toBe(1);
+    expect(useARStore.getState().status).toBe('BRIDGE_LOST');
+
+    getBridgeWebViewProps(harness.bridge).onLoadEnd({} as never);
+    expect(harness.sentTypes().at(-1)).toBe('INIT_AR');
+
+    harness.receive('AR_READY', V2_READY, harness.lastSent('INIT_AR').messageId);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(useARStore.getState().isInitialized).toBe(true);
+    expect(harness.lastSent('RESTORE_SCENE').payload.scene.objects).toEqual([
+      expect.objectContaining({ objectId: 'obj_1', modelId: 'chair' }),
+    ]);
+  });
+
+  it('stops when uninstalled', async () => {
+    startSession();
+    uninstall();
+    const sentBefore = harness.sent.length;
+
+    await jest.advanceTimersByTimeAsync(BRIDGE_LIMITS.HEARTBEAT_INTERVAL_MS * 3);
+    harness.receive('MODEL_PLACED', { objectId: 'obj_1', modelId: 'chair', transform: TRANSFORM });
+
+    expect(harness.sent).toHaveLength(sentBefore);
+    expect(harness.bridge.ready).toBe(false);
+    expect(useSceneStore.getState().placedObjects).toEqual([]);
+  });
+});
+
+describe('getBridgeWebViewProps', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('forwards WebView events to the bridge', () => {
+    const harness = createBridgeHarness();
+    const props = getBridgeWebViewProps(harness.bridge);
+    const listener = jest.fn();
+    harness.bridge.on('AR_READY', listener);
+    harness.attach();
+
+    props.onMessage({
+      nativeEvent: {
+        data: JSON.stringify({
+          type: 'AR_READY',
+          payload: V2_READY,
+          messageId: 'page_ready',
+          timestamp: Date.now(),
+        }),
+      },
+    } as WebViewMessageEvent);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    const loads = jest.fn();
+    harness.bridge.onPageLoad(loads);
+    props.onLoadStart({} as never);
+    expect(loads).toHaveBeenCalledTimes(1);
+
+    props.onRenderProcessGone({} as never);
+    expect(harness.reloads()).toBe(1);
+    expect(harness.bridge.ready).toBe(false);
+  });
+
+  it('treats an iOS content process exit as a lost connection', () => {
+    const harness = createBridgeHarness();
+    const lost = jest.fn();
+    harness.bridge.onConnectionLost(lost);
+    harness.connect();
+
+    getBridgeWebViewProps(harness.bridge).onContentProcessDidTerminate({} as never);
+
+    expect(lost).toHaveBeenCalledWith('PROCESS_GONE');
+  });
+});
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { RNToWebViewMessage } from '@core/types/webview.types';
+import { BRIDGE_LIMITS } from '@core/constants/limits';
+import type { TransferProgress } from '@infrastructure/webview/chunkedTransfer';
+import { crc32, splitIntoChunks } from '@infrastructure/webview/chunkedTransfer';
+import { createBridgeHarness, type BridgeHarness } from '@tests/helpers/bridgeHarness';
+
+const CHUNK = BRIDGE_LIMITS.TRANSFER_CHUNK_SIZE;
+const DATA = `${'A'.repeat(CHUNK)}${'B'.repeat(CHUNK)}CCCC`;
+
+interface PageBehaviour {
+  /** Chunks the page already holds */
+  held?: number[];
+  /** Chunks whose first delivery fails its checksum */
+  corrupt?: number[];
+  /** Chunks whose first delivery is never acknowledged */
+  dropped?: number[];
+  /** Chunks reported missing at the first commit */
+  missingAtCommit?: number[];
+}
+
+/**
+ * Answer transfer messages the way the AR page does.
+ */
+function answerTransfers(harness: BridgeHarness, behaviour: PageBehaviour = {}): void {
+  const held = new Set(behaviour.held ?? []);
+  const corrupt = new Set(behaviour.corrupt ?? []);
+  const dropped = new Set(behaviour.dropped ?? []);
+  let missingAtCommit = behaviour.missingAtCommit ?? [];
+
+  harness.bridge.onTraffic(event => {
+    if (event.direction !== 'OUT') return;
+    const message = event.message as RNToWebViewMessage;
+    const { messageId } = message;
+
+    switch (message.type) {
+      case 'TRANSFER_BEGIN':
+        harness.receive(
+          'TRANSFER_READY',
+          { transferId: message.payload.transferId, receivedChunks: [...held] },
+          messageId
+        );
+        break;
+      case 'TRANSFER_CHUNK': {
+        const { transferId, index } = message.payload;
+        if (dropped.delete(index)) return;
+        const ok =
+          !corrupt.delete(index) && crc32(message.payload.data) === message.payload.checksum;
+        if (ok) held.add(index);
+        harness.receive(
+          'TRANSFER_ACK',
+          { transferId, index, status: ok ? 'OK' : 'CHECKSUM_MISMATCH' },
+          messageId
+        );
+        break;
+      }
+      case 'TRANSFER_COMMIT':
+        missingAtCommit.forEach(index => held.delete(index));
+        harness.receive(
+          'TRANSFER_COMMITTED',
+          { transferId: message.payload.transferId, missingChunks: missingAtCommit },
+          messageId
+        );
+        missingAtCommit = [];
+        break;
+      default:
+        break;
+    }
+  });
+}
+
+function sentChunkIndexes(harness: BridgeHarness): number[] {
+  return harness.sent.flatMap(message =>
+    message.type === 'TRANSFER_CHUNK' ? [message.payload.index] : []
+  );
+}
+
+describe('chunked transfer helpers', () => {
+  it('computes the standard CRC32', () => {
+    expect(crc32('123456789')).toBe(0xcbf43926);
+    expect(crc32('')).toBe(0);
+  });
+
+  it('splits data into indexed, checksummed chunks', () => {
+    const chunks = splitIntoChunks('abcdefg', 3);
+    expect(chunks.map(chunk => chunk.data)).toEqual(['abc', 'def', 'g']);
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2]);
+    expect(chunks[2]?.checksum).toBe(crc32('g'));
+    expect(splitIntoChunks('', 3)).toEqual([]);
+  });
+});
+
+describe('ARWebViewBridge.transferBinary', () => {
+  let harness: BridgeHarness;
+  let progress: TransferProgress[];
+
+  beforeEach(() => {
+    harness = createBridgeHarness();
+    harness.connect();
+    progress = [];
+    harness.bridge.onTransferProgress(event => progress.push(event));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends every chunk and commits with the full checksum', async () => {
+    answerTransfers(harness);
+
+    const transferId = await harness.bridge.transferBinary(DATA, 'xfer_test');
+
+    expect(transferId).toBe('xfer_test');
+    expect(harness.lastSent('TRANSFER_BEGIN').payload).toEqual({
+      transferId,
+      totalLength: DATA.length,
+      chunkCount: 3,
+      checksum: crc32(DATA),
+    });
+    expect(sentChunkIndexes(harness)).toEqual([0, 1, 2]);
+    expect(harness.lastSent('TRANSFER_COMMIT').payload).toEqual({
+      transferId,
+      checksum: crc32(DATA),
+    });
+    expect(progress.at(-1)).toMatchObject({
+      status: 'COMMITTED',
+      sentChunks: 3,
+      bytesSent: DATA.length,
+      totalBytes: DATA.length,
+    });
+  });
+
+  it('resumes by skipping chunks the page already holds', async () => {
+    answerTransfers(harness, { held: [0, 2] });
+
+    await harness.bridge.transferBinary(DATA, 'xfer_resume');
+
+    expect(sentChunkIndexes(harness)).toEqual([1]);
+    expect(progress[0]).toMatchObject({ status: 'IN_PROGRESS', sentChunks: 2 });
+  });
+
+  it('resends chunks that fail their checksum', async () => {
+    answerTransfers(harness, { corrupt: [1] });
+
+    await harness.bridge.transferBinary(DATA);
+
+    expect(sentChunkIndexes(harness)).toEqual([0, 1, 1, 2]);
+  });
+
+  it('resends chunks reported missing at commit, then commits again', async () => {
+    answerTransfers(harness, { missingAtCommit: [0] });
+
+    await harness.bridge.transferBinary(DATA);
+
+    expect(sentChunkIndexes(harness)).toEqual([0, 1, 2, 0]);
+    expect(harness.sentTypes().filter(type => type === 'TRANSFER_COMMIT')).toHaveLength(2);
+  });
+
+  it('resends a chunk whose acknowledgement times out', async () => {
+    jest.useFakeTimers();
+    answerTransfers(harness, { dropped: [2] });
+
+    const transfer = harness.bridge.transferBinary(DATA);
+    await jest.advanceTimersByTimeAsync(BRIDGE_LIMITS.TRANSFER_CHUNK_TIMEOUT_MS);
+
+    await expect(transfer).resolves.toEqual(expect.any(String));
+    expect(sentChunkIndexes(harness)).toEqual([0, 1, 2, 2]);
+  });
+
+  it('fails and aborts when the page reports a transfer error', async () => {
+    harness.bridge.onTraffic(event => {
+      if (event.direction === 'OUT' && event.message.type === 'TRANSFER_BEGIN') {
+        harness.receive(
+          'TRANSFER_ERROR',
+          { transferId: 'xfer_fail', code: 'OUT_OF_MEMORY', message: 'No room' },
+          event.message.messageId
+        );
+      }
+    });
+
+    await expect(harness.bridge.transferBinary(DATA, 'xfer_fail')).rejects.toMatchObject({
+      code: 'REMOTE_ERROR',
+      remoteCode: 'OUT_OF_MEMORY',
+    });
+    expect(harness.lastSent('TRANSFER_ABORT').payload).toEqual({
+      transferId: 'xfer_fail',
+      reason: 'No room',
+    });
+    expect(progress.at(-1)?.status).toBe('FAILED');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { MessageHandlerRegistry } from '@infrastructure/webview/messageHandlers';
+import { createBridgeHarness } from '@tests/helpers/bridgeHarness';
+
+describe('MessageHandlerRegistry', () => {
+  it('passes the typed payload and the message to handlers', () => {
+    const harness = createBridgeHarness();
+    const handlers = new MessageHandlerRegistry(harness.bridge);
+    const handler = jest.fn();
+    handlers.on('TRACKING_STATE', handler);
+
+    harness.connect();
+    harness.receive('TRACKING_STATE', { state: 'LIMITED', reason: 'EXCESSIVE_MOTION' }, 'msg_1');
+
+    expect(handler).toHaveBeenCalledWith(
+      { state: 'LIMITED', reason: 'EXCESSIVE_MOTION' },
+      expect.objectContaining({ type: 'TRACKING_STATE', replyTo: 'msg_1' })
+    );
+  });
+
+  it('only calls handlers for their own type', () => {
+    const harness = createBridgeHarness();
+    const handlers = new MessageHandlerRegistry(harness.bridge);
+    const pong = jest.fn();
+    handlers.on('PONG', pong);
+
+    harness.connect();
+    harness.receive('TRACKING_STATE', { state: 'NORMAL' });
+
+    expect(pong).not.toHaveBeenCalled();
+  });
+
+  it('stops calling handlers once unsubscribed', () => {
+    const harness = createBridgeHarness();
+    const handlers = new MessageHandlerRegistry(harness.bridge);
+    const handler = jest.fn();
+    const unsubscribe = handlers.on('SURFACE_DETECTED', handler);
+
+    harness.connect();
+    unsubscribe();
+    harness.receive('SURFACE_DETECTED', {
+      surfaceType: 'horizontal',
+      position: [0, 0, 0],
+      normal: [0, 1, 0],
+    });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
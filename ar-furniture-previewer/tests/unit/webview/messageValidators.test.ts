@@ -0,0 +1,125 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+  isWebViewToRNMessageType,
+  payloadValidators,
+  validateWebViewMessage,
+} from '@infrastructure/webview/messageValidators';
+import { createBridgeHarness, V1_READY, V2_READY } from '@tests/helpers/bridgeHarness';
+
+const TRANSFORM = { position: [0, 0, -1], rotation: [1, 0, 0, 0], scale: [1, 1, 1] };
+
+function envelope(type: string, payload: unknown): Record<string, unknown> {
+  return { type, payload, messageId: 'page_1', timestamp: 1 };
+}
+
+describe('payloadValidators', () => {
+  it('accepts well-formed payloads', () => {
+    expect(payloadValidators.AR_READY(V2_READY)).toBe(true);
+    expect(
+      payloadValidators.MODEL_PLACED({ modelId: 'chair', objectId: 'obj_1', transform: TRANSFORM })
+    ).toBe(true);
+    expect(payloadValidators.TRACKING_STATE({ state: 'NORMAL' })).toBe(true);
+    expect(payloadValidators.TRACKING_STATE({ state: 'LIMITED', reason: 'RELOCALIZING' })).toBe(
+      true
+    );
+    expect(
+      payloadValidators.SCENE_CAPTURED({ objects: [], screenshot: null, vpsAnchorId: 'anchor' })
+    ).toBe(true);
+  });
+
+  it('rejects missing and mistyped fields', () => {
+    expect(payloadValidators.PONG({})).toBe(false);
+    expect(payloadValidators.PONG({ sequence: '1' })).toBe(false);
+    expect(payloadValidators.PONG({ sequence: Number.NaN })).toBe(false);
+    expect(payloadValidators.PONG(null)).toBe(false);
+    expect(payloadValidators.PONG([1])).toBe(false);
+  });
+
+  it('rejects tuples of the wrong length', () => {
+    const transform = { ...TRANSFORM, rotation: [0, 0, 0] };
+    expect(payloadValidators.MODEL_PLACED({ modelId: 'chair', objectId: 'obj_1', transform })).toBe(
+      false
+    );
+  });
+
+  it('rejects codes outside their union', () => {
+    expect(
+      payloadValidators.AR_ERROR({ code: 'CAMERA_BROKEN', message: 'x', recoverable: false })
+    ).toBe(false);
+    expect(payloadValidators.TRACKING_STATE({ state: 'LIMITED', reason: 'DARK' })).toBe(false);
+  });
+
+  it('accepts optional fields only when absent or well-typed', () => {
+    expect(payloadValidators.AR_READY(V1_READY)).toBe(true);
+    expect(payloadValidators.AR_READY({ ...V2_READY, protocolVersion: '2' })).toBe(false);
+    expect(
+      payloadValidators.AR_READY({
+        ...V2_READY,
+        capabilities: { ...V2_READY.capabilities, modelTransports: ['CARRIER_PIGEON'] },
+      })
+    ).toBe(false);
+  });
+});
+
+describe('validateWebViewMessage', () => {
+  it('returns the message when envelope and payload are valid', () => {
+    const result = validateWebViewMessage({
+      ...envelope('PONG', { sequence: 3 }),
+      replyTo: 'msg_1',
+    });
+    expect(result).toEqual({
+      valid: true,
+      message: expect.objectContaining({ type: 'PONG', replyTo: 'msg_1' }),
+    });
+  });
+
+  it.each([
+    ['a non-object', 'PONG', 'Message is not an object', null],
+    ['a missing type', { payload: {} }, 'Missing message type', null],
+    ['an unknown type', envelope('HELLO', {}), 'Unknown message type: HELLO', 'HELLO'],
+    [
+      'a missing messageId',
+      { type: 'PONG', payload: { sequence: 1 }, timestamp: 1 },
+      'Missing messageId',
+      'PONG',
+    ],
+    [
+      'a bad replyTo',
+      { ...envelope('PONG', { sequence: 1 }), replyTo: 7 },
+      'Invalid replyTo',
+      'PONG',
+    ],
+    ['a bad payload', envelope('PONG', { sequence: 'x' }), 'Invalid payload for PONG', 'PONG'],
+  ])('rejects %s', (_case, value, reason, type) => {
+    expect(validateWebViewMessage(value)).toEqual({ valid: false, reason, type });
+  });
+
+  it('only knows inbound message types', () => {
+    expect(isWebViewToRNMessageType('AR_READY')).toBe(true);
+    expect(isWebViewToRNMessageType('INIT_AR')).toBe(false);
+    expect(isWebViewToRNMessageType('toString')).toBe(false);
+  });
+});
+
+describe('ARWebViewBridge invalid messages', () => {
+  it('drops invalid messages and reports them to diagnostics', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const harness = createBridgeHarness();
+    harness.connect();
+    const handler = jest.fn();
+    const reports = jest.fn();
+    harness.bridge.on('PONG', handler);
+    harness.bridge.onInvalidMessage(reports);
+
+    harness.receiveRaw('not json');
+    harness.receiveRaw(JSON.stringify(envelope('PONG', { sequence: 'x' })));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(reports).toHaveBeenCalledTimes(2);
+    expect(harness.bridge.getDiagnostics()).toMatchObject({
+      invalidMessageCount: 2,
+      invalidByType: { UNKNOWN: 1, PONG: 1 },
+      lastInvalid: { reason: 'Invalid payload for PONG', type: 'PONG' },
+    });
+  });
+});
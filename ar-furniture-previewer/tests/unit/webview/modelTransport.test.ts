@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import type { ARReadyPayload, ModelTransport, ScenePayload } from '@core/types/webview.types';
+import { getModelPaths } from '@core/constants/paths';
+import { createBridgeHarness, V1_READY, V2_READY } from '@tests/helpers/bridgeHarness';
+import { resetFiles, setFile } from '@tests/mocks/react-native-fs';
+
+const SCENE: ScenePayload = {
+  sceneId: 'scene_1',
+  vpsAnchorId: null,
+  anchorType: 'DEVICE_RELATIVE',
+  objects: [
+    {
+      objectId: 'obj_1',
+      modelId: 'chair',
+      transform: { position: [0, 0, 0], rotation: [1, 0, 0, 0], scale: [1, 1, 1] },
+    },
+    {
+      objectId: 'obj_2',
+      modelId: 'chair',
+      transform: { position: [1, 0, 0], rotation: [1, 0, 0, 0], scale: [1, 1, 1] },
+    },
+  ],
+};
+
+function readyWith(...modelTransports: ModelTransport[]): ARReadyPayload {
+  return { ...V2_READY, capabilities: { ...V2_READY.capabilities, modelTransports } };
+}
+
+describe('ARWebViewBridge model transport', () => {
+  beforeEach(() => {
+    resetFiles();
+    setFile(getModelPaths('chair').glb, 'Z2xURg==', 'base64');
+  });
+
+  it('picks the best transport the page supports', () => {
+    const cases = [
+      [readyWith('INLINE', 'CHUNKED', 'FILE_URL'), 'FILE_URL'],
+      [readyWith('INLINE', 'CHUNKED'), 'CHUNKED'],
+      [readyWith('INLINE'), 'INLINE'],
+      [V1_READY, 'INLINE'],
+    ] as const;
+
+    cases.forEach(([ready, transport]) => {
+      const harness = createBridgeHarness();
+      harness.connect(ready);
+      expect(harness.bridge.modelTransport).toBe(transport);
+    });
+  });
+
+  it('never uses file URLs with v1 pages', () => {
+    const harness = createBridgeHarness();
+    harness.connect({
+      ...V1_READY,
+      capabilities: { ...V1_READY.capabilities, modelTransports: ['FILE_URL'] },
+    });
+    expect(harness.bridge.modelTransport).toBe('INLINE');
+  });
+
+  it('loads stored models by file URL without reading them', async () => {
+    const harness = createBridgeHarness();
+    harness.connect(readyWith('INLINE', 'FILE_URL'));
+
+    await harness.bridge.loadStoredModel({ modelId: 'chair' });
+
+    expect(harness.lastSent('LOAD_MODEL').payload).toEqual({
+      modelId: 'chair',
+      glbUri: `file://${getModelPaths('chair').glb}`,
+    });
+  });
+
+  it('inlines stored models for pages without other transports', async () => {
+    const harness = createBridgeHarness();
+    harness.connect(readyWith('INLINE'));
+
+    await harness.bridge.loadStoredModel({ modelId: 'chair' });
+
+    expect(harness.lastSent('LOAD_MODEL').payload).toEqual({
+      modelId: 'chair',
+      glbData: 'Z2xURg==',
+    });
+  });
+
+  it('restores stored scenes with one URI per distinct model', async () => {
+    const harness = createBridgeHarness();
+    harness.connect(readyWith('FILE_URL'));
+
+    await harness.bridge.restoreStoredScene(SCENE);
+
+    expect(harness.lastSent('RESTORE_SCENE').payload).toEqual({
+      scene: SCENE,
+      models: {},
+      modelUris: { chair: `file://${getModelPaths('chair').glb}` },
+    });
+  });
+
+  it('restores stored scenes inline for v1 pages', async () => {
+    const harness = createBridgeHarness();
+    harness.connect(V1_READY);
+
+    await harness.bridge.restoreStoredScene(SCENE);
+
+    expect(harness.lastSent('RESTORE_SCENE').payload).toEqual({
+      scene: SCENE,
+      models: { chair: 'Z2xURg==' },
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BRIDGE_LIMITS } from '@core/constants/limits';
+import { createBridgeHarness, type BridgeHarness } from '@tests/helpers/bridgeHarness';
+
+const INIT = { apiKey: 'key', enableVPS: false, debugMode: false };
+
+describe('ARWebViewBridge outbound queue', () => {
+  let harness: BridgeHarness;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    harness = createBridgeHarness();
+  });
+
+  it('holds ready-gated messages until AR_READY and delivers them in order', async () => {
+    const first = harness.bridge.removeModel({ objectId: 'obj_1' });
+    const second = harness.bridge.removeModel({ objectId: 'obj_2' });
+    harness.attach();
+
+    expect(harness.bridge.queuedCount).toBe(2);
+    expect(harness.sent).toEqual([]);
+
+    harness.connect();
+
+    await expect(Promise.all([first, second])).resolves.toEqual([undefined, undefined]);
+    expect(harness.sent.map(message => message.payload)).toEqual([
+      { objectId: 'obj_1' },
+      { objectId: 'obj_2' },
+    ]);
+    expect(harness.bridge.queuedCount).toBe(0);
+  });
+
+  it('delivers attach-gated messages as soon as a WebView is attached', async () => {
+    const init = harness.bridge.initAR(INIT);
+    expect(harness.bridge.queuedCount).toBe(1);
+
+    harness.attach();
+
+    await init;
+    expect(harness.sentTypes()).toEqual(['INIT_AR']);
+  });
+
+  it('keeps send order even when a later message could go sooner', () => {
+    harness.attach();
+    void harness.bridge.removeModel({ objectId: 'obj_1' });
+    void harness.bridge.initAR(INIT);
+
+    expect(harness.sent).toEqual([]);
+
+    harness.bridge.setReady(true);
+
+    expect(harness.sentTypes()).toEqual(['REMOVE_MODEL', 'INIT_AR']);
+  });
+
+  it('drops drop-policy messages that cannot be delivered now', async () => {
+    harness.attach();
+
+    await expect(
+      harness.bridge.captureScene({ includeScreenshot: false, createVPSAnchor: false })
+    ).rejects.toMatchObject({ code: 'DROPPED', requestType: 'CAPTURE_SCENE' });
+    expect(harness.bridge.queuedCount).toBe(0);
+  });
+
+  it('replaces queued latest-policy messages with the newest one', async () => {
+    const older = harness.bridge.pauseAR();
+    const newer = harness.bridge.pauseAR();
+
+    await expect(older).rejects.toMatchObject({ code: 'DROPPED' });
+    expect(harness.bridge.queuedCount).toBe(1);
+
+    harness.connect();
+    await newer;
+    expect(harness.sentTypes()).toEqual(['PAUSE_AR']);
+  });
+
+  it('rejects messages once the queue is full', async () => {
+    for (let i = 0; i < BRIDGE_LIMITS.OUTBOUND_QUEUE_MAX; i++) {
+      void harness.bridge.removeModel({ objectId: `obj_${i}` });
+    }
+
+    await expect(harness.bridge.removeModel({ objectId: 'overflow' })).rejects.toMatchObject({
+      code: 'QUEUE_FULL',
+    });
+    expect(harness.bridge.queuedCount).toBe(BRIDGE_LIMITS.OUTBOUND_QUEUE_MAX);
+  });
+
+  it('rejects queued messages when the bridge detaches', async () => {
+    harness.attach();
+    const queued = harness.bridge.removeModel({ objectId: 'obj_1' });
+
+    harness.bridge.detach();
+
+    await expect(queued).rejects.toMatchObject({ code: 'DETACHED' });
+    expect(harness.bridge.queuedCount).toBe(0);
+  });
+
+  it('counts queue time against request timeouts', async () => {
+    jest.useFakeTimers();
+    const request = harness.bridge.sendAndWait(
+      'LOAD_MODEL',
+      { modelId: 'chair', glbData: 'AAAA' },
+      'MODEL_PLACED',
+      1000
+    );
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(request).rejects.toMatchObject({ code: 'TIMEOUT' });
+    jest.useRealTimers();
+  });
+});
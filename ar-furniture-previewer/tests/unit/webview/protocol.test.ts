@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { useARStore } from '@core/stores/useARStore';
+import {
+  getInboundMessageTypes,
+  negotiateProtocol,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '@infrastructure/webview/protocol';
+import { installProtocolSync } from '@infrastructure/webview/protocolSync';
+import {
+  createBridgeHarness,
+  V1_READY,
+  V2_READY,
+  type BridgeHarness,
+} from '@tests/helpers/bridgeHarness';
+
+describe('negotiateProtocol', () => {
+  it('treats pages without a version as v1 with the original message set', () => {
+    const protocol = negotiateProtocol(V1_READY);
+
+    expect(protocol?.version).toBe(1);
+    expect(protocol?.messageTypes).not.toContain('PING');
+    expect(protocol?.features).toEqual(['SCANNING']);
+  });
+
+  it('enables v2 features the page declares', () => {
+    expect(negotiateProtocol(V2_READY)?.features).toEqual([
+      'CORRELATED_REPLIES',
+      'CHUNKED_TRANSFER',
+      'FILE_URL_MODELS',
+      'HEARTBEAT',
+      'SCANNING',
+    ]);
+  });
+
+  it('requires the transfer messages for chunked transfer', () => {
+    const protocol = negotiateProtocol({
+      ...V2_READY,
+      messageTypes: (V2_READY.messageTypes ?? []).filter(type => type !== 'TRANSFER_COMMIT'),
+    });
+    expect(protocol?.features).not.toContain('CHUNKED_TRANSFER');
+  });
+
+  it('ignores message types the app does not know', () => {
+    const protocol = negotiateProtocol({ ...V2_READY, messageTypes: ['INIT_AR', 'TELEPORT'] });
+    expect(protocol?.messageTypes).toEqual(['INIT_AR']);
+  });
+
+  it('rejects versions the app does not speak', () => {
+    expect(negotiateProtocol({ ...V2_READY, protocolVersion: 99 })).toBeNull();
+  });
+
+  it('announces what the app speaks', () => {
+    expect(SUPPORTED_PROTOCOL_VERSIONS).toEqual([2, 1]);
+    expect(getInboundMessageTypes()).toContain('PONG');
+  });
+});
+
+describe('ARWebViewBridge protocol handshake', () => {
+  let harness: BridgeHarness;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    useARStore.getState().reset();
+    harness = createBridgeHarness();
+  });
+
+  it('announces its versions and inbound types in INIT_AR', () => {
+    harness.attach();
+    void harness.bridge.initAR({ apiKey: 'key', enableVPS: false, debugMode: false });
+
+    expect(harness.lastSent('INIT_AR').payload).toMatchObject({
+      protocolVersions: [2, 1],
+      messageTypes: getInboundMessageTypes(),
+    });
+  });
+
+  it('rejects messages the negotiated protocol lacks', async () => {
+    harness.connect(V1_READY);
+
+    await expect(harness.bridge.send('PING', { sequence: 1 })).rejects.toMatchObject({
+      code: 'UNSUPPORTED',
+      requestType: 'PING',
+    });
+    expect(harness.sentTypes()).not.toContain('PING');
+  });
+
+  it('rechecks messages queued before the handshake when flushing', async () => {
+    harness.attach();
+    const remove = harness.bridge.removeModel({ objectId: 'obj_1' });
+    const begin = harness.bridge.send('TRANSFER_BEGIN', {
+      transferId: 'xfer_1',
+      totalLength: 4,
+      chunkCount: 1,
+      checksum: 0,
+    });
+
+    harness.receive('AR_READY', V1_READY);
+
+    await expect(begin).rejects.toMatchObject({ code: 'UNSUPPORTED' });
+    await expect(remove).resolves.toBeUndefined();
+    expect(harness.sentTypes()).toEqual(['REMOVE_MODEL']);
+  });
+
+  it('rejects queued requests when the page speaks no supported version', async () => {
+    const uninstall = installProtocolSync(harness.bridge);
+    harness.attach();
+    const remove = harness.bridge.removeModel({ objectId: 'obj_1' });
+    const ready = jest.fn();
+    harness.bridge.on('AR_READY', ready);
+
+    harness.receive('AR_READY', { ...V2_READY, protocolVersion: 3 });
+
+    await expect(remove).rejects.toMatchObject({ code: 'UNSUPPORTED' });
+    expect(ready).not.toHaveBeenCalled();
+    expect(harness.bridge.ready).toBe(false);
+    expect(useARStore.getState()).toMatchObject({ protocol: null, error: 'PROTOCOL_MISMATCH' });
+    uninstall();
+  });
+
+  it('publishes the negotiated protocol to the AR store', () => {
+    const uninstall = installProtocolSync(harness.bridge);
+
+    harness.connect();
+
+    expect(useARStore.getState().hasFeature('HEARTBEAT')).toBe(true);
+    expect(useARStore.getState().protocol?.version).toBe(2);
+    uninstall();
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BridgeError } from '@infrastructure/webview/ARWebViewBridge';
+import { createBridgeHarness, V1_READY, type BridgeHarness } from '@tests/helpers/bridgeHarness';
+
+const CAPTURE = { includeScreenshot: false, createVPSAnchor: false };
+const CAPTURED = { objects: [], screenshot: null, vpsAnchorId: null };
+
+describe('ARWebViewBridge reply correlation', () => {
+  let harness: BridgeHarness;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    harness = createBridgeHarness();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resolves each request with the reply addressed to it', async () => {
+    harness.connect();
+    const { bridge } = harness;
+
+    const first = bridge.sendAndWait('CAPTURE_SCENE', CAPTURE, 'SCENE_CAPTURED');
+    const second = bridge.sendAndWait('CAPTURE_SCENE', CAPTURE, 'SCENE_CAPTURED');
+    const [firstId, secondId] = harness.sent
+      .filter(message => message.type === 'CAPTURE_SCENE')
+      .map(message => message.messageId);
+
+    harness.receive('SCENE_CAPTURED', { ...CAPTURED, vpsAnchorId: 'second' }, secondId);
+    harness.receive('SCENE_CAPTURED', { ...CAPTURED, vpsAnchorId: 'first' }, firstId);
+
+    await expect(first).resolves.toMatchObject({ payload: { vpsAnchorId: 'first' } });
+    await expect(second).resolves.toMatchObject({ payload: { vpsAnchorId: 'second' } });
+  });
+
+  it('treats replies without replyTo as events on correlating pages', async () => {
+    harness.connect();
+    const request = harness.bridge.sendAndWait('CAPTURE_SCENE', CAPTURE, 'SCENE_CAPTURED', 1000);
+    const events: string[] = [];
+    harness.bridge.on('SCENE_CAPTURED', message => events.push(message.type));
+
+    harness.receive('SCENE_CAPTURED', CAPTURED);
+    jest.advanceTimersByTime(1000);
+
+    expect(events).toEqual(['SCENE_CAPTURED']);
+    await expect(request).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+
+  it('rejects with the remote error correlated to the request', async () => {
+    harness.connect();
+    const request = harness.bridge.sendAndWait(
+      'LOAD_MODEL',
+      { modelId: 'chair', glbData: 'AAAA' },
+      'MODEL_PLACED'
+    );
+
+    harness.receive(
+      'MODEL_ERROR',
+      { modelId: 'chair', code: 'INVALID_GLB', message: 'Bad GLB' },
+      harness.lastSent('LOAD_MODEL').messageId
+    );
+
+    const error = await request.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(BridgeError);
+    expect(error).toMatchObject({
+      code: 'REMOTE_ERROR',
+      requestType: 'LOAD_MODEL',
+      remoteCode: 'INVALID_GLB',
+      message: 'Bad GLB',
+    });
+  });
+
+  it('ignores error replies addressed to other requests', async () => {
+    harness.connect();
+    const request = harness.bridge.sendAndWait('CAPTURE_SCENE', CAPTURE, 'SCENE_CAPTURED');
+    const requestId = harness.lastSent('CAPTURE_SCENE').messageId;
+
+    harness.receive(
+      'AR_ERROR',
+      { code: 'UNKNOWN', message: 'Other request failed', recoverable: true },
+      'msg_other'
+    );
+    harness.receive('SCENE_CAPTURED', CAPTURED, requestId);
+
+    await expect(request).resolves.toMatchObject({ replyTo: requestId });
+  });
+
+  it('matches uncorrelated replies to the oldest request on v1 pages', async () => {
+    harness.connect(V1_READY);
+    const first = harness.bridge.sendAndWait('CAPTURE_SCENE', CAPTURE, 'SCENE_CAPTURED');
+    const second = harness.bridge.sendAndWait('CAPTURE_SCENE', CAPTURE, 'SCENE_CAPTURED');
+
+    harness.receive('SCENE_CAPTURED', { ...CAPTURED, vpsAnchorId: 'a' });
+    harness.receive('SCENE_CAPTURED', { ...CAPTURED, vpsAnchorId: 'b' });
+
+    await expect(first).resolves.toMatchObject({ payload: { vpsAnchorId: 'a' } });
+    await expect(second).resolves.toMatchObject({ payload: { vpsAnchorId: 'b' } });
+  });
+
+  it('matches uncorrelated error replies to the oldest request they can fail on v1 pages', async () => {
+    harness.connect(V1_READY);
+    const capture = harness.bridge.sendAndWait('CAPTURE_SCENE', CAPTURE, 'SCENE_CAPTURED');
+    const load = harness.bridge.sendAndWait(
+      'LOAD_MODEL',
+      { modelId: 'chair', glbData: 'AAAA' },
+      'MODEL_PLACED'
+    );
+
+    harness.receive('MODEL_ERROR', { modelId: 'chair', code: 'INVALID_GLB', message: 'Bad GLB' });
+    await expect(load).rejects.toMatchObject({
+      code: 'REMOTE_ERROR',
+      requestType: 'LOAD_MODEL',
+      remoteCode: 'INVALID_GLB',
+    });
+
+    harness.receive('AR_ERROR', { code: 'UNKNOWN', message: 'Capture failed', recoverable: true });
+    await expect(capture).rejects.toMatchObject({
+      code: 'REMOTE_ERROR',
+      requestType: 'CAPTURE_SCENE',
+      message: 'Capture failed',
+    });
+  });
+
+  it('rejects pending requests when the bridge detaches', async () => {
+    harness.connect();
+    const request = harness.bridge.sendAndWait('CAPTURE_SCENE', CAPTURE, 'SCENE_CAPTURED');
+
+    harness.bridge.detach();
+
+    await expect(request).rejects.toMatchObject({ code: 'DETACHED' });
+  });
+});
@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { ScanSession } from '@core/types/scene.types';
+import { useARStore } from '@core/stores/useARStore';
+import { useSceneStore } from '@core/stores/useSceneStore';
+import { installStoreSync } from '@infrastructure/webview/storeSync';
+import { createBridgeHarness, V2_READY, type BridgeHarness } from '@tests/helpers/bridgeHarness';
+
+const TRANSFORM = {
+  position: [0, 0, -1] as [number, number, number],
+  rotation: [1, 0, 0, 0] as [number, number, number, number],
+  scale: [1, 1, 1] as [number, number, number],
+};
+
+const SCAN: ScanSession = {
+  sessionId: 'scan_1',
+  status: 'CAPTURING',
+  photos: [],
+  coverage: 0,
+  missingAngles: [],
+  startedAt: 1,
+};
+
+const BOX = {
+  min: [0, 0, 0] as [number, number, number],
+  max: [1, 1, 1] as [number, number, number],
+  center: [0.5, 0.5, 0.5] as [number, number, number],
+  size: [1, 1, 1] as [number, number, number],
+};
+
+describe('installStoreSync', () => {
+  let harness: BridgeHarness;
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    useARStore.getState().reset();
+    useSceneStore.getState().reset();
+    harness = createBridgeHarness();
+    uninstall = installStoreSync(harness.bridge);
+    harness.attach();
+  });
+
+  afterEach(() => {
+    uninstall();
+  });
+
+  /**
+   * Send INIT_AR and answer it.
+   */
+  function startSession(): void {
+    void harness.bridge
+      .initAR({ apiKey: 'key', enableVPS: false, debugMode: false })
+      .catch(() => undefined);
+    harness.receive('AR_READY', V2_READY, harness.lastSent('INIT_AR').messageId);
+  }
+
+  function place(objectId = 'obj_1', modelId = 'chair'): void {
+    harness.receive('MODEL_PLACED', { objectId, modelId, transform: TRANSFORM });
+  }
+
+  describe('session', () => {
+    it('moves to INITIALIZING when the page loads, before it can send AR_READY', () => {
+      expect(useARStore.getState().status).toBe('INITIALIZING');
+
+      harness.receive('AR_READY', V2_READY);
+      expect(useARStore.getState().status).toBe('READY');
+
+      harness.bridge.handleLoadStart();
+      expect(useARStore.getState().status).toBe('INITIALIZING');
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it('moves to INITIALIZING when INIT_AR is sent again', () => {
+      startSession();
+
+      void harness.bridge
+        .initAR({ apiKey: 'key', enableVPS: false, debugMode: false })
+        .catch(() => undefined);
+
+      expect(useARStore.getState().status).toBe('INITIALIZING');
+    });
+
+    it('takes the capabilities from AR_READY', () => {
+      startSession();
+
+      expect(useARStore.getState()).toMatchObject({
+        status: 'READY',
+        isInitialized: true,
+        capabilities: V2_READY.capabilities,
+      });
+    });
+
+    it('records unsolicited AR errors only', () => {
+      startSession();
+      harness.receive(
+        'AR_ERROR',
+        { code: 'UNKNOWN', message: 'reply', recoverable: true },
+        'rn_request'
+      );
+      expect(useARStore.getState().status).toBe('READY');
+
+      harness.receive('AR_ERROR', {
+        code: 'CAMERA_PERMISSION_DENIED',
+        message: 'denied',
+        recoverable: false,
+      });
+      expect(useARStore.getState()).toMatchObject({
+        status: 'ERROR',
+        error: 'CAMERA_PERMISSION_DENIED',
+      });
+    });
+
+    it('tracks surfaces and drops them when tracking is lost', () => {
+      startSession();
+      harness.receive('SURFACE_DETECTED', {
+        surfaceType: 'horizontal',
+        position: [0, 0, -1],
+        normal: [0, 1, 0],
+      });
+      expect(useARStore.getState()).toMatchObject({
+        surfaceDetected: true,
+        surfaceNormal: [0, 1, 0],
+      });
+
+      harness.receive('TRACKING_STATE', { state: 'NOT_AVAILABLE' });
+      expect(useARStore.getState()).toMatchObject({
+        trackingState: 'NOT_AVAILABLE',
+        surfaceDetected: false,
+      });
+    });
+  });
+
+  describe('placed objects', () => {
+    it('adds placed objects once', () => {
+      startSession();
+      place();
+      place();
+
+      expect(useSceneStore.getState().placedObjects.map(obj => obj.id)).toEqual(['obj_1']);
+    });
+
+    it('confirms or cancels the placement in progress', () => {
+      startSession();
+      useARStore.getState().startPlacing('chair');
+      place('obj_1', 'chair');
+      expect(useARStore.getState().placementMode).not.toBe('PLACING');
+
+      useARStore.getState().startPlacing('lamp');
+      harness.receive('MODEL_ERROR', { modelId: 'lamp', code: 'INVALID_GLB', message: 'bad' });
+      expect(useARStore.getState()).toMatchObject({ placementMode: 'NONE', modelToPlace: null });
+    });
+
+    it('makes one undo step of a gesture', () => {
+      startSession();
+      place();
+      useSceneStore.getState().clearHistory();
+
+      for (const x of [0.1, 0.2, 0.3]) {
+        harness.receive('TRANSFORM_UPDATED', {
+          objectId: 'obj_1',
+          transform: { ...TRANSFORM, position: [x, 0, -1] },
+          gestureType: 'drag',
+        });
+      }
+
+      const scene = useSceneStore.getState();
+      expect(scene.getObjectById('obj_1')?.transform.position).toEqual([0.3, 0, -1]);
+      expect(scene.undoStack).toHaveLength(1);
+    });
+
+    it('ignores transforms of unknown objects', () => {
+      startSession();
+      harness.receive('TRANSFORM_UPDATED', {
+        objectId: 'obj_missing',
+        transform: TRANSFORM,
+        gestureType: 'drag',
+      });
+
+      expect(useSceneStore.getState().placedObjects).toEqual([]);
+    });
+  });
+
+  describe('scans', () => {
+    beforeEach(() => {
+      startSession();
+      useSceneStore.getState().startScan(SCAN);
+    });
+
+    it('records progress and photos for the active session', () => {
+      harness.receive('SCAN_PROGRESS', {
+        sessionId: 'scan_1',
+        photoCount: 1,
+        coverage: 25,
+        missingAngles: [[90, 360]],
+      });
+      const photo = {
+        photoId: 'photo_1',
+        imageData: '',
+        angle: 45,
+        quality: { quality: 'GOOD' as const, score: 0.9 },
+      };
+      harness.receive('SCAN_PHOTO_CAPTURED', photo);
+      harness.receive('SCAN_PHOTO_CAPTURED', photo);
+
+      expect(useSceneStore.getState().scanSession).toMatchObject({
+        coverage: 25,
+        missingAngles: [[90, 360]],
+        photos: [expect.objectContaining({ photoId: 'photo_1', angle: 45, quality: 'GOOD' })],
+      });
+    });
+
+    it('ignores events from another session', () => {
+      harness.receive('SCAN_PROGRESS', {
+        sessionId: 'scan_other',
+        photoCount: 1,
+        coverage: 50,
+        missingAngles: [],
+      });
+      harness.receive('SCAN_COMPLETE', {
+        sessionId: 'scan_other',
+        glbData: '',
+        boundingBox: BOX,
+        vertexCount: 0,
+      });
+
+      expect(useSceneStore.getState().scanSession).toMatchObject({ coverage: 0 });
+    });
+
+    it('goes back to capturing after a recoverable failure', () => {
+      useSceneStore.getState().updateScan({ status: 'PROCESSING' });
+      harness.receive('SCAN_FAILED', {
+        sessionId: 'scan_1',
+        code: 'PROCESSING_FAILED',
+        message: 'retry',
+        recoverable: true,
+      });
+      expect(useSceneStore.getState().scanSession?.status).toBe('CAPTURING');
+
+      harness.receive('SCAN_FAILED', {
+        sessionId: 'scan_1',
+        code: 'PROCESSING_FAILED',
+        message: 'fatal',
+        recoverable: false,
+      });
+      expect(useSceneStore.getState().scanSession).toBeNull();
+    });
+
+    it('ends the session when the scan completes', () => {
+      harness.receive('SCAN_COMPLETE', {
+        sessionId: 'scan_1',
+        glbData: '',
+        boundingBox: BOX,
+        vertexCount: 0,
+      });
+
+      expect(useSceneStore.getState().scanSession).toBeNull();
+    });
+  });
+
+  it('leaves the stores alone once removed', () => {
+    startSession();
+    uninstall();
+    place();
+
+    expect(useSceneStore.getState().placedObjects).toEqual([]);
+  });
+});
@@ -24,6 +24,13 @@ export interface WebViewMessage<T extends string = string, P = unknown> {
   messageId: string;
   /** Unix timestamp when message was created */
   timestamp: number;
+  /**
+   * For responses: messageId of the request this message answers.
+   * The WebView MUST echo the request's messageId here on every reply
+   * (including MODEL_ERROR, SCAN_FAILED and AR_ERROR) so concurrent
+   * requests of the same type can be told apart.
+   */
+  replyTo?: string;
 }
 
 // =============================================================================
@@ -38,14 +45,22 @@ export type InitARMessage = WebViewMessage<'INIT_AR', {
   enableVPS: boolean;
   /** Show debug overlay in development */
   debugMode: boolean;
+  /** Protocol versions the app speaks, newest first */
+  protocolVersions?: number[];
+  /** WebView → RN message types the app handles */
+  messageTypes?: string[];
 }>;
 
 /** Load a 3D model into the scene */
 export type LoadModelMessage = WebViewMessage<'LOAD_MODEL', {
   /** Model unique identifier */
   modelId: string;
-  /** Base64-encoded GLB data */
-  glbData: string;
+  /** Base64-encoded GLB data (omitted when glbTransferId is set) */
+  glbData?: string;
+  /** Committed chunked transfer holding the GLB */
+  glbTransferId?: string;
+  /** file:// URI of the GLB on device (FILE_URL transport) */
+  glbUri?: string;
   /** Initial transform (optional) */
   initialTransform?: TransformPayload;
 }>;
@@ -78,6 +93,10 @@ export type RestoreSceneMessage = WebViewMessage<'RESTORE_SCENE', {
   scene: ScenePayload;
   /** Models data (id → base64 GLB) */
   models: Record<string, string>;
+  /** Committed chunked transfers (id → transferId) */
+  modelTransferIds?: Record<string, string>;
+  /** file:// URIs of GLBs on device (id → uri, FILE_URL transport) */
+  modelUris?: Record<string, string>;
 }>;
 
 /** Start 3D scanning mode */
@@ -113,6 +132,55 @@ export type PauseARMessage = WebViewMessage<'PAUSE_AR', Record<string, never>>;
 /** Resume AR session (app foregrounded) */
 export type ResumeARMessage = WebViewMessage<'RESUME_AR', Record<string, never>>;
 
+/**
+ * Begin a chunked binary transfer (large GLB payloads).
+ * Reply: TRANSFER_READY. Reusing a transferId resumes an earlier transfer.
+ */
+export type TransferBeginMessage = WebViewMessage<'TRANSFER_BEGIN', {
+  /** Transfer identifier */
+  transferId: string;
+  /** Length of the full base64 string */
+  totalLength: number;
+  /** Number of chunks that will be sent */
+  chunkCount: number;
+  /** CRC32 of the full base64 string */
+  checksum: number;
+}>;
+
+/** One chunk of a transfer. Reply: TRANSFER_ACK */
+export type TransferChunkMessage = WebViewMessage<'TRANSFER_CHUNK', {
+  /** Transfer identifier */
+  transferId: string;
+  /** Zero-based chunk index */
+  index: number;
+  /** Base64 slice */
+  data: string;
+  /** CRC32 of this chunk's data */
+  checksum: number;
+}>;
+
+/** Assemble a transfer. Reply: TRANSFER_COMMITTED or TRANSFER_ERROR */
+export type TransferCommitMessage = WebViewMessage<'TRANSFER_COMMIT', {
+  /** Transfer identifier */
+  transferId: string;
+  /** CRC32 of the full base64 string */
+  checksum: number;
+}>;
+
+/** Discard a transfer and its buffered chunks */
+export type TransferAbortMessage = WebViewMessage<'TRANSFER_ABORT', {
+  /** Transfer identifier */
+  transferId: string;
+  /** Why the transfer was abandoned */
+  reason: string;
+}>;
+
+/** Heartbeat ping. Reply: PONG with the same sequence */
+export type PingMessage = WebViewMessage<'PING', {
+  /** Increasing ping counter */
+  sequence: number;
+}>;
+
 // Union of all RN → WebView messages
 export type RNToWebViewMessage =
   | InitARMessage
@@ -127,7 +195,12 @@ export type RNToWebViewMessage =
   | CancelScanMessage
   | ResetARMessage
   | PauseARMessage
-  | ResumeARMessage;
+  | ResumeARMessage
+  | TransferBeginMessage
+  | TransferChunkMessage
+  | TransferCommitMessage
+  | TransferAbortMessage
+  | PingMessage;
 
 // =============================================================================
 // WEBVIEW → REACT NATIVE MESSAGES
@@ -141,6 +214,13 @@ export type ARReadyMessage = WebViewMessage<'AR_READY', {
   vpsAvailable: boolean;
   /** Device AR capabilities */
   capabilities: ARCapabilities;
+  /**
+   * Highest version from INIT_AR.protocolVersions the page speaks.
+   * Pages that omit it are treated as version 1.
+   */
+  protocolVersion?: number;
+  /** RN → WebView message types the page handles (v1 set when omitted) */
+  messageTypes?: string[];
 }>;
 
 /** AR initialization failed */
@@ -267,6 +347,48 @@ export type TrackingStateMessage = WebViewMessage<'TRACKING_STATE', {
   reason?: TrackingLimitedReason;
 }>;
 
+/** Transfer accepted */
+export type TransferReadyMessage = WebViewMessage<'TRANSFER_READY', {
+  /** Transfer identifier */
+  transferId: string;
+  /** Chunks already held from an earlier attempt */
+  receivedChunks: number[];
+}>;
+
+/** Chunk received */
+export type TransferAckMessage = WebViewMessage<'TRANSFER_ACK', {
+  /** Transfer identifier */
+  transferId: string;
+  /** Chunk index */
+  index: number;
+  /** Whether the chunk matched its checksum */
+  status: 'OK' | 'CHECKSUM_MISMATCH';
+}>;
+
+/** Commit result */
+export type TransferCommittedMessage = WebViewMessage<'TRANSFER_COMMITTED', {
+  /** Transfer identifier */
+  transferId: string;
+  /** Chunks still missing; empty when the transfer is complete */
+  missingChunks: number[];
+}>;
+
+/** Transfer failed */
+export type TransferErrorMessage = WebViewMessage<'TRANSFER_ERROR', {
+  /** Transfer identifier */
+  transferId: string;
+  /** Error code */
+  code: 'CHECKSUM_MISMATCH' | 'UNKNOWN_TRANSFER' | 'OUT_OF_MEMORY' | 'UNKNOWN';
+  /** Human-readable message */
+  message: string;
+}>;
+
+/** Heartbeat reply */
+export type PongMessage = WebViewMessage<'PONG', {
+  /** Sequence of the ping being answered */
+  sequence: number;
+}>;
+
 // Union of all WebView → RN messages
 export type WebViewToRNMessage =
   | ARReadyMessage
@@ -281,7 +403,12 @@ export type WebViewToRNMessage =
   | ScanProgressMessage
   | ScanCompleteMessage
   | ScanFailedMessage
-  | TrackingStateMessage;
+  | TrackingStateMessage
+  | TransferReadyMessage
+  | TransferAckMessage
+  | TransferCommittedMessage
+  | TransferErrorMessage
+  | PongMessage;
 
 // =============================================================================
 // SHARED PAYLOAD TYPES
@@ -318,12 +445,20 @@ export interface PhotoQualityPayload {
   score: number; // 0-1 confidence
 }
 
+/**
+ * How GLB data reaches the WebView.
+ * INLINE: base64 in the message; CHUNKED: TRANSFER_* messages; FILE_URL: file:// URI.
+ */
+export type ModelTransport = 'INLINE' | 'CHUNKED' | 'FILE_URL';
+
 export interface ARCapabilities {
   surfaceDetection: boolean;
   lightEstimation: boolean;
   vps: boolean;
   scanning: boolean;
   maxObjects: number;
+  /** Model transports the page accepts (INLINE only when absent) */
+  modelTransports?: ModelTransport[];
 }
 
 // =============================================================================
@@ -336,6 +471,7 @@ export type ARErrorCode =
   | 'XRWEB_INIT_FAILED'
   | 'VPS_UNAVAILABLE'
   | 'NETWORK_ERROR'
+  | 'PROTOCOL_MISMATCH'
   | 'UNKNOWN';
 
 export type ModelErrorCode =